@@ -7,6 +7,9 @@ import { Settings } from '@ui/pages/Settings';
 import { Debug } from '@ui/pages/Debug';
 import { ExerciseMappingPage } from '@ui/pages/ExerciseMappingPage';
 import { DefaultMappingsEditor } from '@ui/pages/DefaultMappingsEditor';
+import { ExerciseHistory } from '@ui/pages/ExerciseHistory';
+import { Trends } from '@ui/pages/Trends';
+import { Programs } from '@ui/pages/Programs';
 
 function App(): React.ReactElement {
   return (
@@ -15,9 +18,12 @@ function App(): React.ReactElement {
         <Routes>
           <Route element={<MainLayout />}>
             <Route path="/" element={<Dashboard />} />
+            <Route path="/trends" element={<Trends />} />
+            <Route path="/programs" element={<Programs />} />
             <Route path="/settings" element={<Settings />} />
             <Route path="/settings/exercise-mappings" element={<ExerciseMappingPage />} />
             <Route path="/settings/default-mappings" element={<DefaultMappingsEditor />} />
+            <Route path="/exercises/:exerciseId" element={<ExerciseHistory />} />
             <Route path="/debug" element={<Debug />} />
           </Route>
         </Routes>
@@ -0,0 +1,398 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BACKUP_VERSION,
+  BackupError,
+  createProfileBackup,
+  parseBackup,
+  planBackupRestore,
+  serializeBackup,
+  type BackupTableName,
+  type ProfileBackup,
+  type RestoreContext,
+} from '../backup';
+import type {
+  AutoMatchDecision,
+  CustomExercise,
+  ExerciseMapping,
+  LearnedMatchRule,
+  Profile,
+  TrainingProgram,
+  Workout,
+} from '@db/schema';
+
+const profile: Profile = {
+  id: 'p1',
+  name: 'Alex',
+  gender: 'other',
+  hevyApiKey: 'secret',
+  lastSyncTimestamp: 1700000000,
+  goals: { 'Lateral Deltoid': 16 },
+  totalGoal: 120,
+  muscleGroupCustomization: {},
+  createdAt: new Date('2023-01-01T00:00:00Z'),
+};
+
+const workout: Workout = {
+  id: 'w1',
+  profileId: 'p1',
+  date: new Date('2024-03-04T18:00:00Z'),
+  title: 'Push',
+  sets: [
+    {
+      exerciseId: 'bench-press',
+      originalName: 'Bench Press',
+      setType: 'normal',
+      weight: 100,
+      reps: 5,
+    },
+  ],
+};
+
+const mapping: ExerciseMapping = {
+  id: 'm1',
+  profileId: 'p1',
+  originalPattern: 'cable-fly',
+  canonicalExerciseId: 'chest-fly',
+  customMuscleValues: null,
+  isIgnored: false,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+};
+
+const learnedRule: LearnedMatchRule = {
+  id: 'l1',
+  profileId: 'p1',
+  kind: 'abbreviation',
+  token: 'rdl',
+  expansion: 'romanian deadlift',
+  support: 2,
+  isEnabled: true,
+  isEdited: false,
+  createdAt: new Date('2024-02-01T00:00:00Z'),
+  updatedAt: new Date('2024-02-02T00:00:00Z'),
+};
+
+const decision: AutoMatchDecision = {
+  id: 'd1',
+  profileId: 'p1',
+  originalName: 'RDL (Gym)',
+  normalizedName: 'rdl-gym',
+  suggestedId: 'romanian-deadlift',
+  suggestedName: 'Romanian Deadlift',
+  outcome: 'accepted',
+  chosenName: null,
+  decidedAt: new Date('2024-02-01T00:00:00Z'),
+};
+
+const program: TrainingProgram = {
+  id: 'tp1',
+  profileId: 'p1',
+  name: 'Upper / Lower',
+  days: [{ id: 'day1', name: 'Upper', exercises: [{ exerciseId: 'bench-press', sets: 4 }] }],
+  createdAt: new Date('2024-02-01T00:00:00Z'),
+  updatedAt: new Date('2024-02-03T00:00:00Z'),
+};
+
+function makeBackup(): ProfileBackup {
+  return createProfileBackup(
+    profile,
+    {
+      workouts: [workout],
+      exerciseMappings: [mapping],
+      unmappedExercises: [],
+      defaultExerciseOverrides: [],
+      defaultNameMappingOverrides: [],
+      customExercises: [],
+      mappingRules: [],
+      learnedMatchRules: [],
+      autoMatchDecisions: [],
+      trainingPrograms: [],
+    },
+    new Date('2024-03-10T00:00:00Z')
+  );
+}
+
+function emptyOwners(): Record<BackupTableName, Map<string, string>> {
+  return {
+    workouts: new Map(),
+    exerciseMappings: new Map(),
+    unmappedExercises: new Map(),
+    defaultExerciseOverrides: new Map(),
+    defaultNameMappingOverrides: new Map(),
+    customExercises: new Map(),
+    mappingRules: new Map(),
+    learnedMatchRules: new Map(),
+    autoMatchDecisions: new Map(),
+    trainingPrograms: new Map(),
+  };
+}
+
+function makeContext(overrides: Partial<RestoreContext> = {}): RestoreContext {
+  let next = 0;
+  return {
+    targetProfileId: 'p2',
+    ownerById: emptyOwners(),
+    existing: {
+      exerciseMappings: [],
+      unmappedExercises: [],
+      defaultExerciseOverrides: [],
+      defaultNameMappingOverrides: [],
+      customExercises: [],
+      mappingRules: [],
+      learnedMatchRules: [],
+    },
+    generateId: () => `new-${++next}`,
+    ...overrides,
+  };
+}
+
+describe('backup', () => {
+  describe('createProfileBackup', () => {
+    it('should leave out the API key and sync cursor', () => {
+      const backup = makeBackup();
+      expect(backup.version).toBe(BACKUP_VERSION);
+      expect(backup.profile).not.toHaveProperty('hevyApiKey');
+      expect(backup.profile).not.toHaveProperty('lastSyncTimestamp');
+      expect(backup.profile.goals).toEqual({ 'Lateral Deltoid': 16 });
+    });
+  });
+
+  describe('parseBackup', () => {
+    it('should round-trip a backup and revive dates', () => {
+      const parsed = parseBackup(serializeBackup(makeBackup()));
+
+      expect(parsed.workouts[0]?.date).toEqual(workout.date);
+      expect(parsed.exerciseMappings[0]?.createdAt).toEqual(mapping.createdAt);
+      expect(parsed.profile.createdAt).toEqual(profile.createdAt);
+      expect(parsed.exportedAt).toEqual(new Date('2024-03-10T00:00:00Z'));
+    });
+
+    it('should reject files that are not backups', () => {
+      expect(() => parseBackup('not json')).toThrow(BackupError);
+      expect(() => parseBackup('{"workouts": []}')).toThrow('not a GymAnalytics backup');
+    });
+
+    it('should reject backups from a newer schema version', () => {
+      const json = serializeBackup({ ...makeBackup(), version: BACKUP_VERSION + 1 });
+      expect(() => parseBackup(json)).toThrow(/newer than supported/);
+    });
+
+    it('should reject malformed records', () => {
+      const data = JSON.parse(serializeBackup(makeBackup())) as Record<string, unknown>;
+      data.workouts = [{ ...workout, date: 'yesterday' }];
+      expect(() => parseBackup(JSON.stringify(data))).toThrow('workouts[0] has an invalid "date"');
+
+      delete data.exerciseMappings;
+      data.workouts = [];
+      expect(() => parseBackup(JSON.stringify(data))).toThrow('"exerciseMappings" is missing');
+    });
+
+    it('should restore tables added after version 1 as empty from older backups', () => {
+      const data = JSON.parse(serializeBackup(makeBackup())) as Record<string, unknown>;
+      delete data.customExercises;
+
+      expect(parseBackup(JSON.stringify({ ...data, version: 1 })).customExercises).toEqual([]);
+      expect(() => parseBackup(JSON.stringify(data))).toThrow('"customExercises" is missing');
+    });
+
+    it('should round-trip auto-match decisions and learned rules', () => {
+      const backup = {
+        ...makeBackup(),
+        learnedMatchRules: [learnedRule],
+        autoMatchDecisions: [decision],
+      };
+      const parsed = parseBackup(serializeBackup(backup));
+
+      expect(parsed.learnedMatchRules).toEqual([learnedRule]);
+      expect(parsed.autoMatchDecisions).toEqual([decision]);
+    });
+
+    it('should round-trip training programs', () => {
+      const parsed = parseBackup(serializeBackup({ ...makeBackup(), trainingPrograms: [program] }));
+
+      expect(parsed.trainingPrograms).toEqual([program]);
+    });
+
+    it('should reject programs without days or day exercises', () => {
+      const data = JSON.parse(
+        serializeBackup({ ...makeBackup(), trainingPrograms: [program] })
+      ) as Record<string, unknown>;
+
+      data.trainingPrograms = [{ ...program, days: undefined }];
+      expect(() => parseBackup(JSON.stringify(data))).toThrow(BackupError);
+      expect(() => parseBackup(JSON.stringify(data))).toThrow('trainingPrograms[0] has no days');
+
+      data.trainingPrograms = [{ ...program, days: [{ id: 'day1', name: 'Upper' }] }];
+      expect(() => parseBackup(JSON.stringify(data))).toThrow(
+        'trainingPrograms[0].days[0] has no exercises'
+      );
+    });
+
+    it('should restore auto-match learning and programs as empty from version 3 backups', () => {
+      const data = JSON.parse(serializeBackup(makeBackup())) as Record<string, unknown>;
+      delete data.learnedMatchRules;
+      delete data.autoMatchDecisions;
+      delete data.trainingPrograms;
+
+      const parsed = parseBackup(JSON.stringify({ ...data, version: 3 }));
+      expect(parsed.learnedMatchRules).toEqual([]);
+      expect(parsed.autoMatchDecisions).toEqual([]);
+      expect(parsed.trainingPrograms).toEqual([]);
+    });
+  });
+
+  describe('planBackupRestore', () => {
+    it('should move every record to the target profile keeping free IDs', () => {
+      const plan = planBackupRestore(makeBackup(), makeContext());
+
+      expect(plan.workouts[0]).toMatchObject({ id: 'w1', profileId: 'p2' });
+      expect(plan.exerciseMappings[0]).toMatchObject({ id: 'm1', profileId: 'p2' });
+      expect(plan).toMatchObject({ added: 2, replaced: 0, reassigned: 0 });
+    });
+
+    it('should give new IDs to records owned by another profile', () => {
+      const ownerById = emptyOwners();
+      ownerById.workouts.set('w1', 'p1');
+      ownerById.exerciseMappings.set('m1', 'p1');
+
+      const plan = planBackupRestore(makeBackup(), makeContext({ ownerById }));
+
+      expect(plan.workouts[0]?.id).toBe('new-1');
+      expect(plan.exerciseMappings[0]?.id).toBe('new-2');
+      expect(plan.reassigned).toBe(2);
+    });
+
+    it('should overwrite records the target profile already owns', () => {
+      const ownerById = emptyOwners();
+      ownerById.workouts.set('w1', 'p2');
+
+      const plan = planBackupRestore(makeBackup(), makeContext({ ownerById }));
+
+      expect(plan.workouts[0]?.id).toBe('w1');
+      expect(plan.replaced).toBe(1);
+    });
+
+    it('should replace customizations with the same natural key', () => {
+      const existingMapping = { ...mapping, id: 'existing', profileId: 'p2', isIgnored: true };
+      const ownerById = emptyOwners();
+      ownerById.exerciseMappings.set('m1', 'p1');
+
+      const plan = planBackupRestore(
+        makeBackup(),
+        makeContext({
+          ownerById,
+          existing: {
+            exerciseMappings: [existingMapping],
+            unmappedExercises: [],
+            defaultExerciseOverrides: [],
+            defaultNameMappingOverrides: [],
+            customExercises: [],
+            mappingRules: [],
+            learnedMatchRules: [],
+          },
+        })
+      );
+
+      expect(plan.exerciseMappings).toHaveLength(1);
+      expect(plan.exerciseMappings[0]).toMatchObject({ id: 'existing', isIgnored: false });
+      expect(plan.reassigned).toBe(0);
+    });
+
+    it('should point mappings and rules at custom exercises that got a new ID', () => {
+      const custom: CustomExercise = {
+        id: 'custom-1',
+        profileId: 'p1',
+        name: 'Landmine Press',
+        aliases: [],
+        equipment: null,
+        muscleValues: { 'Anterior Deltoid': 0.8 },
+        notes: '',
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        updatedAt: new Date('2024-01-01T00:00:00Z'),
+      };
+      const backup = {
+        ...makeBackup(),
+        exerciseMappings: [{ ...mapping, canonicalExerciseId: 'custom-1' }],
+        customExercises: [custom],
+        mappingRules: [
+          {
+            id: 'r1',
+            profileId: 'p1',
+            matchType: 'contains' as const,
+            pattern: 'landmine',
+            priority: 1,
+            canonicalExerciseId: 'custom-1',
+            isIgnored: false,
+            isEnabled: true,
+            createdAt: custom.createdAt,
+            updatedAt: custom.updatedAt,
+          },
+        ],
+      };
+      const ownerById = emptyOwners();
+      ownerById.customExercises.set('custom-1', 'p1');
+
+      const plan = planBackupRestore(backup, makeContext({ ownerById }));
+
+      expect(plan.customExercises[0]?.id).toBe('new-1');
+      expect(plan.exerciseMappings[0]?.canonicalExerciseId).toBe('new-1');
+      expect(plan.mappingRules[0]?.canonicalExerciseId).toBe('new-1');
+    });
+
+    it('should move programs to the target profile and follow custom exercises', () => {
+      const backup = {
+        ...makeBackup(),
+        customExercises: [
+          {
+            id: 'custom-1',
+            profileId: 'p1',
+            name: 'Landmine Press',
+            aliases: [],
+            equipment: null,
+            muscleValues: { 'Anterior Deltoid': 0.8 },
+            notes: '',
+            createdAt: program.createdAt,
+            updatedAt: program.updatedAt,
+          },
+        ],
+        trainingPrograms: [
+          {
+            ...program,
+            days: [{ id: 'day1', name: 'Upper', exercises: [{ exerciseId: 'custom-1', sets: 3 }] }],
+          },
+        ],
+      };
+      const ownerById = emptyOwners();
+      ownerById.customExercises.set('custom-1', 'p1');
+      ownerById.trainingPrograms.set('tp1', 'p1');
+
+      const plan = planBackupRestore(backup, makeContext({ ownerById }));
+
+      expect(plan.trainingPrograms[0]).toMatchObject({ id: 'new-2', profileId: 'p2' });
+      expect(plan.trainingPrograms[0]?.days[0]?.exercises[0]?.exerciseId).toBe('new-1');
+    });
+
+    it('should move auto-match learning to the target profile and reassign colliding IDs', () => {
+      const backup = {
+        ...makeBackup(),
+        learnedMatchRules: [learnedRule],
+        autoMatchDecisions: [decision],
+      };
+      const ownerById = emptyOwners();
+      ownerById.autoMatchDecisions.set('d1', 'p1');
+
+      const plan = planBackupRestore(
+        backup,
+        makeContext({
+          ownerById,
+          existing: {
+            ...makeContext().existing,
+            learnedMatchRules: [{ ...learnedRule, id: 'existing', profileId: 'p2' }],
+          },
+        })
+      );
+
+      expect(plan.learnedMatchRules[0]).toMatchObject({ id: 'existing', profileId: 'p2' });
+      expect(plan.autoMatchDecisions[0]).toMatchObject({ id: 'new-1', profileId: 'p2' });
+    });
+  });
+});
@@ -47,11 +47,11 @@ value1,value2,value3`;
       expect(result.workouts[0]?.sets).toHaveLength(4);
     });
 
-    it('should normalize exercise names (strip parentheses)', () => {
+    it('should normalize exercise names into variation-aware IDs', () => {
       const result = parseCsv(hevyCsv);
       const exerciseIds = result.workouts[0]?.sets.map((s) => s.exerciseId);
-      expect(exerciseIds).toContain('bench-press');
-      expect(exerciseIds).toContain('squat');
+      expect(exerciseIds).toContain('bench-press:barbell');
+      expect(exerciseIds).toContain('squat:smith-machine');
     });
 
     it('should parse weight and reps correctly', () => {
@@ -65,7 +65,7 @@ value1,value2,value3`;
       const result = parseCsv(hevyCsv);
       const warmupSet = result.workouts[0]?.sets.find((s) => s.setType === 'warmup');
       expect(warmupSet).toBeDefined();
-      expect(warmupSet?.exerciseId).toBe('squat');
+      expect(warmupSet?.exerciseId).toBe('squat:smith-machine');
     });
 
     it('should parse the workout date correctly', () => {
@@ -81,6 +81,141 @@ value1,value2,value3`;
       const firstSet = result.workouts[0]?.sets[0];
       expect(firstSet?.originalName).toBe('Bench Press (Barbell)');
     });
+
+    it('should record exercise order', () => {
+      const workout = parseCsv(hevyCsv).workouts[0];
+      expect(workout?.exercises.map((e) => e.originalName)).toEqual([
+        'Bench Press (Barbell)',
+        'Squat (Smith Machine)',
+      ]);
+      expect(workout?.sets.map((s) => s.exerciseIndex)).toEqual([0, 0, 1, 1]);
+    });
+
+    it('should preserve duration and distance for timed and distance sets', () => {
+      const csv = `"title","start_time","end_time","description","exercise_title","superset_id","exercise_notes","set_index","set_type","weight_kg","reps","distance_km","duration_seconds","rpe"
+"Conditioning","31 Dec 2025, 13:18","31 Dec 2025, 15:11","","Plank",,"Brace hard",0,"normal",,,,60,
+"Conditioning","31 Dec 2025, 13:18","31 Dec 2025, 15:11","","Rowing (Machine)",1,"",0,"normal",,,2,480,`;
+
+      const workout = parseCsv(csv).workouts[0];
+      expect(workout?.sets[0]?.durationSeconds).toBe(60);
+      expect(workout?.sets[0]?.distanceMeters).toBeUndefined();
+      expect(workout?.sets[1]?.distanceMeters).toBe(2000);
+      expect(workout?.exercises[0]?.notes).toBe('Brace hard');
+      expect(workout?.exercises[1]?.supersetId).toBe(1);
+    });
+  });
+
+  describe('parseCsv - Strong format', () => {
+    const strongCsv = `"Date","Workout Name","Duration","Exercise Name","Set Order","Weight","Reps","Distance","Seconds","Notes","Workout Notes","RPE"
+"2025-12-31 14:00:00","Push Day","1h 5m","Bench Press (Barbell)","W","60","10","0","0","","",""
+"2025-12-31 14:00:00","Push Day","1h 5m","Bench Press (Barbell)","1","100","8","0","0","","","8"
+"2025-12-31 14:00:00","Push Day","1h 5m","Bench Press (Barbell)","2","100","7","0","0","","","9.5"
+"2025-12-31 14:00:00","Push Day","1h 5m","Bench Press (Barbell)","Rest Timer","0","0","0","90","","",""
+"2025-12-31 14:00:00","Push Day","1h 5m","Lateral Raise (Dumbbell)","D","10","15","0","0","","",""
+"2025-12-29 18:30:00","Leg Day","58m","Squat (Barbell)","1","140","5","0","0","","",""
+"2025-12-29 18:30:00","Leg Day","58m","Squat (Barbell)","F","140","3","0","0","","",""`;
+
+    it('should parse Strong CSV and return correct format', () => {
+      const result = parseCsv(strongCsv);
+      expect(result.format).toBe('strong');
+    });
+
+    it('should group sets into workouts by date and workout name', () => {
+      const result = parseCsv(strongCsv);
+      expect(result.workouts).toHaveLength(2);
+      expect(result.workouts[0]?.title).toBe('Push Day');
+      expect(result.workouts[1]?.title).toBe('Leg Day');
+    });
+
+    it('should parse the workout date in local time', () => {
+      const workout = parseCsv(strongCsv).workouts[0];
+      expect(workout?.date.getFullYear()).toBe(2025);
+      expect(workout?.date.getMonth()).toBe(11);
+      expect(workout?.date.getDate()).toBe(31);
+      expect(workout?.date.getHours()).toBe(14);
+    });
+
+    it('should skip rest timer rows', () => {
+      const result = parseCsv(strongCsv);
+      expect(result.workouts[0]?.sets).toHaveLength(4);
+    });
+
+    it('should map set order letters to set types', () => {
+      const pushSets = parseCsv(strongCsv).workouts[0]?.sets ?? [];
+      expect(pushSets.map((s) => s.setType)).toEqual(['warmup', 'normal', 'normal', 'drop']);
+
+      const legSets = parseCsv(strongCsv).workouts[1]?.sets ?? [];
+      expect(legSets[1]?.setType).toBe('failure');
+    });
+
+    it('should normalize exercise names and preserve originals', () => {
+      const firstSet = parseCsv(strongCsv).workouts[0]?.sets[0];
+      expect(firstSet?.exerciseId).toBe('bench-press:barbell');
+      expect(firstSet?.originalName).toBe('Bench Press (Barbell)');
+    });
+
+    it('should parse RPE and leave it undefined when empty', () => {
+      const sets = parseCsv(strongCsv).workouts[0]?.sets ?? [];
+      expect(sets[0]?.rpe).toBeUndefined();
+      expect(sets[1]?.rpe).toBe(8);
+      expect(sets[2]?.rpe).toBe(9.5);
+    });
+
+    it('should keep weights in kg by default', () => {
+      const set = parseCsv(strongCsv).workouts[0]?.sets[1];
+      expect(set?.weight).toBe(100);
+      expect(set?.reps).toBe(8);
+    });
+
+    it('should convert weights when the caller specifies lbs', () => {
+      const set = parseCsv(strongCsv, { weightUnit: 'lbs' }).workouts[0]?.sets[1];
+      expect(set?.weight).toBeCloseTo(45.359, 3);
+    });
+
+    it('should honour the Weight Unit column over the caller default', () => {
+      const csv = `Date,Workout Name,Exercise Name,Set Order,Weight,Weight Unit,Reps,RPE
+2025-12-31 14:00:00,Push Day,Bench Press,1,225,lbs,5,
+2025-12-31 14:00:00,Push Day,Bench Press,2,100,kg,5,`;
+
+      const sets = parseCsv(csv).workouts[0]?.sets ?? [];
+      expect(sets[0]?.weight).toBeCloseTo(102.058, 3);
+      expect(sets[1]?.weight).toBe(100);
+    });
+
+    it('should detect the unit from the weight header', () => {
+      const csv = `Date,Workout Name,Exercise Name,Set Order,Weight (lbs),Reps
+2025-12-31 14:00:00,Push Day,Bench Press,1,100,5`;
+
+      const set = parseCsv(csv, { weightUnit: 'kg' }).workouts[0]?.sets[0];
+      expect(set?.weight).toBeCloseTo(45.359, 3);
+    });
+
+    it('should parse seconds and distance', () => {
+      const csv = `Date,Workout Name,Exercise Name,Set Order,Weight,Reps,Distance,Seconds
+2025-12-31 14:00:00,Core,Plank,1,0,0,0,75
+2025-12-31 14:00:00,Core,Running,1,0,0,5,1500`;
+
+      const sets = parseCsv(csv).workouts[0]?.sets ?? [];
+      expect(sets[0]?.durationSeconds).toBe(75);
+      expect(sets[0]?.distanceMeters).toBeUndefined();
+      expect(sets[1]?.distanceMeters).toBe(5000);
+    });
+
+    it('should generate the same workout ID on re-import', () => {
+      const first = parseCsv(strongCsv).workouts[0]?.id;
+      const second = parseCsv(strongCsv).workouts[0]?.id;
+      expect(first).toBe(second);
+    });
+
+    it('should give differently named workouts with the same start time different IDs', () => {
+      const csv = `Date,Workout Name,Exercise Name,Set Order,Weight,Reps
+2025-12-31 14:00:00,Push Day,Bench Press (Barbell),1,100,8
+2025-12-31 14:00:00,Pull Day,Pull Up,1,0,10`;
+
+      const ids = parseCsv(csv).workouts.map((w) => w.id);
+      expect(ids).toHaveLength(2);
+      expect(new Set(ids).size).toBe(2);
+    });
   });
 
   describe('parseCsv - multiple workouts', () => {
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDateRange,
+  formatDateRange,
+  getCalendarWeekRange,
+  getDaysInRange,
+  getLastDaysRange,
+  getRangeLengthInDays,
+  getRangeWeeks,
+  parseLocalDateKey,
+  rangeContains,
+  resolveDateWindow,
+  shiftDateRange,
+  toLocalDateKey,
+} from '../date-range';
+
+// Wednesday, March 13 2024, mid-afternoon
+const NOW = new Date(2024, 2, 13, 15, 30);
+
+describe('date-range', () => {
+  describe('createDateRange', () => {
+    it('should expand to whole days', () => {
+      const range = createDateRange(new Date(2024, 2, 1, 10), new Date(2024, 2, 3, 8));
+      expect(range.start).toEqual(new Date(2024, 2, 1));
+      expect(range.end).toEqual(new Date(2024, 2, 3, 23, 59, 59, 999));
+    });
+
+    it('should swap reversed bounds', () => {
+      const range = createDateRange(new Date(2024, 2, 3), new Date(2024, 2, 1));
+      expect(toLocalDateKey(range.start)).toBe('2024-03-01');
+      expect(toLocalDateKey(range.end)).toBe('2024-03-03');
+    });
+  });
+
+  describe('presets', () => {
+    it('should cover the last 7 days including today', () => {
+      const range = getLastDaysRange(7, NOW);
+      expect(toLocalDateKey(range.start)).toBe('2024-03-07');
+      expect(toLocalDateKey(range.end)).toBe('2024-03-13');
+      expect(getRangeLengthInDays(range)).toBe(7);
+    });
+
+    it('should cover Monday to Sunday of the current week', () => {
+      const range = getCalendarWeekRange(NOW);
+      expect(toLocalDateKey(range.start)).toBe('2024-03-11');
+      expect(toLocalDateKey(range.end)).toBe('2024-03-17');
+    });
+
+    it('should treat Sunday as the end of the week', () => {
+      const range = getCalendarWeekRange(new Date(2024, 2, 17, 9));
+      expect(toLocalDateKey(range.start)).toBe('2024-03-11');
+    });
+
+    it('should resolve every window shape to a range', () => {
+      expect(resolveDateWindow(7, NOW)).toEqual(getLastDaysRange(7, NOW));
+      expect(resolveDateWindow('last7days', NOW)).toEqual(getLastDaysRange(7, NOW));
+      expect(resolveDateWindow('calendarWeek', NOW)).toEqual(getCalendarWeekRange(NOW));
+
+      const custom = createDateRange(new Date(2024, 0, 1), new Date(2024, 0, 28));
+      expect(resolveDateWindow(custom, NOW)).toBe(custom);
+    });
+  });
+
+  describe('shiftDateRange', () => {
+    it('should move a week back and forward keeping its length', () => {
+      const week = getCalendarWeekRange(NOW);
+      const previous = shiftDateRange(week, -7);
+      expect(toLocalDateKey(previous.start)).toBe('2024-03-04');
+      expect(toLocalDateKey(previous.end)).toBe('2024-03-10');
+      expect(shiftDateRange(previous, 7)).toEqual(week);
+    });
+
+    it('should keep whole days across a DST change', () => {
+      const range = createDateRange(new Date(2024, 2, 4), new Date(2024, 2, 10));
+      const shifted = shiftDateRange(range, 28);
+      expect(shifted.start.getHours()).toBe(0);
+      expect(getRangeLengthInDays(shifted)).toBe(7);
+    });
+  });
+
+  describe('range helpers', () => {
+    const range = createDateRange(new Date(2024, 1, 26), new Date(2024, 2, 24));
+
+    it('should count days and weeks', () => {
+      expect(getRangeLengthInDays(range)).toBe(28);
+      expect(getRangeWeeks(range)).toBe(4);
+    });
+
+    it('should list each day in order', () => {
+      const days = getDaysInRange(range);
+      expect(days).toHaveLength(28);
+      expect(toLocalDateKey(days[0] as Date)).toBe('2024-02-26');
+      expect(toLocalDateKey(days[27] as Date)).toBe('2024-03-24');
+    });
+
+    it('should include both ends', () => {
+      expect(rangeContains(range, new Date(2024, 1, 26))).toBe(true);
+      expect(rangeContains(range, new Date(2024, 2, 24, 23, 0))).toBe(true);
+      expect(rangeContains(range, new Date(2024, 2, 25))).toBe(false);
+    });
+  });
+
+  describe('date keys', () => {
+    it('should round-trip local date keys', () => {
+      expect(parseLocalDateKey('2024-03-13')).toEqual(new Date(2024, 2, 13));
+      expect(toLocalDateKey(new Date(2024, 2, 13, 23, 59))).toBe('2024-03-13');
+    });
+
+    it('should reject malformed or impossible dates', () => {
+      expect(parseLocalDateKey('')).toBeNull();
+      expect(parseLocalDateKey('2024-02-30')).toBeNull();
+      expect(parseLocalDateKey('13/03/2024')).toBeNull();
+    });
+  });
+
+  describe('formatDateRange', () => {
+    it('should omit the year within the current year', () => {
+      const range = createDateRange(new Date(2024, 2, 4), new Date(2024, 2, 10));
+      expect(formatDateRange(range, NOW)).toBe('Mar 4 – Mar 10');
+    });
+
+    it('should show years for ranges spanning a new year', () => {
+      const range = createDateRange(new Date(2023, 11, 25), new Date(2024, 0, 7));
+      expect(formatDateRange(range, NOW)).toBe('Dec 25, 2023 – Jan 7, 2024');
+    });
+
+    it('should show the year for past years', () => {
+      const range = createDateRange(new Date(2023, 2, 4), new Date(2023, 2, 10));
+      expect(formatDateRange(range, NOW)).toBe('Mar 4 – Mar 10, 2023');
+    });
+  });
+});
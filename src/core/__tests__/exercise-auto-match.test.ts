@@ -1,6 +1,18 @@
 import { describe, it, expect } from 'vitest';
-import { generateAutoMatchSuggestions } from '../exercise-auto-match';
-import type { UnmappedExercise } from '@db/schema';
+import {
+  generateAutoMatchSuggestions,
+  learnMatchRules,
+  planLearnedRuleUpdate,
+  selectAutoApplicable,
+  type AutoMatchLearning,
+  type AutoMatchSuggestion,
+} from '../exercise-auto-match';
+import type {
+  AutoMatchDecision,
+  CustomExercise,
+  LearnedMatchRule,
+  UnmappedExercise,
+} from '@db/schema';
 
 describe('exercise-auto-match', () => {
   describe('generateAutoMatchSuggestions', () => {
@@ -364,5 +376,252 @@ describe('exercise-auto-match', () => {
         expect(suggestion?.confidence).toBeLessThanOrEqual(1);
       });
     });
+    describe('custom exercises', () => {
+      const customExercise: CustomExercise = {
+        id: 'custom-1',
+        profileId: 'profile1',
+        name: 'Viking Press',
+        aliases: ['Landmine Thruster'],
+        equipment: null,
+        muscleValues: { 'Anterior Deltoid': 0.8 },
+        notes: '',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      function unmapped(originalName: string): UnmappedExercise {
+        return {
+          id: originalName,
+          profileId: 'profile1',
+          originalName,
+          normalizedName: originalName.toLowerCase().replace(/\s+/g, '-'),
+          firstSeenAt: new Date(),
+          occurrenceCount: 1,
+        };
+      }
+
+      it('should suggest a custom exercise matching by name', () => {
+        const suggestions = generateAutoMatchSuggestions([unmapped('Viking press Domar')], [
+          customExercise,
+        ]);
+
+        expect(suggestions[0]).toMatchObject({
+          suggestedCanonicalId: 'custom-1',
+          suggestedCanonicalName: 'Viking Press',
+          confidence: 1.0,
+          isCustom: true,
+        });
+      });
+
+      it('should suggest a custom exercise matching by alias', () => {
+        const suggestions = generateAutoMatchSuggestions([unmapped('Landmine Thruster')], [
+          customExercise,
+        ]);
+
+        expect(suggestions[0]?.suggestedCanonicalId).toBe('custom-1');
+        expect(suggestions[0]?.matchReason).toContain('alias "Landmine Thruster"');
+      });
+
+      it('should leave canonical suggestions unchanged without custom exercises', () => {
+        const suggestions = generateAutoMatchSuggestions([unmapped('Viking press Domar')]);
+
+        expect(suggestions.every((s) => !s.isCustom)).toBe(true);
+      });
+    });
+
+    describe('learning', () => {
+      function unmapped(originalName: string): UnmappedExercise {
+        return {
+          id: originalName,
+          profileId: 'profile1',
+          originalName,
+          normalizedName: originalName.toLowerCase().replace(/\s+/g, '-'),
+          firstSeenAt: new Date(),
+          occurrenceCount: 1,
+        };
+      }
+
+      it('should use learned abbreviations and gym markers', () => {
+        const learning: AutoMatchLearning = {
+          rules: [
+            { kind: 'abbreviation', token: 'ht', expansion: 'hip thrust', isEnabled: true },
+            { kind: 'gymMarker', token: 'sats', expansion: '', isEnabled: true },
+          ],
+          rejections: [],
+        };
+
+        const suggestions = generateAutoMatchSuggestions([unmapped('HT Sats')], [], learning);
+
+        expect(suggestions[0]?.suggestedCanonicalName).toBe('Hip Thrust');
+        expect(suggestions[0]?.matchReason).toContain('learned: ht → hip thrust, sats ignored');
+      });
+
+      it('should ignore disabled rules', () => {
+        const learning: AutoMatchLearning = {
+          rules: [{ kind: 'abbreviation', token: 'ht', expansion: 'hip thrust', isEnabled: false }],
+          rejections: [],
+        };
+
+        expect(generateAutoMatchSuggestions([unmapped('HT')], [], learning)).toEqual([]);
+      });
+
+      it('should not repeat a rejected suggestion', () => {
+        const [suggestion] = generateAutoMatchSuggestions([unmapped('Lateral raise Domar')]);
+        const learning: AutoMatchLearning = {
+          rules: [],
+          rejections: [
+            {
+              normalizedName: 'lateral-raise-domar',
+              suggestedId: suggestion?.suggestedCanonicalId ?? '',
+            },
+          ],
+        };
+
+        const suggestions = generateAutoMatchSuggestions(
+          [unmapped('Lateral raise Domar')],
+          [],
+          learning
+        );
+
+        expect(suggestions.map((s) => s.suggestedCanonicalId)).not.toContain(
+          suggestion?.suggestedCanonicalId
+        );
+      });
+    });
+  });
+
+  describe('selectAutoApplicable', () => {
+    function suggestion(confidence: number): AutoMatchSuggestion {
+      return {
+        unmappedExerciseName: `Exercise ${confidence}`,
+        unmappedNormalizedName: `exercise-${confidence}`,
+        suggestedCanonicalId: 'lateral-raise',
+        suggestedCanonicalName: 'Lateral Raise',
+        confidence,
+        matchReason: 'Core words match: lateral, raise',
+      };
+    }
+
+    it('should keep suggestions at or above the threshold', () => {
+      const selected = selectAutoApplicable(
+        [suggestion(0.95), suggestion(0.9), suggestion(0.7)],
+        0.9
+      );
+
+      expect(selected.map((s) => s.confidence)).toEqual([0.95, 0.9]);
+    });
+
+    it('should apply nothing without a threshold', () => {
+      expect(selectAutoApplicable([suggestion(1)], undefined)).toEqual([]);
+    });
+  });
+
+  describe('learnMatchRules', () => {
+    function decision(
+      originalName: string,
+      suggestedName: string,
+      outcome: AutoMatchDecision['outcome'] = 'accepted',
+      chosenName: string | null = null
+    ): Pick<AutoMatchDecision, 'originalName' | 'suggestedName' | 'outcome' | 'chosenName'> {
+      return { originalName, suggestedName, outcome, chosenName };
+    }
+
+    it('should learn an abbreviation from the initials of the exercise name', () => {
+      expect(learnMatchRules([decision('HT', 'Hip Thrust')])).toEqual([
+        { kind: 'abbreviation', token: 'ht', expansion: 'hip thrust', support: 1 },
+      ]);
+    });
+
+    it('should learn a word alias from a correction', () => {
+      const rules = learnMatchRules([
+        decision('Skulls', 'Lying Leg Curl', 'corrected', 'Skullcrusher'),
+      ]);
+
+      expect(rules).toContainEqual({
+        kind: 'tokenAlias',
+        token: 'skulls',
+        expansion: 'skullcrusher',
+        support: 1,
+      });
+    });
+
+    it('should need two decisions before treating a word as a gym marker', () => {
+      const once = [decision('Preacher Curl Sats', 'Preacher Curl')];
+      const twice = [...once, decision('Seated Row Sats', 'Seated Row')];
+
+      expect(learnMatchRules(once)).toEqual([]);
+      expect(learnMatchRules(twice)).toEqual([
+        { kind: 'gymMarker', token: 'sats', expansion: '', support: 2 },
+      ]);
+    });
+
+    it('should unlearn rules behind rejected suggestions', () => {
+      expect(
+        learnMatchRules([decision('HT', 'Hip Thrust'), decision('HT', 'Hip Thrust', 'rejected')])
+      ).toEqual([]);
+    });
+  });
+
+  describe('planLearnedRuleUpdate', () => {
+    const now = new Date('2024-05-01T00:00:00Z');
+    let nextId = 0;
+    const context = { now, generateId: (): string => `rule-${++nextId}` };
+
+    function stored(overrides: Partial<LearnedMatchRule>): LearnedMatchRule {
+      return {
+        id: 'r1',
+        profileId: 'profile1',
+        kind: 'abbreviation',
+        token: 'ht',
+        expansion: 'hip thrust',
+        support: 1,
+        isEnabled: true,
+        isEdited: false,
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        updatedAt: new Date('2024-01-01T00:00:00Z'),
+        ...overrides,
+      };
+    }
+
+    it('should add new rules and update the support of learned ones', () => {
+      const { upserts, removals } = planLearnedRuleUpdate(
+        'profile1',
+        [stored({})],
+        [
+          { kind: 'abbreviation', token: 'ht', expansion: 'hip thrust', support: 3 },
+          { kind: 'gymMarker', token: 'sats', expansion: '', support: 2 },
+        ],
+        context
+      );
+
+      expect(upserts).toEqual([
+        expect.objectContaining({ id: 'r1', support: 3, updatedAt: now }),
+        expect.objectContaining({ kind: 'gymMarker', token: 'sats', isEdited: false }),
+      ]);
+      expect(removals).toEqual([]);
+    });
+
+    it('should remove learned rules that lost their support but keep edited ones', () => {
+      const { upserts, removals } = planLearnedRuleUpdate(
+        'profile1',
+        [stored({}), stored({ id: 'r2', token: 'sldl', isEdited: true, support: 0 })],
+        [],
+        context
+      );
+
+      expect(upserts).toEqual([]);
+      expect(removals).toEqual(['r1']);
+    });
+
+    it('should leave edited rules unchanged', () => {
+      const { upserts } = planLearnedRuleUpdate(
+        'profile1',
+        [stored({ expansion: 'hack thrust', isEdited: true })],
+        [{ kind: 'abbreviation', token: 'ht', expansion: 'hip thrust', support: 2 }],
+        context
+      );
+
+      expect(upserts).toEqual([]);
+    });
   });
 });
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMuscleDeficits,
+  recommendExercises,
+  type RecommendationCandidate,
+} from '../exercise-recommendations';
+
+function candidate(
+  id: string,
+  muscles: RecommendationCandidate['muscles'],
+  setsLogged = 0
+): RecommendationCandidate {
+  return { id, name: id, muscles, setsLogged };
+}
+
+const curl = candidate('bicep-curl', { 'Biceps Brachii': 1.0, 'Forearm Flexors': 0.5 });
+const chinUp = candidate('chin-up', { 'Latissimus Dorsi': 1.0, 'Biceps Brachii': 0.75 });
+const hammerCurl = candidate('hammer-curl', { 'Forearm Extensors': 1.0, 'Biceps Brachii': 0.5 });
+
+describe('exercise-recommendations', () => {
+  describe('calculateMuscleDeficits', () => {
+    it('should keep only muscles below goal, with the sets left to reach it', () => {
+      const deficits = calculateMuscleDeficits([
+        { name: 'Biceps Brachii', volume: 4, goal: 10 },
+        { name: 'Latissimus Dorsi', volume: 12, goal: 10 },
+        { name: 'Triceps (Long Head)', volume: 10, goal: 10 },
+      ]);
+
+      expect(deficits).toEqual({ 'Biceps Brachii': 6 });
+    });
+  });
+
+  describe('recommendExercises', () => {
+    it('should add sets until the deficit is filled', () => {
+      const plan = recommendExercises({ 'Biceps Brachii': 3 }, [curl]);
+
+      expect(plan.recommendations).toEqual([
+        {
+          exerciseId: 'bicep-curl',
+          exerciseName: 'bicep-curl',
+          sets: 3,
+          isFamiliar: false,
+          targets: ['Biceps Brachii'],
+        },
+      ]);
+      expect(plan.remaining).toEqual({});
+      expect(plan.overshoot).toEqual({ 'Forearm Flexors': 1.5 });
+    });
+
+    it('should prefer exercises that avoid muscles already at goal', () => {
+      const plan = recommendExercises({ 'Biceps Brachii': 4 }, [chinUp, curl]);
+
+      expect(plan.recommendations.map((r) => r.exerciseId)).toEqual(['bicep-curl']);
+    });
+
+    it('should use a compound exercise when it fills several deficits', () => {
+      const plan = recommendExercises({ 'Biceps Brachii': 3, 'Latissimus Dorsi': 4 }, [
+        chinUp,
+        curl,
+      ]);
+
+      expect(plan.recommendations[0]?.exerciseId).toBe('chin-up');
+      expect(plan.recommendations[0]?.targets).toEqual(['Latissimus Dorsi', 'Biceps Brachii']);
+    });
+
+    it('should favour exercises the profile has done before', () => {
+      const familiarHammerCurl = { ...hammerCurl, setsLogged: 20 };
+      const plan = recommendExercises({ 'Biceps Brachii': 2, 'Forearm Extensors': 1 }, [
+        curl,
+        familiarHammerCurl,
+      ]);
+
+      expect(plan.recommendations[0]).toMatchObject({
+        exerciseId: 'hammer-curl',
+        isFamiliar: true,
+      });
+    });
+
+    it('should not recommend sets that mostly overshoot', () => {
+      const plan = recommendExercises({ 'Biceps Brachii': 0.25 }, [curl, chinUp]);
+
+      expect(plan.recommendations).toEqual([]);
+      expect(plan.remaining).toEqual({ 'Biceps Brachii': 0.25 });
+    });
+
+    it('should respect the exercise and per-exercise set limits', () => {
+      const plan = recommendExercises(
+        { 'Biceps Brachii': 20, 'Latissimus Dorsi': 20, 'Forearm Extensors': 20 },
+        [curl, chinUp, hammerCurl],
+        { maxExercises: 2, maxSetsPerExercise: 3 }
+      );
+
+      expect(plan.recommendations).toHaveLength(2);
+      expect(plan.recommendations.every((r) => r.sets <= 3)).toBe(true);
+      expect(Object.keys(plan.remaining)).not.toHaveLength(0);
+    });
+  });
+});
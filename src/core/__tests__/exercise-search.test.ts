@@ -1,5 +1,25 @@
 import { describe, it, expect } from 'vitest';
-import { searchExercises, getAllCanonicalExercises } from '../exercise-search';
+import {
+  searchExercises,
+  getAllCanonicalExercises,
+  getExerciseEquipment,
+  EXERCISE_EQUIPMENT,
+} from '../exercise-search';
+import type { CustomExercise } from '@db/schema';
+
+const customExercises: CustomExercise[] = [
+  {
+    id: 'custom-1',
+    profileId: 'p1',
+    name: 'Landmine Press',
+    aliases: ['Viking Press'],
+    equipment: 'Barbell',
+    muscleValues: { 'Anterior Deltoid': 0.8 },
+    notes: '',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  },
+];
 
 describe('exercise-search', () => {
   describe('getAllCanonicalExercises', () => {
@@ -26,6 +46,40 @@ describe('exercise-search', () => {
       expect(benchPress).toBeDefined();
       expect(benchPress?.id).toBe('bench-press');
     });
+
+    it('should list custom exercises first', () => {
+      const exercises = getAllCanonicalExercises(customExercises);
+
+      expect(exercises[0]).toMatchObject({
+        id: 'custom-1',
+        name: 'Landmine Press',
+        isCustom: true,
+      });
+      expect(exercises.length).toBe(getAllCanonicalExercises().length + 1);
+    });
+  });
+
+  describe('custom exercises', () => {
+    it('should find custom exercises by name next to canonical ones', () => {
+      const results = searchExercises('press', 50, customExercises);
+
+      expect(results.find((r) => r.id === 'custom-1')).toMatchObject({ isCustom: true });
+      expect(results.some((r) => r.name === 'Bench Press')).toBe(true);
+    });
+
+    it('should find custom exercises by alias', () => {
+      const results = searchExercises('viking', 10, customExercises);
+
+      expect(results[0]).toMatchObject({
+        id: 'custom-1',
+        matchedAlias: 'Viking Press',
+        score: 0.9,
+      });
+    });
+
+    it('should not return custom exercises when none are given', () => {
+      expect(searchExercises('landmine').every((r) => !r.isCustom)).toBe(true);
+    });
   });
 
   describe('searchExercises', () => {
@@ -222,6 +276,87 @@ describe('exercise-search', () => {
         // For now, just verify it doesn't crash
         expect(Array.isArray(results)).toBe(true);
       });
+
+      it('should expand "rdl" so "RDL DB" finds Romanian Deadlift first', () => {
+        const results = searchExercises('RDL DB');
+
+        expect(results[0]?.name).toBe('Romanian Deadlift');
+      });
+    });
+
+    describe('typo tolerance', () => {
+      it('should match words within a typo', () => {
+        const results = searchExercises('latteral rase');
+
+        expect(results[0]?.name).toMatch(/^Lateral Raise/);
+      });
+
+      it('should rank typo matches below clean matches', () => {
+        const typo = searchExercises('lateral rase').find((r) => r.name === 'Lateral Raise');
+        const clean = searchExercises('lateral raise').find((r) => r.name === 'Lateral Raise');
+
+        expect(typo?.score).toBeGreaterThan(0.6);
+        expect(typo?.score).toBeLessThan(clean?.score ?? 0);
+      });
+
+      it('should not fuzzy-match short words', () => {
+        expect(searchExercises('rwo')).toEqual([]);
+      });
+    });
+
+    describe('filters', () => {
+      it('should only return exercises meeting every muscle threshold', () => {
+        const results = searchExercises('raise', 50, [], {
+          muscles: [{ muscle: 'Lateral Deltoid', min: 0.8 }],
+        });
+
+        expect(results.length).toBeGreaterThan(0);
+        expect(results.map((r) => r.name)).toContain('Lateral Raise');
+        expect(results.map((r) => r.name)).not.toContain('Standing Calf Raise');
+      });
+
+      it('should list filtered exercises for a blank query, strongest first', () => {
+        const results = searchExercises('', 50, customExercises, {
+          muscles: [{ muscle: 'Anterior Deltoid', min: 0.8 }],
+        });
+
+        expect(results.length).toBeGreaterThan(1);
+        expect(results.map((r) => r.id)).toContain('custom-1');
+        expect(results.every((r) => r.score === 1.0)).toBe(true);
+      });
+
+      it('should filter by equipment from exercise data and custom exercises', () => {
+        const dumbbell = searchExercises('', 100, customExercises, { equipment: 'dumbbell' });
+        const barbell = searchExercises('press', 50, customExercises, { equipment: 'Barbell' });
+
+        expect(dumbbell.map((r) => r.name)).toContain('Dumbbell Row');
+        expect(dumbbell.map((r) => r.name)).toContain('Bench Press');
+        expect(dumbbell.map((r) => r.name)).not.toContain('Leg Press');
+        expect(barbell.map((r) => r.name)).toContain('Bench Press');
+        expect(barbell.map((r) => r.id)).toContain('custom-1');
+      });
+
+      it('should let exercises without known equipment match any equipment', () => {
+        const results = searchExercises('side kick', 50, [], { equipment: 'Kettlebell' });
+
+        expect(results.map((r) => r.name)).toContain('Side Kick');
+      });
+
+      it('should only offer equipment some exercise is done with', () => {
+        for (const equipment of EXERCISE_EQUIPMENT) {
+          const results = searchExercises('', 500, [], { equipment });
+          expect(results.filter((r) => r.name !== 'Side Kick').length).toBeGreaterThan(0);
+        }
+      });
+    });
+
+    describe('getExerciseEquipment', () => {
+      it('should detect equipment in exercise names', () => {
+        expect(getExerciseEquipment('Chest Press (Machine)')).toBe('Machine');
+        expect(getExerciseEquipment('Smith Machine Squat')).toBe('Smith Machine');
+        expect(getExerciseEquipment('Triceps Extension (Cable)')).toBe('Cable');
+        expect(getExerciseEquipment('Bench Press')).toBeNull();
+      });
     });
 
     describe('result structure', () => {
@@ -314,8 +314,9 @@ describe('hevy-api', () => {
       // First set (warmup)
       const firstSet = result.sets[0];
       expect(firstSet).toBeDefined();
-      expect(firstSet?.exerciseId).toBe('bench-press');
+      expect(firstSet?.exerciseId).toBe('bench-press:dumbbell');
       expect(firstSet?.originalName).toBe('Bench Press (Dumbbell)');
+      expect(firstSet?.templateId).toBe('db-bench');
       expect(firstSet?.setType).toBe('warmup');
       expect(firstSet?.weight).toBe(20);
       expect(firstSet?.reps).toBe(15);
@@ -323,7 +324,7 @@ describe('hevy-api', () => {
       // Second set (normal)
       const secondSet = result.sets[1];
       expect(secondSet).toBeDefined();
-      expect(secondSet?.exerciseId).toBe('bench-press');
+      expect(secondSet?.exerciseId).toBe('bench-press:dumbbell');
       expect(secondSet?.setType).toBe('normal');
       expect(secondSet?.rpe).toBe(7);
     });
@@ -366,6 +367,144 @@ describe('hevy-api', () => {
       expect(firstSet?.rpe).toBeUndefined();
     });
 
+    it('should preserve duration and distance for timed and distance sets', () => {
+      const hevyWorkout: HevyWorkout = {
+        id: 'workout-1',
+        title: 'Conditioning',
+        description: '',
+        start_time: '2024-01-15T08:00:00Z',
+        end_time: '2024-01-15T08:30:00Z',
+        exercises: [
+          {
+            index: 0,
+            title: 'Plank',
+            notes: '',
+            exercise_template_id: 'plank',
+            superset_id: null,
+            sets: [
+              {
+                index: 0,
+                type: 'normal',
+                weight_kg: null,
+                reps: null,
+                distance_meters: null,
+                duration_seconds: 90,
+                rpe: null,
+              },
+            ],
+          },
+          {
+            index: 1,
+            title: 'Rowing (Machine)',
+            notes: '',
+            exercise_template_id: 'row',
+            superset_id: null,
+            sets: [
+              {
+                index: 0,
+                type: 'normal',
+                weight_kg: null,
+                reps: null,
+                distance_meters: 2000,
+                duration_seconds: 480,
+                rpe: null,
+              },
+            ],
+          },
+        ],
+      };
+
+      const result = convertHevyWorkout(hevyWorkout);
+
+      expect(result.sets[0]?.durationSeconds).toBe(90);
+      expect(result.sets[0]?.distanceMeters).toBeUndefined();
+      expect(result.sets[1]?.distanceMeters).toBe(2000);
+      expect(result.sets[1]?.durationSeconds).toBe(480);
+    });
+
+    it('should preserve exercise order, notes and supersets', () => {
+      const hevyWorkout: HevyWorkout = {
+        id: 'workout-1',
+        title: 'Arms',
+        description: '',
+        start_time: '2024-01-15T08:00:00Z',
+        end_time: '2024-01-15T09:00:00Z',
+        exercises: [
+          {
+            index: 1,
+            title: 'Triceps Pushdown (Cable)',
+            notes: '',
+            exercise_template_id: 'pushdown',
+            superset_id: 0,
+            sets: [
+              {
+                index: 0,
+                type: 'normal',
+                weight_kg: 30,
+                reps: 12,
+                distance_meters: null,
+                duration_seconds: null,
+                rpe: null,
+              },
+            ],
+          },
+          {
+            index: 0,
+            title: 'Bicep Curl (Dumbbell)',
+            notes: 'Slow eccentric',
+            exercise_template_id: 'curl',
+            superset_id: 0,
+            sets: [
+              {
+                index: 1,
+                type: 'normal',
+                weight_kg: 15,
+                reps: 8,
+                distance_meters: null,
+                duration_seconds: null,
+                rpe: null,
+              },
+              {
+                index: 0,
+                type: 'normal',
+                weight_kg: 15,
+                reps: 10,
+                distance_meters: null,
+                duration_seconds: null,
+                rpe: null,
+              },
+            ],
+          },
+        ],
+      };
+
+      const result = convertHevyWorkout(hevyWorkout);
+
+      expect(result.exercises).toEqual([
+        {
+          index: 0,
+          exerciseId: 'bicep-curl:dumbbell',
+          originalName: 'Bicep Curl (Dumbbell)',
+          notes: 'Slow eccentric',
+          supersetId: 0,
+          templateId: 'curl',
+        },
+        {
+          index: 1,
+          exerciseId: 'triceps-pushdown:cable',
+          originalName: 'Triceps Pushdown (Cable)',
+          notes: undefined,
+          supersetId: 0,
+          templateId: 'pushdown',
+        },
+      ]);
+      expect(result.sets.map((s) => [s.exerciseIndex, s.reps])).toEqual([
+        [0, 10],
+        [0, 8],
+        [1, 12],
+      ]);
+    });
+
     it('should map type correctly', () => {
       const createWorkoutWithSetType = (setType: string): HevyWorkout => ({
         id: 'workout-1',
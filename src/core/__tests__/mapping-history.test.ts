@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { findUndoableChange, getChangeAction, summarizeChangeValue } from '../mapping-history';
+import type { DefaultExerciseOverride, ExerciseMapping, MappingChange } from '@db/schema';
+
+const CREATED = new Date('2024-01-01T00:00:00Z');
+
+const mapping: ExerciseMapping = {
+  id: 'm1',
+  profileId: 'p1',
+  originalPattern: 'my-row',
+  canonicalExerciseId: 'dumbbell-row',
+  customMuscleValues: null,
+  isIgnored: false,
+  createdAt: CREATED,
+};
+
+function change(id: string, minute: number, overrides: Partial<MappingChange> = {}): MappingChange {
+  return {
+    id,
+    profileId: 'p1',
+    entityType: 'exerciseMapping',
+    entityKey: 'my-row',
+    oldValue: mapping,
+    newValue: { ...mapping, isIgnored: true },
+    changedBy: 'user',
+    revertOf: null,
+    changedAt: new Date(CREATED.getTime() + minute * 60_000),
+    ...overrides,
+  };
+}
+
+describe('mapping-history', () => {
+  describe('getChangeAction', () => {
+    it('should tell creates, updates, deletes and reverts apart', () => {
+      expect(getChangeAction(change('c1', 0, { oldValue: null }))).toBe('created');
+      expect(getChangeAction(change('c1', 0))).toBe('updated');
+      expect(getChangeAction(change('c1', 0, { newValue: null }))).toBe('deleted');
+      expect(getChangeAction(change('c1', 0, { revertOf: 'c0' }))).toBe('reverted');
+    });
+  });
+
+  describe('findUndoableChange', () => {
+    it('should return the latest change', () => {
+      expect(findUndoableChange([change('c2', 2), change('c1', 1), change('c3', 3)])?.id).toBe(
+        'c3'
+      );
+    });
+
+    it('should step back past reverts and reverted changes', () => {
+      const changes = [
+        change('c1', 1),
+        change('c2', 2),
+        change('undo-c2', 3, { revertOf: 'c2', changedBy: 'undo' }),
+      ];
+
+      expect(findUndoableChange(changes)?.id).toBe('c1');
+      expect(findUndoableChange([...changes, change('undo-c1', 4, { revertOf: 'c1' })])).toBeNull();
+    });
+
+    it('should return null without changes', () => {
+      expect(findUndoableChange([])).toBeNull();
+    });
+  });
+
+  describe('summarizeChangeValue', () => {
+    it('should summarize mappings by what they map to', () => {
+      expect(summarizeChangeValue('exerciseMapping', mapping)).toBe('→ dumbbell-row');
+      expect(summarizeChangeValue('exerciseMapping', { ...mapping, isIgnored: true })).toBe(
+        'Ignored'
+      );
+      expect(summarizeChangeValue('exerciseMapping', null)).toBe('None');
+    });
+
+    it('should list override muscle values, largest first', () => {
+      const override: DefaultExerciseOverride = {
+        id: 'o1',
+        profileId: 'p1',
+        exerciseName: 'Pull Up',
+        customMuscleValues: { 'Biceps Brachii': 0.5, 'Latissimus Dorsi': 1 },
+        createdAt: CREATED,
+        updatedAt: CREATED,
+      };
+
+      expect(summarizeChangeValue('defaultExerciseOverride', override)).toBe(
+        'Latissimus Dorsi 1, Biceps Brachii 0.5'
+      );
+    });
+  });
+});
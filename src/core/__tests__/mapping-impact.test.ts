@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { calculateMappingImpact } from '../mapping-impact';
+import { toLocalDateKey } from '../date-range';
+import type { TrendWorkout } from '../volume-trends';
+import type { ExerciseMapping } from '../taxonomy';
+import type { WorkoutSet } from '../volume-calculator';
+
+function sets(
+  exerciseId: string,
+  count: number,
+  setType: WorkoutSet['setType'] = 'normal'
+): WorkoutSet[] {
+  return Array.from({ length: count }, () => ({ exerciseId, setType, weight: 10, reps: 10 }));
+}
+
+const before = new Map<string, ExerciseMapping>([
+  ['lateral-raise', { 'Lateral Deltoid': 1.0 }],
+  ['pull-up', { 'Latissimus Dorsi': 1.0, 'Biceps Brachii': 0.5 }],
+]);
+
+const workouts: TrendWorkout[] = [
+  // Week of March 11 2024: lateral raises and pull-ups
+  { date: new Date(2024, 2, 12, 18), sets: [...sets('lateral-raise', 4), ...sets('pull-up', 2)] },
+  { date: new Date(2024, 2, 14, 18), sets: [...sets('lateral-raise', 2, 'warmup')] },
+  // Week of February 26 2024: pull-ups only
+  { date: new Date(2024, 1, 28, 18), sets: sets('pull-up', 3) },
+];
+
+describe('mapping-impact', () => {
+  describe('calculateMappingImpact', () => {
+    it('should count changed workouts and non-warmup sets in their weeks', () => {
+      const after = new Map(before).set('lateral-raise', {
+        'Lateral Deltoid': 0.8,
+        'Anterior Deltoid': 0.2,
+      });
+      const impact = calculateMappingImpact(workouts, before, after);
+
+      expect(impact.workoutCount).toBe(1);
+      expect(impact.setCount).toBe(4);
+      expect(impact.weeks.map((w) => toLocalDateKey(w.start))).toEqual(['2024-03-11']);
+    });
+
+    it('should compare muscle volume over the affected weeks, largest change first', () => {
+      const after = new Map(before).set('lateral-raise', {
+        'Lateral Deltoid': 0.5,
+        'Anterior Deltoid': 0.25,
+      });
+      const { muscles } = calculateMappingImpact(workouts, before, after);
+
+      expect(muscles).toEqual([
+        { muscle: 'Lateral Deltoid', before: 4, after: 2, delta: -2 },
+        { muscle: 'Anterior Deltoid', before: 0, after: 1, delta: 1 },
+      ]);
+    });
+
+    it('should treat exercises becoming mapped or ignored as changes', () => {
+      const after = new Map(before);
+      after.delete('pull-up');
+      const impact = calculateMappingImpact(workouts, before, after);
+
+      expect(impact.workoutCount).toBe(2);
+      expect(impact.setCount).toBe(5);
+      expect(impact.weeks).toHaveLength(2);
+      expect(impact.muscles.find((m) => m.muscle === 'Latissimus Dorsi')).toEqual({
+        muscle: 'Latissimus Dorsi',
+        before: 5,
+        after: 0,
+        delta: -5,
+      });
+    });
+
+    it('should report nothing when the mappings resolve the same', () => {
+      const after = new Map(before).set('pull-up', {
+        'Biceps Brachii': 0.5,
+        'Latissimus Dorsi': 1.0,
+      });
+
+      expect(calculateMappingImpact(workouts, before, after)).toEqual({
+        workoutCount: 0,
+        setCount: 0,
+        weeks: [],
+        muscles: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAPPING_PACK_VERSION,
+  MappingPackError,
+  createMappingPack,
+  diffMappingPack,
+  parseMappingPack,
+  selectPackImport,
+  serializeMappingPack,
+  type MappingPackSource,
+} from '../mapping-pack';
+import type { CustomExercise, DefaultExerciseOverride, ExerciseMapping } from '@db/schema';
+
+const CREATED = new Date('2024-01-01T00:00:00Z');
+
+function mapping(originalPattern: string, canonicalExerciseId: string): ExerciseMapping {
+  return {
+    id: `m-${originalPattern}`,
+    profileId: 'p1',
+    originalPattern,
+    canonicalExerciseId,
+    customMuscleValues: null,
+    isIgnored: false,
+    createdAt: CREATED,
+  };
+}
+
+const pullUpOverride: DefaultExerciseOverride = {
+  id: 'o1',
+  profileId: 'p1',
+  exerciseName: 'Pull Up',
+  customMuscleValues: { 'Latissimus Dorsi': 1, 'Biceps Brachii': 0.5 },
+  createdAt: CREATED,
+  updatedAt: CREATED,
+};
+
+const landmine: CustomExercise = {
+  id: 'custom-landmine',
+  profileId: 'p1',
+  name: 'Landmine Press',
+  aliases: [],
+  equipment: null,
+  muscleValues: { 'Pectoralis Major (Clavicular)': 1, 'Anterior Deltoid': 0.5 },
+  notes: '',
+  createdAt: CREATED,
+  updatedAt: CREATED,
+};
+
+function source(overrides: Partial<MappingPackSource> = {}): MappingPackSource {
+  return {
+    exerciseMappings: [mapping('my-row', 'dumbbell-row')],
+    defaultExerciseOverrides: [pullUpOverride],
+    defaultNameMappingOverrides: [],
+    customExercises: [],
+    profile: { muscleGroupCustomization: {} },
+    ...overrides,
+  };
+}
+
+describe('mapping-pack', () => {
+  describe('createMappingPack', () => {
+    it('should drop IDs and profile ownership', () => {
+      const pack = createMappingPack('Team', source());
+
+      expect(pack.exerciseMappings).toEqual([
+        {
+          originalPattern: 'my-row',
+          canonicalExerciseId: 'dumbbell-row',
+          customMuscleValues: null,
+          isIgnored: false,
+        },
+      ]);
+      expect(pack.defaultExerciseOverrides[0]).not.toHaveProperty('id');
+      expect(pack.muscleGroups).toEqual({
+        customMuscleGroups: null,
+        muscleGroupCustomization: {},
+      });
+    });
+
+    it('should export mappings to custom exercises with their muscle values', () => {
+      const pack = createMappingPack(
+        'Team',
+        source({
+          exerciseMappings: [mapping('landmine', landmine.id)],
+          customExercises: [landmine],
+        })
+      );
+
+      expect(pack.exerciseMappings[0]).toMatchObject({
+        canonicalExerciseId: null,
+        customMuscleValues: landmine.muscleValues,
+      });
+    });
+  });
+
+  describe('parseMappingPack', () => {
+    it('should round-trip a serialized pack', () => {
+      const pack = createMappingPack('Team', source(), new Date('2024-03-10T00:00:00Z'));
+
+      expect(parseMappingPack(serializeMappingPack(pack))).toEqual(pack);
+    });
+
+    it('should reject files that are not mapping packs', () => {
+      expect(() => parseMappingPack('not json')).toThrow(MappingPackError);
+      expect(() => parseMappingPack('{"format":"gym-analytics-backup"}')).toThrow(
+        'not a GymAnalytics mapping pack'
+      );
+    });
+
+    it('should reject packs from a newer version', () => {
+      const pack = { ...createMappingPack('Team', source()), version: MAPPING_PACK_VERSION + 1 };
+
+      expect(() => parseMappingPack(JSON.stringify(pack))).toThrow('newer than supported');
+    });
+
+    it('should reject a malformed canonical exercise ID', () => {
+      const pack = JSON.parse(serializeMappingPack(createMappingPack('Team', source())));
+      pack.exerciseMappings[0].canonicalExerciseId = 42;
+
+      expect(() => parseMappingPack(JSON.stringify(pack))).toThrow(
+        'exerciseMappings[0] has an invalid "canonicalExerciseId"'
+      );
+    });
+
+    it('should drop fields a pack record does not define', () => {
+      const pack = JSON.parse(serializeMappingPack(createMappingPack('Team', source())));
+      pack.exerciseMappings[0].id = 'foreign-id';
+      pack.exerciseMappings[0].profileId = 'foreign-profile';
+
+      const [parsed] = parseMappingPack(JSON.stringify(pack)).exerciseMappings;
+      expect(parsed).not.toHaveProperty('id');
+      expect(parsed).not.toHaveProperty('profileId');
+    });
+
+    it('should reject unknown muscles', () => {
+      const pack = createMappingPack('Team', source());
+      const json = serializeMappingPack(pack).replace('Latissimus Dorsi', 'Lats');
+
+      expect(() => parseMappingPack(json)).toThrow('unknown muscle "Lats"');
+    });
+
+    it('should reject unknown muscles and groups in the muscle group customization', () => {
+      const pack = JSON.parse(serializeMappingPack(createMappingPack('Team', source())));
+
+      pack.muscleGroups.muscleGroupCustomization = { notAMuscle: 'Chest' };
+      expect(() => parseMappingPack(JSON.stringify(pack))).toThrow('unknown muscle "notAMuscle"');
+
+      pack.muscleGroups.muscleGroupCustomization = { 'Latissimus Dorsi': 'Bogus' };
+      expect(() => parseMappingPack(JSON.stringify(pack))).toThrow(
+        'invalid group for Latissimus Dorsi'
+      );
+    });
+  });
+
+  describe('diffMappingPack', () => {
+    it('should mark items as new, unchanged or conflicting', () => {
+      const pack = createMappingPack(
+        'Team',
+        source({
+          exerciseMappings: [mapping('my-row', 'barbell-row'), mapping('my-curl', 'bicep-curl')],
+        })
+      );
+      const items = diffMappingPack(pack, source());
+
+      expect(items.map((item) => [item.id, item.status])).toEqual([
+        ['exerciseMapping:my-row', 'conflict'],
+        ['exerciseMapping:my-curl', 'new'],
+        ['defaultExerciseOverride:Pull Up', 'same'],
+        ['muscleGroups:Muscle groups', 'same'],
+      ]);
+    });
+
+    it('should ignore the key order of muscle values', () => {
+      const pack = createMappingPack(
+        'Team',
+        source({
+          defaultExerciseOverrides: [
+            {
+              ...pullUpOverride,
+              customMuscleValues: { 'Biceps Brachii': 0.5, 'Latissimus Dorsi': 1 },
+            },
+          ],
+        })
+      );
+
+      expect(diffMappingPack(pack, source()).find((i) => i.key === 'Pull Up')?.status).toBe('same');
+    });
+  });
+
+  describe('selectPackImport', () => {
+    const pack = createMappingPack(
+      'Team',
+      source({
+        exerciseMappings: [mapping('my-row', 'barbell-row'), mapping('my-curl', 'bicep-curl')],
+      })
+    );
+    const items = diffMappingPack(pack, source());
+
+    it('should import new items and keep mine on conflicts by default', () => {
+      const selected = selectPackImport(items, {});
+
+      expect(selected.exerciseMappings.map((m) => m.originalPattern)).toEqual(['my-curl']);
+      expect(selected.defaultExerciseOverrides).toEqual([]);
+      expect(selected.muscleGroups).toBeNull();
+    });
+
+    it('should follow per-item resolutions', () => {
+      const selected = selectPackImport(items, {
+        'exerciseMapping:my-row': 'theirs',
+        'exerciseMapping:my-curl': 'mine',
+      });
+
+      expect(selected.exerciseMappings).toEqual([
+        expect.objectContaining({ originalPattern: 'my-row', canonicalExerciseId: 'barbell-row' }),
+      ]);
+    });
+  });
+});
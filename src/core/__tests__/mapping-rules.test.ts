@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileRulePattern,
+  createRuleMatcher,
+  previewRule,
+  RulePatternError,
+  toMatchText,
+  validateRulePattern,
+  type PrioritizedRule,
+} from '../mapping-rules';
+
+function rule(overrides: Partial<PrioritizedRule & { id: string }>): PrioritizedRule & {
+  id: string;
+} {
+  return {
+    id: 'r1',
+    matchType: 'glob',
+    pattern: '* lateral raise *',
+    priority: 1,
+    isEnabled: true,
+    ...overrides,
+  };
+}
+
+describe('mapping-rules', () => {
+  describe('toMatchText', () => {
+    it('should reduce names and IDs to the same plain words', () => {
+      expect(toMatchText('Lateral Raise (Dumbbell)')).toBe('lateral raise dumbbell');
+      expect(toMatchText('lateral-raise:dumbbell')).toBe('lateral raise dumbbell');
+    });
+  });
+
+  describe('compileRulePattern', () => {
+    it('should match globs with standalone wildcards as any number of words', () => {
+      const matches = compileRulePattern({ matchType: 'glob', pattern: '* lateral raise *' });
+
+      expect(matches('Lateral Raise')).toBe(true);
+      expect(matches('Seated Lateral Raise (Dumbbell)')).toBe(true);
+      expect(matches('lateral-raise:cable')).toBe(true);
+      expect(matches('Lateral Raises')).toBe(false);
+      expect(matches('Front Raise')).toBe(false);
+    });
+
+    it('should match whole names for globs without wildcards and inside words', () => {
+      expect(compileRulePattern({ matchType: 'glob', pattern: 'bench press' })('Bench Press')).toBe(
+        true
+      );
+      expect(
+        compileRulePattern({ matchType: 'glob', pattern: 'bench press' })('Bench Press (Dumbbell)')
+      ).toBe(false);
+      expect(compileRulePattern({ matchType: 'glob', pattern: 'curl*' })('Curls')).toBe(true);
+      expect(compileRulePattern({ matchType: 'glob', pattern: 'r?w' })('Row')).toBe(true);
+    });
+
+    it('should match contains patterns anywhere in the name', () => {
+      const matches = compileRulePattern({ matchType: 'contains', pattern: 'Stretch' });
+
+      expect(matches('Hamstring Stretch')).toBe(true);
+      expect(matches('stretching-routine')).toBe(true);
+      expect(matches('Squat')).toBe(false);
+    });
+
+    it('should test regexes case-insensitively against the plain words', () => {
+      const matches = compileRulePattern({ matchType: 'regex', pattern: '^Cable .* fly$' });
+
+      expect(matches('Cable Crossover Fly')).toBe(true);
+      expect(matches('cable-fly')).toBe(false);
+    });
+
+    it('should reject empty patterns and invalid regexes', () => {
+      expect(() => compileRulePattern({ matchType: 'contains', pattern: '  ' })).toThrow(
+        RulePatternError
+      );
+      expect(() => compileRulePattern({ matchType: 'regex', pattern: '(' })).toThrow(
+        RulePatternError
+      );
+      expect(validateRulePattern({ matchType: 'regex', pattern: '(' })).toMatch(
+        /Invalid regular expression/
+      );
+      expect(validateRulePattern({ matchType: 'glob', pattern: '*' })).toBeNull();
+    });
+  });
+
+  describe('createRuleMatcher', () => {
+    it('should return the first enabled rule by priority', () => {
+      const matchRule = createRuleMatcher([
+        rule({ id: 'late', matchType: 'contains', pattern: 'raise', priority: 5 }),
+        rule({ id: 'early', priority: 2 }),
+        rule({
+          id: 'off',
+          matchType: 'contains',
+          pattern: 'lateral',
+          priority: 1,
+          isEnabled: false,
+        }),
+      ]);
+
+      expect(matchRule('Lateral Raise')?.id).toBe('early');
+      expect(matchRule('Front Raise')?.id).toBe('late');
+      expect(matchRule('Squat')).toBeNull();
+    });
+
+    it('should skip rules with invalid patterns', () => {
+      const matchRule = createRuleMatcher([
+        rule({ id: 'bad', matchType: 'regex', pattern: '[', priority: 1 }),
+        rule({ id: 'good', priority: 2 }),
+      ]);
+
+      expect(matchRule('Lateral Raise')?.id).toBe('good');
+    });
+  });
+
+  describe('previewRule', () => {
+    it('should list matching names, or the pattern error', () => {
+      const names = ['Lateral Raise', 'Hamstring Stretch', 'Cable Lateral Raise'];
+
+      expect(previewRule({ matchType: 'glob', pattern: '* lateral raise' }, names)).toEqual({
+        matches: ['Lateral Raise', 'Cable Lateral Raise'],
+        error: null,
+      });
+      expect(previewRule({ matchType: 'regex', pattern: '(' }, names)).toMatchObject({
+        matches: [],
+        error: expect.stringMatching(/Invalid regular expression/) as unknown,
+      });
+    });
+  });
+});
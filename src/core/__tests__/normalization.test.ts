@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { cleanExerciseName, normalizeId } from '../utils/normalization';
+import {
+  cleanExerciseName,
+  getBaseExerciseId,
+  getExerciseVariation,
+  normalizeId,
+  parseExerciseId,
+} from '../utils/normalization';
 
 describe('normalization', () => {
   describe('cleanExerciseName', () => {
@@ -39,9 +45,17 @@ describe('normalization', () => {
       expect(normalizeId('Bicep Curl')).toBe('bicep-curl');
     });
 
-    it('should strip parentheses before normalizing', () => {
-      expect(normalizeId('Bench Press (Dumbbell)')).toBe('bench-press');
-      expect(normalizeId('Squat (Smith Machine)')).toBe('squat');
+    it('should keep parenthetical modifiers as a variation', () => {
+      expect(normalizeId('Bench Press (Dumbbell)')).toBe('bench-press:dumbbell');
+      expect(normalizeId('Squat (Smith Machine)')).toBe('squat:smith-machine');
+      expect(normalizeId('Bicep Curl (Dumbbell) (Single Arm)')).toBe(
+        'bicep-curl:dumbbell-single-arm'
+      );
+    });
+
+    it('should ignore empty parentheses and separators inside names', () => {
+      expect(normalizeId('Bench Press ()')).toBe('bench-press');
+      expect(normalizeId('Row: Cable (V: Grip)')).toBe('row-cable:v-grip');
     });
 
     it('should handle multiple spaces', () => {
@@ -56,4 +70,25 @@ describe('normalization', () => {
       expect(normalizeId('')).toBe('');
     });
   });
+
+  describe('getExerciseVariation', () => {
+    it('should join every parenthetical modifier', () => {
+      expect(getExerciseVariation('Bench Press (Dumbbell)')).toBe('Dumbbell');
+      expect(getExerciseVariation('Bicep Curl (Dumbbell) (Single Arm)')).toBe(
+        'Dumbbell Single Arm'
+      );
+      expect(getExerciseVariation('Pull Up')).toBe('');
+    });
+  });
+
+  describe('parseExerciseId', () => {
+    it('should split base exercise and variation', () => {
+      expect(parseExerciseId('bench-press:dumbbell')).toEqual({
+        baseId: 'bench-press',
+        variation: 'dumbbell',
+      });
+      expect(parseExerciseId('bench-press')).toEqual({ baseId: 'bench-press', variation: null });
+      expect(getBaseExerciseId('squat:smith-machine')).toBe('squat');
+    });
+  });
 });
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { detectPersonalRecords, type RecordSet, type RecordWorkout } from '../personal-records';
+
+function set(
+  exerciseId: string,
+  weight: number,
+  reps: number,
+  setType: RecordSet['setType'] = 'normal'
+): RecordSet {
+  return { exerciseId, originalName: exerciseId, setType, weight, reps };
+}
+
+describe('personal-records', () => {
+  describe('detectPersonalRecords', () => {
+    const baseline: RecordWorkout = {
+      id: 'w1',
+      date: new Date('2024-01-01'),
+      sets: [set('squat', 100, 5), set('squat', 100, 5), set('squat', 90, 8)],
+    };
+
+    it('should not report records for an exercise first session', () => {
+      expect(detectPersonalRecords([baseline])).toEqual([]);
+    });
+
+    it('should detect weight, e1RM and session volume PRs', () => {
+      const workout: RecordWorkout = {
+        id: 'w2',
+        date: new Date('2024-01-08'),
+        sets: [
+          set('squat', 110, 3),
+          set('squat', 100, 5),
+          set('squat', 100, 5),
+          set('squat', 100, 5),
+        ],
+      };
+
+      const records = detectPersonalRecords([baseline, workout]);
+      const types = records.map((r) => r.type);
+
+      expect(types).toContain('weight');
+      expect(types).toContain('e1rm');
+      expect(types).toContain('sessionVolume');
+
+      const weight = records.find((r) => r.type === 'weight');
+      expect(weight?.value).toBe(110);
+      expect(weight?.previousValue).toBe(100);
+      expect(weight?.workoutId).toBe('w2');
+
+      const volume = records.find((r) => r.type === 'sessionVolume');
+      expect(volume?.value).toBe(1830);
+      expect(volume?.previousValue).toBe(1720);
+    });
+
+    it('should not report a volume PR when volume did not increase', () => {
+      const workout: RecordWorkout = {
+        id: 'w2',
+        date: new Date('2024-01-08'),
+        sets: [set('squat', 110, 3)],
+      };
+
+      const types = detectPersonalRecords([baseline, workout]).map((r) => r.type);
+      expect(types).not.toContain('sessionVolume');
+    });
+
+    it('should detect rep PRs at or above a previously used weight', () => {
+      const workout: RecordWorkout = {
+        id: 'w2',
+        date: new Date('2024-01-08'),
+        sets: [set('squat', 100, 7)],
+      };
+
+      const reps = detectPersonalRecords([baseline, workout]).find((r) => r.type === 'reps');
+      expect(reps?.value).toBe(7);
+      expect(reps?.previousValue).toBe(5);
+      expect(reps?.weight).toBe(100);
+    });
+
+    it('should not report rep PRs at a weight never reached before', () => {
+      const workout: RecordWorkout = {
+        id: 'w2',
+        date: new Date('2024-01-08'),
+        sets: [set('squat', 105, 2)],
+      };
+
+      const types = detectPersonalRecords([baseline, workout]).map((r) => r.type);
+      expect(types).not.toContain('reps');
+    });
+
+    it('should ignore warmup sets', () => {
+      const workout: RecordWorkout = {
+        id: 'w2',
+        date: new Date('2024-01-08'),
+        sets: [set('squat', 150, 1, 'warmup')],
+      };
+
+      expect(detectPersonalRecords([baseline, workout])).toEqual([]);
+    });
+
+    it('should compare against earlier workouts only, regardless of input order', () => {
+      const later: RecordWorkout = {
+        id: 'w3',
+        date: new Date('2024-02-01'),
+        sets: [set('squat', 120, 1)],
+      };
+      const backfilled: RecordWorkout = {
+        id: 'w2',
+        date: new Date('2024-01-15'),
+        sets: [set('squat', 110, 1)],
+      };
+
+      const records = detectPersonalRecords([later, baseline, backfilled]).filter(
+        (r) => r.type === 'weight'
+      );
+
+      expect(records.map((r) => [r.workoutId, r.previousValue])).toEqual([
+        ['w2', 100],
+        ['w3', 110],
+      ]);
+    });
+
+    it('should only report records on or after the since date', () => {
+      const workouts: RecordWorkout[] = [
+        baseline,
+        { id: 'w2', date: new Date('2024-01-08'), sets: [set('squat', 110, 1)] },
+        { id: 'w3', date: new Date('2024-01-15'), sets: [set('squat', 120, 1)] },
+      ];
+
+      const records = detectPersonalRecords(workouts, { since: new Date('2024-01-10') });
+      expect(records.every((r) => r.workoutId === 'w3')).toBe(true);
+      expect(records.find((r) => r.type === 'weight')?.previousValue).toBe(110);
+    });
+
+    it('should fold aliases into one exercise history', () => {
+      const workout: RecordWorkout = {
+        id: 'w2',
+        date: new Date('2024-01-08'),
+        sets: [set('back-squat', 110, 1)],
+      };
+
+      const resolveExerciseId = (id: string): string => (id === 'back-squat' ? 'squat' : id);
+      const records = detectPersonalRecords([baseline, workout], { resolveExerciseId });
+
+      expect(records.find((r) => r.type === 'weight')?.exerciseId).toBe('squat');
+      expect(detectPersonalRecords([baseline, workout])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { expandPlannedSets, projectProgramVolume } from '../program-volume';
+import type { ExerciseMapping } from '../taxonomy';
+
+const mappings = new Map<string, ExerciseMapping>([
+  ['bench-press', { 'Pectoralis Major (Sternal)': 1.0, 'Triceps (Lateral/Medial)': 0.5 }],
+  ['pull-up', { 'Latissimus Dorsi': 1.0, 'Biceps Brachii': 0.5 }],
+]);
+
+describe('program-volume', () => {
+  describe('expandPlannedSets', () => {
+    it('should create one working set per planned set', () => {
+      const sets = expandPlannedSets([
+        { exercises: [{ exerciseId: 'bench-press', sets: 2 }] },
+        { exercises: [{ exerciseId: 'pull-up', sets: 1 }] },
+      ]);
+
+      expect(sets.map((s) => s.exerciseId)).toEqual(['bench-press', 'bench-press', 'pull-up']);
+      expect(sets.every((s) => s.setType === 'normal')).toBe(true);
+    });
+
+    it('should ignore fractional and negative set counts', () => {
+      const sets = expandPlannedSets([
+        {
+          exercises: [
+            { exerciseId: 'bench-press', sets: 2.7 },
+            { exerciseId: 'pull-up', sets: -1 },
+          ],
+        },
+      ]);
+
+      expect(sets).toHaveLength(2);
+    });
+  });
+
+  describe('projectProgramVolume', () => {
+    it('should sum fractional volume across days', () => {
+      const projection = projectProgramVolume(
+        [
+          {
+            exercises: [
+              { exerciseId: 'bench-press', sets: 3 },
+              { exerciseId: 'pull-up', sets: 4 },
+            ],
+          },
+          { exercises: [{ exerciseId: 'bench-press', sets: 2 }] },
+        ],
+        mappings
+      );
+
+      expect(projection.totalSets).toBe(9);
+      expect(projection.muscles).toEqual({
+        'Pectoralis Major (Sternal)': 5,
+        'Triceps (Lateral/Medial)': 2.5,
+        'Latissimus Dorsi': 4,
+        'Biceps Brachii': 2,
+      });
+      expect(projection.unmappedExerciseIds).toEqual([]);
+    });
+
+    it('should list planned exercises without muscle values once', () => {
+      const projection = projectProgramVolume(
+        [
+          { exercises: [{ exerciseId: 'mystery-machine', sets: 3 }] },
+          { exercises: [{ exerciseId: 'mystery-machine', sets: 2 }] },
+        ],
+        mappings
+      );
+
+      expect(projection.muscles).toEqual({});
+      expect(projection.totalSets).toBe(5);
+      expect(projection.unmappedExerciseIds).toEqual(['mystery-machine']);
+    });
+  });
+});
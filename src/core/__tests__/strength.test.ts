@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  epley,
+  brzycki,
+  getRpePercentage,
+  estimateOneRepMax,
+  buildStrengthHistory,
+  findRepRecords,
+  getCurrentRepRecords,
+  type StrengthSession,
+} from '../strength';
+
+describe('strength', () => {
+  describe('formulas', () => {
+    it('should estimate with Epley', () => {
+      expect(epley(100, 1)).toBe(100);
+      expect(epley(100, 5)).toBeCloseTo(116.67, 2);
+      expect(epley(100, 10)).toBeCloseTo(133.33, 2);
+    });
+
+    it('should estimate with Brzycki', () => {
+      expect(brzycki(100, 1)).toBe(100);
+      expect(brzycki(100, 5)).toBeCloseTo(112.5, 2);
+      expect(brzycki(100, 37)).toBeNull();
+    });
+  });
+
+  describe('getRpePercentage', () => {
+    it('should return chart percentages', () => {
+      expect(getRpePercentage(1, 10)).toBe(1);
+      expect(getRpePercentage(2, 10)).toBeCloseTo(0.955);
+      expect(getRpePercentage(5, 8)).toBeCloseTo(0.811);
+      expect(getRpePercentage(12, 6)).toBeCloseTo(0.574);
+    });
+
+    it('should round RPE to the nearest half point', () => {
+      expect(getRpePercentage(3, 8.6)).toBe(getRpePercentage(3, 8.5));
+    });
+
+    it('should return null outside the chart', () => {
+      expect(getRpePercentage(13, 8)).toBeNull();
+      expect(getRpePercentage(5, 5)).toBeNull();
+      expect(getRpePercentage(0, 8)).toBeNull();
+    });
+  });
+
+  describe('estimateOneRepMax', () => {
+    it('should ignore warmups and empty sets', () => {
+      expect(estimateOneRepMax({ setType: 'warmup', weight: 60, reps: 5 })).toBeNull();
+      expect(estimateOneRepMax({ setType: 'normal', weight: 0, reps: 10 })).toBeNull();
+      expect(estimateOneRepMax({ setType: 'normal', weight: 100, reps: 0 })).toBeNull();
+    });
+
+    it('should use the RPE chart when RPE is logged', () => {
+      const result = estimateOneRepMax({ setType: 'normal', weight: 81.1, reps: 5, rpe: 8 }, 'rpe');
+      expect(result).toBeCloseTo(100, 1);
+    });
+
+    it('should fall back to Epley without a usable RPE', () => {
+      const set = { setType: 'normal' as const, weight: 100, reps: 5 };
+      expect(estimateOneRepMax(set, 'rpe')).toBe(epley(100, 5));
+      expect(estimateOneRepMax({ ...set, reps: 15, rpe: 9 }, 'rpe')).toBe(epley(100, 15));
+    });
+  });
+
+  describe('buildStrengthHistory', () => {
+    const sessions: StrengthSession[] = [
+      {
+        date: new Date('2024-01-08'),
+        sets: [
+          { setType: 'warmup', weight: 60, reps: 5 },
+          { setType: 'normal', weight: 100, reps: 5 },
+          { setType: 'normal', weight: 105, reps: 3 },
+        ],
+      },
+      {
+        date: new Date('2024-01-01'),
+        sets: [{ setType: 'normal', weight: 95, reps: 5 }],
+      },
+      {
+        date: new Date('2024-01-15'),
+        sets: [{ setType: 'warmup', weight: 60, reps: 5 }],
+      },
+    ];
+
+    it('should return one point per session with working sets, sorted by date', () => {
+      const history = buildStrengthHistory(sessions);
+
+      expect(history).toHaveLength(2);
+      expect(history[0]?.date).toEqual(new Date('2024-01-01'));
+      expect(history[1]?.date).toEqual(new Date('2024-01-08'));
+    });
+
+    it('should pick the set with the best estimate', () => {
+      const history = buildStrengthHistory(sessions);
+
+      // 100x5 (116.7) beats 105x3 (115.5) with Epley
+      expect(history[1]?.bestSet.weight).toBe(100);
+      expect(history[1]?.estimatedOneRepMax).toBeCloseTo(116.67, 2);
+      expect(history[1]?.topWeight).toBe(105);
+    });
+  });
+
+  describe('findRepRecords', () => {
+    const sessions: StrengthSession[] = [
+      {
+        date: new Date('2024-01-01'),
+        sets: [
+          { setType: 'normal', weight: 100, reps: 5 },
+          { setType: 'normal', weight: 90, reps: 5 },
+          { setType: 'normal', weight: 80, reps: 10 },
+        ],
+      },
+      {
+        date: new Date('2024-01-08'),
+        sets: [
+          { setType: 'warmup', weight: 120, reps: 5 },
+          { setType: 'normal', weight: 100, reps: 5 },
+          { setType: 'normal', weight: 85, reps: 10 },
+        ],
+      },
+      {
+        date: new Date('2024-01-15'),
+        sets: [{ setType: 'normal', weight: 105, reps: 5 }],
+      },
+    ];
+
+    it('should record each new best weight per rep count', () => {
+      const records = findRepRecords(sessions);
+
+      expect(records.map((r) => [r.reps, r.weight])).toEqual([
+        [5, 100],
+        [10, 80],
+        [10, 85],
+        [5, 105],
+      ]);
+      expect(records[0]?.previousWeight).toBeNull();
+      expect(records[3]?.previousWeight).toBe(100);
+    });
+
+    it('should return the current best per rep count', () => {
+      const current = getCurrentRepRecords(findRepRecords(sessions));
+
+      expect(current.map((r) => [r.reps, r.weight])).toEqual([
+        [5, 105],
+        [10, 85],
+      ]);
+    });
+  });
+});
@@ -2,6 +2,13 @@ import { describe, it, expect } from 'vitest';
 import {
   calculateMuscleVolume,
   aggregateToFunctionalGroups,
+  getSetCount,
+  getEffectiveSetFactor,
+  calculateTotalVolume,
+  getSetMetricValue,
+  formatMetricValue,
+  DEFAULT_EFFECTIVE_SET_RULES,
+  type EffectiveSetRules,
   type WorkoutSet,
 } from '../volume-calculator';
 import { DEFAULT_SCIENTIFIC_TO_FUNCTIONAL, type ExerciseMapping } from '../taxonomy';
@@ -102,6 +109,205 @@ describe('volume-calculator', () => {
       const result = calculateMuscleVolume([], exerciseMappings);
       expect(Object.keys(result)).toHaveLength(0);
     });
+
+    it('should scale timed sets by the seconds-per-set equivalence', () => {
+      const sets: WorkoutSet[] = [
+        { exerciseId: 'pull-up', setType: 'normal', weight: 0, reps: 0, durationSeconds: 90 },
+      ];
+
+      const result = calculateMuscleVolume(sets, exerciseMappings, {
+        equivalence: { secondsPerSet: 60 },
+      });
+
+      expect(result['Latissimus Dorsi']).toBeCloseTo(1.5);
+      expect(result['Biceps Brachii']).toBeCloseTo(0.6);
+    });
+
+    it('should count timed sets as one set without an equivalence', () => {
+      const sets: WorkoutSet[] = [
+        { exerciseId: 'pull-up', setType: 'normal', weight: 0, reps: 0, durationSeconds: 90 },
+      ];
+
+      const result = calculateMuscleVolume(sets, exerciseMappings);
+
+      expect(result['Latissimus Dorsi']).toBe(1.0);
+    });
+  });
+
+  describe('effective sets', () => {
+    const rules: EffectiveSetRules = {
+      rpeThreshold: 7,
+      penaltyPerRpe: 0.25,
+      dropSetRule: 'half',
+    };
+
+    const benchMapping = new Map<string, ExerciseMapping>([
+      ['bench-press', { 'Pectoralis Major (Sternal)': 1.0, 'Anterior Deltoid': 0.8 }],
+    ]);
+
+    it('should count sets at or above the RPE threshold fully', () => {
+      const set: WorkoutSet = {
+        exerciseId: 'bench-press',
+        setType: 'normal',
+        weight: 100,
+        reps: 8,
+        rpe: 8,
+      };
+      expect(getEffectiveSetFactor(set, rules)).toBe(1);
+      expect(getEffectiveSetFactor({ ...set, rpe: 7 }, rules)).toBe(1);
+    });
+
+    it('should discount sets below the RPE threshold', () => {
+      const set: WorkoutSet = {
+        exerciseId: 'bench-press',
+        setType: 'normal',
+        weight: 100,
+        reps: 8,
+        rpe: 6,
+      };
+      expect(getEffectiveSetFactor(set, rules)).toBe(0.75);
+      expect(getEffectiveSetFactor({ ...set, rpe: 5 }, rules)).toBe(0.5);
+      expect(getEffectiveSetFactor({ ...set, rpe: 2 }, rules)).toBe(0);
+    });
+
+    it('should count failure sets and sets without RPE fully', () => {
+      const set: WorkoutSet = {
+        exerciseId: 'bench-press',
+        setType: 'failure',
+        weight: 100,
+        reps: 8,
+      };
+      expect(getEffectiveSetFactor({ ...set, rpe: 5 }, rules)).toBe(1);
+      expect(getEffectiveSetFactor({ ...set, setType: 'normal' }, rules)).toBe(1);
+    });
+
+    it('should apply the drop set rule', () => {
+      const set: WorkoutSet = { exerciseId: 'bench-press', setType: 'drop', weight: 60, reps: 10 };
+      expect(getEffectiveSetFactor(set, { ...rules, dropSetRule: 'full' })).toBe(1);
+      expect(getEffectiveSetFactor(set, { ...rules, dropSetRule: 'half' })).toBe(0.5);
+      expect(getEffectiveSetFactor(set, { ...rules, dropSetRule: 'ignore' })).toBe(0);
+    });
+
+    it('should scale muscle volume by the effective factor', () => {
+      const sets: WorkoutSet[] = [
+        { exerciseId: 'bench-press', setType: 'normal', weight: 100, reps: 8, rpe: 9 },
+        { exerciseId: 'bench-press', setType: 'normal', weight: 100, reps: 8, rpe: 5 },
+        { exerciseId: 'bench-press', setType: 'drop', weight: 70, reps: 10 },
+      ];
+
+      const raw = calculateMuscleVolume(sets, benchMapping);
+      const effective = calculateMuscleVolume(sets, benchMapping, { effectiveSetRules: rules });
+
+      expect(raw['Pectoralis Major (Sternal)']).toBe(3);
+      expect(effective['Pectoralis Major (Sternal)']).toBe(2); // 1 + 0.5 + 0.5
+      expect(effective['Anterior Deltoid']).toBeCloseTo(1.6);
+    });
+
+    it('should count effective sets excluding warmups', () => {
+      const sets: WorkoutSet[] = [
+        { exerciseId: 'bench-press', setType: 'warmup', weight: 40, reps: 10 },
+        { exerciseId: 'bench-press', setType: 'normal', weight: 100, reps: 8, rpe: 6 },
+        { exerciseId: 'bench-press', setType: 'normal', weight: 100, reps: 8 },
+      ];
+
+      expect(calculateTotalVolume(sets)).toBe(2);
+      expect(calculateTotalVolume(sets, { effectiveSetRules: rules })).toBe(1.75);
+    });
+
+    it('should count raw and effective totals alike when no set is discounted', () => {
+      const sets: WorkoutSet[] = [
+        { exerciseId: 'bench-press', setType: 'warmup', weight: 40, reps: 10 },
+        { exerciseId: 'bench-press', setType: 'normal', weight: 100, reps: 8, rpe: 8 },
+        { exerciseId: 'plank', setType: 'normal', weight: 0, reps: 0, durationSeconds: 90 },
+      ];
+      const equivalence = { secondsPerSet: 30 };
+
+      expect(calculateTotalVolume(sets, { equivalence })).toBe(4);
+      expect(calculateTotalVolume(sets, { equivalence, effectiveSetRules: rules })).toBe(4);
+    });
+
+    it('should export sensible defaults', () => {
+      expect(DEFAULT_EFFECTIVE_SET_RULES.rpeThreshold).toBe(7);
+      expect(DEFAULT_EFFECTIVE_SET_RULES.dropSetRule).toBe('half');
+    });
+  });
+
+  describe('volume metrics', () => {
+    const squatMapping = new Map<string, ExerciseMapping>([
+      ['squat', { 'Quadriceps (Vasti)': 1.0, 'Gluteus Maximus': 0.5 }],
+    ]);
+
+    const sets: WorkoutSet[] = [
+      { exerciseId: 'squat', setType: 'warmup', weight: 60, reps: 10 },
+      { exerciseId: 'squat', setType: 'normal', weight: 100, reps: 5 },
+      { exerciseId: 'squat', setType: 'normal', weight: 100, reps: 8 },
+    ];
+
+    it('should return the per-set value for each metric', () => {
+      const set: WorkoutSet = { exerciseId: 'squat', setType: 'normal', weight: 100, reps: 5 };
+      expect(getSetMetricValue(set)).toBe(1);
+      expect(getSetMetricValue(set, 'tonnage')).toBe(500);
+      expect(getSetMetricValue(set, 'reps')).toBe(5);
+    });
+
+    it('should calculate fractional tonnage per muscle', () => {
+      const result = calculateMuscleVolume(sets, squatMapping, { metric: 'tonnage' });
+
+      expect(result['Quadriceps (Vasti)']).toBe(1300);
+      expect(result['Gluteus Maximus']).toBe(650);
+    });
+
+    it('should calculate fractional rep volume per muscle', () => {
+      const result = calculateMuscleVolume(sets, squatMapping, { metric: 'reps' });
+
+      expect(result['Quadriceps (Vasti)']).toBe(13);
+      expect(result['Gluteus Maximus']).toBe(6.5);
+    });
+
+    it('should aggregate tonnage to functional groups', () => {
+      const scientific = calculateMuscleVolume(sets, squatMapping, { metric: 'tonnage' });
+      const grouped = aggregateToFunctionalGroups(scientific, DEFAULT_SCIENTIFIC_TO_FUNCTIONAL);
+
+      expect(grouped.Quads).toBe(1300);
+      expect(grouped.Glutes).toBe(650);
+    });
+
+    it('should total the metric without splitting across muscles', () => {
+      expect(calculateTotalVolume(sets)).toBe(2);
+      expect(calculateTotalVolume(sets, { metric: 'tonnage' })).toBe(1300);
+      expect(calculateTotalVolume(sets, { metric: 'reps' })).toBe(13);
+    });
+
+    it('should format values per metric', () => {
+      expect(formatMetricValue(2.5, 'sets')).toBe('2.5');
+      expect(formatMetricValue(3, 'sets')).toBe('3');
+      expect(formatMetricValue(1299.6, 'tonnage')).toBe('1300');
+      expect(formatMetricValue(12345, 'tonnage')).toBe('12.3k');
+    });
+  });
+
+  describe('getSetCount', () => {
+    const baseSet: WorkoutSet = { exerciseId: 'row', setType: 'normal', weight: 0, reps: 0 };
+
+    it('should count sets with reps as one set regardless of duration', () => {
+      const set = { ...baseSet, reps: 10, durationSeconds: 120 };
+      expect(getSetCount(set, { secondsPerSet: 30 })).toBe(1);
+    });
+
+    it('should prefer distance over duration when both are configured', () => {
+      const set = { ...baseSet, distanceMeters: 2000, durationSeconds: 480 };
+      expect(getSetCount(set, { secondsPerSet: 60, metersPerSet: 500 })).toBe(4);
+    });
+
+    it('should fall back to duration when only seconds are configured', () => {
+      const set = { ...baseSet, distanceMeters: 2000, durationSeconds: 480 };
+      expect(getSetCount(set, { secondsPerSet: 120 })).toBe(4);
+    });
+
+    it('should ignore non-positive equivalence values', () => {
+      const set = { ...baseSet, durationSeconds: 60 };
+      expect(getSetCount(set, { secondsPerSet: 0 })).toBe(1);
+    });
   });
 
   describe('aggregateToFunctionalGroups', () => {
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeByExercise, traceMuscleVolume, type TraceWorkout } from '../volume-trace';
+import {
+  calculateMuscleVolume,
+  DEFAULT_EFFECTIVE_SET_RULES,
+  type VolumeContribution,
+} from '../volume-calculator';
+import type { ExerciseMapping } from '../taxonomy';
+
+const exerciseMappings = new Map<string, ExerciseMapping>([
+  ['lateral-raise', { 'Lateral Deltoid': 1.0 }],
+  ['pull-up', { 'Latissimus Dorsi': 1.0, 'Biceps Brachii': 0.5 }],
+]);
+
+const workouts: TraceWorkout[] = [
+  {
+    id: 'w2',
+    title: 'Pull',
+    date: new Date(2024, 2, 14, 18),
+    sets: [
+      { exerciseId: 'pull-up', originalName: 'Pull Up', setType: 'warmup', weight: 0, reps: 5 },
+      {
+        exerciseId: 'pull-up',
+        originalName: 'Pull Up',
+        setType: 'normal',
+        weight: 0,
+        reps: 8,
+        rpe: 6,
+      },
+      { exerciseId: 'mystery', originalName: 'Mystery', setType: 'normal', weight: 10, reps: 10 },
+    ],
+  },
+  {
+    id: 'w1',
+    title: 'Upper',
+    date: new Date(2024, 2, 12, 18),
+    sets: [
+      {
+        exerciseId: 'lateral-raise',
+        originalName: 'Lateral Raise',
+        setType: 'normal',
+        weight: 10,
+        reps: 12,
+      },
+      { exerciseId: 'pull-up', originalName: 'Pull Up', setType: 'failure', weight: 0, reps: 6 },
+    ],
+  },
+];
+
+describe('volume-trace', () => {
+  describe('calculateMuscleVolume onContribution', () => {
+    it('should report each muscle contribution of each set', () => {
+      const contributions: VolumeContribution[] = [];
+      calculateMuscleVolume(workouts[1]?.sets ?? [], exerciseMappings, {
+        onContribution: (c) => contributions.push(c),
+      });
+
+      expect(contributions.map((c) => [c.muscle, c.share, c.volume])).toEqual([
+        ['Lateral Deltoid', 1, 1],
+        ['Latissimus Dorsi', 1, 1],
+        ['Biceps Brachii', 0.5, 0.5],
+      ]);
+    });
+  });
+
+  describe('traceMuscleVolume', () => {
+    it('should attribute contributions to workouts and sets, oldest first', () => {
+      const entries = traceMuscleVolume(workouts, exerciseMappings, {}, 'Biceps Brachii');
+
+      expect(entries.map((e) => [e.workoutId, e.setIndex, e.volume])).toEqual([
+        ['w1', 1, 0.5],
+        ['w2', 1, 0.5],
+      ]);
+      expect(entries[0]).toMatchObject({
+        workoutTitle: 'Upper',
+        exerciseId: 'pull-up',
+        originalName: 'Pull Up',
+        setType: 'failure',
+        share: 0.5,
+        setValue: 1,
+      });
+    });
+
+    it('should add up to the calculated volume for every muscle', () => {
+      const options = { effectiveSetRules: DEFAULT_EFFECTIVE_SET_RULES };
+      const entries = traceMuscleVolume(workouts, exerciseMappings, options);
+      const volume = calculateMuscleVolume(
+        workouts.flatMap((w) => w.sets),
+        exerciseMappings,
+        options
+      );
+
+      const traced: Record<string, number> = {};
+      for (const entry of entries) {
+        traced[entry.muscle] = (traced[entry.muscle] ?? 0) + entry.volume;
+      }
+      expect(traced).toEqual(volume);
+      // RPE 6 is one point below the threshold
+      expect(entries.find((e) => e.workoutId === 'w2')?.setValue).toBe(0.75);
+    });
+  });
+
+  describe('summarizeByExercise', () => {
+    it('should rank exercises by their share of each muscle', () => {
+      const mappings = new Map<string, ExerciseMapping>([
+        ...exerciseMappings,
+        ['overhead-press', { 'Lateral Deltoid': 0.5, 'Anterior Deltoid': 1.0 }],
+      ]);
+      const summary = summarizeByExercise(
+        traceMuscleVolume(
+          [
+            {
+              id: 'w3',
+              title: 'Shoulders',
+              date: new Date(2024, 2, 15, 18),
+              sets: [
+                ...Array.from({ length: 3 }, () => ({
+                  exerciseId: 'lateral-raise',
+                  originalName: 'Lateral Raise',
+                  setType: 'normal' as const,
+                  weight: 10,
+                  reps: 12,
+                })),
+                ...Array.from({ length: 2 }, () => ({
+                  exerciseId: 'overhead-press',
+                  originalName: 'Overhead Press',
+                  setType: 'normal' as const,
+                  weight: 50,
+                  reps: 8,
+                })),
+              ],
+            },
+          ],
+          mappings
+        )
+      );
+
+      expect(summary['Lateral Deltoid']).toEqual([
+        {
+          exerciseId: 'lateral-raise',
+          originalName: 'Lateral Raise',
+          sets: 3,
+          volume: 3,
+          percentage: 75,
+        },
+        {
+          exerciseId: 'overhead-press',
+          originalName: 'Overhead Press',
+          sets: 2,
+          volume: 1,
+          percentage: 25,
+        },
+      ]);
+      expect(summary['Anterior Deltoid']?.[0]).toMatchObject({ sets: 2, percentage: 100 });
+    });
+
+    it('should leave out sets that added no volume', () => {
+      const summary = summarizeByExercise(
+        traceMuscleVolume(
+          [
+            {
+              id: 'w4',
+              title: 'Drops',
+              date: new Date(2024, 2, 16, 18),
+              sets: [
+                {
+                  exerciseId: 'lateral-raise',
+                  originalName: 'Lateral Raise',
+                  setType: 'normal',
+                  weight: 10,
+                  reps: 12,
+                },
+                {
+                  exerciseId: 'lateral-raise',
+                  originalName: 'Lateral Raise',
+                  setType: 'drop',
+                  weight: 6,
+                  reps: 12,
+                },
+              ],
+            },
+          ],
+          exerciseMappings,
+          { effectiveSetRules: { ...DEFAULT_EFFECTIVE_SET_RULES, dropSetRule: 'ignore' } }
+        )
+      );
+
+      expect(summary['Lateral Deltoid']?.[0]).toMatchObject({ sets: 1, volume: 1 });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { averageVolume, buildVolumeTrend, type TrendWorkout } from '../volume-trends';
+import { getTrailingWeekRanges, toLocalDateKey } from '../date-range';
+import { DEFAULT_SCIENTIFIC_TO_FUNCTIONAL, type ExerciseMapping } from '../taxonomy';
+import type { WorkoutSet } from '../volume-calculator';
+
+// Wednesday, March 13 2024
+const NOW = new Date(2024, 2, 13, 12);
+
+const exerciseMappings = new Map<string, ExerciseMapping>([
+  ['lateral-raise', { 'Lateral Deltoid': 1.0 }],
+  ['pull-up', { 'Latissimus Dorsi': 1.0, 'Biceps Brachii': 0.5 }],
+]);
+
+function sets(exerciseId: string, count: number): WorkoutSet[] {
+  return Array.from({ length: count }, () => ({
+    exerciseId,
+    setType: 'normal' as const,
+    weight: 10,
+    reps: 10,
+  }));
+}
+
+describe('volume-trends', () => {
+  describe('getTrailingWeekRanges', () => {
+    it('should return calendar weeks oldest first, ending with the current week', () => {
+      const weeks = getTrailingWeekRanges(3, NOW);
+      expect(weeks.map((w) => toLocalDateKey(w.start))).toEqual([
+        '2024-02-26',
+        '2024-03-04',
+        '2024-03-11',
+      ]);
+      expect(toLocalDateKey(weeks[2]?.end as Date)).toBe('2024-03-17');
+    });
+  });
+
+  describe('buildVolumeTrend', () => {
+    const weeks = getTrailingWeekRanges(3, NOW);
+    const workouts: TrendWorkout[] = [
+      { date: new Date(2024, 2, 12, 18), sets: sets('lateral-raise', 6) },
+      { date: new Date(2024, 1, 27, 18), sets: sets('lateral-raise', 2) },
+      { date: new Date(2024, 1, 28, 18), sets: sets('pull-up', 4) },
+      { date: new Date(2024, 0, 2, 18), sets: sets('pull-up', 10) }, // Outside the trend
+    ];
+
+    it('should bucket volume per week in range order', () => {
+      const trend = buildVolumeTrend(
+        workouts,
+        weeks,
+        exerciseMappings,
+        DEFAULT_SCIENTIFIC_TO_FUNCTIONAL
+      );
+
+      expect(trend.map((p) => p.muscles['Lateral Deltoid'] ?? 0)).toEqual([2, 0, 6]);
+      expect(trend.map((p) => p.muscles['Latissimus Dorsi'] ?? 0)).toEqual([4, 0, 0]);
+      expect(trend[0]?.muscles['Biceps Brachii']).toBe(2);
+    });
+
+    it('should aggregate each week to functional groups', () => {
+      const trend = buildVolumeTrend(
+        workouts,
+        weeks,
+        exerciseMappings,
+        DEFAULT_SCIENTIFIC_TO_FUNCTIONAL
+      );
+
+      expect(trend[0]?.groups['Side Delts']).toBe(2);
+      expect(trend[0]?.groups.Lats).toBe(4);
+      expect(trend[1]?.groups).toEqual({});
+    });
+
+    it('should apply volume options', () => {
+      const trend = buildVolumeTrend(
+        workouts,
+        weeks,
+        exerciseMappings,
+        DEFAULT_SCIENTIFIC_TO_FUNCTIONAL,
+        { metric: 'reps' }
+      );
+
+      expect(trend[2]?.muscles['Lateral Deltoid']).toBe(60);
+    });
+  });
+
+  describe('averageVolume', () => {
+    it('should count empty weeks as zero', () => {
+      expect(averageVolume([6, 0, 3])).toBe(3);
+      expect(averageVolume([])).toBe(0);
+    });
+  });
+});
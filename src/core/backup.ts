@@ -0,0 +1,404 @@
+/**
+ * Profile Backup Format
+ *
+ * Versioned JSON export of a profile and everything customized under it, so data
+ * survives a cleared browser cache. Parsing validates the format and version and
+ * revives dates; restore planning resolves ID collisions without touching the DB.
+ *
+ * The Hevy API key and sync cursor are deliberately left out of backups: the file
+ * may be shared, and a restored profile should do a fresh full sync.
+ */
+
+import type {
+  Profile,
+  Workout,
+  ExerciseMapping,
+  UnmappedExercise,
+  DefaultExerciseOverride,
+  DefaultNameMappingOverride,
+  CustomExercise,
+  MappingRule,
+  LearnedMatchRule,
+  AutoMatchDecision,
+  TrainingProgram,
+} from '@db/schema';
+
+export const BACKUP_FORMAT = 'gym-analytics-backup';
+export const BACKUP_VERSION = 4;
+
+/**
+ * Profile settings as stored in a backup (no credentials or sync state)
+ */
+export type BackupProfile = Omit<Profile, 'hevyApiKey' | 'lastSyncTimestamp'>;
+
+/**
+ * Per-profile tables included in a backup
+ */
+export interface BackupTables {
+  workouts: Workout[];
+  exerciseMappings: ExerciseMapping[];
+  unmappedExercises: UnmappedExercise[];
+  defaultExerciseOverrides: DefaultExerciseOverride[];
+  defaultNameMappingOverrides: DefaultNameMappingOverride[];
+  customExercises: CustomExercise[];
+  mappingRules: MappingRule[];
+  learnedMatchRules: LearnedMatchRule[];
+  autoMatchDecisions: AutoMatchDecision[];
+  trainingPrograms: TrainingProgram[];
+}
+
+export type BackupTableName = keyof BackupTables;
+
+/**
+ * Tables whose records are matched to the target profile's by natural key on restore.
+ * Workouts, auto-match decisions and training programs have no natural key and are
+ * only matched by ID.
+ */
+type CustomizationTableName = Exclude<
+  BackupTableName,
+  'workouts' | 'autoMatchDecisions' | 'trainingPrograms'
+>;
+
+export const BACKUP_TABLES: readonly BackupTableName[] = [
+  'workouts',
+  'exerciseMappings',
+  'unmappedExercises',
+  'defaultExerciseOverrides',
+  'defaultNameMappingOverrides',
+  'customExercises',
+  'mappingRules',
+  'learnedMatchRules',
+  'autoMatchDecisions',
+  'trainingPrograms',
+];
+
+/**
+ * Backup version that introduced each table added after version 1.
+ * Older backups lack these tables and restore them as empty.
+ */
+const TABLE_SINCE_VERSION: Partial<Record<BackupTableName, number>> = {
+  customExercises: 2,
+  mappingRules: 3,
+  learnedMatchRules: 4,
+  autoMatchDecisions: 4,
+  trainingPrograms: 4,
+};
+
+export interface ProfileBackup extends BackupTables {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: Date;
+  profile: BackupProfile;
+}
+
+/**
+ * Thrown when a backup file cannot be read or restored
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/**
+ * Date fields per record type, revived from ISO strings on parse
+ */
+const DATE_FIELDS: Record<BackupTableName | 'profile', string[]> = {
+  profile: ['createdAt'],
+  workouts: ['date'],
+  exerciseMappings: ['createdAt'],
+  unmappedExercises: ['firstSeenAt'],
+  defaultExerciseOverrides: ['createdAt', 'updatedAt'],
+  defaultNameMappingOverrides: ['createdAt', 'updatedAt'],
+  customExercises: ['createdAt', 'updatedAt'],
+  mappingRules: ['createdAt', 'updatedAt'],
+  learnedMatchRules: ['createdAt', 'updatedAt'],
+  autoMatchDecisions: ['decidedAt'],
+  trainingPrograms: ['createdAt', 'updatedAt'],
+};
+
+/**
+ * String fields every record must carry
+ */
+const REQUIRED_FIELDS: Record<BackupTableName | 'profile', string[]> = {
+  profile: ['id', 'name'],
+  workouts: ['id', 'title'],
+  exerciseMappings: ['id', 'originalPattern'],
+  unmappedExercises: ['id', 'normalizedName'],
+  defaultExerciseOverrides: ['id', 'exerciseName'],
+  defaultNameMappingOverrides: ['id', 'gymName', 'canonicalName'],
+  customExercises: ['id', 'name'],
+  mappingRules: ['id', 'matchType', 'pattern'],
+  learnedMatchRules: ['id', 'kind', 'token'],
+  autoMatchDecisions: ['id', 'normalizedName', 'suggestedId', 'outcome'],
+  trainingPrograms: ['id', 'name'],
+};
+
+/**
+ * Build a backup from a profile and its records
+ */
+export function createProfileBackup(
+  profile: Profile,
+  tables: BackupTables,
+  exportedAt: Date = new Date()
+): ProfileBackup {
+  const backupProfile: Partial<Profile> = { ...profile };
+  delete backupProfile.hevyApiKey;
+  delete backupProfile.lastSyncTimestamp;
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt,
+    profile: backupProfile as BackupProfile,
+    ...tables,
+  };
+}
+
+/**
+ * Serialize a backup to JSON (dates become ISO strings)
+ */
+export function serializeBackup(backup: ProfileBackup): string {
+  return JSON.stringify(backup, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check required fields and revive dates on one record, in place
+ */
+function reviveRecord(
+  value: unknown,
+  kind: BackupTableName | 'profile',
+  index?: number
+): Record<string, unknown> {
+  const where = index === undefined ? kind : `${kind}[${index}]`;
+  if (!isRecord(value)) {
+    throw new BackupError(`Invalid backup: ${where} is not an object`);
+  }
+
+  for (const field of REQUIRED_FIELDS[kind]) {
+    if (typeof value[field] !== 'string' || value[field] === '') {
+      throw new BackupError(`Invalid backup: ${where} is missing "${field}"`);
+    }
+  }
+
+  for (const field of DATE_FIELDS[kind]) {
+    const date = new Date(value[field] as string);
+    if (typeof value[field] !== 'string' || Number.isNaN(date.getTime())) {
+      throw new BackupError(`Invalid backup: ${where} has an invalid "${field}"`);
+    }
+    value[field] = date;
+  }
+
+  return value;
+}
+
+/**
+ * Parse and validate a backup file
+ * @throws BackupError if the file is not a backup, was made by a newer version or is malformed
+ */
+export function parseBackup(json: string): ProfileBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new BackupError('Backup file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    throw new BackupError('File is not a GymAnalytics backup');
+  }
+
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new BackupError('Backup has an invalid schema version');
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new BackupError(
+      `Backup schema version ${data.version} is newer than supported (${BACKUP_VERSION}). Update the app and try again.`
+    );
+  }
+
+  const exportedAt = new Date(data.exportedAt as string);
+  const profile = reviveRecord(data.profile, 'profile');
+
+  if (!isRecord(profile.goals) || typeof profile.totalGoal !== 'number') {
+    throw new BackupError('Invalid backup: profile is missing goals');
+  }
+
+  const tables = {} as Record<BackupTableName, unknown[]>;
+  for (const table of BACKUP_TABLES) {
+    const records = data[table];
+    if (records === undefined && data.version < (TABLE_SINCE_VERSION[table] ?? 1)) {
+      tables[table] = [];
+      continue;
+    }
+    if (!Array.isArray(records)) {
+      throw new BackupError(`Invalid backup: "${table}" is missing`);
+    }
+    tables[table] = records.map((record, index) => reviveRecord(record, table, index));
+  }
+
+  for (const [index, workout] of (tables.workouts as Record<string, unknown>[]).entries()) {
+    if (!Array.isArray(workout.sets)) {
+      throw new BackupError(`Invalid backup: workouts[${index}] has no sets`);
+    }
+  }
+
+  for (const [index, program] of (tables.trainingPrograms as Record<string, unknown>[]).entries()) {
+    if (!Array.isArray(program.days)) {
+      throw new BackupError(`Invalid backup: trainingPrograms[${index}] has no days`);
+    }
+    for (const [dayIndex, day] of (program.days as unknown[]).entries()) {
+      if (!isRecord(day) || !Array.isArray(day.exercises)) {
+        throw new BackupError(
+          `Invalid backup: trainingPrograms[${index}].days[${dayIndex}] has no exercises`
+        );
+      }
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    exportedAt: Number.isNaN(exportedAt.getTime()) ? new Date(0) : exportedAt,
+    profile: profile as unknown as BackupProfile,
+    ...(tables as unknown as BackupTables),
+  };
+}
+
+/**
+ * What the database already holds, for collision handling
+ */
+export interface RestoreContext {
+  targetProfileId: string;
+  /** Owning profile of every existing record ID, per table */
+  ownerById: Record<BackupTableName, Map<string, string>>;
+  /** Existing customizations of the target profile, matched by natural key */
+  existing: Pick<BackupTables, CustomizationTableName>;
+  generateId: () => string;
+}
+
+/**
+ * Records to write and what happened to them
+ */
+export interface RestorePlan extends BackupTables {
+  added: number; // New records
+  replaced: number; // Records overwriting an existing one in the target profile
+  reassigned: number; // Records given a new ID because another profile owns theirs
+}
+
+/**
+ * Natural key of a customization within a profile (one mapping per pattern, etc.)
+ */
+const NATURAL_KEYS: Record<CustomizationTableName, (record: never) => string> = {
+  exerciseMappings: (m: ExerciseMapping) => m.originalPattern,
+  unmappedExercises: (u: UnmappedExercise) => u.normalizedName,
+  defaultExerciseOverrides: (o: DefaultExerciseOverride) => o.exerciseName,
+  defaultNameMappingOverrides: (o: DefaultNameMappingOverride) => o.gymName,
+  customExercises: (e: CustomExercise) => e.name,
+  mappingRules: (r: MappingRule) => `${r.matchType}\n${r.pattern}`,
+  learnedMatchRules: (r: LearnedMatchRule) => `${r.kind}\n${r.token}`,
+};
+
+/**
+ * Plan how backup records are written into the target profile.
+ *
+ * - Customizations matching an existing one by natural key (pattern, exercise name,
+ *   gym name) replace it and keep its ID.
+ * - Records whose ID is free, or already belongs to the target profile, keep their ID
+ *   (the backup version wins).
+ * - Records whose ID belongs to another profile get a new ID, so restoring next to
+ *   the original profile never modifies it.
+ * - Mappings, rules, auto-match decisions and program exercises pointing at a custom
+ *   exercise follow it when its ID changes.
+ */
+export function planBackupRestore(backup: BackupTables, context: RestoreContext): RestorePlan {
+  const { targetProfileId, ownerById, existing, generateId } = context;
+  const counts = { added: 0, replaced: 0, reassigned: 0 };
+
+  function place<T extends { id: string; profileId: string }>(
+    table: BackupTableName,
+    records: T[],
+    existingIdByKey?: Map<string, string>,
+    getKey?: (record: T) => string
+  ): T[] {
+    const usedIds = new Set<string>();
+
+    return records.map((record) => {
+      let id = getKey ? existingIdByKey?.get(getKey(record)) : undefined;
+      const owner = ownerById[table].get(record.id);
+
+      if (id !== undefined) {
+        counts.replaced++;
+      } else if (owner === undefined || owner === targetProfileId) {
+        id = record.id;
+        counts[owner === undefined ? 'added' : 'replaced']++;
+      } else {
+        id = generateId();
+        counts.reassigned++;
+      }
+
+      // Guard against duplicate IDs within the backup itself
+      if (usedIds.has(id)) {
+        id = generateId();
+      }
+      usedIds.add(id);
+
+      return { ...record, id, profileId: targetProfileId };
+    });
+  }
+
+  function placeCustomizations<K extends CustomizationTableName>(table: K): BackupTables[K] {
+    const getKey = NATURAL_KEYS[table] as (record: BackupTables[K][number]) => string;
+    const existingIdByKey = new Map(
+      (existing[table] as BackupTables[K][number][]).map((record) => [getKey(record), record.id])
+    );
+    return place(
+      table,
+      backup[table] as BackupTables[K][number][],
+      existingIdByKey,
+      getKey
+    ) as BackupTables[K];
+  }
+
+  const customExercises = placeCustomizations('customExercises');
+  const customIdMap = new Map(
+    backup.customExercises.map((exercise, index) => [exercise.id, customExercises[index]?.id])
+  );
+  function followCustomExercise<T extends { canonicalExerciseId: string | null }>(record: T): T {
+    const customId = record.canonicalExerciseId
+      ? customIdMap.get(record.canonicalExerciseId)
+      : undefined;
+    return customId ? { ...record, canonicalExerciseId: customId } : record;
+  }
+
+  return {
+    workouts: place('workouts', backup.workouts),
+    exerciseMappings: placeCustomizations('exerciseMappings').map(followCustomExercise),
+    unmappedExercises: placeCustomizations('unmappedExercises'),
+    defaultExerciseOverrides: placeCustomizations('defaultExerciseOverrides'),
+    defaultNameMappingOverrides: placeCustomizations('defaultNameMappingOverrides'),
+    customExercises,
+    mappingRules: placeCustomizations('mappingRules').map(followCustomExercise),
+    learnedMatchRules: placeCustomizations('learnedMatchRules'),
+    autoMatchDecisions: place('autoMatchDecisions', backup.autoMatchDecisions).map((decision) => ({
+      ...decision,
+      suggestedId: customIdMap.get(decision.suggestedId) ?? decision.suggestedId,
+    })),
+    trainingPrograms: place('trainingPrograms', backup.trainingPrograms).map((program) => ({
+      ...program,
+      days: program.days.map((day) => ({
+        ...day,
+        exercises: day.exercises.map((exercise) => ({
+          ...exercise,
+          exerciseId: customIdMap.get(exercise.exerciseId) ?? exercise.exerciseId,
+        })),
+      })),
+    })),
+    ...counts,
+  };
+}
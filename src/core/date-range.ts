@@ -0,0 +1,177 @@
+/**
+ * Date range model for volume views
+ *
+ * Every stats view aggregates workouts over an inclusive window of whole local days.
+ * Presets ('last7days', 'calendarWeek') and legacy day counts resolve to a DateRange
+ * so hooks only deal with one shape.
+ */
+
+export type ViewMode = 'last7days' | 'calendarWeek';
+
+/**
+ * Inclusive range of local days: start is 00:00:00.000, end is 23:59:59.999
+ */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Anything the stats hooks accept as a window: days back (legacy), a preset or a range
+ */
+export type DateWindow = number | ViewMode | DateRange;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the given day in local time
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * End of the given day in local time (23:59:59.999)
+ */
+export function endOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+/**
+ * Add whole days in local time (DST-safe, unlike adding milliseconds)
+ */
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Build a range covering the whole days from start to end (swapped if reversed)
+ */
+export function createDateRange(start: Date, end: Date): DateRange {
+  const [first, last] = start <= end ? [start, end] : [end, start];
+  return { start: startOfDay(first), end: endOfDay(last) };
+}
+
+/**
+ * Rolling window of the last N days, including today
+ */
+export function getLastDaysRange(days: number, now: Date = new Date()): DateRange {
+  return createDateRange(addDays(now, -(Math.max(1, days) - 1)), now);
+}
+
+/**
+ * Monday-to-Sunday calendar week containing the given date
+ */
+export function getCalendarWeekRange(now: Date = new Date()): DateRange {
+  const day = now.getDay();
+  const diff = day === 0 ? -6 : 1 - day; // Adjust when Sunday (0)
+  const monday = addDays(now, diff);
+  return createDateRange(monday, addDays(monday, 6));
+}
+
+/**
+ * The last N calendar weeks, oldest first, ending with the week containing the given date
+ */
+export function getTrailingWeekRanges(count: number, now: Date = new Date()): DateRange[] {
+  const current = getCalendarWeekRange(now);
+  return Array.from({ length: Math.max(1, count) }, (_, index) =>
+    shiftDateRange(current, (index - (Math.max(1, count) - 1)) * 7)
+  );
+}
+
+/**
+ * Resolve any accepted window to a concrete date range
+ */
+export function resolveDateWindow(dateWindow: DateWindow, now: Date = new Date()): DateRange {
+  if (typeof dateWindow === 'number') return getLastDaysRange(dateWindow, now);
+  if (dateWindow === 'last7days') return getLastDaysRange(7, now);
+  if (dateWindow === 'calendarWeek') return getCalendarWeekRange(now);
+  return dateWindow;
+}
+
+/**
+ * Number of days covered by the range (inclusive)
+ */
+export function getRangeLengthInDays(range: DateRange): number {
+  return Math.round((startOfDay(range.end).getTime() - range.start.getTime()) / MS_PER_DAY) + 1;
+}
+
+/**
+ * Length of the range in weeks, used to scale weekly set goals
+ */
+export function getRangeWeeks(range: DateRange): number {
+  return getRangeLengthInDays(range) / 7;
+}
+
+/**
+ * Move the range by a number of days, keeping its length
+ */
+export function shiftDateRange(range: DateRange, days: number): DateRange {
+  return createDateRange(addDays(range.start, days), addDays(startOfDay(range.end), days));
+}
+
+/**
+ * Start of each day in the range, in order
+ */
+export function getDaysInRange(range: DateRange): Date[] {
+  const days: Date[] = [];
+  for (let day = startOfDay(range.start); day <= range.end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Whether the range includes the given moment
+ */
+export function rangeContains(range: DateRange, date: Date): boolean {
+  return date >= range.start && date <= range.end;
+}
+
+/**
+ * Stable query-key parts for a range
+ */
+export function getDateRangeKey(range: DateRange): [number, number] {
+  return [range.start.getTime(), range.end.getTime()];
+}
+
+/**
+ * Convert a Date to a local date key (YYYY-MM-DD), as used by <input type="date">
+ */
+export function toLocalDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a local date key (YYYY-MM-DD) into the start of that day, or null if invalid
+ */
+export function parseLocalDateKey(key: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/**
+ * Human-readable label, e.g. "Mar 3 – Mar 9" or "Dec 29, 2024 – Jan 4, 2025"
+ */
+export function formatDateRange(range: DateRange, now: Date = new Date()): string {
+  const sameYear = range.start.getFullYear() === range.end.getFullYear();
+  const showYear = !sameYear || range.end.getFullYear() !== now.getFullYear();
+  const format = (date: Date, withYear: boolean): string =>
+    date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      ...(withYear ? { year: 'numeric' } : {}),
+    });
+
+  if (getRangeLengthInDays(range) === 1) return format(range.start, showYear);
+  return `${format(range.start, showYear && !sameYear)} – ${format(range.end, showYear)}`;
+}
@@ -1,11 +1,21 @@
 /**
  * Auto-match algorithm for suggesting canonical exercises for unmapped exercises.
  * Strips gym-specific markers, expands abbreviations, and calculates match confidence.
+ *
+ * Review decisions teach it more vocabulary: comparing a gym's exercise name with
+ * the exercise the user confirmed yields abbreviations, gym markers and word
+ * aliases, which later suggestions apply on top of the built-in lists.
  */
 
 import { getAllCanonicalExercises } from './exercise-search';
 import { cleanExerciseName } from './utils/normalization';
-import type { UnmappedExercise } from '@db/schema';
+import type {
+  AutoMatchDecision,
+  CustomExercise,
+  LearnedMatchRule,
+  LearnedMatchRuleKind,
+  UnmappedExercise,
+} from '@db/schema';
 
 /**
  * Suggestion for auto-matching an unmapped exercise to a canonical exercise.
@@ -17,6 +27,17 @@ export interface AutoMatchSuggestion {
   suggestedCanonicalName: string;
   confidence: number; // 0-1, higher = more confident
   matchReason: string; // e.g. "Core words match: lateral, raise"
+  isCustom?: boolean; // Suggested exercise is from the profile's custom library
+}
+
+/**
+ * A name an unmapped exercise can be matched against
+ */
+interface MatchCandidate {
+  id: string;
+  name: string; // Display name of the suggested exercise
+  matchName: string; // Name or custom exercise alias compared against
+  isCustom: boolean;
 }
 
 /**
@@ -108,6 +129,60 @@ const STOPWORDS = [
  */
 const MIN_CONFIDENCE = 0.6;
 
+/**
+ * Decisions a word must be stripped in before it is learned as a gym marker.
+ * One decision is not enough: "Lateral Raise Leaning" would teach "leaning".
+ */
+const MIN_GYM_MARKER_SUPPORT = 2;
+
+/**
+ * Words expanded and stripped during normalization: built-in lists plus learned rules
+ */
+interface MatchVocabulary {
+  expansions: Record<string, string>; // Abbreviations and word aliases
+  gymMarkers: string[];
+}
+
+const DEFAULT_VOCABULARY: MatchVocabulary = {
+  expansions: ABBREVIATIONS,
+  gymMarkers: GYM_MARKERS,
+};
+
+/**
+ * What auto-match has learned for a profile
+ */
+export interface AutoMatchLearning {
+  rules: Pick<LearnedMatchRule, 'kind' | 'token' | 'expansion' | 'isEnabled'>[];
+  /** Suggestions turned down in review, never made again */
+  rejections: Pick<AutoMatchDecision, 'normalizedName' | 'suggestedId'>[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Adds enabled learned rules to the built-in vocabulary
+ */
+function buildVocabulary(rules: AutoMatchLearning['rules']): MatchVocabulary {
+  const enabled = rules.filter(rule => rule.isEnabled);
+  if (enabled.length === 0) {
+    return DEFAULT_VOCABULARY;
+  }
+
+  const expansions = { ...ABBREVIATIONS };
+  const gymMarkers = [...GYM_MARKERS];
+  enabled.forEach(rule => {
+    if (rule.kind === 'gymMarker') {
+      gymMarkers.push(rule.token);
+    } else if (rule.expansion) {
+      expansions[rule.token] = rule.expansion;
+    }
+  });
+
+  return { expansions, gymMarkers };
+}
+
 /**
  * Normalizes an exercise name for matching by:
  * - Converting to lowercase
@@ -115,7 +190,7 @@ const MIN_CONFIDENCE = 0.6;
  * - Expanding abbreviations
  * - Removing parenthetical content
  */
-function normalizeForMatching(name: string): string {
+function normalizeForMatching(name: string, vocabulary: MatchVocabulary = DEFAULT_VOCABULARY): string {
   let normalized = name.toLowerCase().trim();
 
   // Remove parenthetical content
@@ -123,12 +198,12 @@ function normalizeForMatching(name: string): string {
 
   // Expand abbreviations
   const words = normalized.split(/\s+/);
-  const expandedWords = words.map(word => ABBREVIATIONS[word] || word);
+  const expandedWords = words.map(word => vocabulary.expansions[word] || word);
   normalized = expandedWords.join(' ');
 
   // Strip gym-specific markers
-  GYM_MARKERS.forEach(marker => {
-    const regex = new RegExp(`\\b${marker}\\b`, 'gi');
+  vocabulary.gymMarkers.forEach(marker => {
+    const regex = new RegExp(`\\b${escapeRegExp(marker)}\\b`, 'gi');
     normalized = normalized.replace(regex, '');
   });
 
@@ -244,31 +319,65 @@ function calculateMatchConfidence(
   return 0.3 * matchRatio;
 }
 
+/**
+ * Builds the match candidates: custom exercises (by name and by each alias) first,
+ * so they win ties against canonical exercises, then the canonical library.
+ */
+function buildCandidates(customExercises: CustomExercise[]): MatchCandidate[] {
+  const candidates: MatchCandidate[] = [];
+
+  customExercises.forEach(exercise => {
+    [exercise.name, ...exercise.aliases].forEach(matchName => {
+      candidates.push({ id: exercise.id, name: exercise.name, matchName, isCustom: true });
+    });
+  });
+
+  getAllCanonicalExercises().forEach(exercise => {
+    candidates.push({ id: exercise.id, name: exercise.name, matchName: exercise.name, isCustom: false });
+  });
+
+  return candidates;
+}
+
 /**
  * Generates auto-match suggestions for a list of unmapped exercises.
  *
  * @param unmappedExercises - List of exercises that need mapping
+ * @param customExercises - The profile's custom exercises, matched by name and alias
+ * @param learning - Rules learned from review decisions, and suggestions rejected in review
  * @returns List of suggestions with confidence scores, filtered by minimum confidence threshold
  */
 export function generateAutoMatchSuggestions(
-  unmappedExercises: UnmappedExercise[]
+  unmappedExercises: UnmappedExercise[],
+  customExercises: CustomExercise[] = [],
+  learning: AutoMatchLearning = { rules: [], rejections: [] }
 ): AutoMatchSuggestion[] {
-  const canonicalExercises = getAllCanonicalExercises();
+  const vocabulary = buildVocabulary(learning.rules);
+  const learnedRules = new Map(
+    learning.rules.filter(rule => rule.isEnabled).map(rule => [rule.token, rule])
+  );
+  const rejected = new Set(
+    learning.rejections.map(r => `${r.normalizedName}\n${r.suggestedId}`)
+  );
+  const candidates = buildCandidates(customExercises);
   const suggestions: AutoMatchSuggestion[] = [];
 
   for (const unmappedExercise of unmappedExercises) {
-    const unmappedNormalized = normalizeForMatching(unmappedExercise.originalName);
+    const unmappedNormalized = normalizeForMatching(unmappedExercise.originalName, vocabulary);
 
     let bestMatch: {
-      canonicalId: string;
-      canonicalName: string;
+      candidate: MatchCandidate;
       confidence: number;
       matchedWords: string[];
     } | null = null;
 
-    // Find the best matching canonical exercise
-    for (const canonical of canonicalExercises) {
-      const canonicalNormalized = normalizeForMatching(canonical.name);
+    // Find the best matching canonical or custom exercise
+    for (const candidate of candidates) {
+      if (rejected.has(`${unmappedExercise.normalizedName}\n${candidate.id}`)) {
+        continue;
+      }
+
+      const canonicalNormalized = normalizeForMatching(candidate.matchName, vocabulary);
       const confidence = calculateMatchConfidence(unmappedNormalized, canonicalNormalized);
 
       if (confidence > (bestMatch?.confidence || 0)) {
@@ -282,8 +391,7 @@ export function generateAutoMatchSuggestions(
         );
 
         bestMatch = {
-          canonicalId: canonical.id,
-          canonicalName: canonical.name,
+          candidate,
           confidence,
           matchedWords,
         };
@@ -292,18 +400,229 @@ export function generateAutoMatchSuggestions(
 
     // Only include suggestions above confidence threshold
     if (bestMatch && bestMatch.confidence >= MIN_CONFIDENCE) {
+      const { candidate } = bestMatch;
+      const baseReason = bestMatch.matchedWords.length > 0
+        ? `Core words match: ${bestMatch.matchedWords.join(', ')}`
+        : 'Names match after normalization';
+
+      // Name the learned rules that shaped this match
+      const applied = cleanExerciseName(unmappedExercise.originalName.toLowerCase())
+        .split(/\s+/)
+        .flatMap(word => {
+          const rule = learnedRules.get(word);
+          if (!rule) return [];
+          return [rule.kind === 'gymMarker' ? `${word} ignored` : `${word} → ${rule.expansion}`];
+        });
+      const reason = applied.length > 0
+        ? `${baseReason} (learned: ${applied.join(', ')})`
+        : baseReason;
+
       suggestions.push({
         unmappedExerciseName: unmappedExercise.originalName,
         unmappedNormalizedName: unmappedExercise.normalizedName,
-        suggestedCanonicalId: bestMatch.canonicalId,
-        suggestedCanonicalName: bestMatch.canonicalName,
+        suggestedCanonicalId: candidate.id,
+        suggestedCanonicalName: candidate.name,
         confidence: bestMatch.confidence,
-        matchReason: bestMatch.matchedWords.length > 0
-          ? `Core words match: ${bestMatch.matchedWords.join(', ')}`
-          : 'Names match after normalization',
+        matchReason: candidate.matchName !== candidate.name
+          ? `${reason} (alias "${candidate.matchName}")`
+          : reason,
+        ...(candidate.isCustom && { isCustom: true }),
       });
     }
   }
 
   return suggestions;
 }
+
+/**
+ * Confidence thresholds a profile can choose for auto-applying suggestions on import
+ */
+export const AUTO_APPLY_THRESHOLDS = [0.8, 0.85, 0.9, 0.95, 1.0];
+
+/**
+ * Suggestions confident enough to be mapped on import without review.
+ * @param threshold - Profile's auto-apply threshold; undefined turns auto-apply off
+ */
+export function selectAutoApplicable(
+  suggestions: AutoMatchSuggestion[],
+  threshold: number | undefined
+): AutoMatchSuggestion[] {
+  if (threshold === undefined) return [];
+  return suggestions.filter(s => s.confidence >= Math.max(threshold, MIN_CONFIDENCE));
+}
+
+/**
+ * A match rule derived from review decisions
+ */
+export type LearnedRuleCandidate = Pick<LearnedMatchRule, 'kind' | 'token' | 'expansion' | 'support'>;
+
+/**
+ * Words of a name that carry meaning for learning: built-in abbreviations expanded,
+ * unilateral markers removed, and words auto-match already ignores left out
+ */
+function learningWords(name: string): string[] {
+  let normalized = normalizeForMatching(name);
+
+  UNILATERAL_MARKERS.forEach(marker => {
+    normalized = normalized.replace(new RegExp(`\\b${marker}\\b`, 'gi'), '');
+  });
+
+  return normalized
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .filter(word => !STOPWORDS.includes(word))
+    .filter(word => !POSITION_PREFIXES.includes(word) && !EQUIPMENT_VARIATIONS.includes(word));
+}
+
+/**
+ * Rules explaining how a gym's name relates to the exercise it was matched to.
+ *
+ * Words of either name without a counterpart in the other are paired up:
+ * - A short gym word spelling the initials of consecutive exercise words is an abbreviation
+ * - One leftover word on each side is a word alias
+ * - Leftover gym words when every exercise word is covered are gym markers
+ */
+function explainMatch(originalName: string, exerciseName: string): LearnedRuleCandidate[] {
+  const sourceWords = learningWords(originalName);
+  const targetWords = learningWords(exerciseName);
+  const matches = (a: string, b: string): boolean => a.includes(b) || b.includes(a);
+
+  let unmatchedSource = sourceWords.filter(word => !targetWords.some(t => matches(word, t)));
+  const unmatchedTarget = new Set(
+    targetWords.filter(word => !sourceWords.some(s => matches(word, s)))
+  );
+  const rules: LearnedRuleCandidate[] = [];
+
+  // Abbreviations: initials of a run of unmatched exercise words
+  unmatchedSource = unmatchedSource.filter(word => {
+    if (word.length < 2 || word.length > 5) return true;
+
+    for (let start = 0; start + word.length <= targetWords.length; start++) {
+      const run = targetWords.slice(start, start + word.length);
+      const initials = run.map(w => w[0]).join('');
+      if (initials === word && run.every(w => unmatchedTarget.has(w))) {
+        run.forEach(w => unmatchedTarget.delete(w));
+        rules.push({ kind: 'abbreviation', token: word, expansion: run.join(' '), support: 1 });
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const [aliasTarget] = unmatchedTarget;
+  if (unmatchedSource.length === 1 && unmatchedTarget.size === 1 && aliasTarget) {
+    const [word] = unmatchedSource;
+    if (word && word.length >= 3) {
+      rules.push({ kind: 'tokenAlias', token: word, expansion: aliasTarget, support: 1 });
+    }
+  } else if (unmatchedTarget.size === 0) {
+    unmatchedSource
+      .filter(word => word.length >= 3)
+      .forEach(word => rules.push({ kind: 'gymMarker', token: word, expansion: '', support: 1 }));
+  }
+
+  return rules;
+}
+
+/**
+ * Learns match rules from review decisions.
+ *
+ * Accepted and corrected decisions support the rules explaining the chosen match;
+ * rejected suggestions (including the original suggestion of a correction) count
+ * against the rules that would explain them. Rules need net support of at least 1,
+ * gym markers at least MIN_GYM_MARKER_SUPPORT. When one word gets several
+ * meanings, the best supported wins.
+ */
+export function learnMatchRules(
+  decisions: Pick<AutoMatchDecision, 'originalName' | 'suggestedName' | 'outcome' | 'chosenName'>[]
+): LearnedRuleCandidate[] {
+  const tallies = new Map<string, LearnedRuleCandidate>();
+
+  const tally = (rules: LearnedRuleCandidate[], weight: number): void => {
+    rules.forEach(rule => {
+      const key = `${rule.kind}\n${rule.token}\n${rule.expansion}`;
+      const existing = tallies.get(key);
+      if (existing) {
+        existing.support += weight;
+      } else {
+        tallies.set(key, { ...rule, support: weight });
+      }
+    });
+  };
+
+  decisions.forEach(decision => {
+    const chosenName = decision.outcome === 'accepted' ? decision.suggestedName : decision.chosenName;
+    if (chosenName) {
+      tally(explainMatch(decision.originalName, chosenName), 1);
+    }
+    if (decision.outcome !== 'accepted') {
+      tally(explainMatch(decision.originalName, decision.suggestedName), -1);
+    }
+  });
+
+  const best = new Map<string, LearnedRuleCandidate>();
+  tallies.forEach(rule => {
+    const minSupport = rule.kind === 'gymMarker' ? MIN_GYM_MARKER_SUPPORT : 1;
+    if (rule.support < minSupport) return;
+
+    const key = `${rule.kind}\n${rule.token}`;
+    const current = best.get(key);
+    if (!current || rule.support > current.support) {
+      best.set(key, rule);
+    }
+  });
+
+  return [...best.values()];
+}
+
+/**
+ * Rule records to write and delete after re-learning
+ */
+export interface LearnedRuleUpdate {
+  upserts: LearnedMatchRule[];
+  removals: string[];
+}
+
+/**
+ * Reconcile stored rules with freshly learned ones.
+ * Edited rules are kept as they are; learned rules follow the new candidates and
+ * are removed once decisions no longer support them.
+ */
+export function planLearnedRuleUpdate(
+  profileId: string,
+  existing: LearnedMatchRule[],
+  candidates: LearnedRuleCandidate[],
+  context: { now: Date; generateId: () => string }
+): LearnedRuleUpdate {
+  const ruleKey = (rule: { kind: LearnedMatchRuleKind; token: string }): string =>
+    `${rule.kind}\n${rule.token}`;
+  const existingByKey = new Map(existing.map(rule => [ruleKey(rule), rule]));
+  const candidateKeys = new Set(candidates.map(ruleKey));
+  const upserts: LearnedMatchRule[] = [];
+
+  candidates.forEach(candidate => {
+    const rule = existingByKey.get(ruleKey(candidate));
+    if (!rule) {
+      upserts.push({
+        ...candidate,
+        id: context.generateId(),
+        profileId,
+        isEnabled: true,
+        isEdited: false,
+        createdAt: context.now,
+        updatedAt: context.now,
+      });
+    } else if (
+      !rule.isEdited &&
+      (rule.expansion !== candidate.expansion || rule.support !== candidate.support)
+    ) {
+      upserts.push({ ...rule, expansion: candidate.expansion, support: candidate.support, updatedAt: context.now });
+    }
+  });
+
+  const removals = existing
+    .filter(rule => !rule.isEdited && !candidateKeys.has(ruleKey(rule)))
+    .map(rule => rule.id);
+
+  return { upserts, removals };
+}
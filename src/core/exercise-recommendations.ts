@@ -0,0 +1,179 @@
+/**
+ * Exercise Recommendations
+ *
+ * Suggests exercises and set counts that close the gaps between a muscle's volume
+ * and its goal. Sets are added one at a time to the exercise that fills the most
+ * remaining deficit per set, less a penalty for volume landing on muscles already
+ * at or above goal, with a bonus for exercises the profile has done before.
+ */
+
+import type { ExerciseMapping, ScientificMuscle } from './taxonomy';
+
+/**
+ * An exercise that can be recommended, with its effective muscle values
+ */
+export interface RecommendationCandidate {
+  id: string;
+  name: string;
+  muscles: ExerciseMapping;
+  setsLogged: number; // Sets in the profile's history; 0 when never done
+}
+
+/**
+ * One recommended exercise
+ */
+export interface ExerciseRecommendation {
+  exerciseId: string;
+  exerciseName: string;
+  sets: number;
+  isFamiliar: boolean; // Done before by the profile
+  targets: ScientificMuscle[]; // Under-goal muscles it fills, most filled first
+}
+
+/**
+ * Recommended exercises and what doing them all would leave
+ */
+export interface RecommendationPlan {
+  recommendations: ExerciseRecommendation[];
+  remaining: Partial<Record<ScientificMuscle, number>>; // Deficit left per muscle
+  overshoot: Partial<Record<ScientificMuscle, number>>; // Sets beyond goal per muscle
+}
+
+export interface RecommendationOptions {
+  maxExercises: number;
+  maxSetsPerExercise: number;
+}
+
+export const DEFAULT_RECOMMENDATION_OPTIONS: RecommendationOptions = {
+  maxExercises: 5,
+  maxSetsPerExercise: 6,
+};
+
+/** Weight of a set landing beyond a muscle's goal, against a set filling a deficit */
+const OVERSHOOT_PENALTY = 0.75;
+
+/** Score multiplier for exercises the profile has done before */
+const FAMILIARITY_BONUS = 1.25;
+
+/** Least net deficit a set must fill to be worth recommending */
+const MIN_SET_VALUE = 0.5;
+
+/**
+ * Remaining sets per muscle to reach its goal; muscles at or above goal are left out
+ */
+export function calculateMuscleDeficits(
+  stats: { name: string; volume: number; goal: number }[]
+): Partial<Record<ScientificMuscle, number>> {
+  const deficits: Partial<Record<ScientificMuscle, number>> = {};
+  for (const { name, volume, goal } of stats) {
+    if (goal > volume) {
+      deficits[name as ScientificMuscle] = goal - volume;
+    }
+  }
+  return deficits;
+}
+
+/**
+ * Net value of one more set of an exercise: deficit filled minus weighted overshoot
+ */
+function scoreSet(
+  muscles: ExerciseMapping,
+  remaining: Partial<Record<ScientificMuscle, number>>
+): number {
+  let filled = 0;
+  let overshoot = 0;
+  for (const [muscle, value] of Object.entries(muscles) as [ScientificMuscle, number][]) {
+    const deficit = remaining[muscle] ?? 0;
+    filled += Math.min(value, deficit);
+    overshoot += Math.max(0, value - deficit);
+  }
+  return filled - OVERSHOOT_PENALTY * overshoot;
+}
+
+/**
+ * Recommend exercises and set counts that fill the given deficits.
+ *
+ * @param deficits - Remaining sets per muscle (see calculateMuscleDeficits)
+ * @param candidates - Exercises to choose from
+ * @param options - Limits on distinct exercises and sets per exercise
+ */
+export function recommendExercises(
+  deficits: Partial<Record<ScientificMuscle, number>>,
+  candidates: RecommendationCandidate[],
+  options: RecommendationOptions = DEFAULT_RECOMMENDATION_OPTIONS
+): RecommendationPlan {
+  const remaining = { ...deficits };
+  const overshoot: Partial<Record<ScientificMuscle, number>> = {};
+  const chosen = new Map<
+    string,
+    { sets: number; filled: Partial<Record<ScientificMuscle, number>> }
+  >();
+
+  // Familiar exercises first, so ties go to what the profile already does
+  const ordered = [...candidates].sort(
+    (a, b) => b.setsLogged - a.setsLogged || a.name.localeCompare(b.name)
+  );
+
+  for (;;) {
+    let best: RecommendationCandidate | null = null;
+    let bestScore = 0;
+
+    for (const candidate of ordered) {
+      const current = chosen.get(candidate.id);
+      if (
+        current ? current.sets >= options.maxSetsPerExercise : chosen.size >= options.maxExercises
+      ) {
+        continue;
+      }
+
+      const value = scoreSet(candidate.muscles, remaining);
+      if (value < MIN_SET_VALUE) continue;
+
+      const score = candidate.setsLogged > 0 ? value * FAMILIARITY_BONUS : value;
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    if (!best) break;
+
+    const entry = chosen.get(best.id) ?? { sets: 0, filled: {} };
+    entry.sets++;
+    for (const [muscle, value] of Object.entries(best.muscles) as [ScientificMuscle, number][]) {
+      const deficit = remaining[muscle] ?? 0;
+      const fill = Math.min(value, deficit);
+      if (fill > 0) {
+        entry.filled[muscle] = (entry.filled[muscle] ?? 0) + fill;
+        remaining[muscle] = deficit - fill;
+      }
+      if (value > deficit) {
+        overshoot[muscle] = (overshoot[muscle] ?? 0) + value - deficit;
+      }
+    }
+    chosen.set(best.id, entry);
+  }
+
+  const byId = new Map(candidates.map((c) => [c.id, c]));
+  const recommendations = [...chosen].flatMap(([id, { sets, filled }]) => {
+    const candidate = byId.get(id);
+    if (!candidate) return [];
+    return [
+      {
+        exerciseId: id,
+        exerciseName: candidate.name,
+        sets,
+        isFamiliar: candidate.setsLogged > 0,
+        targets: (Object.entries(filled) as [ScientificMuscle, number][])
+          .sort((a, b) => b[1] - a[1])
+          .map(([muscle]) => muscle),
+      },
+    ];
+  });
+
+  const left: Partial<Record<ScientificMuscle, number>> = {};
+  for (const [muscle, deficit] of Object.entries(remaining) as [ScientificMuscle, number][]) {
+    if (deficit > 0) left[muscle] = deficit;
+  }
+
+  return { recommendations, remaining: left, overshoot };
+}
@@ -1,21 +1,74 @@
 import exerciseListJson from '../../config/exercise_list_complete.json';
+import exerciseEquipmentJson from '../../config/exercise_equipment.json';
 import { normalizeId } from './utils/normalization';
+import type { CustomExercise } from '@db/schema';
+import type { ExerciseMapping, ScientificMuscle } from './taxonomy';
 
 /**
  * Result structure for exercise search operations.
  */
 export interface ExerciseSearchResult {
-  id: string; // Normalized ID (kebab-case)
+  id: string; // Normalized ID (kebab-case), or the custom exercise ID
   name: string; // Original display name
   score: number; // Match score (0-1, higher is better)
+  isCustom?: boolean; // From the profile's custom exercise library
+  matchedAlias?: string; // Custom exercise alias that scored better than the name
 }
 
+/**
+ * Minimum contribution a search result must have to a muscle.
+ */
+export interface MuscleThreshold {
+  muscle: ScientificMuscle;
+  min: number; // 0-1, compared against the exercise's muscle value
+}
+
+/**
+ * Structured filters applied on top of the text query.
+ */
+export interface ExerciseSearchFilters {
+  muscles?: MuscleThreshold[]; // Every threshold must be met
+  equipment?: string | null; // Case-insensitive; exercises without known equipment always match
+}
+
+/**
+ * Equipment each canonical exercise is done with (config/exercise_equipment.json).
+ * Exercises not listed are generic.
+ */
+const CANONICAL_EQUIPMENT = new Map(
+  Object.entries(exerciseEquipmentJson as Record<string, string | string[]>).filter(
+    (entry): entry is [string, string[]] => entry[0] !== '_comment' && Array.isArray(entry[1])
+  )
+);
+
+/**
+ * Equipment canonical exercises are done with, offered as filter options.
+ */
+export const EXERCISE_EQUIPMENT: readonly string[] = [
+  ...new Set([...CANONICAL_EQUIPMENT.values()].flat()),
+].sort();
+
+/**
+ * Name keywords identifying equipment, checked in order (Smith before Machine).
+ */
+const EQUIPMENT_KEYWORDS: readonly [RegExp, string][] = [
+  [/\bsmith\b/, 'Smith Machine'],
+  [/\bdumbbell\b/, 'Dumbbell'],
+  [/\bbarbell\b/, 'Barbell'],
+  [/\bcable\b/, 'Cable'],
+  [/\b(machine|iso-lateral)\b/, 'Machine'],
+  [/\bkettlebell\b/, 'Kettlebell'],
+  [/\bband\b/, 'Band'],
+];
+
 /**
  * Common abbreviations mapping for fuzzy search.
  */
 const ABBREVIATIONS: Record<string, string> = {
   db: 'dumbbell',
   bb: 'barbell',
+  rdl: 'romanian deadlift',
+  ohp: 'overhead press',
 };
 
 /**
@@ -43,10 +96,53 @@ function loadCanonicalExercises(): ExerciseSearchResult[] {
 }
 
 /**
- * Returns all canonical exercises for browsing.
+ * Muscle values of a canonical exercise from the exercise list.
+ */
+function getCanonicalMuscleValues(name: string): ExerciseMapping {
+  const data = exerciseListJson as unknown as Record<string, ExerciseMapping | undefined>;
+  return data[name] ?? {};
+}
+
+/**
+ * Equipment named in an exercise name, or null for generic exercises
+ * like "Bench Press" that can be done with several.
+ */
+export function getExerciseEquipment(exerciseName: string): string | null {
+  const name = exerciseName.toLowerCase();
+  return EQUIPMENT_KEYWORDS.find(([pattern]) => pattern.test(name))?.[1] ?? null;
+}
+
+/**
+ * Equipment a canonical exercise is done with, from the equipment config or else
+ * its name. Empty for generic exercises.
+ */
+function getCanonicalEquipment(exerciseName: string): string[] {
+  const equipment = CANONICAL_EQUIPMENT.get(exerciseName) ?? getExerciseEquipment(exerciseName);
+  return Array.isArray(equipment) ? equipment : equipment ? [equipment] : [];
+}
+
+/**
+ * Convert custom exercises to search entries.
+ */
+function toCustomEntries(customExercises: CustomExercise[]): ExerciseSearchResult[] {
+  return customExercises.map((exercise) => ({
+    id: exercise.id,
+    name: exercise.name,
+    score: 1.0,
+    isCustom: true,
+  }));
+}
+
+/**
+ * Returns all canonical exercises for browsing, preceded by the profile's custom exercises.
  */
-export function getAllCanonicalExercises(): ExerciseSearchResult[] {
-  return loadCanonicalExercises();
+export function getAllCanonicalExercises(
+  customExercises: CustomExercise[] = []
+): ExerciseSearchResult[] {
+  if (customExercises.length === 0) {
+    return loadCanonicalExercises();
+  }
+  return [...toCustomEntries(customExercises), ...loadCanonicalExercises()];
 }
 
 /**
@@ -58,6 +154,64 @@ function expandAbbreviations(query: string): string {
   return expanded.join(' ');
 }
 
+/**
+ * Levenshtein distance between two words, giving up once it exceeds maxDistance.
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const value = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    previous = current;
+  }
+
+  return previous[b.length] ?? maxDistance + 1;
+}
+
+/**
+ * How well a query word matches any exercise word.
+ *
+ * - Substring either way = 1
+ * - Within 1 typo (2 for words of 8+ letters) = 1 - distance / word length
+ * - Otherwise, or for words under 4 letters = 0
+ */
+function matchWord(queryWord: string, exerciseWords: string[]): number {
+  if (exerciseWords.some((eWord) => eWord.includes(queryWord) || queryWord.includes(eWord))) {
+    return 1;
+  }
+  if (queryWord.length < 4) {
+    return 0;
+  }
+
+  const maxDistance = queryWord.length >= 8 ? 2 : 1;
+  let best = 0;
+  for (const eWord of exerciseWords) {
+    const word = eWord.replace(/[^a-z0-9-]/g, '');
+    const distance = editDistance(queryWord, word, maxDistance);
+    if (distance <= maxDistance) {
+      best = Math.max(best, 1 - distance / Math.max(queryWord.length, word.length));
+    }
+  }
+  return best;
+}
+
 /**
  * Calculates match score for an exercise name against a query.
  *
@@ -65,7 +219,8 @@ function expandAbbreviations(query: string): string {
  * - Exact match = 1.0
  * - Starts with query = 0.9
  * - Contains all words = 0.7-0.8 (based on word match ratio)
- * - Contains some words = 0.3-0.6 (based on word match ratio)
+ * - Matches all words, some with typos = 0.6-0.7 (based on typo closeness)
+ * - Matches some words = 0.3-0.6 (based on word match ratio, typos counting partially)
  * - No match = 0 (filtered out)
  */
 function calculateScore(exerciseName: string, query: string): number {
@@ -94,19 +249,22 @@ function calculateScore(exerciseName: string, query: string): number {
     return 0;
   }
 
-  // Count how many query words are found in the exercise name
-  const matchedWords = queryWords.filter((qWord) =>
-    exerciseWords.some((eWord) => eWord.includes(qWord) || qWord.includes(eWord))
-  ).length;
+  // How well each query word is found in the exercise name
+  const wordScores = queryWords.map((qWord) => matchWord(qWord, exerciseWords));
+  const matchedWords = wordScores.filter((score) => score > 0).length;
 
   if (matchedWords === 0) {
     return 0;
   }
 
-  const matchRatio = matchedWords / queryWords.length;
+  const matchRatio = wordScores.reduce((sum, score) => sum + score, 0) / queryWords.length;
 
   // All words match
   if (matchedWords === queryWords.length) {
+    if (wordScores.some((score) => score < 1)) {
+      // Typos rank below clean matches, closer typos higher
+      return 0.6 + 0.1 * matchRatio;
+    }
     // Scale between 0.7 and 0.8 based on how well they match
     // More words matched = higher score
     return 0.7 + 0.1 * matchRatio;
@@ -118,31 +276,129 @@ function calculateScore(exerciseName: string, query: string): number {
 }
 
 /**
- * Searches for canonical exercises matching the query.
+ * Scores a custom exercise by its name and each alias, keeping the best match.
+ */
+function scoreCustomExercise(exercise: CustomExercise, query: string): ExerciseSearchResult {
+  const result: ExerciseSearchResult = {
+    id: exercise.id,
+    name: exercise.name,
+    score: calculateScore(exercise.name, query),
+    isCustom: true,
+  };
+
+  for (const alias of exercise.aliases) {
+    const score = calculateScore(alias, query);
+    if (score > result.score) {
+      result.score = score;
+      result.matchedAlias = alias;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * A scored exercise with what the filters look at.
+ */
+interface SearchCandidate {
+  result: ExerciseSearchResult;
+  muscleValues: ExerciseMapping;
+  equipment: string[]; // Empty for generic exercises, which match any equipment
+}
+
+/**
+ * Whether any filter would narrow down results.
+ */
+export function hasActiveFilters(filters: ExerciseSearchFilters): boolean {
+  return (filters.muscles?.length ?? 0) > 0 || !!filters.equipment;
+}
+
+function matchesFilters(candidate: SearchCandidate, filters: ExerciseSearchFilters): boolean {
+  const equipment = filters.equipment?.trim().toLowerCase();
+  if (
+    equipment &&
+    candidate.equipment.length > 0 &&
+    !candidate.equipment.some((e) => e.toLowerCase() === equipment)
+  ) {
+    return false;
+  }
+  return (filters.muscles ?? []).every(
+    ({ muscle, min }) => (candidate.muscleValues[muscle] ?? 0) >= min
+  );
+}
+
+/**
+ * Combined contribution to the filtered muscles, ranking equal scores.
+ */
+function filteredContribution(candidate: SearchCandidate, filters: ExerciseSearchFilters): number {
+  return (filters.muscles ?? []).reduce(
+    (sum, { muscle }) => sum + (candidate.muscleValues[muscle] ?? 0),
+    0
+  );
+}
+
+/**
+ * Searches for canonical and custom exercises matching the query.
+ * Custom exercises also match by alias. Words within a typo or two of an
+ * exercise word still match, ranked below clean matches.
+ *
+ * With filters and a blank query, lists every exercise passing the filters,
+ * strongest contribution to the filtered muscles first.
  *
  * @param query - Search query string (case-insensitive, supports partial matches)
  * @param limit - Maximum number of results to return (default: 10)
+ * @param customExercises - The profile's custom exercises to search alongside canonical ones
+ * @param filters - Muscle contribution thresholds and equipment results must meet
  * @returns Array of matching exercises sorted by score (best match first)
  */
-export function searchExercises(query: string, limit: number = 10): ExerciseSearchResult[] {
+export function searchExercises(
+  query: string,
+  limit: number = 10,
+  customExercises: CustomExercise[] = [],
+  filters: ExerciseSearchFilters = {}
+): ExerciseSearchResult[] {
   const expandedQuery = expandAbbreviations(query);
+  const browse = expandedQuery.trim() === '' && hasActiveFilters(filters);
   const exercises = loadCanonicalExercises();
 
-  const results = exercises
-    .map((exercise) => ({
-      ...exercise,
-      score: calculateScore(exercise.name, expandedQuery),
-    }))
-    .filter((result) => result.score > 0)
+  const candidates: SearchCandidate[] = [
+    ...customExercises.map((exercise) => ({
+      result: browse
+        ? { id: exercise.id, name: exercise.name, score: 1.0, isCustom: true }
+        : scoreCustomExercise(exercise, expandedQuery),
+      muscleValues: exercise.muscleValues,
+      equipment: [exercise.equipment ?? getExerciseEquipment(exercise.name)].filter(
+        (e): e is string => !!e
+      ),
+    })),
+    ...exercises.map((exercise) => ({
+      result: {
+        ...exercise,
+        score: browse ? 1.0 : calculateScore(exercise.name, expandedQuery),
+      },
+      muscleValues: getCanonicalMuscleValues(exercise.name),
+      equipment: getCanonicalEquipment(exercise.name),
+    })),
+  ];
+
+  return candidates
+    .filter((candidate) => candidate.result.score > 0 && matchesFilters(candidate, filters))
     .sort((a, b) => {
       // Sort by score descending
-      if (b.score !== a.score) {
-        return b.score - a.score;
+      if (b.result.score !== a.result.score) {
+        return b.result.score - a.result.score;
+      }
+      // Then by contribution to the filtered muscles
+      const contribution = filteredContribution(b, filters) - filteredContribution(a, filters);
+      if (contribution !== 0) {
+        return contribution;
       }
-      // If scores are equal, sort alphabetically
-      return a.name.localeCompare(b.name);
+      // Custom exercises first, then alphabetically
+      if (!!a.result.isCustom !== !!b.result.isCustom) {
+        return a.result.isCustom ? -1 : 1;
+      }
+      return a.result.name.localeCompare(b.result.name);
     })
-    .slice(0, limit);
-
-  return results;
+    .slice(0, limit)
+    .map((candidate) => candidate.result);
 }
@@ -0,0 +1,93 @@
+/**
+ * Mapping History
+ *
+ * Reads the append-only change log of exercise mappings and default overrides:
+ * what each entry did, which change "undo" reverts next, and short summaries of
+ * the old and new values for display.
+ */
+
+import type {
+  DefaultExerciseOverride,
+  DefaultNameMappingOverride,
+  ExerciseMapping,
+  MappingChange,
+  MappingChangeEntity,
+  MappingChangeValue,
+} from '@db/schema';
+import type { ScientificMuscle } from './taxonomy';
+
+export type MappingChangeAction = 'created' | 'updated' | 'deleted' | 'reverted';
+
+/**
+ * Display labels for the tracked record types
+ */
+export const MAPPING_CHANGE_ENTITY_LABELS: Record<MappingChangeEntity, string> = {
+  exerciseMapping: 'Mapping',
+  defaultExerciseOverride: 'Muscle values',
+  defaultNameMappingOverride: 'Name mapping',
+};
+
+/**
+ * What a log entry did to its record
+ */
+export function getChangeAction(
+  change: Pick<MappingChange, 'oldValue' | 'newValue' | 'revertOf'>
+): MappingChangeAction {
+  if (change.revertOf) return 'reverted';
+  if (!change.oldValue) return 'created';
+  if (!change.newValue) return 'deleted';
+  return 'updated';
+}
+
+/**
+ * The change "undo last change" reverts: the latest entry that is not itself a
+ * revert and has not been reverted yet, so repeated undos step back through history
+ */
+export function findUndoableChange(changes: readonly MappingChange[]): MappingChange | null {
+  const reverted = new Set(changes.map((c) => c.revertOf).filter((id) => id !== null));
+
+  let latest: MappingChange | null = null;
+  for (const change of changes) {
+    if (change.revertOf || reverted.has(change.id)) continue;
+    if (!latest || change.changedAt.getTime() >= latest.changedAt.getTime()) {
+      latest = change;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Muscle values as "Latissimus Dorsi 1, Biceps Brachii 0.5", largest first
+ */
+export function formatMuscleValues(values: Partial<Record<ScientificMuscle, number>>): string {
+  const entries = Object.entries(values) as [ScientificMuscle, number][];
+  if (entries.length === 0) return 'No muscles';
+
+  return entries
+    .sort(([, a], [, b]) => b - a)
+    .map(([muscle, value]) => `${muscle} ${value}`)
+    .join(', ');
+}
+
+/**
+ * One-line summary of a tracked record's value
+ */
+export function summarizeChangeValue(
+  entityType: MappingChangeEntity,
+  value: MappingChangeValue | null
+): string {
+  if (!value) return 'None';
+
+  switch (entityType) {
+    case 'exerciseMapping': {
+      const mapping = value as ExerciseMapping;
+      if (mapping.isIgnored) return 'Ignored';
+      if (mapping.customMuscleValues) return formatMuscleValues(mapping.customMuscleValues);
+      return `→ ${mapping.canonicalExerciseId ?? 'nothing'}`;
+    }
+    case 'defaultExerciseOverride':
+      return formatMuscleValues((value as DefaultExerciseOverride).customMuscleValues);
+    case 'defaultNameMappingOverride':
+      return `→ ${(value as DefaultNameMappingOverride).canonicalName}`;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Mapping Impact
+ *
+ * Previews what a pending mapping change does to logged history: which workouts and
+ * sets resolve differently, and how weekly volume per muscle moves in the calendar
+ * weeks that contain them.
+ */
+
+import { calculateMuscleVolume, type VolumeOptions } from './volume-calculator';
+import { getCalendarWeekRange, toLocalDateKey, type DateRange } from './date-range';
+import type { TrendWorkout } from './volume-trends';
+import type { ExerciseMapping, ScientificMuscle } from './taxonomy';
+
+/**
+ * Volume of one muscle across the affected weeks, before and after the change
+ */
+export interface MuscleImpact {
+  muscle: ScientificMuscle;
+  before: number;
+  after: number;
+  delta: number; // after - before
+}
+
+/**
+ * Effect of a mapping change on logged workouts
+ */
+export interface MappingImpact {
+  workoutCount: number; // Workouts with at least one changed set
+  setCount: number; // Non-warmup sets whose muscle values change
+  weeks: DateRange[]; // Calendar weeks containing those workouts, oldest first
+  muscles: MuscleImpact[]; // Muscles whose volume changes, largest change first
+}
+
+/**
+ * Whether two exercise mappings give every muscle the same share
+ */
+function isSameMapping(a: ExerciseMapping | undefined, b: ExerciseMapping | undefined): boolean {
+  if (!a || !b) return a === b;
+
+  const muscles = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<ScientificMuscle>;
+  for (const muscle of muscles) {
+    if ((a[muscle] ?? 0) !== (b[muscle] ?? 0)) return false;
+  }
+  return true;
+}
+
+/**
+ * Compare weekly volume with the current and the pending mappings. Only weeks with a
+ * changed set are recomputed; volume is summed over those weeks.
+ *
+ * @param workouts - Logged workouts (any order)
+ * @param before - Exercise ID to muscle values, as currently resolved
+ * @param after - Exercise ID to muscle values with the pending change applied
+ * @param options - Metric, set equivalence and effective-set rules
+ */
+export function calculateMappingImpact(
+  workouts: TrendWorkout[],
+  before: Map<string, ExerciseMapping>,
+  after: Map<string, ExerciseMapping>,
+  options: VolumeOptions = {}
+): MappingImpact {
+  const weeks = new Map<string, { range: DateRange; workouts: TrendWorkout[] }>();
+  let workoutCount = 0;
+  let setCount = 0;
+
+  // Bucket every workout by week, then keep the weeks a changed set falls in
+  const affectedWeeks = new Set<string>();
+  for (const workout of workouts) {
+    const range = getCalendarWeekRange(workout.date);
+    const key = toLocalDateKey(range.start);
+    const week = weeks.get(key) ?? { range, workouts: [] };
+    week.workouts.push(workout);
+    weeks.set(key, week);
+
+    const changedSets = workout.sets.filter(
+      (set) =>
+        set.setType !== 'warmup' &&
+        !isSameMapping(before.get(set.exerciseId), after.get(set.exerciseId))
+    ).length;
+    if (changedSets > 0) {
+      workoutCount++;
+      setCount += changedSets;
+      affectedWeeks.add(key);
+    }
+  }
+
+  const affected = Array.from(affectedWeeks)
+    .sort()
+    .map((key) => weeks.get(key) as { range: DateRange; workouts: TrendWorkout[] });
+  const sets = affected.flatMap((week) => week.workouts.flatMap((workout) => workout.sets));
+  const beforeVolume = calculateMuscleVolume(sets, before, options);
+  const afterVolume = calculateMuscleVolume(sets, after, options);
+
+  const muscles = new Set([
+    ...Object.keys(beforeVolume),
+    ...Object.keys(afterVolume),
+  ]) as Set<ScientificMuscle>;
+  const muscleImpacts = Array.from(muscles)
+    .map((muscle) => {
+      const beforeValue = beforeVolume[muscle] ?? 0;
+      const afterValue = afterVolume[muscle] ?? 0;
+      return { muscle, before: beforeValue, after: afterValue, delta: afterValue - beforeValue };
+    })
+    .filter((impact) => Math.abs(impact.delta) > 1e-9)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  return {
+    workoutCount,
+    setCount,
+    weeks: affected.map((week) => week.range),
+    muscles: muscleImpacts,
+  };
+}
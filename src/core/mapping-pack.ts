@@ -0,0 +1,530 @@
+/**
+ * Mapping Pack Format
+ *
+ * Versioned JSON bundle of a profile's exercise mappings, default overrides,
+ * name-mapping overrides and muscle-group configuration, for moving them between
+ * profiles or sharing them with other people. Unlike a backup, a pack carries no
+ * IDs, workouts or profile data: records are matched by natural key (pattern,
+ * exercise name, gym name) on import, and every difference to the importing
+ * profile becomes a conflict resolved per item.
+ */
+
+import type {
+  CustomExercise,
+  DefaultExerciseOverride,
+  DefaultNameMappingOverride,
+  ExerciseMapping,
+  MappingChangeEntity,
+  MuscleGroupConfig,
+  Profile,
+} from '@db/schema';
+import {
+  FUNCTIONAL_GROUPS,
+  SCIENTIFIC_MUSCLES,
+  type FunctionalGroup,
+  type ScientificMuscle,
+} from './taxonomy';
+import { validateMuscleGroupConfig } from './muscle-groups';
+import { formatMuscleValues } from './mapping-history';
+
+export const MAPPING_PACK_FORMAT = 'gym-analytics-mapping-pack';
+export const MAPPING_PACK_VERSION = 1;
+
+export type PackExerciseMapping = Pick<
+  ExerciseMapping,
+  'originalPattern' | 'templateId' | 'canonicalExerciseId' | 'customMuscleValues' | 'isIgnored'
+>;
+export type PackExerciseOverride = Pick<
+  DefaultExerciseOverride,
+  'exerciseName' | 'customMuscleValues'
+>;
+export type PackNameMappingOverride = Pick<DefaultNameMappingOverride, 'gymName' | 'canonicalName'>;
+
+/**
+ * Muscle-group configuration as stored in a pack (null groups = the default preset)
+ */
+export interface PackMuscleGroups {
+  customMuscleGroups: MuscleGroupConfig | null;
+  muscleGroupCustomization: Profile['muscleGroupCustomization'];
+}
+
+/**
+ * Records carried by a pack, or selected from one for import
+ */
+export interface MappingPackContents {
+  exerciseMappings: PackExerciseMapping[];
+  defaultExerciseOverrides: PackExerciseOverride[];
+  defaultNameMappingOverrides: PackNameMappingOverride[];
+  muscleGroups: PackMuscleGroups | null;
+}
+
+export interface MappingPack extends MappingPackContents {
+  format: typeof MAPPING_PACK_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: Date;
+}
+
+/**
+ * A profile's mapping records, as read from the database
+ */
+export interface MappingPackSource {
+  exerciseMappings: ExerciseMapping[];
+  defaultExerciseOverrides: DefaultExerciseOverride[];
+  defaultNameMappingOverrides: DefaultNameMappingOverride[];
+  /** Resolves mappings to custom exercises, which are not part of a pack */
+  customExercises: CustomExercise[];
+  profile: Pick<Profile, 'customMuscleGroups' | 'muscleGroupCustomization'>;
+}
+
+/**
+ * Thrown when a mapping pack file cannot be read
+ */
+export class MappingPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MappingPackError';
+  }
+}
+
+/**
+ * Strip a profile's records down to their portable form.
+ * Mappings to a custom exercise carry its muscle values instead, since the custom
+ * exercise does not exist in the importing profile.
+ */
+function toPackContents(source: MappingPackSource): MappingPackContents {
+  const customExercises = new Map(source.customExercises.map((e) => [e.id, e]));
+
+  return {
+    exerciseMappings: source.exerciseMappings.map((mapping) => {
+      const custom = mapping.canonicalExerciseId
+        ? customExercises.get(mapping.canonicalExerciseId)
+        : undefined;
+      const packMapping: PackExerciseMapping = {
+        originalPattern: mapping.originalPattern,
+        canonicalExerciseId: custom ? null : mapping.canonicalExerciseId,
+        customMuscleValues: custom ? { ...custom.muscleValues } : mapping.customMuscleValues,
+        isIgnored: mapping.isIgnored,
+      };
+      if (mapping.templateId) {
+        packMapping.templateId = mapping.templateId;
+      }
+      return packMapping;
+    }),
+    defaultExerciseOverrides: source.defaultExerciseOverrides.map((o) => ({
+      exerciseName: o.exerciseName,
+      customMuscleValues: o.customMuscleValues,
+    })),
+    defaultNameMappingOverrides: source.defaultNameMappingOverrides.map((o) => ({
+      gymName: o.gymName,
+      canonicalName: o.canonicalName,
+    })),
+    muscleGroups: {
+      customMuscleGroups: source.profile.customMuscleGroups ?? null,
+      muscleGroupCustomization: source.profile.muscleGroupCustomization,
+    },
+  };
+}
+
+/**
+ * Build a mapping pack from a profile's records
+ */
+export function createMappingPack(
+  name: string,
+  source: MappingPackSource,
+  exportedAt: Date = new Date()
+): MappingPack {
+  return {
+    format: MAPPING_PACK_FORMAT,
+    version: MAPPING_PACK_VERSION,
+    name,
+    exportedAt,
+    ...toPackContents(source),
+  };
+}
+
+/**
+ * Serialize a mapping pack to JSON
+ */
+export function serializeMappingPack(pack: MappingPack): string {
+  return JSON.stringify(pack, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const VALID_MUSCLES = new Set<string>(SCIENTIFIC_MUSCLES);
+const VALID_FUNCTIONAL_GROUPS = new Set<string>(FUNCTIONAL_GROUPS);
+
+/**
+ * Check that a value is a muscle-to-number record over known muscles
+ */
+function checkMuscleValues(value: unknown, where: string): void {
+  if (!isRecord(value)) {
+    throw new MappingPackError(`Invalid mapping pack: ${where} has no muscle values`);
+  }
+  for (const [muscle, amount] of Object.entries(value)) {
+    if (!VALID_MUSCLES.has(muscle)) {
+      throw new MappingPackError(`Invalid mapping pack: ${where} has unknown muscle "${muscle}"`);
+    }
+    if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+      throw new MappingPackError(
+        `Invalid mapping pack: ${where} has an invalid value for ${muscle}`
+      );
+    }
+  }
+}
+
+/**
+ * Read a muscle-to-functional-group record over known muscles and groups
+ */
+function readMuscleGroupCustomization(
+  value: Record<string, unknown>
+): PackMuscleGroups['muscleGroupCustomization'] {
+  const customization: PackMuscleGroups['muscleGroupCustomization'] = {};
+  for (const [muscle, group] of Object.entries(value)) {
+    if (!VALID_MUSCLES.has(muscle)) {
+      throw new MappingPackError(
+        `Invalid mapping pack: muscle groups have unknown muscle "${muscle}"`
+      );
+    }
+    if (typeof group !== 'string' || !VALID_FUNCTIONAL_GROUPS.has(group)) {
+      throw new MappingPackError(
+        `Invalid mapping pack: muscle groups have an invalid group for ${muscle}`
+      );
+    }
+    customization[muscle as ScientificMuscle] = group as FunctionalGroup;
+  }
+  return customization;
+}
+
+/**
+ * Check that a pack table is an array of objects with the given string fields
+ */
+function readRecords(
+  data: Record<string, unknown>,
+  table: keyof Omit<MappingPackContents, 'muscleGroups'>,
+  requiredFields: string[]
+): Record<string, unknown>[] {
+  const records = data[table];
+  if (!Array.isArray(records)) {
+    throw new MappingPackError(`Invalid mapping pack: "${table}" is missing`);
+  }
+
+  return records.map((record: unknown, index) => {
+    const where = `${table}[${index}]`;
+    if (!isRecord(record)) {
+      throw new MappingPackError(`Invalid mapping pack: ${where} is not an object`);
+    }
+    for (const field of requiredFields) {
+      if (typeof record[field] !== 'string' || record[field] === '') {
+        throw new MappingPackError(`Invalid mapping pack: ${where} is missing "${field}"`);
+      }
+    }
+    return record;
+  });
+}
+
+/**
+ * Parse and validate a mapping pack file
+ * @throws MappingPackError if the file is not a pack, was made by a newer version or is malformed
+ */
+export function parseMappingPack(json: string): MappingPack {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new MappingPackError('Mapping pack file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== MAPPING_PACK_FORMAT) {
+    throw new MappingPackError('File is not a GymAnalytics mapping pack');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new MappingPackError('Mapping pack has an invalid version');
+  }
+  if (data.version > MAPPING_PACK_VERSION) {
+    throw new MappingPackError(
+      `Mapping pack version ${data.version} is newer than supported (${MAPPING_PACK_VERSION}). Update the app and try again.`
+    );
+  }
+
+  // Build each record from its known fields only, so nothing else reaches the database
+  const exerciseMappings = readRecords(data, 'exerciseMappings', ['originalPattern']).map(
+    (mapping, index): PackExerciseMapping => {
+      const where = `exerciseMappings[${index}]`;
+      const { canonicalExerciseId, templateId, isIgnored } = mapping;
+      const customMuscleValues = mapping.customMuscleValues ?? null;
+      if (canonicalExerciseId !== null && typeof canonicalExerciseId !== 'string') {
+        throw new MappingPackError(
+          `Invalid mapping pack: ${where} has an invalid "canonicalExerciseId"`
+        );
+      }
+      if (templateId !== undefined && typeof templateId !== 'string') {
+        throw new MappingPackError(`Invalid mapping pack: ${where} has an invalid "templateId"`);
+      }
+      if (typeof isIgnored !== 'boolean') {
+        throw new MappingPackError(`Invalid mapping pack: ${where} is invalid`);
+      }
+      if (customMuscleValues !== null) {
+        checkMuscleValues(customMuscleValues, where);
+      }
+
+      const packMapping: PackExerciseMapping = {
+        originalPattern: mapping.originalPattern as string,
+        canonicalExerciseId,
+        customMuscleValues: customMuscleValues as PackExerciseMapping['customMuscleValues'],
+        isIgnored,
+      };
+      if (templateId !== undefined) {
+        packMapping.templateId = templateId;
+      }
+      return packMapping;
+    }
+  );
+
+  const defaultExerciseOverrides = readRecords(data, 'defaultExerciseOverrides', [
+    'exerciseName',
+  ]).map((override, index): PackExerciseOverride => {
+    checkMuscleValues(override.customMuscleValues, `defaultExerciseOverrides[${index}]`);
+    return {
+      exerciseName: override.exerciseName as string,
+      customMuscleValues: override.customMuscleValues as PackExerciseOverride['customMuscleValues'],
+    };
+  });
+
+  const defaultNameMappingOverrides = readRecords(data, 'defaultNameMappingOverrides', [
+    'gymName',
+    'canonicalName',
+  ]).map(
+    (override): PackNameMappingOverride => ({
+      gymName: override.gymName as string,
+      canonicalName: override.canonicalName as string,
+    })
+  );
+
+  const muscleGroups = data.muscleGroups ?? null;
+  let muscleGroupCustomization: PackMuscleGroups['muscleGroupCustomization'] = {};
+  if (muscleGroups !== null) {
+    if (!isRecord(muscleGroups) || !isRecord(muscleGroups.muscleGroupCustomization)) {
+      throw new MappingPackError('Invalid mapping pack: muscle groups are malformed');
+    }
+    muscleGroupCustomization = readMuscleGroupCustomization(muscleGroups.muscleGroupCustomization);
+    const config = muscleGroups.customMuscleGroups ?? null;
+    if (config !== null) {
+      const { valid, errors } =
+        isRecord(config) &&
+        Array.isArray(config.groups) &&
+        Array.isArray(config.ungrouped) &&
+        Array.isArray(config.hidden)
+          ? validateMuscleGroupConfig(config as unknown as MuscleGroupConfig)
+          : { valid: false, errors: ['missing groups'] };
+      if (!valid) {
+        throw new MappingPackError(`Invalid mapping pack: muscle groups: ${errors.join('; ')}`);
+      }
+    }
+  }
+
+  const exportedAt = new Date(data.exportedAt as string);
+
+  return {
+    format: MAPPING_PACK_FORMAT,
+    version: data.version,
+    name: typeof data.name === 'string' && data.name !== '' ? data.name : 'Mapping pack',
+    exportedAt: Number.isNaN(exportedAt.getTime()) ? new Date(0) : exportedAt,
+    exerciseMappings,
+    defaultExerciseOverrides,
+    defaultNameMappingOverrides,
+    muscleGroups:
+      muscleGroups === null
+        ? null
+        : {
+            customMuscleGroups: (muscleGroups.customMuscleGroups ??
+              null) as PackMuscleGroups['customMuscleGroups'],
+            muscleGroupCustomization,
+          },
+  };
+}
+
+/**
+ * Kinds of record a pack item can be
+ */
+export type PackItemKind = MappingChangeEntity | 'muscleGroups';
+
+export type PackItemValue =
+  | PackExerciseMapping
+  | PackExerciseOverride
+  | PackNameMappingOverride
+  | PackMuscleGroups;
+
+/**
+ * How a pack item compares to the importing profile:
+ * new (nothing to overwrite), same (nothing to do) or conflict (the two differ)
+ */
+export type PackItemStatus = 'new' | 'same' | 'conflict';
+
+/**
+ * One record of a pack next to the importing profile's version of it
+ */
+export interface PackItem {
+  id: string; // Unique within a diff: kind and natural key
+  kind: PackItemKind;
+  key: string;
+  mine: PackItemValue | null;
+  theirs: PackItemValue;
+  status: PackItemStatus;
+}
+
+/**
+ * Whether to keep the profile's version of an item or take the pack's
+ */
+export type PackResolution = 'mine' | 'theirs';
+
+export const PACK_ITEM_KIND_LABELS: Record<PackItemKind, string> = {
+  exerciseMapping: 'Mapping',
+  defaultExerciseOverride: 'Muscle values',
+  defaultNameMappingOverride: 'Name mapping',
+  muscleGroups: 'Muscle groups',
+};
+
+const MUSCLE_GROUPS_KEY = 'Muscle groups';
+
+/**
+ * JSON with object keys sorted, so values compare regardless of key order
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    isRecord(v) ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b))) : v
+  );
+}
+
+/**
+ * Compare a pack against a profile's records, item by item
+ */
+export function diffMappingPack(pack: MappingPackContents, current: MappingPackSource): PackItem[] {
+  const mine = toPackContents(current);
+  const items: PackItem[] = [];
+
+  function compare<T extends PackItemValue>(
+    kind: PackItemKind,
+    theirs: T[],
+    existing: T[],
+    getKey: (value: T) => string
+  ): void {
+    const existingByKey = new Map(existing.map((value) => [getKey(value), value]));
+    for (const value of theirs) {
+      const key = getKey(value);
+      const mineValue = existingByKey.get(key) ?? null;
+      items.push({
+        id: `${kind}:${key}`,
+        kind,
+        key,
+        mine: mineValue,
+        theirs: value,
+        status: !mineValue
+          ? 'new'
+          : stableStringify(mineValue) === stableStringify(value)
+            ? 'same'
+            : 'conflict',
+      });
+    }
+  }
+
+  compare(
+    'exerciseMapping',
+    pack.exerciseMappings,
+    mine.exerciseMappings,
+    (m) => m.originalPattern
+  );
+  compare(
+    'defaultExerciseOverride',
+    pack.defaultExerciseOverrides,
+    mine.defaultExerciseOverrides,
+    (o) => o.exerciseName
+  );
+  compare(
+    'defaultNameMappingOverride',
+    pack.defaultNameMappingOverrides,
+    mine.defaultNameMappingOverrides,
+    (o) => o.gymName
+  );
+  if (pack.muscleGroups && mine.muscleGroups) {
+    compare('muscleGroups', [pack.muscleGroups], [mine.muscleGroups], () => MUSCLE_GROUPS_KEY);
+  }
+
+  return items;
+}
+
+/**
+ * Default choice per item: import new items, keep mine on conflicts
+ */
+export function getDefaultResolution(item: PackItem): PackResolution {
+  return item.status === 'new' ? 'theirs' : 'mine';
+}
+
+/**
+ * Pack records to write for the chosen resolutions.
+ * Items without a resolution use their default; unchanged items are skipped.
+ */
+export function selectPackImport(
+  items: readonly PackItem[],
+  resolutions: Readonly<Record<string, PackResolution>>
+): MappingPackContents {
+  const selected: MappingPackContents = {
+    exerciseMappings: [],
+    defaultExerciseOverrides: [],
+    defaultNameMappingOverrides: [],
+    muscleGroups: null,
+  };
+
+  for (const item of items) {
+    const resolution = resolutions[item.id] ?? getDefaultResolution(item);
+    if (item.status === 'same' || resolution === 'mine') continue;
+
+    switch (item.kind) {
+      case 'exerciseMapping':
+        selected.exerciseMappings.push(item.theirs as PackExerciseMapping);
+        break;
+      case 'defaultExerciseOverride':
+        selected.defaultExerciseOverrides.push(item.theirs as PackExerciseOverride);
+        break;
+      case 'defaultNameMappingOverride':
+        selected.defaultNameMappingOverrides.push(item.theirs as PackNameMappingOverride);
+        break;
+      case 'muscleGroups':
+        selected.muscleGroups = item.theirs as PackMuscleGroups;
+        break;
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * One-line summary of a pack item's value, for the per-item diff
+ */
+export function summarizePackValue(kind: PackItemKind, value: PackItemValue | null): string {
+  if (!value) return 'None';
+
+  switch (kind) {
+    case 'exerciseMapping': {
+      const mapping = value as PackExerciseMapping;
+      if (mapping.isIgnored) return 'Ignored';
+      if (mapping.customMuscleValues) return formatMuscleValues(mapping.customMuscleValues);
+      return `→ ${mapping.canonicalExerciseId ?? 'nothing'}`;
+    }
+    case 'defaultExerciseOverride':
+      return formatMuscleValues((value as PackExerciseOverride).customMuscleValues);
+    case 'defaultNameMappingOverride':
+      return `→ ${(value as PackNameMappingOverride).canonicalName}`;
+    case 'muscleGroups': {
+      const { customMuscleGroups } = value as PackMuscleGroups;
+      if (!customMuscleGroups) return 'Default groups';
+      const groups = customMuscleGroups.groups.map((g) => g.name).join(', ');
+      return customMuscleGroups.hidden.length > 0
+        ? `${groups} (${customMuscleGroups.hidden.length} hidden)`
+        : groups;
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Pattern Rules for Exercise Mappings
+ *
+ * A rule maps every exercise whose name matches a pattern, instead of one exact
+ * normalized ID. Patterns are matched case-insensitively against the exercise as
+ * plain words: "Lateral Raise (Dumbbell)" and "lateral-raise:dumbbell" both read
+ * "lateral raise dumbbell".
+ *
+ * - glob: the whole name must match; a standalone `*` matches any number of words
+ *   ("* lateral raise *" also matches "Lateral Raise"), `*` inside a word matches
+ *   any characters and `?` one character
+ * - contains: the words appear anywhere in the name ("stretch")
+ * - regex: a JavaScript regular expression tested against the plain words
+ */
+
+export type RuleMatchType = 'glob' | 'contains' | 'regex';
+
+export const RULE_MATCH_TYPES: readonly RuleMatchType[] = ['glob', 'contains', 'regex'];
+
+/**
+ * The matching part of a rule
+ */
+export interface RulePattern {
+  matchType: RuleMatchType;
+  pattern: string;
+}
+
+/**
+ * A rule as evaluated in priority order
+ */
+export interface PrioritizedRule extends RulePattern {
+  priority: number; // Lower runs first
+  isEnabled: boolean;
+}
+
+/**
+ * Thrown when a rule pattern is empty or not a valid regular expression
+ */
+export class RulePatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RulePatternError';
+  }
+}
+
+/**
+ * Plain lowercase words of an exercise name or ID, single-space separated.
+ * Glob wildcards are kept so patterns go through the same normalization.
+ */
+export function toMatchText(nameOrId: string): string {
+  return nameOrId
+    .toLowerCase()
+    .replace(/[^a-z0-9*?]+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a glob to a regex over " word word " (the match text padded with spaces)
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = toMatchText(glob)
+    .split(' ')
+    .map((token) =>
+      token === '*'
+        ? '(?:\\S+ )*'
+        : `${token
+            .split('')
+            .map((char) => (char === '*' ? '\\S*' : char === '?' ? '\\S' : escapeRegExp(char)))
+            .join('')} `
+    )
+    .join('');
+  return new RegExp(`^ ${source}$`);
+}
+
+/**
+ * Compile a rule pattern into a predicate over exercise names or IDs
+ * @throws RulePatternError if the pattern is empty or an invalid regex
+ */
+export function compileRulePattern(rule: RulePattern): (nameOrId: string) => boolean {
+  const text = rule.matchType === 'regex' ? rule.pattern.trim() : toMatchText(rule.pattern);
+  if (text === '') {
+    throw new RulePatternError('Pattern is empty');
+  }
+
+  switch (rule.matchType) {
+    case 'glob': {
+      const regex = globToRegExp(rule.pattern);
+      return (nameOrId) => regex.test(` ${toMatchText(nameOrId)} `);
+    }
+    case 'contains': {
+      const needle = toMatchText(rule.pattern);
+      return (nameOrId) => toMatchText(nameOrId).includes(needle);
+    }
+    case 'regex': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(rule.pattern, 'i');
+      } catch (error) {
+        throw new RulePatternError(
+          `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      return (nameOrId) => regex.test(toMatchText(nameOrId));
+    }
+  }
+}
+
+/**
+ * Check a rule pattern
+ * @returns Error message, or null when the pattern is valid
+ */
+export function validateRulePattern(rule: RulePattern): string | null {
+  try {
+    compileRulePattern(rule);
+    return null;
+  } catch (error) {
+    return error instanceof RulePatternError ? error.message : String(error);
+  }
+}
+
+/**
+ * Sort rules in evaluation order: ascending priority, ties keep their input order
+ */
+export function sortRulesByPriority<T extends PrioritizedRule>(rules: readonly T[]): T[] {
+  return [...rules].sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Build a matcher returning the first enabled rule (by priority) matching a name or ID.
+ * Rules with invalid patterns never match.
+ */
+export function createRuleMatcher<T extends PrioritizedRule>(
+  rules: readonly T[]
+): (nameOrId: string) => T | null {
+  const compiled = sortRulesByPriority(rules)
+    .filter((rule) => rule.isEnabled && validateRulePattern(rule) === null)
+    .map((rule) => ({ rule, matches: compileRulePattern(rule) }));
+
+  return (nameOrId) => compiled.find(({ matches }) => matches(nameOrId))?.rule ?? null;
+}
+
+/**
+ * Result of previewing a rule pattern against known exercise names
+ */
+export interface RulePreview {
+  matches: string[];
+  error: string | null; // Invalid pattern; no matches are reported
+}
+
+/**
+ * Preview which names a rule pattern matches, for live feedback while editing
+ */
+export function previewRule(rule: RulePattern, names: readonly string[]): RulePreview {
+  let matches: (nameOrId: string) => boolean;
+  try {
+    matches = compileRulePattern(rule);
+  } catch (error) {
+    return { matches: [], error: error instanceof Error ? error.message : String(error) };
+  }
+  return { matches: names.filter((name) => matches(name)), error: null };
+}
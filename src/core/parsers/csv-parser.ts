@@ -1,15 +1,42 @@
 /**
  * CSV Parser for workout data
- * Supports Hevy export format (Strong support can be added later)
+ * Supports Hevy and Strong export formats
  */
 
-import { cleanExerciseName, normalizeId } from '../utils/normalization';
+import { normalizeId } from '../utils/normalization';
 
 /**
  * Detected CSV format
  */
 export type CsvFormat = 'hevy' | 'strong' | 'unknown';
 
+/**
+ * Weight unit used by exports that don't state it in their headers
+ */
+export type WeightUnit = 'kg' | 'lbs';
+
+/**
+ * Options for CSV parsing
+ */
+export interface ParseCsvOptions {
+  /** Unit to assume for Strong weights when the export doesn't specify one (default: 'kg') */
+  weightUnit?: WeightUnit;
+}
+
+/**
+ * Pounds to kilograms conversion factor
+ */
+const LBS_TO_KG = 0.45359237;
+
+/**
+ * Distance unit conversion factors to meters
+ */
+const DISTANCE_TO_METERS: Record<string, number> = {
+  m: 1,
+  km: 1000,
+  mi: 1609.344,
+};
+
 /**
  * Raw parsed row from CSV
  */
@@ -27,6 +54,20 @@ export interface ParsedSet {
   weight: number;
   reps: number;
   rpe?: number;
+  durationSeconds?: number;
+  distanceMeters?: number;
+  exerciseIndex: number;
+}
+
+/**
+ * Parsed exercise details from CSV (order, notes, supersets)
+ */
+export interface ParsedExercise {
+  index: number;
+  exerciseId: string;
+  originalName: string;
+  notes?: string;
+  supersetId?: number;
 }
 
 /**
@@ -37,6 +78,7 @@ export interface ParsedWorkout {
   date: Date;
   title: string;
   sets: ParsedSet[];
+  exercises: ParsedExercise[];
 }
 
 /**
@@ -163,10 +205,38 @@ function parseHevyDate(dateStr: string): Date {
 }
 
 /**
- * Generate a unique workout ID from date
+ * Parse a numeric cell, treating empty and zero values as absent
+ */
+function parseOptionalPositive(value: string | undefined): number | undefined {
+  const parsed = parseFloat(value ?? '');
+  return Number.isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+/**
+ * Get the index of an exercise within a workout, registering it on first appearance.
+ * CSV exports list exercises in workout order, so first appearance defines the order.
  */
-function generateWorkoutId(date: Date): string {
-  return `workout_${date.getTime().toString()}`;
+function getExerciseIndex(
+  exercises: ParsedExercise[],
+  exerciseId: string,
+  originalName: string,
+  details: Pick<ParsedExercise, 'notes' | 'supersetId'> = {}
+): number {
+  const existing = exercises.find((e) => e.originalName === originalName);
+  if (existing) return existing.index;
+
+  const index = exercises.length;
+  exercises.push({ index, exerciseId, originalName, ...details });
+  return index;
+}
+
+/**
+ * Generate a unique workout ID from date, and from the workout name for formats
+ * where workouts can share a start time
+ */
+function generateWorkoutId(date: Date, name?: string): string {
+  const id = `workout_${date.getTime().toString()}`;
+  return name ? `${id}_${normalizeId(name)}` : id;
 }
 
 /**
@@ -209,6 +279,7 @@ function parseHevyCsv(rows: RawCsvRow[]): ParsedWorkout[] {
   for (const [startTime, group] of workoutGroups) {
     const date = parseHevyDate(startTime);
     const sets: ParsedSet[] = [];
+    const exercises: ParsedExercise[] = [];
     let title = '';
 
     for (const row of group) {
@@ -219,8 +290,9 @@ function parseHevyCsv(rows: RawCsvRow[]): ParsedWorkout[] {
         title = row['title'] ?? '';
       }
 
-      const cleanedName = cleanExerciseName(exerciseTitle);
-      const exerciseId = normalizeId(cleanedName);
+      const exerciseId = normalizeId(exerciseTitle);
+      const supersetId = parseInt(row['superset_id'] ?? '', 10);
+      const distanceKm = parseOptionalPositive(row['distance_km']);
 
       sets.push({
         exerciseId,
@@ -229,6 +301,12 @@ function parseHevyCsv(rows: RawCsvRow[]): ParsedWorkout[] {
         weight: parseFloat(row['weight_kg'] ?? '0') || 0,
         reps: parseInt(row['reps'] ?? '0', 10) || 0,
         rpe: row['rpe'] ? parseFloat(row['rpe']) : undefined,
+        durationSeconds: parseOptionalPositive(row['duration_seconds']),
+        distanceMeters: distanceKm !== undefined ? distanceKm * 1000 : undefined,
+        exerciseIndex: getExerciseIndex(exercises, exerciseId, exerciseTitle, {
+          notes: row['exercise_notes'] || undefined,
+          supersetId: Number.isNaN(supersetId) ? undefined : supersetId,
+        }),
       });
     }
 
@@ -238,6 +316,135 @@ function parseHevyCsv(rows: RawCsvRow[]): ParsedWorkout[] {
         date,
         title,
         sets,
+        exercises,
+      });
+    }
+  }
+
+  return workouts;
+}
+
+/**
+ * Parse Strong date format: "2025-12-31 14:00:00"
+ * Strong writes local time without a timezone, so the date is built in local time.
+ */
+function parseStrongDate(dateStr: string): Date {
+  const [datePart, timePart = '00:00:00'] = dateStr.trim().split(/[ T]/);
+  if (!datePart) return new Date(0);
+
+  const [year, month, day] = datePart.split('-').map((part) => parseInt(part, 10));
+  if (!year || !month || !day) return new Date(0);
+
+  const [hours = 0, minutes = 0, seconds = 0] = timePart
+    .split(':')
+    .map((part) => parseInt(part, 10) || 0);
+
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+}
+
+/**
+ * Map Strong "Set Order" to our set type
+ * Strong marks special sets with a letter instead of a number: W (warmup), D (drop), F (failure)
+ */
+function mapStrongSetType(setOrder: string): ParsedSet['setType'] {
+  switch (setOrder.trim().toUpperCase()) {
+    case 'W':
+      return 'warmup';
+    case 'D':
+      return 'drop';
+    case 'F':
+      return 'failure';
+    default:
+      return 'normal';
+  }
+}
+
+/**
+ * Resolve the weight unit of a Strong row
+ * Priority: "Weight Unit" column, unit in the weight header, then the caller's default
+ */
+function getStrongWeightUnit(row: RawCsvRow, fallback: WeightUnit): WeightUnit {
+  const unitColumn = (row['Weight Unit'] ?? '').trim().toLowerCase();
+  if (unitColumn === 'kg') return 'kg';
+  if (unitColumn === 'lbs' || unitColumn === 'lb') return 'lbs';
+
+  if ('Weight (lbs)' in row) return 'lbs';
+  if ('Weight (kg)' in row) return 'kg';
+
+  return fallback;
+}
+
+/**
+ * Read the raw weight value of a Strong row, whichever weight header the export uses
+ */
+function getStrongWeightValue(row: RawCsvRow): string {
+  return row['Weight'] ?? row['Weight (kg)'] ?? row['Weight (lbs)'] ?? '';
+}
+
+/**
+ * Parse Strong CSV format
+ */
+function parseStrongCsv(rows: RawCsvRow[], weightUnit: WeightUnit): ParsedWorkout[] {
+  // Group rows by date + workout name (Strong has no workout ID)
+  const workoutGroups = new Map<string, RawCsvRow[]>();
+
+  for (const row of rows) {
+    const date = row['Date'] ?? '';
+    if (!date) continue;
+
+    const key = `${date}|${row['Workout Name'] ?? ''}`;
+    if (!workoutGroups.has(key)) {
+      workoutGroups.set(key, []);
+    }
+    workoutGroups.get(key)?.push(row);
+  }
+
+  const workouts: ParsedWorkout[] = [];
+
+  for (const group of workoutGroups.values()) {
+    const firstRow = group[0];
+    if (!firstRow) continue;
+
+    const date = parseStrongDate(firstRow['Date'] ?? '');
+    const sets: ParsedSet[] = [];
+    const exercises: ParsedExercise[] = [];
+
+    for (const row of group) {
+      const exerciseName = row['Exercise Name'] ?? '';
+      const setOrder = row['Set Order'] ?? '';
+      // Newer exports add "Rest Timer" rows between sets; they carry no set data
+      if (!exerciseName || setOrder.toLowerCase().includes('rest')) continue;
+
+      const rawWeight = parseFloat(getStrongWeightValue(row)) || 0;
+      const weight =
+        getStrongWeightUnit(row, weightUnit) === 'lbs' ? rawWeight * LBS_TO_KG : rawWeight;
+      const rpe = parseFloat(row['RPE'] ?? '');
+      const exerciseId = normalizeId(exerciseName);
+      const distance = parseOptionalPositive(row['Distance']);
+      // Strong writes km unless the export carries a "Distance Unit" column
+      const distanceFactor =
+        DISTANCE_TO_METERS[(row['Distance Unit'] ?? '').trim().toLowerCase()] ?? 1000;
+
+      sets.push({
+        exerciseId,
+        originalName: exerciseName,
+        setType: mapStrongSetType(setOrder),
+        weight,
+        reps: parseInt(row['Reps'] ?? '0', 10) || 0,
+        rpe: Number.isNaN(rpe) || rpe === 0 ? undefined : rpe,
+        durationSeconds: parseOptionalPositive(row['Seconds']),
+        distanceMeters: distance !== undefined ? distance * distanceFactor : undefined,
+        exerciseIndex: getExerciseIndex(exercises, exerciseId, exerciseName),
+      });
+    }
+
+    if (sets.length > 0) {
+      workouts.push({
+        id: generateWorkoutId(date, firstRow['Workout Name']),
+        date,
+        title: firstRow['Workout Name'] ?? '',
+        sets,
+        exercises,
       });
     }
   }
@@ -249,7 +456,7 @@ function parseHevyCsv(rows: RawCsvRow[]): ParsedWorkout[] {
  * Parse CSV string into Workout array
  * Automatically detects format (Hevy vs Strong)
  */
-export function parseCsv(csv: string): ParseCsvResult {
+export function parseCsv(csv: string, options: ParseCsvOptions = {}): ParseCsvResult {
   const format = detectCsvFormat(csv);
   const rows = parseCsvString(csv);
 
@@ -260,8 +467,7 @@ export function parseCsv(csv: string): ParseCsvResult {
       workouts = parseHevyCsv(rows);
       break;
     case 'strong':
-      // Strong format support can be added later
-      workouts = [];
+      workouts = parseStrongCsv(rows, options.weightUnit ?? 'kg');
       break;
     default:
       workouts = [];
@@ -3,7 +3,7 @@
  * Fetches workout data from Hevy's REST API
  */
 
-import { cleanExerciseName, normalizeId } from '../utils/normalization';
+import { normalizeId } from '../utils/normalization';
 
 const HEVY_BASE_URL = 'https://api.hevyapp.com/v1';
 const DEFAULT_PAGE_SIZE = 10;
@@ -65,6 +65,7 @@ export interface HevyWorkoutResult {
   title: string;
   date: Date;
   sets: HevyWorkoutSet[];
+  exercises: HevyWorkoutExercise[];
 }
 
 export interface HevyWorkoutSet {
@@ -74,6 +75,19 @@ export interface HevyWorkoutSet {
   weight: number;
   reps: number;
   rpe?: number;
+  durationSeconds?: number;
+  distanceMeters?: number;
+  exerciseIndex: number;
+  templateId?: string;
+}
+
+export interface HevyWorkoutExercise {
+  index: number;
+  exerciseId: string;
+  originalName: string;
+  notes?: string;
+  supersetId?: number;
+  templateId?: string;
 }
 
 /**
@@ -147,18 +161,40 @@ async function hevyFetch<T>(
  */
 export function convertHevyWorkout(hevyWorkout: HevyWorkout): HevyWorkoutResult {
   const sets: HevyWorkoutSet[] = [];
+  const exercises: HevyWorkoutExercise[] = [];
+
+  // Hevy returns exercises in order, but sort defensively since order drives display
+  const orderedExercises = [...hevyWorkout.exercises].sort((a, b) => a.index - b.index);
+
+  for (const exercise of orderedExercises) {
+    const exerciseId = normalizeId(exercise.title);
+    // Template IDs survive renames of custom exercises, unlike titles
+    const templateId = exercise.exercise_template_id || undefined;
+
+    exercises.push({
+      index: exercise.index,
+      exerciseId,
+      originalName: exercise.title,
+      notes: exercise.notes || undefined,
+      supersetId: exercise.superset_id ?? undefined,
+      templateId,
+    });
 
-  for (const exercise of hevyWorkout.exercises) {
-    const exerciseId = normalizeId(cleanExerciseName(exercise.title));
+    const orderedSets = [...exercise.sets].sort((a, b) => a.index - b.index);
 
-    for (const set of exercise.sets) {
+    for (const set of orderedSets) {
       sets.push({
         exerciseId,
         originalName: exercise.title,
         setType: mapSetType(set.type),
         weight: set.weight_kg ?? 0,
+        // Reps stay 0 for timed/distance sets; the duration/distance fields carry the work
         reps: set.reps ?? 0,
         rpe: set.rpe ?? undefined,
+        durationSeconds: set.duration_seconds ?? undefined,
+        distanceMeters: set.distance_meters ?? undefined,
+        exerciseIndex: exercise.index,
+        templateId,
       });
     }
   }
@@ -168,6 +204,7 @@ export function convertHevyWorkout(hevyWorkout: HevyWorkout): HevyWorkoutResult
     title: hevyWorkout.title,
     date: new Date(hevyWorkout.start_time),
     sets,
+    exercises,
   };
 }
 
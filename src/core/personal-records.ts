@@ -0,0 +1,193 @@
+/**
+ * Personal record detection.
+ * Walks a profile's workouts chronologically and flags sets/sessions that beat
+ * every earlier performance of the same exercise.
+ */
+
+import { estimateOneRepMax, type E1rmFormula, type StrengthSet } from './strength';
+
+/**
+ * Kinds of personal record:
+ * - weight: heaviest weight lifted for at least one rep
+ * - reps: most reps at a weight (at or above any earlier weight used for that rep count)
+ * - e1rm: best estimated one-rep max
+ * - sessionVolume: most weight × reps in a single session
+ */
+export type PersonalRecordType = 'weight' | 'reps' | 'e1rm' | 'sessionVolume';
+
+/**
+ * Minimal set shape needed for record detection
+ */
+export interface RecordSet extends StrengthSet {
+  exerciseId: string;
+  originalName: string;
+}
+
+/**
+ * Minimal workout shape needed for record detection
+ */
+export interface RecordWorkout {
+  id: string;
+  date: Date;
+  sets: RecordSet[];
+}
+
+/**
+ * A detected personal record
+ */
+export interface DetectedRecord {
+  workoutId: string;
+  date: Date;
+  exerciseId: string; // Canonical (alias-resolved) exercise ID
+  originalName: string;
+  type: PersonalRecordType;
+  value: number; // Weight, reps, e1RM or session volume depending on type
+  previousValue: number;
+  weight: number; // Weight of the record set (0 for session volume)
+  reps: number; // Reps of the record set (0 for session volume)
+}
+
+export interface DetectRecordsOptions {
+  since?: Date; // Only report records from workouts on/after this date
+  resolveExerciseId?: (exerciseId: string) => string; // Folds aliases together
+  formula?: E1rmFormula;
+}
+
+/**
+ * Best performances of one exercise so far
+ */
+interface ExerciseBests {
+  maxWeight: number;
+  maxE1rm: number;
+  maxSessionVolume: number;
+  maxRepsByWeight: Map<number, number>; // Most reps performed at each exact weight
+}
+
+/**
+ * Most reps previously performed at or above the given weight, or null if the
+ * weight was never reached before.
+ */
+function getBestRepsAtWeight(bests: ExerciseBests, weight: number): number | null {
+  let bestReps: number | null = null;
+  for (const [setWeight, reps] of bests.maxRepsByWeight) {
+    if (setWeight >= weight && (bestReps === null || reps > bestReps)) {
+      bestReps = reps;
+    }
+  }
+  return bestReps;
+}
+
+/**
+ * Detect personal records across a profile's workouts.
+ * An exercise's first session sets the baseline and produces no records. Each
+ * session reports at most one record per type per exercise (its best).
+ *
+ * @param workouts - All workouts of the profile (any order)
+ * @param options - Reporting window, alias resolver and e1RM formula
+ * @returns Detected records in chronological order
+ */
+export function detectPersonalRecords(
+  workouts: RecordWorkout[],
+  options: DetectRecordsOptions = {}
+): DetectedRecord[] {
+  const { since, resolveExerciseId = (id: string): string => id, formula = 'epley' } = options;
+  const records: DetectedRecord[] = [];
+  const bestsByExercise = new Map<string, ExerciseBests>();
+
+  const sorted = [...workouts].sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || a.id.localeCompare(b.id)
+  );
+
+  for (const workout of sorted) {
+    const report = !since || workout.date >= since;
+
+    // Group working sets by canonical exercise
+    const setsByExercise = new Map<string, RecordSet[]>();
+    for (const set of workout.sets) {
+      if (set.setType === 'warmup' || set.weight <= 0 || set.reps <= 0) continue;
+      const exerciseId = resolveExerciseId(set.exerciseId);
+      const list = setsByExercise.get(exerciseId) ?? [];
+      list.push(set);
+      setsByExercise.set(exerciseId, list);
+    }
+
+    for (const [exerciseId, sets] of setsByExercise) {
+      const bests = bestsByExercise.get(exerciseId);
+      const sessionVolume = sets.reduce((sum, set) => sum + set.weight * set.reps, 0);
+
+      if (bests && report) {
+        const base = { workoutId: workout.id, date: workout.date, exerciseId };
+        let weightRecord: DetectedRecord | null = null;
+        let e1rmRecord: DetectedRecord | null = null;
+        let repsRecord: DetectedRecord | null = null;
+
+        for (const set of sets) {
+          const setBase = {
+            ...base,
+            originalName: set.originalName,
+            weight: set.weight,
+            reps: set.reps,
+          };
+          if (set.weight > bests.maxWeight && set.weight > (weightRecord?.value ?? 0)) {
+            weightRecord = {
+              ...setBase,
+              type: 'weight',
+              value: set.weight,
+              previousValue: bests.maxWeight,
+            };
+          }
+
+          const e1rm = estimateOneRepMax(set, formula) ?? 0;
+          if (e1rm > bests.maxE1rm && e1rm > (e1rmRecord?.value ?? 0)) {
+            e1rmRecord = { ...setBase, type: 'e1rm', value: e1rm, previousValue: bests.maxE1rm };
+          }
+
+          const previousReps = getBestRepsAtWeight(bests, set.weight);
+          if (
+            previousReps !== null &&
+            set.reps > previousReps &&
+            set.reps - previousReps > (repsRecord ? repsRecord.value - repsRecord.previousValue : 0)
+          ) {
+            repsRecord = { ...setBase, type: 'reps', value: set.reps, previousValue: previousReps };
+          }
+        }
+
+        for (const record of [weightRecord, repsRecord, e1rmRecord]) {
+          if (record) records.push(record);
+        }
+
+        if (sessionVolume > bests.maxSessionVolume) {
+          records.push({
+            ...base,
+            originalName: sets[0]?.originalName ?? exerciseId,
+            type: 'sessionVolume',
+            value: sessionVolume,
+            previousValue: bests.maxSessionVolume,
+            weight: 0,
+            reps: 0,
+          });
+        }
+      }
+
+      // Fold this session into the running bests
+      const next: ExerciseBests = bests ?? {
+        maxWeight: 0,
+        maxE1rm: 0,
+        maxSessionVolume: 0,
+        maxRepsByWeight: new Map(),
+      };
+      for (const set of sets) {
+        next.maxWeight = Math.max(next.maxWeight, set.weight);
+        next.maxE1rm = Math.max(next.maxE1rm, estimateOneRepMax(set, formula) ?? 0);
+        next.maxRepsByWeight.set(
+          set.weight,
+          Math.max(next.maxRepsByWeight.get(set.weight) ?? 0, set.reps)
+        );
+      }
+      next.maxSessionVolume = Math.max(next.maxSessionVolume, sessionVolume);
+      bestsByExercise.set(exerciseId, next);
+    }
+  }
+
+  return records;
+}
@@ -0,0 +1,67 @@
+/**
+ * Program Volume Projection
+ *
+ * Projects the weekly fractional volume per ScientificMuscle of a planned training
+ * program. Planned sets are counted exactly like logged working sets, through the
+ * same resolved exercise mappings, so a program can be checked against weekly goals
+ * before a single set is done.
+ */
+
+import { calculateMuscleVolume, type WorkoutSet } from './volume-calculator';
+import type { ExerciseMapping, ScientificMuscle } from './taxonomy';
+
+/**
+ * Minimal program day shape needed for projection
+ */
+export interface PlannedDay {
+  exercises: { exerciseId: string; sets: number }[];
+}
+
+/**
+ * Projected weekly volume of a program
+ */
+export interface ProgramProjection {
+  muscles: Partial<Record<ScientificMuscle, number>>;
+  totalSets: number;
+  unmappedExerciseIds: string[]; // Planned exercises with no muscle values (count 0 volume)
+}
+
+/**
+ * Expand planned days into one working set per planned set.
+ * Fractional and negative set counts are rounded down to whole sets.
+ */
+export function expandPlannedSets(days: PlannedDay[]): WorkoutSet[] {
+  return days.flatMap((day) =>
+    day.exercises.flatMap(({ exerciseId, sets }) =>
+      Array.from({ length: Math.max(0, Math.floor(sets)) }, () => ({
+        exerciseId,
+        setType: 'normal' as const,
+        weight: 0,
+        reps: 1,
+      }))
+    )
+  );
+}
+
+/**
+ * Project a program's weekly volume per muscle.
+ *
+ * @param days - The program's days, each done once a week
+ * @param exerciseMappings - Resolved muscle values per planned exercise ID
+ * @returns Volume per muscle, total planned sets and the exercises that add no volume
+ */
+export function projectProgramVolume(
+  days: PlannedDay[],
+  exerciseMappings: Map<string, ExerciseMapping>
+): ProgramProjection {
+  const sets = expandPlannedSets(days);
+  const unmapped = new Set(
+    sets.map((s) => s.exerciseId).filter((exerciseId) => !exerciseMappings.has(exerciseId))
+  );
+
+  return {
+    muscles: calculateMuscleVolume(sets, exerciseMappings),
+    totalSets: sets.length,
+    unmappedExerciseIds: [...unmapped],
+  };
+}
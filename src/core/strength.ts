@@ -0,0 +1,207 @@
+/**
+ * Strength estimation: estimated one-rep max (e1RM) and per-exercise progression
+ */
+
+/**
+ * Formula used to estimate a one-rep max:
+ * - epley: weight × (1 + reps / 30)
+ * - brzycki: weight × 36 / (37 - reps)
+ * - rpe: weight / %1RM from the RPE chart (falls back to Epley without a usable RPE)
+ */
+export type E1rmFormula = 'epley' | 'brzycki' | 'rpe';
+
+/**
+ * Minimal set shape needed for strength calculations
+ */
+export interface StrengthSet {
+  setType: 'normal' | 'warmup' | 'failure' | 'drop';
+  weight: number;
+  reps: number;
+  rpe?: number;
+}
+
+/**
+ * All sets of one exercise performed in a single workout
+ */
+export interface StrengthSession {
+  date: Date;
+  sets: StrengthSet[];
+}
+
+/**
+ * Strength summary of a single session
+ */
+export interface StrengthHistoryPoint {
+  date: Date;
+  estimatedOneRepMax: number; // Best e1RM of the session
+  bestSet: StrengthSet; // Set that produced the best e1RM
+  topWeight: number; // Heaviest weight lifted for at least one rep
+}
+
+/**
+ * A new best weight at a given rep count
+ */
+export interface RepRecord {
+  reps: number;
+  weight: number;
+  date: Date;
+  previousWeight: number | null; // Previous best at this rep count, null for the first
+}
+
+/**
+ * Percentage of 1RM by "reps + reps in reserve", in half-rep steps.
+ * Index = (reps - 1) × 2 + (10 - RPE) × 2, so 1 rep @ RPE 10 is 100%
+ * and 12 reps @ RPE 6 is 57.4% (Tuchscherer's RPE chart).
+ */
+const RPE_PERCENTAGE_CHART = [
+  100, 97.8, 95.5, 93.9, 92.2, 90.7, 89.2, 87.8, 86.3, 85.0, 83.7, 82.4, 81.1, 79.9, 78.6, 77.4,
+  76.2, 75.1, 73.9, 72.3, 70.7, 69.4, 68.0, 66.7, 65.3, 64.0, 62.6, 61.3, 59.9, 58.6, 57.4,
+];
+
+const RPE_CHART_MAX_REPS = 12;
+const RPE_CHART_MIN_RPE = 6;
+
+/**
+ * Epley e1RM estimate. A single rep is its own 1RM.
+ */
+export function epley(weight: number, reps: number): number {
+  if (reps === 1) return weight;
+  return weight * (1 + reps / 30);
+}
+
+/**
+ * Brzycki e1RM estimate. Returns null where the formula breaks down (37+ reps).
+ */
+export function brzycki(weight: number, reps: number): number | null {
+  if (reps >= 37) return null;
+  return (weight * 36) / (37 - reps);
+}
+
+/**
+ * Look up the percentage of 1RM for a rep count at a given RPE.
+ * RPE is rounded to the nearest half point.
+ *
+ * @returns Fraction of 1RM (0-1), or null outside the chart (1-12 reps, RPE 6-10)
+ */
+export function getRpePercentage(reps: number, rpe: number): number | null {
+  const roundedRpe = Math.round(rpe * 2) / 2;
+  if (reps < 1 || reps > RPE_CHART_MAX_REPS || !Number.isInteger(reps)) return null;
+  if (roundedRpe < RPE_CHART_MIN_RPE || roundedRpe > 10) return null;
+
+  const index = (reps - 1) * 2 + (10 - roundedRpe) * 2;
+  const percentage = RPE_PERCENTAGE_CHART[index];
+  return percentage === undefined ? null : percentage / 100;
+}
+
+/**
+ * Estimate the one-rep max of a set.
+ * Warmups and sets without load or reps have no estimate.
+ *
+ * @param set - Set to estimate from
+ * @param formula - Estimation formula (default: 'epley')
+ * @returns Estimated 1RM, or null when the set can't produce one
+ */
+export function estimateOneRepMax(set: StrengthSet, formula: E1rmFormula = 'epley'): number | null {
+  if (set.setType === 'warmup' || set.weight <= 0 || set.reps <= 0) {
+    return null;
+  }
+
+  switch (formula) {
+    case 'epley':
+      return epley(set.weight, set.reps);
+    case 'brzycki':
+      return brzycki(set.weight, set.reps);
+    case 'rpe': {
+      const percentage = set.rpe !== undefined ? getRpePercentage(set.reps, set.rpe) : null;
+      return percentage ? set.weight / percentage : epley(set.weight, set.reps);
+    }
+  }
+}
+
+/**
+ * Summarize each session into its best e1RM, best set and top weight.
+ * Sessions without a working set are skipped. Output is sorted by date.
+ *
+ * @param sessions - Sessions of a single exercise
+ * @param formula - Estimation formula (default: 'epley')
+ * @returns One history point per session with working sets
+ */
+export function buildStrengthHistory(
+  sessions: StrengthSession[],
+  formula: E1rmFormula = 'epley'
+): StrengthHistoryPoint[] {
+  const points: StrengthHistoryPoint[] = [];
+
+  for (const session of sessions) {
+    let best: { estimate: number; set: StrengthSet } | null = null;
+    let topWeight = 0;
+
+    for (const set of session.sets) {
+      const estimate = estimateOneRepMax(set, formula);
+      if (estimate === null) continue;
+
+      topWeight = Math.max(topWeight, set.weight);
+      if (!best || estimate > best.estimate) {
+        best = { estimate, set };
+      }
+    }
+
+    if (best) {
+      points.push({
+        date: session.date,
+        estimatedOneRepMax: best.estimate,
+        bestSet: best.set,
+        topWeight,
+      });
+    }
+  }
+
+  return points.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Find every rep PR: each time a heavier weight was lifted for a given rep count.
+ * Warmups are excluded. Output is in chronological order.
+ *
+ * @param sessions - Sessions of a single exercise
+ * @returns Rep records in the order they were set
+ */
+export function findRepRecords(sessions: StrengthSession[]): RepRecord[] {
+  const records: RepRecord[] = [];
+  const bestByReps = new Map<number, number>();
+
+  const sorted = [...sessions].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  for (const session of sorted) {
+    // Only the heaviest set per rep count in a session can be a record
+    const sessionBest = new Map<number, number>();
+    for (const set of session.sets) {
+      if (set.setType === 'warmup' || set.weight <= 0 || set.reps <= 0) continue;
+      sessionBest.set(set.reps, Math.max(sessionBest.get(set.reps) ?? 0, set.weight));
+    }
+
+    for (const [reps, weight] of sessionBest) {
+      const previous = bestByReps.get(reps);
+      if (previous === undefined || weight > previous) {
+        records.push({ reps, weight, date: session.date, previousWeight: previous ?? null });
+        bestByReps.set(reps, weight);
+      }
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Current best weight at each rep count, sorted by reps.
+ *
+ * @param records - Rep records from findRepRecords
+ * @returns The latest record for each rep count
+ */
+export function getCurrentRepRecords(records: RepRecord[]): RepRecord[] {
+  const latest = new Map<number, RepRecord>();
+  for (const record of records) {
+    latest.set(record.reps, record);
+  }
+  return Array.from(latest.values()).sort((a, b) => a.reps - b.reps);
+}
@@ -1,3 +1,9 @@
+/**
+ * Separates the base exercise from its variation in an exercise ID:
+ * "bench-press:dumbbell"
+ */
+export const VARIATION_SEPARATOR = ':';
+
 /**
  * Strips parenthetical content from exercise names.
  * "Bench Press (Dumbbell)" -> "Bench Press"
@@ -11,11 +17,65 @@ export function cleanExerciseName(name: string | undefined | null): string {
 }
 
 /**
- * Converts an exercise name to a normalized ID.
- * "Bench Press (Dumbbell)" -> "bench-press"
+ * Extracts the variation modifier (equipment, grip, angle) from parenthetical content.
+ * "Bench Press (Dumbbell)" -> "Dumbbell"
+ * "Bicep Curl (Dumbbell) (Single Arm)" -> "Dumbbell Single Arm"
+ */
+export function getExerciseVariation(name: string | undefined | null): string {
+  if (!name) {
+    return '';
+  }
+  return Array.from(name.matchAll(/\(([^)]*)\)/g), (match) => (match[1] ?? '').trim())
+    .filter((part) => part !== '')
+    .join(' ');
+}
+
+/**
+ * Kebab-case an ID segment. The separator is replaced so it only ever splits base and variation.
+ */
+function toIdSegment(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[\s:]+/g, '-');
+}
+
+/**
+ * Converts an exercise name to a normalized, variation-aware ID.
+ * "Bench Press" -> "bench-press"
+ * "Bench Press (Dumbbell)" -> "bench-press:dumbbell"
  */
 export function normalizeId(name: string): string {
-  const cleaned = cleanExerciseName(name);
-  if (cleaned === '') return '';
-  return cleaned.toLowerCase().replace(/\s+/g, '-');
+  const base = toIdSegment(cleanExerciseName(name));
+  if (base === '') return '';
+  return formatExerciseId(base, toIdSegment(getExerciseVariation(name)) || null);
+}
+
+/**
+ * Join a base exercise ID and an optional variation into an exercise ID
+ */
+export function formatExerciseId(baseId: string, variation: string | null): string {
+  return variation ? `${baseId}${VARIATION_SEPARATOR}${variation}` : baseId;
+}
+
+/**
+ * Split an exercise ID into its base exercise and variation (null for base exercises)
+ */
+export function parseExerciseId(exerciseId: string): { baseId: string; variation: string | null } {
+  const separator = exerciseId.indexOf(VARIATION_SEPARATOR);
+  if (separator === -1) {
+    return { baseId: exerciseId, variation: null };
+  }
+  return {
+    baseId: exerciseId.slice(0, separator),
+    variation: exerciseId.slice(separator + 1) || null,
+  };
+}
+
+/**
+ * Base exercise of an exercise ID.
+ * "bench-press:dumbbell" -> "bench-press"
+ */
+export function getBaseExerciseId(exerciseId: string): string {
+  return parseExerciseId(exerciseId).baseId;
 }
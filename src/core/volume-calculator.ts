@@ -9,6 +9,216 @@ export interface WorkoutSet {
   weight: number;
   reps: number;
   rpe?: number;
+  durationSeconds?: number;
+  distanceMeters?: number;
+}
+
+/**
+ * How sets without reps (timed holds, distance work) convert to set counts.
+ * When a value is omitted, matching sets count as one set, like any other set.
+ */
+export interface SetEquivalence {
+  secondsPerSet?: number; // e.g. 60 -> a 90s plank counts as 1.5 sets
+  metersPerSet?: number; // e.g. 500 -> a 2000m row counts as 4 sets
+}
+
+/**
+ * How sets are counted toward volume:
+ * - raw: every non-warmup set counts fully (fractional muscle contributions only)
+ * - effective: sets far from failure and drop sets are discounted
+ */
+export type VolumeMode = 'raw' | 'effective';
+
+/**
+ * How drop sets count in effective mode:
+ * - full: a drop set is a full set
+ * - half: a drop set counts as half a set
+ * - ignore: drop sets are treated as part of the set they extend
+ */
+export type DropSetRule = 'full' | 'half' | 'ignore';
+
+/**
+ * Rules for effective-set counting
+ */
+export interface EffectiveSetRules {
+  rpeThreshold: number; // Sets at or above this RPE count fully
+  penaltyPerRpe: number; // Fraction removed per RPE point below the threshold
+  dropSetRule: DropSetRule;
+}
+
+/**
+ * Default effective-set rules: RPE 7+ (3 or fewer reps in reserve) counts fully
+ */
+export const DEFAULT_EFFECTIVE_SET_RULES: EffectiveSetRules = {
+  rpeThreshold: 7,
+  penaltyPerRpe: 0.25,
+  dropSetRule: 'half',
+};
+
+/**
+ * What a set contributes to volume:
+ * - sets: fractional set count (the default, goal-based metric)
+ * - tonnage: weight × reps (load volume, in the stored weight unit)
+ * - reps: repetitions performed
+ */
+export type VolumeMetric = 'sets' | 'tonnage' | 'reps';
+
+/**
+ * Display units for each volume metric
+ */
+export const VOLUME_METRIC_UNITS: Record<VolumeMetric, string> = {
+  sets: 'sets',
+  tonnage: 'kg',
+  reps: 'reps',
+};
+
+/**
+ * One set's contribution to one muscle, as reported to `VolumeOptions.onContribution`
+ */
+export interface VolumeContribution {
+  set: WorkoutSet;
+  muscle: ScientificMuscle;
+  share: number; // Muscle's fraction of the exercise (from its mapping)
+  setValue: number; // Set's metric value after equivalence and effective-set factor
+  volume: number; // share × setValue, the amount added to the muscle
+}
+
+/**
+ * Options for volume calculation
+ */
+export interface VolumeOptions {
+  equivalence?: SetEquivalence;
+  effectiveSetRules?: EffectiveSetRules; // When set, counts effective sets instead of raw sets
+  metric?: VolumeMetric; // Defaults to 'sets'
+  onContribution?: (contribution: VolumeContribution) => void; // Traces every muscle contribution
+}
+
+/**
+ * Determines how much of a set counts as "effective" based on proximity to failure.
+ * Failure sets and sets without RPE count fully. Sets below the RPE threshold lose
+ * `penaltyPerRpe` per point, floored at 0. Drop sets follow the drop set rule.
+ *
+ * @param set - Workout set
+ * @param rules - Effective-set rules
+ * @returns Effectiveness factor between 0 and 1
+ */
+export function getEffectiveSetFactor(set: WorkoutSet, rules: EffectiveSetRules): number {
+  if (set.setType === 'drop') {
+    switch (rules.dropSetRule) {
+      case 'full':
+        return 1;
+      case 'half':
+        return 0.5;
+      case 'ignore':
+        return 0;
+    }
+  }
+
+  if (set.setType === 'failure' || set.rpe === undefined) {
+    return 1;
+  }
+
+  const rpeDeficit = rules.rpeThreshold - set.rpe;
+  if (rpeDeficit <= 0) {
+    return 1;
+  }
+
+  return Math.max(0, 1 - rpeDeficit * rules.penaltyPerRpe);
+}
+
+/**
+ * Sums the selected metric over all sets, without splitting across muscles.
+ * Warmup sets are excluded.
+ *
+ * @param sets - Array of workout sets
+ * @param options - Volume options
+ * @returns Total volume in the selected metric
+ */
+export function calculateTotalVolume(sets: WorkoutSet[], options: VolumeOptions = {}): number {
+  let total = 0;
+
+  for (const set of sets) {
+    if (set.setType === 'warmup') {
+      continue;
+    }
+
+    const factor = options.effectiveSetRules
+      ? getEffectiveSetFactor(set, options.effectiveSetRules)
+      : 1;
+    total += getSetMetricValue(set, options.metric, options.equivalence) * factor;
+  }
+
+  return total;
+}
+
+/**
+ * Determines what a single set contributes in the selected metric.
+ *
+ * @param set - Workout set
+ * @param metric - Volume metric (default: 'sets')
+ * @param equivalence - Seconds/meters that equal one set (sets metric only)
+ * @returns Metric value for the set
+ */
+export function getSetMetricValue(
+  set: WorkoutSet,
+  metric: VolumeMetric = 'sets',
+  equivalence: SetEquivalence = {}
+): number {
+  switch (metric) {
+    case 'sets':
+      return getSetCount(set, equivalence);
+    case 'tonnage':
+      return set.weight * set.reps;
+    case 'reps':
+      return set.reps;
+  }
+}
+
+/**
+ * Formats a volume value for display in its metric.
+ * Set counts keep one decimal; tonnage and reps are rounded, with thousands abbreviated.
+ *
+ * @param value - Volume value
+ * @param metric - Volume metric
+ * @returns Display string without units
+ */
+export function formatMetricValue(value: number, metric: VolumeMetric): string {
+  if (metric === 'sets') {
+    return value % 1 === 0 ? value.toString() : value.toFixed(1);
+  }
+
+  if (value >= 10000) {
+    return `${(value / 1000).toFixed(1)}k`;
+  }
+
+  return Math.round(value).toString();
+}
+
+/**
+ * Determines how many sets a single workout set is worth.
+ * Sets with reps always count as one set. Rep-less sets with a distance or
+ * duration are scaled by the configured equivalence (distance takes priority).
+ *
+ * @param set - Workout set
+ * @param equivalence - Seconds/meters that equal one set
+ * @returns Set count (1 for regular sets)
+ */
+export function getSetCount(set: WorkoutSet, equivalence: SetEquivalence = {}): number {
+  if (set.reps > 0) {
+    return 1;
+  }
+
+  const { secondsPerSet, metersPerSet } = equivalence;
+
+  if (set.distanceMeters && metersPerSet && metersPerSet > 0) {
+    return set.distanceMeters / metersPerSet;
+  }
+
+  if (set.durationSeconds && secondsPerSet && secondsPerSet > 0) {
+    return set.durationSeconds / secondsPerSet;
+  }
+
+  return 1;
 }
 
 /**
@@ -18,11 +228,13 @@ export interface WorkoutSet {
  *
  * @param sets - Array of workout sets
  * @param exerciseMappings - Map of exercise ID to muscle contribution mappings
+ * @param options - Optional metric, set equivalence, effective-set rules and trace callback
  * @returns Record of ScientificMuscle to total volume
  */
 export function calculateMuscleVolume(
   sets: WorkoutSet[],
-  exerciseMappings: Map<string, ExerciseMapping>
+  exerciseMappings: Map<string, ExerciseMapping>,
+  options: VolumeOptions = {}
 ): Partial<Record<ScientificMuscle, number>> {
   const volume: Partial<Record<ScientificMuscle, number>> = {};
 
@@ -38,10 +250,23 @@ export function calculateMuscleVolume(
       continue;
     }
 
+    const effectiveFactor = options.effectiveSetRules
+      ? getEffectiveSetFactor(set, options.effectiveSetRules)
+      : 1;
+    const setValue =
+      getSetMetricValue(set, options.metric, options.equivalence) * effectiveFactor;
+
     // Add fractional contribution for each muscle
     for (const [muscle, contribution] of Object.entries(mapping)) {
       const muscleKey = muscle as ScientificMuscle;
-      volume[muscleKey] = (volume[muscleKey] ?? 0) + contribution;
+      volume[muscleKey] = (volume[muscleKey] ?? 0) + contribution * setValue;
+      options.onContribution?.({
+        set,
+        muscle: muscleKey,
+        share: contribution,
+        setValue,
+        volume: contribution * setValue,
+      });
     }
   }
 
@@ -0,0 +1,139 @@
+/**
+ * Volume Trace
+ *
+ * Explains a volume number: every workout set that added volume to a muscle, with the
+ * share of the set the muscle received. Produced by the volume calculator itself, so
+ * the entries always add up to the totals shown elsewhere.
+ */
+
+import { calculateMuscleVolume, type VolumeOptions, type WorkoutSet } from './volume-calculator';
+import type { ExerciseMapping, ScientificMuscle } from './taxonomy';
+
+/**
+ * Minimal workout shape needed for a trace
+ */
+export interface TraceWorkout {
+  id: string;
+  title: string;
+  date: Date;
+  sets: (WorkoutSet & { originalName: string })[];
+}
+
+/**
+ * One set's contribution to one muscle
+ */
+export interface VolumeTraceEntry {
+  workoutId: string;
+  workoutTitle: string;
+  date: Date;
+  setIndex: number; // Position of the set within the workout (0-based)
+  exerciseId: string;
+  originalName: string;
+  setType: WorkoutSet['setType'];
+  muscle: ScientificMuscle;
+  share: number; // Muscle's fraction of the exercise
+  setValue: number; // Set's metric value after equivalence and effective-set factor
+  volume: number; // share × setValue
+}
+
+/**
+ * Volume one exercise contributed to one muscle
+ */
+export interface ExerciseContribution {
+  exerciseId: string;
+  originalName: string;
+  sets: number; // Sets that contributed (warmups and zero-value sets excluded)
+  volume: number; // Fractional total
+  percentage: number; // Share of the muscle's total volume
+}
+
+/**
+ * Trace every muscle contribution of the given workouts, oldest workout first
+ *
+ * @param workouts - Workouts to trace (any order)
+ * @param exerciseMappings - Map of exercise ID to muscle contribution mappings
+ * @param options - Metric, set equivalence and effective-set rules
+ * @param muscle - When given, only entries for this muscle are returned
+ */
+export function traceMuscleVolume(
+  workouts: TraceWorkout[],
+  exerciseMappings: Map<string, ExerciseMapping>,
+  options: VolumeOptions = {},
+  muscle?: ScientificMuscle
+): VolumeTraceEntry[] {
+  const entries: VolumeTraceEntry[] = [];
+  const sorted = [...workouts].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  for (const workout of sorted) {
+    const setIndexes = new Map(workout.sets.map((set, index) => [set, index]));
+
+    calculateMuscleVolume(workout.sets, exerciseMappings, {
+      ...options,
+      onContribution: (contribution) => {
+        if (muscle && contribution.muscle !== muscle) return;
+
+        const set = contribution.set as TraceWorkout['sets'][number];
+        entries.push({
+          workoutId: workout.id,
+          workoutTitle: workout.title,
+          date: workout.date,
+          setIndex: setIndexes.get(set) ?? -1,
+          exerciseId: set.exerciseId,
+          originalName: set.originalName,
+          setType: set.setType,
+          muscle: contribution.muscle,
+          share: contribution.share,
+          setValue: contribution.setValue,
+          volume: contribution.volume,
+        });
+      },
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Sum trace entries per muscle and exercise, each muscle's list ranked by volume
+ */
+export function summarizeByExercise(
+  entries: VolumeTraceEntry[]
+): Partial<Record<ScientificMuscle, ExerciseContribution[]>> {
+  const byMuscle = new Map<ScientificMuscle, Map<string, ExerciseContribution>>();
+  const totals = new Map<ScientificMuscle, number>();
+
+  for (const entry of entries) {
+    if (entry.volume === 0) continue;
+
+    let byExercise = byMuscle.get(entry.muscle);
+    if (!byExercise) {
+      byExercise = new Map();
+      byMuscle.set(entry.muscle, byExercise);
+    }
+
+    const existing = byExercise.get(entry.exerciseId);
+    if (existing) {
+      existing.sets++;
+      existing.volume += entry.volume;
+    } else {
+      byExercise.set(entry.exerciseId, {
+        exerciseId: entry.exerciseId,
+        originalName: entry.originalName,
+        sets: 1,
+        volume: entry.volume,
+        percentage: 0,
+      });
+    }
+    totals.set(entry.muscle, (totals.get(entry.muscle) ?? 0) + entry.volume);
+  }
+
+  const summary: Partial<Record<ScientificMuscle, ExerciseContribution[]>> = {};
+  for (const [muscle, byExercise] of byMuscle) {
+    const total = totals.get(muscle) ?? 0;
+    summary[muscle] = Array.from(byExercise.values())
+      .map((c) => ({ ...c, percentage: total > 0 ? (c.volume / total) * 100 : 0 }))
+      .sort((a, b) => b.volume - a.volume);
+  }
+
+  return summary;
+}
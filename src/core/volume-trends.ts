@@ -0,0 +1,72 @@
+/**
+ * Multi-week volume trends
+ *
+ * Buckets workouts into date ranges (usually calendar weeks) and computes fractional
+ * volume per ScientificMuscle and FunctionalGroup for each bucket, so changes across
+ * a training block can be compared against weekly goals.
+ */
+
+import {
+  aggregateToFunctionalGroups,
+  calculateMuscleVolume,
+  type VolumeOptions,
+  type WorkoutSet,
+} from './volume-calculator';
+import { rangeContains, type DateRange } from './date-range';
+import type { ExerciseMapping, FunctionalGroup, ScientificMuscle } from './taxonomy';
+
+/**
+ * Minimal workout shape needed for trends
+ */
+export interface TrendWorkout {
+  date: Date;
+  sets: WorkoutSet[];
+}
+
+/**
+ * Volume for one bucket of the trend
+ */
+export interface VolumeTrendPoint {
+  range: DateRange;
+  muscles: Partial<Record<ScientificMuscle, number>>;
+  groups: Partial<Record<FunctionalGroup, number>>;
+}
+
+/**
+ * Calculate muscle and group volume for each range, in the order given.
+ * Workouts outside every range are ignored; ranges without workouts have empty volume.
+ *
+ * @param workouts - Workouts to bucket (any order)
+ * @param ranges - Buckets, e.g. from getTrailingWeekRanges
+ * @param exerciseMappings - Map of exercise ID to muscle contribution mappings
+ * @param muscleMapping - ScientificMuscle to FunctionalGroup assignment
+ * @param options - Metric, set equivalence and effective-set rules
+ */
+export function buildVolumeTrend(
+  workouts: TrendWorkout[],
+  ranges: DateRange[],
+  exerciseMappings: Map<string, ExerciseMapping>,
+  muscleMapping: Record<ScientificMuscle, FunctionalGroup>,
+  options: VolumeOptions = {}
+): VolumeTrendPoint[] {
+  return ranges.map((range) => {
+    const sets = workouts
+      .filter((workout) => rangeContains(range, workout.date))
+      .flatMap((workout) => workout.sets);
+    const muscles = calculateMuscleVolume(sets, exerciseMappings, options);
+
+    return {
+      range,
+      muscles,
+      groups: aggregateToFunctionalGroups(muscles, muscleMapping),
+    };
+  });
+}
+
+/**
+ * Mean volume across buckets; buckets without training count as zero
+ */
+export function averageVolume(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,87 @@
+/**
+ * Snapshot of a database written by schema version 3, before workouts carried
+ * exercise-level data or set exercise indexes.
+ */
+
+export const V3_PROFILE = {
+  id: 'p1',
+  name: 'Alex',
+  gender: 'other',
+  hevyApiKey: 'key',
+  lastSyncTimestamp: 1700000000,
+  goals: { 'Lateral Deltoid': 16 },
+  totalGoal: 120,
+  muscleGroupCustomization: {},
+  createdAt: new Date('2023-01-01T00:00:00Z'),
+};
+
+export const V3_WORKOUTS = [
+  {
+    id: 'w1',
+    profileId: 'p1',
+    date: new Date('2024-03-04T18:00:00Z'),
+    title: 'Push',
+    sets: [
+      {
+        exerciseId: 'bench-press',
+        originalName: 'Bench Press',
+        setType: 'normal',
+        weight: 100,
+        reps: 5,
+      },
+      {
+        exerciseId: 'bench-press',
+        originalName: 'Bench Press',
+        setType: 'normal',
+        weight: 100,
+        reps: 5,
+      },
+      {
+        exerciseId: 'lateral-raise',
+        originalName: 'Lateral Raise',
+        setType: 'normal',
+        weight: 10,
+        reps: 12,
+      },
+      {
+        exerciseId: 'bench-press',
+        originalName: 'Bench Press',
+        setType: 'failure',
+        weight: 80,
+        reps: 8,
+      },
+    ],
+  },
+  {
+    id: 'w2',
+    profileId: 'p1',
+    date: new Date('2024-03-06T18:00:00Z'),
+    title: 'Pull',
+    sets: [
+      { exerciseId: 'pull-up', originalName: 'Pull Up', setType: 'normal', weight: 0, reps: 10 },
+    ],
+  },
+];
+
+export const V3_EXERCISE_MAPPINGS = [
+  {
+    id: 'm1',
+    profileId: 'p1',
+    originalPattern: 'cable-fly',
+    canonicalExerciseId: 'chest-fly',
+    customMuscleValues: null,
+    isIgnored: false,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+  },
+];
+
+export const V3_DEFAULT_NAME_MAPPING_OVERRIDES = [
+  {
+    id: 'o1',
+    profileId: 'p1',
+    gymName: 'Pec Deck',
+    canonicalName: 'Chest Fly',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+  },
+];
@@ -0,0 +1,427 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPendingChange,
+  buildExerciseIdResolver,
+  createMappingResolver,
+  getDefaultExerciseMuscleValues,
+  type MappingLayers,
+} from '../utils/mapping-resolver';
+import type {
+  CustomExercise,
+  DefaultExerciseOverride,
+  DefaultNameMappingOverride,
+  ExerciseMapping,
+  ExerciseTemplateAlias,
+  MappingRule,
+} from '../schema';
+
+const CREATED = new Date('2024-01-01T00:00:00Z');
+
+function userMapping(overrides: Partial<ExerciseMapping>): ExerciseMapping {
+  return {
+    id: 'm1',
+    profileId: 'p1',
+    originalPattern: 'my-row',
+    canonicalExerciseId: null,
+    customMuscleValues: null,
+    isIgnored: false,
+    createdAt: CREATED,
+    ...overrides,
+  };
+}
+
+function exerciseOverride(
+  exerciseName: string,
+  customMuscleValues: DefaultExerciseOverride['customMuscleValues']
+): DefaultExerciseOverride {
+  return {
+    id: 'o1',
+    profileId: 'p1',
+    exerciseName,
+    customMuscleValues,
+    createdAt: CREATED,
+    updatedAt: CREATED,
+  };
+}
+
+function nameOverride(gymName: string, canonicalName: string): DefaultNameMappingOverride {
+  return {
+    id: 'n1',
+    profileId: 'p1',
+    gymName,
+    canonicalName,
+    createdAt: CREATED,
+    updatedAt: CREATED,
+  };
+}
+
+function templateAlias(
+  templateId: string,
+  exerciseId: string,
+  lastSeenAt: string
+): ExerciseTemplateAlias {
+  return {
+    id: `${templateId}-${exerciseId}`,
+    profileId: 'p1',
+    templateId,
+    exerciseId,
+    originalName: exerciseId,
+    lastSeenAt: new Date(lastSeenAt),
+  };
+}
+
+function customExercise(overrides: Partial<CustomExercise>): CustomExercise {
+  return {
+    id: 'custom-1',
+    profileId: 'p1',
+    name: 'Landmine Press',
+    aliases: [],
+    equipment: null,
+    muscleValues: { 'Anterior Deltoid': 0.8, 'Pectoralis Major (Clavicular)': 0.5 },
+    notes: '',
+    createdAt: CREATED,
+    updatedAt: CREATED,
+    ...overrides,
+  };
+}
+
+function mappingRule(overrides: Partial<MappingRule>): MappingRule {
+  return {
+    id: 'r1',
+    profileId: 'p1',
+    matchType: 'glob',
+    pattern: '* lateral raise *',
+    priority: 1,
+    canonicalExerciseId: 'lateral-raise',
+    isIgnored: false,
+    isEnabled: true,
+    createdAt: CREATED,
+    updatedAt: CREATED,
+    ...overrides,
+  };
+}
+
+function layers(overrides: Partial<MappingLayers> = {}): MappingLayers {
+  return { userMappings: [], exerciseOverrides: [], nameOverrides: [], ...overrides };
+}
+
+describe('mapping-resolver', () => {
+  describe('createMappingResolver', () => {
+    it('should resolve canonical exercises to their config values', () => {
+      const resolved = createMappingResolver(layers()).resolve('pull-up');
+
+      expect(resolved).toMatchObject({
+        canonicalExerciseId: 'pull-up',
+        source: 'canonical',
+        isOverridden: false,
+      });
+      expect(resolved.muscles).toEqual(getDefaultExerciseMuscleValues('Pull Up'));
+    });
+
+    it('should report unknown exercises as unmapped', () => {
+      const resolved = createMappingResolver(layers()).resolve('underwater-basket-curl');
+      expect(resolved).toMatchObject({ muscles: null, source: 'unmapped' });
+    });
+
+    it('should apply exercise overrides to canonical values', () => {
+      const values = { 'Latissimus Dorsi': 0.5 };
+      const resolver = createMappingResolver(
+        layers({ exerciseOverrides: [exerciseOverride('Pull Up', values)] })
+      );
+
+      expect(resolver.resolve('pull-up')).toMatchObject({ muscles: values, isOverridden: true });
+    });
+
+    it('should alias gym names to canonical exercises, with overrides winning', () => {
+      const defaults = createMappingResolver(layers());
+      expect(defaults.resolve('back-delt-raise')).toMatchObject({
+        canonicalExerciseId: 'rear-delt-raise',
+        source: 'name-mapping',
+      });
+
+      const overridden = createMappingResolver(
+        layers({ nameOverrides: [nameOverride('Back Delt Raise', 'Pull Up')] })
+      );
+      expect(overridden.resolve('back-delt-raise')).toMatchObject({
+        canonicalExerciseId: 'pull-up',
+        muscles: getDefaultExerciseMuscleValues('Pull Up'),
+      });
+    });
+
+    it('should give user mappings priority over every other layer', () => {
+      const custom = { 'Biceps Brachii': 1 };
+      const resolver = createMappingResolver(
+        layers({
+          userMappings: [
+            userMapping({ originalPattern: 'back-delt-raise', canonicalExerciseId: 'chin-up' }),
+            userMapping({ originalPattern: 'pull-up', customMuscleValues: custom }),
+            userMapping({ originalPattern: 'chin-up', isIgnored: true }),
+          ],
+          exerciseOverrides: [exerciseOverride('Pull Up', { 'Latissimus Dorsi': 0.5 })],
+        })
+      );
+
+      expect(resolver.resolve('back-delt-raise')).toMatchObject({
+        canonicalExerciseId: 'chin-up',
+        source: 'user-canonical',
+        muscles: getDefaultExerciseMuscleValues('Chin Up'),
+      });
+      expect(resolver.resolve('pull-up')).toMatchObject({ source: 'user-custom', muscles: custom });
+      expect(resolver.resolve('chin-up')).toMatchObject({ source: 'ignored', muscles: null });
+    });
+
+    it('should resolve variations without their own values like the base exercise', () => {
+      const resolver = createMappingResolver(
+        layers({
+          userMappings: [
+            userMapping({ originalPattern: 'my-row', canonicalExerciseId: 'dumbbell-row' }),
+          ],
+        })
+      );
+
+      expect(resolver.resolve('pull-up:weighted')).toMatchObject({
+        canonicalExerciseId: 'pull-up:weighted',
+        muscles: getDefaultExerciseMuscleValues('Pull Up'),
+        source: 'canonical',
+        variation: 'weighted',
+        isVariationFallback: true,
+      });
+      expect(resolver.resolve('my-row:cable')).toMatchObject({
+        canonicalExerciseId: 'dumbbell-row:cable',
+        source: 'user-canonical',
+        isVariationFallback: true,
+      });
+      expect(resolver.resolve('mystery:cable')).toMatchObject({ source: 'unmapped' });
+    });
+
+    it("should prefer a variation's own values over its base exercise", () => {
+      const values = { 'Latissimus Dorsi': 0.8, 'Biceps Brachii': 0.6 };
+      const resolver = createMappingResolver(
+        layers({ exerciseOverrides: [exerciseOverride('Pull Up (Weighted)', values)] })
+      );
+
+      expect(resolver.resolve('pull-up:weighted')).toMatchObject({
+        muscles: values,
+        isOverridden: true,
+        isVariationFallback: false,
+      });
+      expect(resolver.resolve('pull-up').muscles).toEqual(
+        getDefaultExerciseMuscleValues('Pull Up')
+      );
+      expect(resolver.canonicalExerciseIds).toContain('pull-up:weighted');
+    });
+
+    it('should keep config variations apart from their base exercise', () => {
+      const resolver = createMappingResolver(layers());
+
+      expect(resolver.resolve('triceps-extension:cable').muscles).toEqual(
+        getDefaultExerciseMuscleValues('Triceps Extension (Cable)')
+      );
+      expect(resolver.resolve('triceps-extension').muscles).toEqual(
+        getDefaultExerciseMuscleValues('Triceps Extension')
+      );
+      // Without a base entry, the variation still resolves the legacy collapsed ID
+      expect(resolver.resolve('chest-press').muscles).toEqual(
+        getDefaultExerciseMuscleValues('Chest Press (Machine)')
+      );
+    });
+
+    it('should fall back to the base exercise of a name mapping variation target', () => {
+      const resolver = createMappingResolver(
+        layers({ nameOverrides: [nameOverride('Back Delt Raise', 'Pull Up (Weighted)')] })
+      );
+
+      expect(resolver.resolve('back-delt-raise')).toMatchObject({
+        canonicalExerciseId: 'pull-up:weighted',
+        muscles: getDefaultExerciseMuscleValues('Pull Up'),
+        source: 'name-mapping',
+        isVariationFallback: true,
+      });
+    });
+
+    it('should apply user mappings to every title of a Hevy template', () => {
+      const resolver = createMappingResolver(
+        layers({
+          userMappings: [
+            userMapping({ originalPattern: 'my-row', canonicalExerciseId: 'dumbbell-row' }),
+            userMapping({ originalPattern: 'old-curl', templateId: 'T2', isIgnored: true }),
+          ],
+          templateAliases: [
+            templateAlias('T1', 'my-row', '2024-01-01'),
+            templateAlias('T1', 'my-cable-row', '2024-02-01'),
+            templateAlias('T2', 'new-curl', '2024-02-01'),
+          ],
+        })
+      );
+
+      expect(resolver.resolve('my-cable-row')).toMatchObject({
+        canonicalExerciseId: 'dumbbell-row',
+        source: 'user-canonical',
+      });
+      expect(resolver.resolve('new-curl')).toMatchObject({
+        canonicalExerciseId: 'old-curl',
+        source: 'ignored',
+      });
+    });
+
+    it('should resolve gym names mapped to a custom exercise to its values', () => {
+      const custom = customExercise({ aliases: ['Landmine Press Domar'] });
+      const resolver = createMappingResolver(
+        layers({
+          customExercises: [custom],
+          userMappings: [
+            userMapping({ originalPattern: 'mine-press', canonicalExerciseId: 'custom-1' }),
+          ],
+        })
+      );
+
+      for (const exerciseId of ['mine-press', 'landmine-press', 'landmine-press-domar']) {
+        expect(resolver.resolve(exerciseId)).toMatchObject({
+          canonicalExerciseId: 'custom-1',
+          muscles: custom.muscleValues,
+        });
+      }
+      expect(resolver.resolve('landmine-press-domar').source).toBe('name-mapping');
+      expect(resolver.resolve('mine-press').source).toBe('user-canonical');
+      expect(resolver.canonicalExerciseIds).toContain('custom-1');
+    });
+
+    it('should resolve exercises matching a pattern rule to its target', () => {
+      const resolver = createMappingResolver(
+        layers({
+          mappingRules: [
+            mappingRule({}),
+            mappingRule({
+              id: 'r2',
+              matchType: 'contains',
+              pattern: 'stretch',
+              canonicalExerciseId: null,
+              isIgnored: true,
+              priority: 2,
+            }),
+          ],
+        })
+      );
+
+      expect(resolver.resolve('seated-lateral-raise:dumbbell')).toMatchObject({
+        canonicalExerciseId: 'lateral-raise',
+        source: 'rule',
+        muscles: getDefaultExerciseMuscleValues('Lateral Raise'),
+      });
+      expect(resolver.resolve('hamstring-stretch')).toMatchObject({
+        source: 'ignored',
+        muscles: {},
+      });
+      expect(resolver.resolve('pull-up').source).toBe('canonical');
+    });
+
+    it('should prefer exact user mappings over pattern rules', () => {
+      const resolver = createMappingResolver(
+        layers({
+          userMappings: [
+            userMapping({ originalPattern: 'cable-lateral-raise', canonicalExerciseId: 'pull-up' }),
+          ],
+          mappingRules: [mappingRule({})],
+        })
+      );
+
+      expect(resolver.resolve('cable-lateral-raise')).toMatchObject({
+        canonicalExerciseId: 'pull-up',
+        source: 'user-canonical',
+      });
+    });
+
+    it('should build volume calculator mappings without ignored or unmapped exercises', () => {
+      const resolver = createMappingResolver(
+        layers({ userMappings: [userMapping({ originalPattern: 'chin-up', isIgnored: true })] })
+      );
+      const mappings = resolver.getEffectiveMappings(['pull-up', 'chin-up', 'mystery', 'pull-up']);
+
+      expect(Array.from(mappings.keys())).toEqual(['pull-up']);
+    });
+  });
+
+  describe('buildExerciseIdResolver', () => {
+    it('should fold aliases onto the canonical exercise ID', () => {
+      const resolve = buildExerciseIdResolver({
+        userMappings: [
+          userMapping({ originalPattern: 'my-row', canonicalExerciseId: 'dumbbell-row' }),
+        ],
+        nameOverrides: [],
+      });
+
+      expect(resolve('my-row')).toBe('dumbbell-row');
+      expect(resolve('back-delt-raise')).toBe('rear-delt-raise');
+      expect(resolve('mystery')).toBe('mystery');
+    });
+
+    it('should fold unmapped titles of one Hevy template onto the latest title', () => {
+      const resolve = buildExerciseIdResolver({
+        userMappings: [],
+        nameOverrides: [],
+        templateAliases: [
+          templateAlias('T1', 'my-row', '2024-01-01'),
+          templateAlias('T1', 'my-cable-row', '2024-02-01'),
+        ],
+      });
+
+      expect(resolve('my-row')).toBe('my-cable-row');
+      expect(resolve('my-cable-row')).toBe('my-cable-row');
+    });
+
+    it('should fold custom exercise aliases onto the custom exercise', () => {
+      const resolve = buildExerciseIdResolver({
+        userMappings: [],
+        nameOverrides: [],
+        customExercises: [customExercise({ aliases: ['Mine Press'] })],
+      });
+
+      expect(resolve('mine-press')).toBe('custom-1');
+      expect(resolve('landmine-press')).toBe('custom-1');
+    });
+  });
+
+  describe('applyPendingChange', () => {
+    it('should replace the default override of the same exercise', () => {
+      const current = layers({
+        exerciseOverrides: [exerciseOverride('Pull Up', { 'Latissimus Dorsi': 0.5 })],
+      });
+      const pending = applyPendingChange(current, {
+        type: 'exercise-override',
+        exerciseName: 'Pull Up',
+        muscleValues: { 'Latissimus Dorsi': 0.9 },
+      });
+
+      expect(pending.exerciseOverrides).toHaveLength(1);
+      expect(createMappingResolver(pending).resolve('pull-up').muscles).toEqual({
+        'Latissimus Dorsi': 0.9,
+      });
+      expect(createMappingResolver(current).resolve('pull-up').muscles).toEqual({
+        'Latissimus Dorsi': 0.5,
+      });
+    });
+
+    it('should replace the user mapping of the same pattern', () => {
+      const current = layers({
+        userMappings: [userMapping({ originalPattern: 'my-row', canonicalExerciseId: 'pull-up' })],
+      });
+      const pending = applyPendingChange(current, {
+        type: 'user-mapping',
+        mapping: {
+          profileId: 'p1',
+          originalPattern: 'my-row',
+          canonicalExerciseId: null,
+          customMuscleValues: { 'Middle Trapezius': 1.0 },
+          isIgnored: false,
+        },
+      });
+
+      expect(pending.userMappings).toHaveLength(1);
+      expect(pending.userMappings[0]?.id).toBe('m1');
+      expect(createMappingResolver(pending).resolve('my-row')).toMatchObject({
+        source: 'user-custom',
+        muscles: { 'Middle Trapezius': 1.0 },
+      });
+    });
+  });
+});
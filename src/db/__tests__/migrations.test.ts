@@ -0,0 +1,275 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Dexie, { type DexieOptions } from 'dexie';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import {
+  LATEST_SCHEMA_VERSION,
+  SCHEMA_MIGRATIONS,
+  applyMigrations,
+  transformTable,
+  validateMigrations,
+  type SchemaMigration,
+} from '../migrations';
+import { ScientificMuscleDatabase, type Workout } from '../schema';
+import {
+  V3_DEFAULT_NAME_MAPPING_OVERRIDES,
+  V3_EXERCISE_MAPPINGS,
+  V3_PROFILE,
+  V3_WORKOUTS,
+} from './fixtures/v3-database';
+
+const DB_NAME = 'MigrationTestDB';
+
+const openDatabases: Dexie[] = [];
+
+/**
+ * Fresh in-memory IndexedDB per test
+ */
+function createIndexedDb(): DexieOptions {
+  return { indexedDB: new IDBFactory(), IDBKeyRange };
+}
+
+/**
+ * Open a database declaring only the given migrations
+ */
+async function openAt(
+  migrations: readonly SchemaMigration[],
+  options: DexieOptions
+): Promise<Dexie> {
+  const db = new Dexie(DB_NAME, options);
+  applyMigrations(db, migrations);
+  openDatabases.push(db);
+  await db.open();
+  return db;
+}
+
+/**
+ * Write the v3 fixture and close the database, as an older app build would have left it
+ */
+async function seedV3(options: DexieOptions): Promise<void> {
+  const legacy = await openAt(
+    SCHEMA_MIGRATIONS.filter((m) => m.version <= 3),
+    options
+  );
+  await legacy.table('profiles').add(structuredClone(V3_PROFILE));
+  await legacy.table('workouts').bulkAdd(structuredClone(V3_WORKOUTS));
+  await legacy.table('exerciseMappings').bulkAdd(structuredClone(V3_EXERCISE_MAPPINGS));
+  await legacy
+    .table('defaultNameMappingOverrides')
+    .bulkAdd(structuredClone(V3_DEFAULT_NAME_MAPPING_OVERRIDES));
+  legacy.close();
+}
+
+afterEach(() => {
+  for (const db of openDatabases.splice(0)) {
+    db.close();
+  }
+});
+
+describe('migrations', () => {
+  describe('validateMigrations', () => {
+    it('should accept the app migrations', () => {
+      expect(() => validateMigrations(SCHEMA_MIGRATIONS)).not.toThrow();
+      expect(LATEST_SCHEMA_VERSION).toBe(SCHEMA_MIGRATIONS.length);
+    });
+
+    it('should reject versions that do not increase', () => {
+      const migrations: SchemaMigration[] = [
+        { version: 1, description: 'first', stores: { a: 'id' } },
+        { version: 1, description: 'duplicate', stores: { b: 'id' } },
+      ];
+      expect(() => validateMigrations(migrations)).toThrow(/"duplicate": version 1/);
+      expect(() =>
+        validateMigrations([{ version: 1.5, description: 'fraction', stores: {} }])
+      ).toThrow(/must be an integer/);
+    });
+  });
+
+  describe('fresh install', () => {
+    it('should create every table at the latest version', async () => {
+      const db = new ScientificMuscleDatabase(DB_NAME, createIndexedDb());
+      openDatabases.push(db);
+      await db.open();
+
+      expect(db.verno).toBe(LATEST_SCHEMA_VERSION);
+      expect(db.tables.map((t) => t.name).sort()).toEqual([
+        'autoAppliedMatches',
+        'autoMatchDecisions',
+        'customExercises',
+        'defaultExerciseOverrides',
+        'defaultNameMappingOverrides',
+        'exerciseMappings',
+        'exerciseTemplateAliases',
+        'learnedMatchRules',
+        'mappingChanges',
+        'mappingRules',
+        'personalRecords',
+        'profiles',
+        'trainingPrograms',
+        'unmappedExercises',
+        'workouts',
+      ]);
+    });
+  });
+
+  describe('upgrading a v3 database', () => {
+    it('should carry workouts forward with derived exercises', async () => {
+      const options = createIndexedDb();
+      await seedV3(options);
+
+      const db = new ScientificMuscleDatabase(DB_NAME, options);
+      openDatabases.push(db);
+      const workouts = await db.workouts
+        .where('[profileId+date]')
+        .between(['p1', Dexie.minKey], ['p1', Dexie.maxKey])
+        .toArray();
+
+      expect(db.verno).toBe(LATEST_SCHEMA_VERSION);
+      expect(workouts.map((w) => w.id)).toEqual(['w1', 'w2']);
+      expect(workouts[0]?.exercises).toEqual([
+        { index: 0, exerciseId: 'bench-press', originalName: 'Bench Press' },
+        { index: 1, exerciseId: 'lateral-raise', originalName: 'Lateral Raise' },
+      ]);
+      expect(workouts[0]?.sets.map((s) => s.exerciseIndex)).toEqual([0, 0, 1, 0]);
+      expect(workouts[0]?.sets[3]).toMatchObject({ setType: 'failure', weight: 80, reps: 8 });
+      expect(workouts[0]?.date).toEqual(V3_WORKOUTS[0]?.date);
+    });
+
+    it('should keep profiles and customizations and add new tables', async () => {
+      const options = createIndexedDb();
+      await seedV3(options);
+
+      const db = new ScientificMuscleDatabase(DB_NAME, options);
+      openDatabases.push(db);
+
+      expect(await db.profiles.get('p1')).toEqual(V3_PROFILE);
+      expect(
+        await db.exerciseMappings
+          .where('[profileId+originalPattern]')
+          .equals(['p1', 'cable-fly'])
+          .first()
+      ).toEqual(V3_EXERCISE_MAPPINGS[0]);
+      expect(await db.defaultNameMappingOverrides.toArray()).toEqual(
+        V3_DEFAULT_NAME_MAPPING_OVERRIDES
+      );
+      expect(await db.personalRecords.count()).toBe(0);
+      expect(await db.defaultExerciseOverrides.count()).toBe(0);
+    });
+  });
+
+  describe('upgrading a v5 database', () => {
+    it('should split collapsed exercise IDs into variations', async () => {
+      const options = createIndexedDb();
+      const legacy = await openAt(
+        SCHEMA_MIGRATIONS.filter((m) => m.version <= 5),
+        options
+      );
+      await legacy.table('workouts').add({
+        ...structuredClone(V3_WORKOUTS[1]),
+        sets: [
+          { exerciseId: 'bench-press', originalName: 'Bench Press (Dumbbell)', exerciseIndex: 0 },
+          { exerciseId: 'bench-press', originalName: 'Bench Press', exerciseIndex: 1 },
+        ],
+        exercises: [
+          { index: 0, exerciseId: 'bench-press', originalName: 'Bench Press (Dumbbell)' },
+          { index: 1, exerciseId: 'bench-press', originalName: 'Bench Press' },
+        ],
+      });
+      await legacy.table('unmappedExercises').add({
+        id: 'u1',
+        profileId: 'p1',
+        originalName: 'Hammer Curl (Cable)',
+        normalizedName: 'hammer-curl',
+        firstSeenAt: new Date('2024-01-01T00:00:00Z'),
+        occurrenceCount: 3,
+      });
+      legacy.close();
+
+      const db = new ScientificMuscleDatabase(DB_NAME, options);
+      openDatabases.push(db);
+      const workout = await db.workouts.get('w2');
+
+      expect(workout?.sets.map((s) => s.exerciseId)).toEqual([
+        'bench-press:dumbbell',
+        'bench-press',
+      ]);
+      expect(workout?.exercises?.map((e) => e.exerciseId)).toEqual([
+        'bench-press:dumbbell',
+        'bench-press',
+      ]);
+      expect((await db.unmappedExercises.get('u1'))?.normalizedName).toBe('hammer-curl:cable');
+    });
+  });
+
+  describe('future migrations', () => {
+    it('should transform existing records when a set field is added', async () => {
+      const options = createIndexedDb();
+      await seedV3(options);
+
+      const next: SchemaMigration = {
+        version: LATEST_SCHEMA_VERSION + 1,
+        description: 'Rest time on sets',
+        stores: { workouts: 'id, profileId, date, [profileId+date], title' },
+        transforms: [
+          transformTable<Workout & { sets: { restSeconds?: number }[] }>('workouts', (workout) => {
+            for (const set of workout.sets) {
+              set.restSeconds ??= 0;
+            }
+            return workout;
+          }),
+        ],
+      };
+
+      const db = await openAt([...SCHEMA_MIGRATIONS, next], options);
+      const pull = await db.table<Workout>('workouts').where('title').equals('Pull').first();
+
+      expect(pull?.sets).toEqual([expect.objectContaining({ restSeconds: 0, exerciseIndex: 0 })]);
+      expect(pull?.exercises).toHaveLength(1);
+    });
+
+    it('should delete records whose transform returns null', async () => {
+      const options = createIndexedDb();
+      await seedV3(options);
+
+      const db = await openAt(
+        [
+          ...SCHEMA_MIGRATIONS,
+          {
+            version: LATEST_SCHEMA_VERSION + 1,
+            description: 'Drop empty pull days',
+            stores: {},
+            transforms: [
+              transformTable<Workout>('workouts', (w) => (w.title === 'Pull' ? null : w)),
+            ],
+          },
+        ],
+        options
+      );
+
+      expect(await db.table('workouts').toCollection().primaryKeys()).toEqual(['w1']);
+    });
+
+    it('should leave the database untouched when an upgrade fails', async () => {
+      const options = createIndexedDb();
+      await seedV3(options);
+
+      const failing: SchemaMigration = {
+        version: LATEST_SCHEMA_VERSION + 1,
+        description: 'Broken upgrade',
+        stores: { notes: 'id' },
+        upgrade: () => Promise.reject(new Error('boom')),
+      };
+      const broken = new Dexie(DB_NAME, options);
+      applyMigrations(broken, [...SCHEMA_MIGRATIONS, failing]);
+      await expect(broken.open()).rejects.toThrow();
+      broken.close();
+
+      const legacy = await openAt(
+        SCHEMA_MIGRATIONS.filter((m) => m.version <= 3),
+        options
+      );
+      expect(legacy.verno).toBe(3);
+      expect(await legacy.table('workouts').count()).toBe(2);
+      expect((await legacy.table<Workout>('workouts').get('w1'))?.exercises).toBeUndefined();
+    });
+  });
+});
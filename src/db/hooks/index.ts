@@ -7,6 +7,10 @@ export * from './useWorkouts';
 export * from './useVolumeStats';
 export * from './useHevySync';
 export * from './useDailyStats';
+export * from './useMappingResolver';
 export * from './useDefaultExerciseOverrides';
 export * from './useDefaultNameMappingOverrides';
 export * from './useMuscleGroups';
+export * from './useExerciseHistory';
+export * from './usePersonalRecords';
+export * from './useBackup';
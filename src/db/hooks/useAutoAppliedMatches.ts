@@ -0,0 +1,262 @@
+/**
+ * Auto-applying confident auto-match suggestions on import, and TanStack Query hooks
+ * for the queue of auto-applied mappings awaiting review
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { db, generateId, type AutoAppliedMatch, type ExerciseMapping } from '../schema';
+import {
+  generateAutoMatchSuggestions,
+  selectAutoApplicable,
+  type AutoMatchSuggestion,
+} from '@core/exercise-auto-match';
+import { recordMappingChange } from './useMappingHistory';
+import { loadAutoMatchLearning, recordAutoMatchDecision } from './useAutoMatchLearning';
+
+const AUTO_APPLIED_MATCHES_KEY = ['autoAppliedMatches'];
+const EXERCISE_MAPPINGS_KEY = ['exerciseMappings'];
+const UNMAPPED_EXERCISES_KEY = ['unmappedExercises'];
+const MAPPING_CHANGES_KEY = ['mappingChanges'];
+const AUTO_MATCH_DECISIONS_KEY = ['autoMatchDecisions'];
+const LEARNED_MATCH_RULES_KEY = ['learnedMatchRules'];
+
+/**
+ * The suggestion an auto-applied mapping was created from
+ */
+function toSuggestion(match: AutoAppliedMatch): AutoMatchSuggestion {
+  return {
+    unmappedExerciseName: match.unmappedExercise.originalName,
+    unmappedNormalizedName: match.unmappedExercise.normalizedName,
+    suggestedCanonicalId: match.suggestedId,
+    suggestedCanonicalName: match.suggestedName,
+    confidence: match.confidence,
+    matchReason: match.matchReason,
+  };
+}
+
+/**
+ * Whether an auto-applied mapping still maps to the suggested exercise
+ */
+export function isAutoAppliedMappingIntact(
+  match: AutoAppliedMatch,
+  mapping: ExerciseMapping | undefined
+): boolean {
+  return (
+    !!mapping &&
+    mapping.canonicalExerciseId === match.suggestedId &&
+    !mapping.customMuscleValues &&
+    !mapping.isIgnored
+  );
+}
+
+/**
+ * Map a profile's unmapped exercises whose best suggestion reaches its auto-apply
+ * threshold. Each mapping is logged as an 'auto-match' change and queued for review.
+ * Called after import and sync have tracked the unmapped exercises.
+ * @returns Number of mappings created
+ */
+export async function applyConfidentMatches(profileId: string): Promise<number> {
+  const profile = await db.profiles.get(profileId);
+  if (profile?.autoMatchThreshold === undefined) return 0;
+
+  const [unmappedExercises, customExercises, learning] = await Promise.all([
+    db.unmappedExercises.where('profileId').equals(profileId).toArray(),
+    db.customExercises.where('profileId').equals(profileId).toArray(),
+    loadAutoMatchLearning(profileId),
+  ]);
+  const suggestions = selectAutoApplicable(
+    generateAutoMatchSuggestions(unmappedExercises, customExercises, learning),
+    profile.autoMatchThreshold
+  );
+
+  let applied = 0;
+  for (const suggestion of suggestions) {
+    const unmapped = unmappedExercises.find(
+      (u) => u.normalizedName === suggestion.unmappedNormalizedName
+    );
+    if (!unmapped) continue;
+
+    await db.transaction(
+      'rw',
+      [db.exerciseMappings, db.unmappedExercises, db.mappingChanges, db.autoAppliedMatches],
+      async () => {
+        const existing = await db.exerciseMappings
+          .where('[profileId+originalPattern]')
+          .equals([profileId, unmapped.normalizedName])
+          .first();
+        if (existing) return;
+
+        const mapping: ExerciseMapping = {
+          id: generateId(),
+          profileId,
+          originalPattern: unmapped.normalizedName,
+          templateId: unmapped.templateId,
+          canonicalExerciseId: suggestion.suggestedCanonicalId,
+          customMuscleValues: null,
+          isIgnored: false,
+          createdAt: new Date(),
+        };
+        await db.exerciseMappings.add(mapping);
+        await recordMappingChange({
+          profileId,
+          entityType: 'exerciseMapping',
+          entityKey: mapping.originalPattern,
+          oldValue: null,
+          newValue: mapping,
+          changedBy: 'auto-match',
+        });
+        await db.unmappedExercises.delete(unmapped.id);
+        await db.autoAppliedMatches.add({
+          id: generateId(),
+          profileId,
+          mappingId: mapping.id,
+          unmappedExercise: unmapped,
+          suggestedId: suggestion.suggestedCanonicalId,
+          suggestedName: suggestion.suggestedCanonicalName,
+          confidence: suggestion.confidence,
+          matchReason: suggestion.matchReason,
+          appliedAt: mapping.createdAt,
+        });
+        applied++;
+      }
+    );
+  }
+
+  return applied;
+}
+
+/**
+ * Get auto-applied mappings awaiting review, most recent first
+ */
+export function useAutoAppliedMatches(profileId: string | null): {
+  matches: AutoAppliedMatch[];
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...AUTO_APPLIED_MATCHES_KEY, profileId],
+    queryFn: async () => {
+      if (!profileId) return [];
+
+      const matches = await db.autoAppliedMatches.where('profileId').equals(profileId).toArray();
+      return matches.sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime());
+    },
+    enabled: !!profileId,
+  });
+
+  return {
+    matches: data ?? [],
+    isLoading,
+    error: error as Error | null,
+  };
+}
+
+/**
+ * Confirm auto-applied mappings: keep them and count them as accepted suggestions.
+ * Entries whose mapping was changed since are just removed from the queue.
+ */
+export function useConfirmAutoAppliedMatches(): {
+  confirmMatches: (matches: AutoAppliedMatch[]) => Promise<void>;
+  isConfirming: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (matches: AutoAppliedMatch[]) => {
+      for (const match of matches) {
+        await db.transaction(
+          'rw',
+          [db.exerciseMappings, db.autoAppliedMatches, db.autoMatchDecisions, db.learnedMatchRules],
+          async () => {
+            const mapping = await db.exerciseMappings.get(match.mappingId);
+            if (isAutoAppliedMappingIntact(match, mapping)) {
+              await recordAutoMatchDecision(match.profileId, toSuggestion(match), 'accept');
+            }
+            await db.autoAppliedMatches.delete(match.id);
+          }
+        );
+      }
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: AUTO_APPLIED_MATCHES_KEY });
+      void queryClient.invalidateQueries({ queryKey: AUTO_MATCH_DECISIONS_KEY });
+      void queryClient.invalidateQueries({ queryKey: LEARNED_MATCH_RULES_KEY });
+    },
+  });
+
+  return {
+    confirmMatches: mutation.mutateAsync,
+    isConfirming: mutation.isPending,
+  };
+}
+
+/**
+ * Revert an auto-applied mapping: delete it, put the exercise back in the unmapped
+ * list, record the suggestion as rejected so it is not made again and drop it from
+ * the queue. The deletion is logged as an undo of the 'auto-match' change that
+ * created the mapping. A mapping changed since it was applied is left alone.
+ */
+export async function revertAutoAppliedMatch(match: AutoAppliedMatch): Promise<void> {
+  await db.transaction(
+    'rw',
+    [
+      db.exerciseMappings,
+      db.unmappedExercises,
+      db.mappingChanges,
+      db.autoAppliedMatches,
+      db.autoMatchDecisions,
+      db.learnedMatchRules,
+    ],
+    async () => {
+      const mapping = await db.exerciseMappings.get(match.mappingId);
+      if (mapping && isAutoAppliedMappingIntact(match, mapping)) {
+        const applied = await db.mappingChanges
+          .where('profileId')
+          .equals(match.profileId)
+          .filter((c) => c.changedBy === 'auto-match' && c.newValue?.id === mapping.id)
+          .first();
+
+        await db.exerciseMappings.delete(mapping.id);
+        await recordMappingChange({
+          profileId: match.profileId,
+          entityType: 'exerciseMapping',
+          entityKey: mapping.originalPattern,
+          oldValue: mapping,
+          newValue: null,
+          changedBy: 'undo',
+          revertOf: applied?.id ?? null,
+        });
+        await db.unmappedExercises.put(match.unmappedExercise);
+        await recordAutoMatchDecision(match.profileId, toSuggestion(match), 'reject');
+      }
+      await db.autoAppliedMatches.delete(match.id);
+    }
+  );
+}
+
+/**
+ * Hook for reverting an auto-applied mapping (see revertAutoAppliedMatch)
+ */
+export function useRevertAutoAppliedMatch(): {
+  revertMatch: (match: AutoAppliedMatch) => Promise<void>;
+  isReverting: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: revertAutoAppliedMatch,
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: AUTO_APPLIED_MATCHES_KEY });
+      void queryClient.invalidateQueries({ queryKey: EXERCISE_MAPPINGS_KEY });
+      void queryClient.invalidateQueries({ queryKey: UNMAPPED_EXERCISES_KEY });
+      void queryClient.invalidateQueries({ queryKey: MAPPING_CHANGES_KEY });
+      void queryClient.invalidateQueries({ queryKey: AUTO_MATCH_DECISIONS_KEY });
+      void queryClient.invalidateQueries({ queryKey: LEARNED_MATCH_RULES_KEY });
+    },
+  });
+
+  return {
+    revertMatch: mutation.mutateAsync,
+    isReverting: mutation.isPending,
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * TanStack Query hooks for auto-match review decisions and the match rules
+ * learned from them
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  db,
+  generateId,
+  type AutoMatchDecision,
+  type AutoMatchOutcome,
+  type LearnedMatchRule,
+} from '../schema';
+import {
+  learnMatchRules,
+  planLearnedRuleUpdate,
+  type AutoMatchLearning,
+  type AutoMatchSuggestion,
+} from '@core/exercise-auto-match';
+import { getAllCanonicalExercises } from '@core/exercise-search';
+
+const AUTO_MATCH_DECISIONS_KEY = ['autoMatchDecisions'];
+const LEARNED_MATCH_RULES_KEY = ['learnedMatchRules'];
+
+/**
+ * What the user did with a suggestion in review. An edit is resolved against the
+ * mapping they saved: the same exercise counts as accepted, another as corrected.
+ */
+export type AutoMatchReviewAction = 'accept' | 'reject' | 'edit';
+
+/**
+ * Editable fields of a learned match rule
+ */
+export type LearnedMatchRuleInput = Pick<
+  LearnedMatchRule,
+  'kind' | 'token' | 'expansion' | 'isEnabled'
+>;
+
+/**
+ * Lowercase and trim a rule, dropping the expansion of gym markers
+ * @throws Error if the token is not a single word or the expansion is missing
+ */
+function cleanRuleInput(input: LearnedMatchRuleInput): LearnedMatchRuleInput {
+  const token = input.token.trim().toLowerCase();
+  const expansion = input.kind === 'gymMarker' ? '' : input.expansion.trim().toLowerCase();
+
+  if (!token || /\s/.test(token)) {
+    throw new Error('The word must be a single word');
+  }
+  if (input.kind !== 'gymMarker' && !expansion) {
+    throw new Error('Enter what the word stands for');
+  }
+  return { ...input, token, expansion };
+}
+
+/**
+ * Re-derive a profile's learned rules from all of its decisions.
+ * Call inside a transaction over autoMatchDecisions and learnedMatchRules.
+ */
+async function relearnMatchRules(profileId: string): Promise<void> {
+  const [decisions, existing] = await Promise.all([
+    db.autoMatchDecisions.where('profileId').equals(profileId).toArray(),
+    db.learnedMatchRules.where('profileId').equals(profileId).toArray(),
+  ]);
+
+  const { upserts, removals } = planLearnedRuleUpdate(
+    profileId,
+    existing,
+    learnMatchRules(decisions),
+    { now: new Date(), generateId }
+  );
+  await db.learnedMatchRules.bulkPut(upserts);
+  await db.learnedMatchRules.bulkDelete(removals);
+}
+
+/**
+ * How an edited suggestion ended up, from the mapping saved for its exercise
+ * @returns The outcome and chosen exercise name, or null when nothing was saved
+ */
+async function resolveEditOutcome(
+  profileId: string,
+  suggestion: AutoMatchSuggestion
+): Promise<{ outcome: AutoMatchOutcome; chosenName: string | null } | null> {
+  const mapping = await db.exerciseMappings
+    .where('[profileId+originalPattern]')
+    .equals([profileId, suggestion.unmappedNormalizedName])
+    .first();
+  if (!mapping) return null;
+
+  const targetId = mapping.customMuscleValues ? null : mapping.canonicalExerciseId;
+  if (targetId === suggestion.suggestedCanonicalId) {
+    return { outcome: 'accepted', chosenName: null };
+  }
+  if (!targetId || mapping.isIgnored) {
+    return { outcome: 'rejected', chosenName: null };
+  }
+
+  const custom = await db.customExercises.get(targetId);
+  const chosenName =
+    custom?.name ?? getAllCanonicalExercises().find((e) => e.id === targetId)?.name ?? null;
+  return { outcome: chosenName ? 'corrected' : 'rejected', chosenName };
+}
+
+/**
+ * Record a review decision on a suggestion and re-learn the profile's rules
+ * @returns The stored decision, or null for an edit that saved no mapping
+ */
+export async function recordAutoMatchDecision(
+  profileId: string,
+  suggestion: AutoMatchSuggestion,
+  action: AutoMatchReviewAction
+): Promise<AutoMatchDecision | null> {
+  const resolved =
+    action === 'edit'
+      ? await resolveEditOutcome(profileId, suggestion)
+      : {
+          outcome: action === 'accept' ? ('accepted' as const) : ('rejected' as const),
+          chosenName: null,
+        };
+  if (!resolved) return null;
+
+  const decision: AutoMatchDecision = {
+    id: generateId(),
+    profileId,
+    originalName: suggestion.unmappedExerciseName,
+    normalizedName: suggestion.unmappedNormalizedName,
+    suggestedId: suggestion.suggestedCanonicalId,
+    suggestedName: suggestion.suggestedCanonicalName,
+    ...resolved,
+    decidedAt: new Date(),
+  };
+
+  await db.transaction('rw', [db.autoMatchDecisions, db.learnedMatchRules], async () => {
+    await db.autoMatchDecisions.add(decision);
+    await relearnMatchRules(profileId);
+  });
+  return decision;
+}
+
+/**
+ * Load what auto-match has learned for a profile, outside React (used on import)
+ */
+export async function loadAutoMatchLearning(profileId: string): Promise<AutoMatchLearning> {
+  const [rules, decisions] = await Promise.all([
+    db.learnedMatchRules.where('profileId').equals(profileId).toArray(),
+    db.autoMatchDecisions.where('profileId').equals(profileId).toArray(),
+  ]);
+  return { rules, rejections: decisions.filter((d) => d.outcome !== 'accepted') };
+}
+
+/**
+ * Get what auto-match has learned for a profile: enabled and disabled rules, and
+ * the suggestions rejected in review
+ */
+export function useAutoMatchLearning(profileId: string | null): {
+  learning: AutoMatchLearning;
+  decisionCount: number;
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...AUTO_MATCH_DECISIONS_KEY, profileId],
+    queryFn: async () => {
+      if (!profileId) return [];
+      return db.autoMatchDecisions.where('profileId').equals(profileId).toArray();
+    },
+    enabled: !!profileId,
+  });
+  const { rules, isLoading: rulesLoading, error: rulesError } = useLearnedMatchRules(profileId);
+
+  const decisions = data ?? [];
+  return {
+    learning: {
+      rules,
+      rejections: decisions.filter((d) => d.outcome !== 'accepted'),
+    },
+    decisionCount: decisions.length,
+    isLoading: isLoading || rulesLoading,
+    error: (error ?? rulesError) as Error | null,
+  };
+}
+
+/**
+ * Get a profile's learned match rules, grouped by kind and sorted by word
+ */
+export function useLearnedMatchRules(profileId: string | null): {
+  rules: LearnedMatchRule[];
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...LEARNED_MATCH_RULES_KEY, profileId],
+    queryFn: async () => {
+      if (!profileId) return [];
+
+      const rules = await db.learnedMatchRules.where('profileId').equals(profileId).toArray();
+      return rules.sort((a, b) => a.kind.localeCompare(b.kind) || a.token.localeCompare(b.token));
+    },
+    enabled: !!profileId,
+  });
+
+  return {
+    rules: data ?? [],
+    isLoading,
+    error: error as Error | null,
+  };
+}
+
+/**
+ * Record a review decision on a suggestion and re-learn the profile's rules
+ */
+export function useRecordAutoMatchDecision(): {
+  recordDecision: (input: {
+    profileId: string;
+    suggestion: AutoMatchSuggestion;
+    action: AutoMatchReviewAction;
+  }) => Promise<AutoMatchDecision | null>;
+  isRecording: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      profileId,
+      suggestion,
+      action,
+    }: {
+      profileId: string;
+      suggestion: AutoMatchSuggestion;
+      action: AutoMatchReviewAction;
+    }): Promise<AutoMatchDecision | null> => recordAutoMatchDecision(profileId, suggestion, action),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: AUTO_MATCH_DECISIONS_KEY });
+      void queryClient.invalidateQueries({ queryKey: LEARNED_MATCH_RULES_KEY });
+    },
+  });
+
+  return {
+    recordDecision: mutation.mutateAsync,
+    isRecording: mutation.isPending,
+  };
+}
+
+/**
+ * Add a match rule by hand
+ * @throws Error if the rule is invalid or the word already has a rule of that kind
+ */
+export function useCreateLearnedMatchRule(): {
+  createRule: (profileId: string, input: LearnedMatchRuleInput) => Promise<LearnedMatchRule>;
+  isCreating: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      profileId,
+      input,
+    }: {
+      profileId: string;
+      input: LearnedMatchRuleInput;
+    }): Promise<LearnedMatchRule> => {
+      const cleaned = cleanRuleInput(input);
+
+      const existing = await db.learnedMatchRules
+        .where('[profileId+kind+token]')
+        .equals([profileId, cleaned.kind, cleaned.token])
+        .first();
+      if (existing) {
+        throw new Error(`"${cleaned.token}" already has a rule of this kind`);
+      }
+
+      const rule: LearnedMatchRule = {
+        ...cleaned,
+        id: generateId(),
+        profileId,
+        support: 0,
+        isEdited: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await db.learnedMatchRules.add(rule);
+      return rule;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: LEARNED_MATCH_RULES_KEY });
+    },
+  });
+
+  return {
+    createRule: (profileId, input) => mutation.mutateAsync({ profileId, input }),
+    isCreating: mutation.isPending,
+  };
+}
+
+/**
+ * Update a match rule. Learned rules changed by hand stop following new decisions.
+ * @throws Error if the rule is invalid
+ */
+export function useUpdateLearnedMatchRule(): {
+  updateRule: (rule: LearnedMatchRule, input: LearnedMatchRuleInput) => Promise<void>;
+  isUpdating: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      rule,
+      input,
+    }: {
+      rule: LearnedMatchRule;
+      input: LearnedMatchRuleInput;
+    }): Promise<void> => {
+      const cleaned = cleanRuleInput(input);
+      await db.learnedMatchRules.update(rule.id, {
+        ...cleaned,
+        isEdited: true,
+        updatedAt: new Date(),
+      });
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: LEARNED_MATCH_RULES_KEY });
+    },
+  });
+
+  return {
+    updateRule: (rule, input) => mutation.mutateAsync({ rule, input }),
+    isUpdating: mutation.isPending,
+  };
+}
+
+/**
+ * Delete a match rule. A learned rule comes back when later decisions support it
+ * again; disable it instead to keep it off.
+ */
+export function useDeleteLearnedMatchRule(): {
+  deleteRule: (id: string) => Promise<void>;
+  isDeleting: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (id: string) => {
+      await db.learnedMatchRules.delete(id);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: LEARNED_MATCH_RULES_KEY });
+    },
+  });
+
+  return {
+    deleteRule: mutation.mutateAsync,
+    isDeleting: mutation.isPending,
+  };
+}
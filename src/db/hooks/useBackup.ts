@@ -0,0 +1,333 @@
+/**
+ * Hooks for full profile backup (export) and restore (import)
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { db, generateId, type Profile } from '../schema';
+import {
+  BACKUP_TABLES,
+  BackupError,
+  createProfileBackup,
+  planBackupRestore,
+  type BackupTableName,
+  type ProfileBackup,
+} from '@core/backup';
+import { deriveVariationExerciseIds } from '../migrations';
+import { refreshPersonalRecords } from './usePersonalRecords';
+import { recordTemplateAliases } from './useExerciseTemplateAliases';
+import { recordMappingChange } from './useMappingHistory';
+
+const PROFILES_KEY = ['profiles'];
+const WORKOUTS_KEY = ['workouts'];
+const DAILY_STATS_KEY = ['dailyStats'];
+const EXERCISE_MAPPINGS_KEY = ['exerciseMappings'];
+const UNMAPPED_EXERCISES_KEY = ['unmappedExercises'];
+const DEFAULT_EXERCISE_OVERRIDES_KEY = ['defaultExerciseOverrides'];
+const DEFAULT_NAME_MAPPING_OVERRIDES_KEY = ['defaultNameMappingOverrides'];
+const PERSONAL_RECORDS_KEY = ['personalRecords'];
+const EXERCISE_TEMPLATE_ALIASES_KEY = ['exerciseTemplateAliases'];
+const CUSTOM_EXERCISES_KEY = ['customExercises'];
+const MAPPING_RULES_KEY = ['mappingRules'];
+const MAPPING_CHANGES_KEY = ['mappingChanges'];
+const AUTO_MATCH_DECISIONS_KEY = ['autoMatchDecisions'];
+const LEARNED_MATCH_RULES_KEY = ['learnedMatchRules'];
+const TRAINING_PROGRAMS_KEY = ['trainingPrograms'];
+
+/**
+ * Where a backup is restored: a brand new profile, or merged into an existing one
+ */
+export type RestoreTarget = { kind: 'new'; name: string } | { kind: 'existing'; profileId: string };
+
+/**
+ * Result of a restore
+ */
+export interface RestoreResult {
+  profileId: string;
+  workouts: number;
+  customizations: number; // Every restored record except workouts
+  added: number;
+  replaced: number;
+  reassigned: number;
+}
+
+/**
+ * Collect a profile and all its records into a backup
+ */
+export async function exportProfileBackup(profileId: string): Promise<ProfileBackup> {
+  const profile = await db.profiles.get(profileId);
+  if (!profile) {
+    throw new BackupError('Profile not found');
+  }
+
+  const [
+    workouts,
+    exerciseMappings,
+    unmappedExercises,
+    defaultExerciseOverrides,
+    defaultNameMappingOverrides,
+    customExercises,
+    mappingRules,
+    learnedMatchRules,
+    autoMatchDecisions,
+    trainingPrograms,
+  ] = await Promise.all([
+    db.workouts.where('profileId').equals(profileId).sortBy('date'),
+    db.exerciseMappings.where('profileId').equals(profileId).toArray(),
+    db.unmappedExercises.where('profileId').equals(profileId).toArray(),
+    db.defaultExerciseOverrides.where('profileId').equals(profileId).toArray(),
+    db.defaultNameMappingOverrides.where('profileId').equals(profileId).toArray(),
+    db.customExercises.where('profileId').equals(profileId).toArray(),
+    db.mappingRules.where('profileId').equals(profileId).toArray(),
+    db.learnedMatchRules.where('profileId').equals(profileId).toArray(),
+    db.autoMatchDecisions.where('profileId').equals(profileId).sortBy('decidedAt'),
+    db.trainingPrograms.where('profileId').equals(profileId).toArray(),
+  ]);
+
+  return createProfileBackup(profile, {
+    workouts,
+    exerciseMappings,
+    unmappedExercises,
+    defaultExerciseOverrides,
+    defaultNameMappingOverrides,
+    customExercises,
+    mappingRules,
+    learnedMatchRules,
+    autoMatchDecisions,
+    trainingPrograms,
+  });
+}
+
+/**
+ * Hook for exporting a profile backup
+ */
+export function useExportBackup(): {
+  exportBackup: (profileId: string) => Promise<ProfileBackup>;
+  isExporting: boolean;
+} {
+  const mutation = useMutation({
+    mutationFn: exportProfileBackup,
+  });
+
+  return {
+    exportBackup: mutation.mutateAsync,
+    isExporting: mutation.isPending,
+  };
+}
+
+/**
+ * Hook for restoring a backup into a new or existing profile.
+ * Restoring into an existing profile keeps its name, API key and sync state and
+ * replaces its goals and settings with the backup's.
+ */
+export function useRestoreBackup(): {
+  restoreBackup: (input: {
+    backup: ProfileBackup;
+    target: RestoreTarget;
+  }) => Promise<RestoreResult>;
+  isRestoring: boolean;
+  error: Error | null;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      backup,
+      target,
+    }: {
+      backup: ProfileBackup;
+      target: RestoreTarget;
+    }): Promise<RestoreResult> => {
+      const tables = {
+        workouts: db.workouts,
+        exerciseMappings: db.exerciseMappings,
+        unmappedExercises: db.unmappedExercises,
+        defaultExerciseOverrides: db.defaultExerciseOverrides,
+        defaultNameMappingOverrides: db.defaultNameMappingOverrides,
+        customExercises: db.customExercises,
+        mappingRules: db.mappingRules,
+        learnedMatchRules: db.learnedMatchRules,
+        autoMatchDecisions: db.autoMatchDecisions,
+        trainingPrograms: db.trainingPrograms,
+      };
+
+      const result = await db.transaction(
+        'rw',
+        [db.profiles, db.exerciseTemplateAliases, db.mappingChanges, ...Object.values(tables)],
+        async () => {
+          // Settings carried over from the backup
+          const { goals, totalGoal, muscleGroupCustomization, gender } = backup.profile;
+          const settings = {
+            gender,
+            goals,
+            totalGoal,
+            muscleGroupCustomization,
+            customMuscleGroups: backup.profile.customMuscleGroups,
+            setEquivalence: backup.profile.setEquivalence,
+            effectiveSetRules: backup.profile.effectiveSetRules,
+            autoMatchThreshold: backup.profile.autoMatchThreshold,
+          };
+
+          let profileId: string;
+          if (target.kind === 'new') {
+            const profile: Profile = {
+              ...settings,
+              id: generateId(),
+              name: target.name.trim() || backup.profile.name,
+              createdAt: backup.profile.createdAt,
+            };
+            await db.profiles.add(profile);
+            profileId = profile.id;
+          } else {
+            const existing = await db.profiles.get(target.profileId);
+            if (!existing) {
+              throw new BackupError('Target profile not found');
+            }
+            await db.profiles.put({ ...existing, ...settings });
+            profileId = existing.id;
+          }
+
+          // Owners of IDs used by the backup, to detect collisions with other profiles
+          const ownerById = {} as Record<BackupTableName, Map<string, string>>;
+          for (const table of BACKUP_TABLES) {
+            const existingRecords = await tables[table].bulkGet(backup[table].map((r) => r.id));
+            ownerById[table] = new Map(
+              existingRecords.flatMap((record) => (record ? [[record.id, record.profileId]] : []))
+            );
+          }
+
+          const [
+            exerciseMappings,
+            unmappedExercises,
+            defaultExerciseOverrides,
+            defaultNameMappingOverrides,
+            customExercises,
+            mappingRules,
+            learnedMatchRules,
+          ] = await Promise.all([
+            db.exerciseMappings.where('profileId').equals(profileId).toArray(),
+            db.unmappedExercises.where('profileId').equals(profileId).toArray(),
+            db.defaultExerciseOverrides.where('profileId').equals(profileId).toArray(),
+            db.defaultNameMappingOverrides.where('profileId').equals(profileId).toArray(),
+            db.customExercises.where('profileId').equals(profileId).toArray(),
+            db.mappingRules.where('profileId').equals(profileId).toArray(),
+            db.learnedMatchRules.where('profileId').equals(profileId).toArray(),
+          ]);
+
+          const plan = planBackupRestore(backup, {
+            targetProfileId: profileId,
+            ownerById,
+            existing: {
+              exerciseMappings,
+              unmappedExercises,
+              defaultExerciseOverrides,
+              defaultNameMappingOverrides,
+              customExercises,
+              mappingRules,
+              learnedMatchRules,
+            },
+            generateId,
+          });
+
+          // Backups made before variation-aware IDs carry collapsed exercise IDs
+          await db.workouts.bulkPut(plan.workouts.map(deriveVariationExerciseIds));
+          await recordTemplateAliases(profileId, plan.workouts);
+          await db.exerciseMappings.bulkPut(plan.exerciseMappings);
+          await db.unmappedExercises.bulkPut(plan.unmappedExercises);
+          await db.defaultExerciseOverrides.bulkPut(plan.defaultExerciseOverrides);
+          await db.defaultNameMappingOverrides.bulkPut(plan.defaultNameMappingOverrides);
+
+          // Log every mapping and override the restore adds or replaces, so it can be undone
+          const mappingById = new Map(exerciseMappings.map((m) => [m.id, m]));
+          for (const mapping of plan.exerciseMappings) {
+            await recordMappingChange({
+              profileId,
+              entityType: 'exerciseMapping',
+              entityKey: mapping.originalPattern,
+              oldValue: mappingById.get(mapping.id) ?? null,
+              newValue: mapping,
+              changedBy: 'import',
+            });
+          }
+          const exerciseOverrideById = new Map(defaultExerciseOverrides.map((o) => [o.id, o]));
+          for (const override of plan.defaultExerciseOverrides) {
+            await recordMappingChange({
+              profileId,
+              entityType: 'defaultExerciseOverride',
+              entityKey: override.exerciseName,
+              oldValue: exerciseOverrideById.get(override.id) ?? null,
+              newValue: override,
+              changedBy: 'import',
+            });
+          }
+          const nameOverrideById = new Map(defaultNameMappingOverrides.map((o) => [o.id, o]));
+          for (const override of plan.defaultNameMappingOverrides) {
+            await recordMappingChange({
+              profileId,
+              entityType: 'defaultNameMappingOverride',
+              entityKey: override.gymName,
+              oldValue: nameOverrideById.get(override.id) ?? null,
+              newValue: override,
+              changedBy: 'import',
+            });
+          }
+
+          await db.customExercises.bulkPut(plan.customExercises);
+          await db.mappingRules.bulkPut(plan.mappingRules);
+          await db.learnedMatchRules.bulkPut(plan.learnedMatchRules);
+          await db.autoMatchDecisions.bulkPut(plan.autoMatchDecisions);
+          await db.trainingPrograms.bulkPut(plan.trainingPrograms);
+
+          return {
+            profileId,
+            workouts: plan.workouts.length,
+            customizations:
+              plan.exerciseMappings.length +
+              plan.unmappedExercises.length +
+              plan.defaultExerciseOverrides.length +
+              plan.defaultNameMappingOverrides.length +
+              plan.customExercises.length +
+              plan.mappingRules.length +
+              plan.learnedMatchRules.length +
+              plan.autoMatchDecisions.length +
+              plan.trainingPrograms.length,
+            added: plan.added,
+            replaced: plan.replaced,
+            reassigned: plan.reassigned,
+          };
+        }
+      );
+
+      // Rebuild personal records over the whole restored history
+      await refreshPersonalRecords(result.profileId, new Date(0));
+
+      return result;
+    },
+    onSuccess: () => {
+      for (const queryKey of [
+        PROFILES_KEY,
+        WORKOUTS_KEY,
+        DAILY_STATS_KEY,
+        EXERCISE_MAPPINGS_KEY,
+        UNMAPPED_EXERCISES_KEY,
+        DEFAULT_EXERCISE_OVERRIDES_KEY,
+        DEFAULT_NAME_MAPPING_OVERRIDES_KEY,
+        PERSONAL_RECORDS_KEY,
+        EXERCISE_TEMPLATE_ALIASES_KEY,
+        CUSTOM_EXERCISES_KEY,
+        MAPPING_RULES_KEY,
+        MAPPING_CHANGES_KEY,
+        AUTO_MATCH_DECISIONS_KEY,
+        LEARNED_MATCH_RULES_KEY,
+        TRAINING_PROGRAMS_KEY,
+      ]) {
+        void queryClient.invalidateQueries({ queryKey });
+      }
+    },
+  });
+
+  return {
+    restoreBackup: mutation.mutateAsync,
+    isRestoring: mutation.isPending,
+    error: mutation.error as Error | null,
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * TanStack Query hooks for a profile's custom exercise library
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { db, generateId, CUSTOM_EXERCISE_ID_PREFIX, type CustomExercise } from '../schema';
+
+const CUSTOM_EXERCISES_KEY = ['customExercises'];
+
+/**
+ * Editable fields of a custom exercise
+ */
+export type CustomExerciseInput = Pick<
+  CustomExercise,
+  'name' | 'aliases' | 'equipment' | 'muscleValues' | 'notes'
+>;
+
+/**
+ * Trim the name, drop blank and duplicate aliases (case-insensitive) and empty equipment
+ */
+function cleanInput(input: CustomExerciseInput): CustomExerciseInput {
+  const seen = new Set<string>();
+  const aliases = input.aliases
+    .map((alias) => alias.trim())
+    .filter((alias) => {
+      const key = alias.toLowerCase();
+      if (!alias || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return {
+    ...input,
+    name: input.name.trim(),
+    aliases,
+    equipment: input.equipment?.trim() || null,
+    notes: input.notes.trim(),
+  };
+}
+
+/**
+ * Get all custom exercises for a profile, sorted by name
+ */
+export function useCustomExercises(profileId: string | null): {
+  customExercises: CustomExercise[];
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...CUSTOM_EXERCISES_KEY, profileId],
+    queryFn: async () => {
+      if (!profileId) return [];
+
+      return db.customExercises.where('profileId').equals(profileId).sortBy('name');
+    },
+    enabled: !!profileId,
+  });
+
+  return {
+    customExercises: data ?? [],
+    isLoading,
+    error: error as Error | null,
+  };
+}
+
+/**
+ * Create a custom exercise
+ * @throws Error if the name is empty or already used by another custom exercise
+ */
+export function useCreateCustomExercise(): {
+  createCustomExercise: (profileId: string, input: CustomExerciseInput) => Promise<CustomExercise>;
+  isCreating: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      profileId,
+      input,
+    }: {
+      profileId: string;
+      input: CustomExerciseInput;
+    }): Promise<CustomExercise> => {
+      const cleaned = cleanInput(input);
+      if (!cleaned.name) {
+        throw new Error('Custom exercise name is required');
+      }
+
+      const existing = await db.customExercises
+        .where('[profileId+name]')
+        .equals([profileId, cleaned.name])
+        .first();
+      if (existing) {
+        throw new Error(`A custom exercise named "${cleaned.name}" already exists`);
+      }
+
+      const exercise: CustomExercise = {
+        ...cleaned,
+        id: `${CUSTOM_EXERCISE_ID_PREFIX}${generateId()}`,
+        profileId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await db.customExercises.add(exercise);
+      return exercise;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: CUSTOM_EXERCISES_KEY });
+    },
+  });
+
+  return {
+    createCustomExercise: (profileId, input) => mutation.mutateAsync({ profileId, input }),
+    isCreating: mutation.isPending,
+  };
+}
+
+/**
+ * Update a custom exercise. Its ID stays the same, so mappings keep pointing at it.
+ * @throws Error if the new name is empty or already used by another custom exercise
+ */
+export function useUpdateCustomExercise(): {
+  updateCustomExercise: (exercise: CustomExercise, input: CustomExerciseInput) => Promise<void>;
+  isUpdating: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      exercise,
+      input,
+    }: {
+      exercise: CustomExercise;
+      input: CustomExerciseInput;
+    }) => {
+      const cleaned = cleanInput(input);
+      if (!cleaned.name) {
+        throw new Error('Custom exercise name is required');
+      }
+
+      const existing = await db.customExercises
+        .where('[profileId+name]')
+        .equals([exercise.profileId, cleaned.name])
+        .first();
+      if (existing && existing.id !== exercise.id) {
+        throw new Error(`A custom exercise named "${cleaned.name}" already exists`);
+      }
+
+      await db.customExercises.update(exercise.id, { ...cleaned, updatedAt: new Date() });
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: CUSTOM_EXERCISES_KEY });
+    },
+  });
+
+  return {
+    updateCustomExercise: (exercise, input) => mutation.mutateAsync({ exercise, input }),
+    isUpdating: mutation.isPending,
+  };
+}
+
+/**
+ * Delete a custom exercise. Mappings pointing at it become unresolved until remapped.
+ */
+export function useDeleteCustomExercise(): {
+  deleteCustomExercise: (id: string) => Promise<void>;
+  isDeleting: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (id: string) => {
+      await db.customExercises.delete(id);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: CUSTOM_EXERCISES_KEY });
+    },
+  });
+
+  return {
+    deleteCustomExercise: mutation.mutateAsync,
+    isDeleting: mutation.isPending,
+  };
+}
@@ -2,12 +2,25 @@
  * TanStack Query hook for Daily Activity Statistics
  */
 
+import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { db, type Workout } from '../schema';
-import type { FunctionalGroup, ExerciseMapping } from '@core/taxonomy';
-
-// Load exercise mappings from config
-import exerciseListJson from '../../../config/exercise_list_complete.json';
+import { db, type Profile, type Workout } from '../schema';
+import { useProfile } from './useProfiles';
+import { useMappingResolver } from './useMappingResolver';
+import {
+  getDefaultFunctionalGroup,
+  getEffectiveFunctionalGroup,
+  type MappingResolver,
+} from '../utils/mapping-resolver';
+import type { FunctionalGroup, ScientificMuscle } from '@core/taxonomy';
+import {
+  getDateRangeKey,
+  getDaysInRange,
+  resolveDateWindow,
+  toLocalDateKey,
+  type DateRange,
+  type ViewMode,
+} from '@core/date-range';
 
 const DAILY_STATS_KEY = ['dailyStats'];
 
@@ -15,6 +28,7 @@ const DAILY_STATS_KEY = ['dailyStats'];
  * Exercise details for daily activity breakdown
  */
 export interface DailyExercise {
+  exerciseId: string;
   name: string;
   sets: number;
   musclesWorked: FunctionalGroup[];
@@ -40,88 +54,30 @@ export interface DailyActivity {
 }
 
 /**
- * Build exercise mappings from the config JSON
- */
-function buildExerciseMappings(): Map<string, ExerciseMapping> {
-  const mappings = new Map<string, ExerciseMapping>();
-
-  for (const [exerciseName, muscleData] of Object.entries(exerciseListJson)) {
-    if (exerciseName === '_comment') continue;
-
-    const normalizedId = exerciseName.toLowerCase().replace(/\s+/g, '-');
-    mappings.set(normalizedId, muscleData as ExerciseMapping);
-  }
-
-  return mappings;
-}
-
-const EXERCISE_MAPPINGS = buildExerciseMappings();
-
-/**
- * Default mapping from ScientificMuscle to FunctionalGroup
+ * Get functional groups for an exercise, using the profile's effective mappings
+ * and muscle group customization
  */
-const DEFAULT_SCIENTIFIC_TO_FUNCTIONAL: Record<string, FunctionalGroup> = {
-  'Latissimus Dorsi': 'Lats',
-  'Middle Trapezius': 'Traps',
-  'Upper Trapezius': 'Traps',
-  'Erector Spinae': 'Lower Back',
-  'Posterior Deltoid': 'Rear Delts',
-  'Anterior Deltoid': 'Front Delts',
-  'Lateral Deltoid': 'Side Delts',
-  'Biceps Brachii': 'Biceps',
-  'Triceps (Lateral/Medial)': 'Triceps',
-  'Triceps (Long Head)': 'Triceps',
-  'Quadriceps (Vasti)': 'Quads',
-  'Quadriceps (RF)': 'Quads',
-  'Gluteus Maximus': 'Glutes',
-  Hamstrings: 'Hamstrings',
-  Gastrocnemius: 'Calves',
-  Soleus: 'Calves',
-  'Pectoralis Major (Sternal)': 'Chest',
-  'Pectoralis Major (Clavicular)': 'Upper Chest',
-};
-
-/**
- * Get functional groups for an exercise
- */
-function getExerciseMuscles(exerciseId: string): FunctionalGroup[] {
-  const mapping = EXERCISE_MAPPINGS.get(exerciseId);
-  if (!mapping) return [];
+function getExerciseMuscles(
+  exerciseId: string,
+  resolver: MappingResolver,
+  profile: Profile | null
+): FunctionalGroup[] {
+  const { muscles } = resolver.resolve(exerciseId);
+  if (!muscles) return [];
 
   const functionalGroups = new Set<FunctionalGroup>();
 
-  for (const [scientificMuscle, contribution] of Object.entries(mapping)) {
+  for (const [muscle, contribution] of Object.entries(muscles) as [ScientificMuscle, number][]) {
     if (contribution > 0) {
-      const functionalGroup = DEFAULT_SCIENTIFIC_TO_FUNCTIONAL[scientificMuscle];
-      if (functionalGroup) {
-        functionalGroups.add(functionalGroup);
-      }
+      functionalGroups.add(
+        profile ? getEffectiveFunctionalGroup(muscle, profile) : getDefaultFunctionalGroup(muscle)
+      );
     }
   }
 
   return Array.from(functionalGroups);
 }
 
-/**
- * Get the end of today in the user's local timezone (23:59:59.999)
- */
-function getEndOfToday(): Date {
-  const now = new Date();
-  return new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
-}
-
-/**
- * Get the start of the current calendar week (Monday)
- */
-function getStartOfWeek(): Date {
-  const now = new Date();
-  const day = now.getDay();
-  const diff = day === 0 ? -6 : 1 - day; // Adjust when Sunday (0)
-  const monday = new Date(now);
-  monday.setDate(now.getDate() + diff);
-  return new Date(monday.getFullYear(), monday.getMonth(), monday.getDate());
-}
-
 /**
  * Get day label (Mon, Tue, Wed, etc.)
  */
@@ -131,23 +87,14 @@ function getDayLabel(date: Date): string {
   return days[dayIndex] as string;
 }
 
-/**
- * Convert a Date to a local date key (YYYY-MM-DD) using local timezone
- */
-function toLocalDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
-
 /**
  * Process workouts into daily breakdown
  */
 function processDailyActivities(
   workouts: Workout[],
-  startDate: Date,
-  endDate: Date
+  range: DateRange,
+  resolver: MappingResolver,
+  profile: Profile | null
 ): DailyActivity[] {
   // Create a map of date string -> workouts
   const workoutsByDate = new Map<string, Workout[]>();
@@ -159,11 +106,8 @@ function processDailyActivities(
     workoutsByDate.set(dateKey, existing);
   }
 
-  // Generate all 7 days
-  const activities: DailyActivity[] = [];
-  const currentDate = new Date(startDate);
-
-  while (currentDate <= endDate) {
+  // Generate every day in the range
+  return getDaysInRange(range).map((currentDate) => {
     const dateKey = toLocalDateKey(currentDate);
     const dayWorkouts = workoutsByDate.get(dateKey) ?? [];
 
@@ -186,9 +130,10 @@ function processDailyActivities(
       // Convert to DailyExercise array
       const exercises: DailyExercise[] = Array.from(exerciseMap.entries()).map(
         ([exerciseId, { name, count }]) => ({
+          exerciseId,
           name,
           sets: count,
-          musclesWorked: getExerciseMuscles(exerciseId),
+          musclesWorked: getExerciseMuscles(exerciseId, resolver, profile),
         })
       );
 
@@ -204,68 +149,72 @@ function processDailyActivities(
       0
     );
 
-    activities.push({
-      date: new Date(currentDate),
+    return {
+      date: currentDate,
       dayLabel: getDayLabel(currentDate),
       totalSets,
       workouts: dailyWorkouts,
-    });
-
-    currentDate.setDate(currentDate.getDate() + 1);
-  }
-
-  return activities;
+    };
+  });
 }
 
 /**
  * Get daily activity statistics for a profile
+ * @param profileId - Profile ID
+ * @param options - Preset mode or custom range (range takes precedence)
  */
 export function useDailyStats(
   profileId: string | null,
   options: {
-    mode: 'last7days' | 'calendarWeek';
+    mode?: ViewMode;
+    range?: DateRange;
   }
 ): {
   days: DailyActivity[];
   isLoading: boolean;
   error: Error | null;
 } {
+  const range = options.range ?? resolveDateWindow(options.mode ?? 'last7days');
+  const [startTime, endTime] = getDateRangeKey(range);
+
   const { data, isLoading, error } = useQuery({
-    queryKey: [...DAILY_STATS_KEY, profileId, options.mode],
+    queryKey: [...DAILY_STATS_KEY, profileId, startTime, endTime],
     queryFn: async () => {
       if (!profileId) return [];
 
-      // Calculate date range based on mode
-      let startDate: Date;
-      let endDate: Date;
-
-      if (options.mode === 'last7days') {
-        endDate = getEndOfToday();
-        startDate = new Date(endDate);
-        startDate.setDate(startDate.getDate() - 6); // 6 days back + today = 7 days
-      } else {
-        // calendarWeek mode
-        startDate = getStartOfWeek();
-        endDate = new Date(startDate);
-        endDate.setDate(endDate.getDate() + 6); // Monday + 6 days = Sunday
-      }
+      const startDate = new Date(startTime);
+      const endDate = new Date(endTime);
 
       // Fetch workouts in the date range
-      const workouts = await db.workouts
+      return db.workouts
         .where('profileId')
         .equals(profileId)
         .and((workout) => workout.date >= startDate && workout.date <= endDate)
         .toArray();
-
-      // Process into daily activities
-      return processDailyActivities(workouts, startDate, endDate);
     },
     enabled: !!profileId,
   });
 
+  const { profile } = useProfile(profileId);
+  const { resolver, isLoading: mappingsLoading } = useMappingResolver(profileId);
+
+  // Process into daily activities
+  const days = useMemo(
+    () =>
+      data
+        ? processDailyActivities(
+            data,
+            { start: new Date(startTime), end: new Date(endTime) },
+            resolver,
+            profile
+          )
+        : [],
+    [data, startTime, endTime, resolver, profile]
+  );
+
   return {
-    days: data ?? [],
-    isLoading,
+    days,
+    isLoading: isLoading || mappingsLoading,
     error: error as Error | null,
   };
 }
@@ -6,8 +6,10 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { db, generateId, type DefaultExerciseOverride } from '../schema';
 import type { ScientificMuscle } from '@core/taxonomy';
+import { recordMappingChange } from './useMappingHistory';
 
 const DEFAULT_EXERCISE_OVERRIDES_KEY = ['defaultExerciseOverrides'];
+const MAPPING_CHANGES_KEY = ['mappingChanges'];
 
 /**
  * Get all exercise overrides for a profile
@@ -90,30 +92,32 @@ export function useUpsertDefaultExerciseOverride(): {
       exerciseName: string;
       customMuscleValues: Partial<Record<ScientificMuscle, number>>;
     }) => {
-      // Check if override exists
-      const existing = await db.defaultExerciseOverrides
-        .where('[profileId+exerciseName]')
-        .equals([profileId, exerciseName])
-        .first();
-
-      if (existing) {
-        // Update existing
-        await db.defaultExerciseOverrides.update(existing.id, {
-          customMuscleValues,
-          updatedAt: new Date(),
-        });
-      } else {
-        // Create new
-        const override: DefaultExerciseOverride = {
-          id: generateId(),
+      await db.transaction('rw', [db.defaultExerciseOverrides, db.mappingChanges], async () => {
+        // Check if override exists
+        const existing = await db.defaultExerciseOverrides
+          .where('[profileId+exerciseName]')
+          .equals([profileId, exerciseName])
+          .first();
+
+        const override: DefaultExerciseOverride = existing
+          ? { ...existing, customMuscleValues, updatedAt: new Date() }
+          : {
+              id: generateId(),
+              profileId,
+              exerciseName,
+              customMuscleValues,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            };
+        await db.defaultExerciseOverrides.put(override);
+        await recordMappingChange({
           profileId,
-          exerciseName,
-          customMuscleValues,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-        await db.defaultExerciseOverrides.add(override);
-      }
+          entityType: 'defaultExerciseOverride',
+          entityKey: exerciseName,
+          oldValue: existing ?? null,
+          newValue: override,
+        });
+      });
     },
     onSuccess: (_data, { profileId, exerciseName }) => {
       void queryClient.invalidateQueries({ queryKey: DEFAULT_EXERCISE_OVERRIDES_KEY });
@@ -123,6 +127,7 @@ export function useUpsertDefaultExerciseOverride(): {
       void queryClient.invalidateQueries({
         queryKey: [...DEFAULT_EXERCISE_OVERRIDES_KEY, profileId, exerciseName],
       });
+      void queryClient.invalidateQueries({ queryKey: MAPPING_CHANGES_KEY });
     },
   });
 
@@ -150,10 +155,22 @@ export function useDeleteDefaultExerciseOverride(): {
       profileId: string;
       exerciseName: string;
     }) => {
-      await db.defaultExerciseOverrides
-        .where('[profileId+exerciseName]')
-        .equals([profileId, exerciseName])
-        .delete();
+      await db.transaction('rw', [db.defaultExerciseOverrides, db.mappingChanges], async () => {
+        const existing = await db.defaultExerciseOverrides
+          .where('[profileId+exerciseName]')
+          .equals([profileId, exerciseName])
+          .first();
+        if (!existing) return;
+
+        await db.defaultExerciseOverrides.delete(existing.id);
+        await recordMappingChange({
+          profileId,
+          entityType: 'defaultExerciseOverride',
+          entityKey: exerciseName,
+          oldValue: existing,
+          newValue: null,
+        });
+      });
     },
     onSuccess: (_data, { profileId, exerciseName }) => {
       void queryClient.invalidateQueries({ queryKey: DEFAULT_EXERCISE_OVERRIDES_KEY });
@@ -163,6 +180,7 @@ export function useDeleteDefaultExerciseOverride(): {
       void queryClient.invalidateQueries({
         queryKey: [...DEFAULT_EXERCISE_OVERRIDES_KEY, profileId, exerciseName],
       });
+      void queryClient.invalidateQueries({ queryKey: MAPPING_CHANGES_KEY });
     },
   });
 
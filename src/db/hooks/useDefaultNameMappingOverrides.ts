@@ -5,8 +5,10 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { db, generateId, type DefaultNameMappingOverride } from '../schema';
+import { recordMappingChange } from './useMappingHistory';
 
 const DEFAULT_NAME_MAPPING_OVERRIDES_KEY = ['defaultNameMappingOverrides'];
+const MAPPING_CHANGES_KEY = ['mappingChanges'];
 
 /**
  * Get all name mapping overrides for a profile
@@ -89,30 +91,32 @@ export function useUpsertDefaultNameMappingOverride(): {
       gymName: string;
       canonicalName: string;
     }) => {
-      // Check if override exists
-      const existing = await db.defaultNameMappingOverrides
-        .where('[profileId+gymName]')
-        .equals([profileId, gymName])
-        .first();
-
-      if (existing) {
-        // Update existing
-        await db.defaultNameMappingOverrides.update(existing.id, {
-          canonicalName,
-          updatedAt: new Date(),
-        });
-      } else {
-        // Create new
-        const override: DefaultNameMappingOverride = {
-          id: generateId(),
+      await db.transaction('rw', [db.defaultNameMappingOverrides, db.mappingChanges], async () => {
+        // Check if override exists
+        const existing = await db.defaultNameMappingOverrides
+          .where('[profileId+gymName]')
+          .equals([profileId, gymName])
+          .first();
+
+        const override: DefaultNameMappingOverride = existing
+          ? { ...existing, canonicalName, updatedAt: new Date() }
+          : {
+              id: generateId(),
+              profileId,
+              gymName,
+              canonicalName,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            };
+        await db.defaultNameMappingOverrides.put(override);
+        await recordMappingChange({
           profileId,
-          gymName,
-          canonicalName,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-        await db.defaultNameMappingOverrides.add(override);
-      }
+          entityType: 'defaultNameMappingOverride',
+          entityKey: gymName,
+          oldValue: existing ?? null,
+          newValue: override,
+        });
+      });
     },
     onSuccess: (_data, { profileId, gymName }) => {
       void queryClient.invalidateQueries({ queryKey: DEFAULT_NAME_MAPPING_OVERRIDES_KEY });
@@ -122,6 +126,7 @@ export function useUpsertDefaultNameMappingOverride(): {
       void queryClient.invalidateQueries({
         queryKey: [...DEFAULT_NAME_MAPPING_OVERRIDES_KEY, profileId, gymName],
       });
+      void queryClient.invalidateQueries({ queryKey: MAPPING_CHANGES_KEY });
     },
   });
 
@@ -149,10 +154,22 @@ export function useDeleteDefaultNameMappingOverride(): {
       profileId: string;
       gymName: string;
     }) => {
-      await db.defaultNameMappingOverrides
-        .where('[profileId+gymName]')
-        .equals([profileId, gymName])
-        .delete();
+      await db.transaction('rw', [db.defaultNameMappingOverrides, db.mappingChanges], async () => {
+        const existing = await db.defaultNameMappingOverrides
+          .where('[profileId+gymName]')
+          .equals([profileId, gymName])
+          .first();
+        if (!existing) return;
+
+        await db.defaultNameMappingOverrides.delete(existing.id);
+        await recordMappingChange({
+          profileId,
+          entityType: 'defaultNameMappingOverride',
+          entityKey: gymName,
+          oldValue: existing,
+          newValue: null,
+        });
+      });
     },
     onSuccess: (_data, { profileId, gymName }) => {
       void queryClient.invalidateQueries({ queryKey: DEFAULT_NAME_MAPPING_OVERRIDES_KEY });
@@ -162,6 +179,7 @@ export function useDeleteDefaultNameMappingOverride(): {
       void queryClient.invalidateQueries({
         queryKey: [...DEFAULT_NAME_MAPPING_OVERRIDES_KEY, profileId, gymName],
       });
+      void queryClient.invalidateQueries({ queryKey: MAPPING_CHANGES_KEY });
     },
   });
 
@@ -3,8 +3,11 @@
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { db, type Workout } from '../schema';
+import { db, type Workout, type PersonalRecord } from '../schema';
 import { useTrackUnmappedExercise } from './useUnmappedExercises';
+import { refreshPersonalRecords } from './usePersonalRecords';
+import { applyConfidentMatches } from './useAutoAppliedMatches';
+import { getBaseExerciseId, normalizeId } from '@core/utils/normalization';
 import exerciseListJson from '../../../config/exercise_list_complete.json';
 
 // Build set of canonical exercise IDs
@@ -15,8 +18,9 @@ function getCanonicalExerciseIds(): Set<string> {
     if (exerciseName === '_comment') continue;
 
     // Normalize the same way as the parser does
-    const normalizedId = exerciseName.toLowerCase().replace(/\s+/g, '-');
-    ids.add(normalizedId);
+    const id = normalizeId(exerciseName);
+    // Config variations also cover their bare base ID, as the mapping resolver does
+    ids.add(id).add(getBaseExerciseId(id));
   }
 
   return ids;
@@ -32,6 +36,8 @@ export function useEnhancedImport(): {
     imported: number;
     skipped: number;
     unmappedCount: number;
+    autoAppliedCount: number;
+    personalRecords: PersonalRecord[];
   }>;
   isImporting: boolean;
 } {
@@ -42,7 +48,13 @@ export function useEnhancedImport(): {
     mutationFn: async (workouts: Workout[]) => {
       let imported = 0;
       let skipped = 0;
-      const unmappedExercises = new Map<string, { original: string; count: number }>();
+      const unmappedExercises = new Map<
+        string,
+        { profileId: string; normalizedName: string; original: string; count: number }
+      >();
+      // Earliest imported workout date per profile, for personal record detection
+      const earliestByProfile = new Map<string, Date>();
+      const importedIds = new Set<string>();
 
       await db.transaction('rw', db.workouts, db.unmappedExercises, async () => {
         for (const workout of workouts) {
@@ -56,17 +68,29 @@ export function useEnhancedImport(): {
           // Import the workout
           await db.workouts.add(workout);
           imported++;
+          importedIds.add(workout.id);
+
+          const earliest = earliestByProfile.get(workout.profileId);
+          if (!earliest || workout.date < earliest) {
+            earliestByProfile.set(workout.profileId, workout.date);
+          }
 
           // Check each exercise in the workout for unmapped ones
           for (const set of workout.sets) {
             const exerciseId = set.exerciseId;
 
-            // If not in canonical list, track as unmapped
-            if (!CANONICAL_IDS.has(exerciseId)) {
+            // If not in canonical list, track as unmapped. Variations of a canonical
+            // exercise count as mapped.
+            if (
+              !CANONICAL_IDS.has(exerciseId) &&
+              !CANONICAL_IDS.has(getBaseExerciseId(exerciseId))
+            ) {
               const key = `${workout.profileId}:${exerciseId}`;
 
               if (!unmappedExercises.has(key)) {
                 unmappedExercises.set(key, {
+                  profileId: workout.profileId,
+                  normalizedName: exerciseId,
                   original: set.originalName,
                   count: 0,
                 });
@@ -81,25 +105,39 @@ export function useEnhancedImport(): {
         }
 
         // Track all unmapped exercises
-        for (const [key, data] of unmappedExercises) {
-          const [profileId, normalizedName] = key.split(':');
-
+        for (const { profileId, normalizedName, original } of unmappedExercises.values()) {
           // Track unmapped exercise (will create or increment count)
-          if (profileId && normalizedName) {
-            await trackUnmapped(profileId, data.original, normalizedName);
-          }
+          await trackUnmapped(profileId, original, normalizedName);
         }
       });
 
+      // Map the ones auto-match is confident about, for profiles that allow it
+      let autoAppliedCount = 0;
+      for (const profileId of new Set([...unmappedExercises.values()].map((u) => u.profileId))) {
+        autoAppliedCount += await applyConfidentMatches(profileId);
+      }
+
+      // Detect personal records set by the imported workouts
+      const personalRecords: PersonalRecord[] = [];
+      for (const [profileId, since] of earliestByProfile) {
+        personalRecords.push(...(await refreshPersonalRecords(profileId, since, importedIds)));
+      }
+
       // Invalidate all relevant queries
       void queryClient.invalidateQueries({ queryKey: ['workouts'] });
       void queryClient.invalidateQueries({ queryKey: ['unmappedExercises'] });
       void queryClient.invalidateQueries({ queryKey: ['dailyStats'] });
+      void queryClient.invalidateQueries({ queryKey: ['personalRecords'] });
+      void queryClient.invalidateQueries({ queryKey: ['exerciseMappings'] });
+      void queryClient.invalidateQueries({ queryKey: ['mappingChanges'] });
+      void queryClient.invalidateQueries({ queryKey: ['autoAppliedMatches'] });
 
       return {
         imported,
         skipped,
         unmappedCount: unmappedExercises.size,
+        autoAppliedCount,
+        personalRecords,
       };
     },
   });
@@ -0,0 +1,93 @@
+/**
+ * Hooks for per-exercise strength history
+ */
+
+import { useMemo } from 'react';
+import { useAllWorkouts } from './useWorkouts';
+import { useExerciseMappings } from './useExerciseMappings';
+import { useDefaultNameMappingOverrides } from './useDefaultNameMappingOverrides';
+import { useExerciseTemplateAliases } from './useExerciseTemplateAliases';
+import { useCustomExercises } from './useCustomExercises';
+import { useMappingRules } from './useMappingRules';
+import { buildExerciseIdResolver } from '../utils/mapping-resolver';
+import type { WorkoutSet } from '../schema';
+
+/**
+ * Sets of one exercise within a single workout
+ */
+export interface ExerciseHistorySession {
+  workoutId: string;
+  workoutTitle: string;
+  date: Date;
+  sets: WorkoutSet[];
+}
+
+/**
+ * Get every session of an exercise for a profile, oldest first.
+ * Aliases (gym name mappings, custom exercise aliases, pattern rules and user
+ * mappings to the same canonical exercise) fold into a single history.
+ * @param profileId - Profile ID
+ * @param exerciseId - Normalized exercise ID (an alias or the canonical ID)
+ */
+export function useExerciseHistory(
+  profileId: string | null,
+  exerciseId: string
+): {
+  canonicalExerciseId: string;
+  sessions: ExerciseHistorySession[];
+  originalNames: string[];
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { workouts, isLoading: workoutsLoading, error } = useAllWorkouts(profileId);
+  const { mappings, isLoading: mappingsLoading } = useExerciseMappings(profileId);
+  const { overrides, isLoading: overridesLoading } = useDefaultNameMappingOverrides(profileId);
+  const { aliases, isLoading: aliasesLoading } = useExerciseTemplateAliases(profileId);
+  const { customExercises, isLoading: customLoading } = useCustomExercises(profileId);
+  const { rules, isLoading: rulesLoading } = useMappingRules(profileId);
+
+  const isLoading =
+    workoutsLoading ||
+    mappingsLoading ||
+    overridesLoading ||
+    aliasesLoading ||
+    customLoading ||
+    rulesLoading;
+
+  const result = useMemo(() => {
+    const resolve = buildExerciseIdResolver({
+      userMappings: mappings,
+      nameOverrides: overrides,
+      templateAliases: aliases,
+      customExercises,
+      mappingRules: rules,
+    });
+    const canonicalExerciseId = resolve(exerciseId);
+    const originalNames = new Set<string>();
+    const sessions: ExerciseHistorySession[] = [];
+
+    for (const workout of workouts) {
+      const sets = workout.sets.filter((set) => resolve(set.exerciseId) === canonicalExerciseId);
+      if (sets.length === 0) continue;
+
+      for (const set of sets) {
+        originalNames.add(set.originalName);
+      }
+
+      sessions.push({
+        workoutId: workout.id,
+        workoutTitle: workout.title,
+        date: workout.date,
+        sets,
+      });
+    }
+
+    return {
+      canonicalExerciseId,
+      sessions,
+      originalNames: Array.from(originalNames).sort(),
+    };
+  }, [workouts, mappings, overrides, aliases, customExercises, rules, exerciseId]);
+
+  return { ...result, isLoading, error };
+}
@@ -4,9 +4,11 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { db, generateId, type ExerciseMapping } from '../schema';
+import { recordMappingChange } from './useMappingHistory';
 
 const EXERCISE_MAPPINGS_KEY = ['exerciseMappings'];
 const UNMAPPED_EXERCISES_KEY = ['unmappedExercises'];
+const MAPPING_CHANGES_KEY = ['mappingChanges'];
 
 /**
  * Get user-defined mappings for a profile
@@ -51,15 +53,35 @@ export function useCreateExerciseMapping(): {
       };
 
       // Create mapping and delete unmapped exercise in a transaction
-      await db.transaction('rw', [db.exerciseMappings, db.unmappedExercises], async () => {
-        await db.exerciseMappings.add(mapping);
-
-        // Delete the corresponding unmapped exercise
-        await db.unmappedExercises
-          .where('[profileId+normalizedName]')
-          .equals([mapping.profileId, mapping.originalPattern])
-          .delete();
-      });
+      await db.transaction(
+        'rw',
+        [db.exerciseMappings, db.unmappedExercises, db.mappingChanges],
+        async () => {
+          await db.exerciseMappings.add(mapping);
+          await recordMappingChange({
+            profileId: mapping.profileId,
+            entityType: 'exerciseMapping',
+            entityKey: mapping.originalPattern,
+            oldValue: null,
+            newValue: mapping,
+          });
+
+          // Delete the corresponding unmapped exercise
+          await db.unmappedExercises
+            .where('[profileId+normalizedName]')
+            .equals([mapping.profileId, mapping.originalPattern])
+            .delete();
+
+          // A template mapping also covers the template's other titles
+          if (mapping.templateId) {
+            await db.unmappedExercises
+              .where('profileId')
+              .equals(mapping.profileId)
+              .filter((u) => u.templateId === mapping.templateId)
+              .delete();
+          }
+        }
+      );
 
       return mapping.id;
     },
@@ -72,6 +94,7 @@ export function useCreateExerciseMapping(): {
       void queryClient.invalidateQueries({
         queryKey: [...UNMAPPED_EXERCISES_KEY, mapping.profileId],
       });
+      void queryClient.invalidateQueries({ queryKey: MAPPING_CHANGES_KEY });
     },
   });
 
@@ -92,10 +115,23 @@ export function useDeleteExerciseMapping(): {
 
   const mutation = useMutation({
     mutationFn: async (id: string) => {
-      await db.exerciseMappings.delete(id);
+      await db.transaction('rw', [db.exerciseMappings, db.mappingChanges], async () => {
+        const existing = await db.exerciseMappings.get(id);
+        if (!existing) return;
+
+        await db.exerciseMappings.delete(id);
+        await recordMappingChange({
+          profileId: existing.profileId,
+          entityType: 'exerciseMapping',
+          entityKey: existing.originalPattern,
+          oldValue: existing,
+          newValue: null,
+        });
+      });
     },
     onSuccess: () => {
       void queryClient.invalidateQueries({ queryKey: EXERCISE_MAPPINGS_KEY });
+      void queryClient.invalidateQueries({ queryKey: MAPPING_CHANGES_KEY });
     },
   });
 
@@ -125,10 +161,24 @@ export function useUpdateExerciseMapping(): {
       id: string;
       updates: Partial<Omit<ExerciseMapping, 'id' | 'createdAt'>>;
     }) => {
-      await db.exerciseMappings.update(id, updates);
+      await db.transaction('rw', [db.exerciseMappings, db.mappingChanges], async () => {
+        const existing = await db.exerciseMappings.get(id);
+        if (!existing) return;
+
+        await db.exerciseMappings.update(id, updates);
+        const updated = await db.exerciseMappings.get(id);
+        await recordMappingChange({
+          profileId: existing.profileId,
+          entityType: 'exerciseMapping',
+          entityKey: existing.originalPattern,
+          oldValue: existing,
+          newValue: updated ?? null,
+        });
+      });
     },
     onSuccess: () => {
       void queryClient.invalidateQueries({ queryKey: EXERCISE_MAPPINGS_KEY });
+      void queryClient.invalidateQueries({ queryKey: MAPPING_CHANGES_KEY });
     },
   });
 
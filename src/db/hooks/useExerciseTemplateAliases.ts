@@ -0,0 +1,79 @@
+/**
+ * TanStack Query hooks for the Hevy exercise template alias index
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { db, generateId, type ExerciseTemplateAlias, type Workout } from '../schema';
+
+const EXERCISE_TEMPLATE_ALIASES_KEY = ['exerciseTemplateAliases'];
+
+/**
+ * Record every title each Hevy exercise template was used under in the given workouts.
+ * Existing aliases keep their ID and move forward to the latest workout date and name.
+ * Sets without a template ID (CSV imports) are skipped.
+ *
+ * @param profileId - Profile ID
+ * @param workouts - Workouts that were just written
+ * @returns Number of aliases added or updated
+ */
+export async function recordTemplateAliases(
+  profileId: string,
+  workouts: Pick<Workout, 'date' | 'sets'>[]
+): Promise<number> {
+  const existing = await db.exerciseTemplateAliases.where('profileId').equals(profileId).toArray();
+  const aliasByKey = new Map(existing.map((a) => [`${a.templateId}\n${a.exerciseId}`, a]));
+  const changed = new Map<string, ExerciseTemplateAlias>();
+
+  for (const workout of workouts) {
+    for (const set of workout.sets) {
+      if (!set.templateId) continue;
+
+      const key = `${set.templateId}\n${set.exerciseId}`;
+      const alias = aliasByKey.get(key);
+      if (alias && alias.lastSeenAt >= workout.date) continue;
+
+      const updated: ExerciseTemplateAlias = {
+        id: alias?.id ?? generateId(),
+        profileId,
+        templateId: set.templateId,
+        exerciseId: set.exerciseId,
+        originalName: set.originalName,
+        lastSeenAt: workout.date,
+      };
+      aliasByKey.set(key, updated);
+      changed.set(key, updated);
+    }
+  }
+
+  await db.exerciseTemplateAliases.bulkPut(Array.from(changed.values()));
+  return changed.size;
+}
+
+/**
+ * Get the template aliases of a profile, most recently used first
+ */
+export function useExerciseTemplateAliases(profileId: string | null): {
+  aliases: ExerciseTemplateAlias[];
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...EXERCISE_TEMPLATE_ALIASES_KEY, profileId],
+    queryFn: async () => {
+      if (!profileId) return [];
+
+      const aliases = await db.exerciseTemplateAliases
+        .where('profileId')
+        .equals(profileId)
+        .sortBy('lastSeenAt');
+      return aliases.reverse();
+    },
+    enabled: !!profileId,
+  });
+
+  return {
+    aliases: data ?? [],
+    isLoading,
+    error: error as Error | null,
+  };
+}
@@ -3,13 +3,18 @@
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { db, type Workout, type Profile } from '../schema';
+import { db, type Workout, type Profile, type PersonalRecord } from '../schema';
 import {
   fetchHevyWorkouts,
   validateHevyApiKey,
   type HevyWorkoutResult,
 } from '@core/parsers/hevy-api';
 import { useTrackUnmappedExercise } from './useUnmappedExercises';
+import { refreshPersonalRecords } from './usePersonalRecords';
+import { recordTemplateAliases } from './useExerciseTemplateAliases';
+import { applyConfidentMatches } from './useAutoAppliedMatches';
+import { getBaseExerciseId, normalizeId } from '@core/utils/normalization';
+import { createRuleMatcher } from '@core/mapping-rules';
 import exerciseListJson from '../../../config/exercise_list_complete.json';
 
 // Build set of canonical exercise IDs for unmapped detection
@@ -17,8 +22,9 @@ function getCanonicalExerciseIds(): Set<string> {
   const ids = new Set<string>();
   for (const exerciseName of Object.keys(exerciseListJson)) {
     if (exerciseName === '_comment') continue;
-    const normalizedId = exerciseName.toLowerCase().replace(/\s+/g, '-');
-    ids.add(normalizedId);
+    const id = normalizeId(exerciseName);
+    // Config variations also cover their bare base ID, as the mapping resolver does
+    ids.add(id).add(getBaseExerciseId(id));
   }
   return ids;
 }
@@ -29,6 +35,11 @@ const WORKOUTS_KEY = ['workouts'];
 const UNMAPPED_EXERCISES_KEY = ['unmappedExercises'];
 const PROFILES_KEY = ['profiles'];
 const DAILY_STATS_KEY = ['dailyStats'];
+const PERSONAL_RECORDS_KEY = ['personalRecords'];
+const EXERCISE_TEMPLATE_ALIASES_KEY = ['exerciseTemplateAliases'];
+const EXERCISE_MAPPINGS_KEY = ['exerciseMappings'];
+const MAPPING_CHANGES_KEY = ['mappingChanges'];
+const AUTO_APPLIED_MATCHES_KEY = ['autoAppliedMatches'];
 
 /**
  * Result of a Hevy sync operation
@@ -39,6 +50,8 @@ export interface HevySyncResult {
   updated: number;
   deleted: number;
   skipped: number;
+  autoApplied: number; // Unmapped exercises mapped by auto-match, awaiting review
+  personalRecords: PersonalRecord[]; // Records set in imported/updated workouts
 }
 
 /**
@@ -51,6 +64,7 @@ function convertToDbWorkout(hevyWorkout: HevyWorkoutResult, profileId: string):
     date: hevyWorkout.date,
     title: hevyWorkout.title,
     sets: hevyWorkout.sets,
+    exercises: hevyWorkout.exercises,
   };
 }
 
@@ -100,8 +114,22 @@ export function useHevySync(): {
       let deleted = 0;
       let skipped = 0;
 
+      // Dates touched by this sync; records from the earliest one on are re-detected
+      const changedDates: Date[] = [];
+      const changedWorkoutIds = new Set<string>();
+      const writtenWorkouts: Workout[] = [];
+
       // Track unmapped exercises: collect unique exercises not in canonical list
-      const unmappedExercises = new Map<string, { original: string; count: number }>();
+      const unmappedExercises = new Map<
+        string,
+        {
+          profileId: string;
+          normalizedName: string;
+          templateId?: string;
+          original: string;
+          count: number;
+        }
+      >();
 
       // Get existing user mappings to avoid re-adding mapped exercises as unmapped
       const existingMappings = await db.exerciseMappings
@@ -110,6 +138,38 @@ export function useHevySync(): {
         .toArray();
       const mappedPatterns = new Set(existingMappings.map(m => m.originalPattern));
 
+      // Names and aliases of custom exercises resolve to them without a mapping
+      const customExercises = await db.customExercises
+        .where('profileId')
+        .equals(profile.id)
+        .toArray();
+      for (const custom of customExercises) {
+        for (const name of [custom.name, ...custom.aliases]) {
+          mappedPatterns.add(normalizeId(name));
+        }
+      }
+
+      // Exercises matched by a pattern rule are handled without an exact mapping
+      const matchRule = createRuleMatcher(
+        await db.mappingRules.where('profileId').equals(profile.id).toArray()
+      );
+
+      // Hevy templates with a mapping, directly or through any title they were seen under
+      const existingAliases = await db.exerciseTemplateAliases
+        .where('profileId')
+        .equals(profile.id)
+        .toArray();
+      const mappedTemplates = new Set<string>();
+      for (const mapping of existingMappings) {
+        if (mapping.templateId) mappedTemplates.add(mapping.templateId);
+      }
+      for (const { templateId, exerciseId } of [
+        ...existingAliases,
+        ...workouts.flatMap((w) => w.sets),
+      ]) {
+        if (templateId && mappedPatterns.has(exerciseId)) mappedTemplates.add(templateId);
+      }
+
       // Process workouts in transaction (DB operations only)
       await db.transaction('rw', [db.workouts, db.profiles], async () => {
         // Process deletions (for incremental sync)
@@ -117,6 +177,7 @@ export function useHevySync(): {
           const existing = await db.workouts.get(deletedId);
           if (existing && existing.profileId === profile.id) {
             await db.workouts.delete(deletedId);
+            changedDates.push(existing.date);
             deleted++;
           }
         }
@@ -130,6 +191,9 @@ export function useHevySync(): {
             if (existing.profileId === profile.id) {
               // Update existing workout
               await db.workouts.put(dbWorkout);
+              changedDates.push(existing.date, dbWorkout.date);
+              changedWorkoutIds.add(dbWorkout.id);
+              writtenWorkouts.push(dbWorkout);
               updated++;
             } else {
               // Workout belongs to different profile, skip
@@ -138,6 +202,9 @@ export function useHevySync(): {
           } else {
             // New workout
             await db.workouts.add(dbWorkout);
+            changedDates.push(dbWorkout.date);
+            changedWorkoutIds.add(dbWorkout.id);
+            writtenWorkouts.push(dbWorkout);
             imported++;
           }
 
@@ -145,12 +212,21 @@ export function useHevySync(): {
           for (const set of dbWorkout.sets) {
             const exerciseId = set.exerciseId;
 
-            // If not in canonical list AND not already mapped by user, track as unmapped
-            if (!CANONICAL_IDS.has(exerciseId) && !mappedPatterns.has(exerciseId)) {
+            // If not in canonical list AND not already mapped by user, track as unmapped.
+            // Variations count as mapped when their base exercise is.
+            const baseId = getBaseExerciseId(exerciseId);
+            const isMapped =
+              [exerciseId, baseId].some((id) => CANONICAL_IDS.has(id) || mappedPatterns.has(id)) ||
+              (set.templateId !== undefined && mappedTemplates.has(set.templateId)) ||
+              matchRule(exerciseId) !== null;
+            if (!isMapped) {
               const key = `${profile.id}:${exerciseId}`;
 
               if (!unmappedExercises.has(key)) {
                 unmappedExercises.set(key, {
+                  profileId: profile.id,
+                  normalizedName: exerciseId,
+                  templateId: set.templateId,
                   original: set.originalName,
                   count: 0,
                 });
@@ -171,24 +247,46 @@ export function useHevySync(): {
         });
       });
 
+      // Remember the titles each Hevy template was synced under
+      await recordTemplateAliases(profile.id, writtenWorkouts);
+
       // Track all unmapped exercises AFTER transaction completes
       // This must be outside the transaction because trackUnmapped does its own DB operations
-      for (const [key, data] of unmappedExercises) {
-        const [profileId, normalizedName] = key.split(':');
-
+      for (const entry of unmappedExercises.values()) {
         // Track unmapped exercise (will create or increment count)
-        if (profileId && normalizedName) {
-          await trackUnmapped(profileId, data.original, normalizedName);
-        }
+        await trackUnmapped(
+          entry.profileId,
+          entry.original,
+          entry.normalizedName,
+          entry.templateId
+        );
       }
 
-      return { syncType, imported, updated, deleted, skipped };
+      // Map the ones auto-match is confident about, if the profile allows it
+      const autoApplied = await applyConfidentMatches(profile.id);
+
+      // Detect personal records set by the synced workouts
+      const personalRecords =
+        changedDates.length > 0
+          ? await refreshPersonalRecords(
+              profile.id,
+              new Date(Math.min(...changedDates.map((d) => d.getTime()))),
+              changedWorkoutIds
+            )
+          : [];
+
+      return { syncType, imported, updated, deleted, skipped, autoApplied, personalRecords };
     },
     onSuccess: () => {
       void queryClient.invalidateQueries({ queryKey: WORKOUTS_KEY });
       void queryClient.invalidateQueries({ queryKey: PROFILES_KEY });
       void queryClient.invalidateQueries({ queryKey: UNMAPPED_EXERCISES_KEY });
       void queryClient.invalidateQueries({ queryKey: DAILY_STATS_KEY });
+      void queryClient.invalidateQueries({ queryKey: PERSONAL_RECORDS_KEY });
+      void queryClient.invalidateQueries({ queryKey: EXERCISE_TEMPLATE_ALIASES_KEY });
+      void queryClient.invalidateQueries({ queryKey: EXERCISE_MAPPINGS_KEY });
+      void queryClient.invalidateQueries({ queryKey: MAPPING_CHANGES_KEY });
+      void queryClient.invalidateQueries({ queryKey: AUTO_APPLIED_MATCHES_KEY });
     },
   });
 
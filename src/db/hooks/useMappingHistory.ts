@@ -0,0 +1,272 @@
+/**
+ * TanStack Query hooks for the mapping change log, with revert and undo
+ */
+
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  db,
+  generateId,
+  type DefaultExerciseOverride,
+  type DefaultNameMappingOverride,
+  type ExerciseMapping,
+  type MappingChange,
+  type MappingChangeEntity,
+  type MappingChangeValue,
+} from '../schema';
+import { findUndoableChange } from '@core/mapping-history';
+import { isAutoAppliedMappingIntact, revertAutoAppliedMatch } from './useAutoAppliedMatches';
+
+const MAPPING_CHANGES_KEY = ['mappingChanges'];
+const EXERCISE_MAPPINGS_KEY = ['exerciseMappings'];
+const DEFAULT_EXERCISE_OVERRIDES_KEY = ['defaultExerciseOverrides'];
+const DEFAULT_NAME_MAPPING_OVERRIDES_KEY = ['defaultNameMappingOverrides'];
+const UNMAPPED_EXERCISES_KEY = ['unmappedExercises'];
+const AUTO_APPLIED_MATCHES_KEY = ['autoAppliedMatches'];
+const AUTO_MATCH_DECISIONS_KEY = ['autoMatchDecisions'];
+const LEARNED_MATCH_RULES_KEY = ['learnedMatchRules'];
+
+/**
+ * Append a change log entry. Call inside the transaction that makes the change,
+ * with db.mappingChanges in its scope.
+ */
+export async function recordMappingChange(
+  change: Pick<MappingChange, 'profileId' | 'entityType' | 'entityKey' | 'oldValue' | 'newValue'> &
+    Partial<Pick<MappingChange, 'changedBy' | 'revertOf'>>
+): Promise<void> {
+  await db.mappingChanges.add({
+    changedBy: 'user',
+    revertOf: null,
+    ...change,
+    id: generateId(),
+    changedAt: new Date(),
+  });
+}
+
+/**
+ * Current record a change log entry refers to
+ */
+async function getCurrentValue(
+  profileId: string,
+  entityType: MappingChangeEntity,
+  entityKey: string
+): Promise<MappingChangeValue | undefined> {
+  switch (entityType) {
+    case 'exerciseMapping':
+      return db.exerciseMappings
+        .where('[profileId+originalPattern]')
+        .equals([profileId, entityKey])
+        .first();
+    case 'defaultExerciseOverride':
+      return db.defaultExerciseOverrides
+        .where('[profileId+exerciseName]')
+        .equals([profileId, entityKey])
+        .first();
+    case 'defaultNameMappingOverride':
+      return db.defaultNameMappingOverrides
+        .where('[profileId+gymName]')
+        .equals([profileId, entityKey])
+        .first();
+  }
+}
+
+/**
+ * Replace the current record with a logged value, or delete it when the value is null
+ */
+async function restoreValue(
+  entityType: MappingChangeEntity,
+  current: MappingChangeValue | undefined,
+  value: MappingChangeValue | null
+): Promise<void> {
+  const table =
+    entityType === 'exerciseMapping'
+      ? db.exerciseMappings
+      : entityType === 'defaultExerciseOverride'
+        ? db.defaultExerciseOverrides
+        : db.defaultNameMappingOverrides;
+
+  if (current) {
+    await table.delete(current.id);
+  }
+  if (!value) return;
+
+  switch (entityType) {
+    case 'exerciseMapping': {
+      const mapping = value as ExerciseMapping;
+      await db.exerciseMappings.put(mapping);
+      // A restored mapping covers its exercise again, like a new one
+      await db.unmappedExercises
+        .where('[profileId+normalizedName]')
+        .equals([mapping.profileId, mapping.originalPattern])
+        .delete();
+      break;
+    }
+    case 'defaultExerciseOverride':
+      await db.defaultExerciseOverrides.put({
+        ...(value as DefaultExerciseOverride),
+        updatedAt: new Date(),
+      });
+      break;
+    case 'defaultNameMappingOverride':
+      await db.defaultNameMappingOverrides.put({
+        ...(value as DefaultNameMappingOverride),
+        updatedAt: new Date(),
+      });
+      break;
+  }
+}
+
+/**
+ * Put a change's record back the way it was before the change, logging the revert.
+ * Reverting an auto-applied mapping still awaiting review takes it out of the review
+ * queue and restores its unmapped exercise; if the mapping is unchanged since, it is
+ * reverted like from the queue, rejecting the suggestion.
+ */
+export async function revertMappingChange(change: MappingChange): Promise<void> {
+  await db.transaction(
+    'rw',
+    [
+      db.mappingChanges,
+      db.exerciseMappings,
+      db.defaultExerciseOverrides,
+      db.defaultNameMappingOverrides,
+      db.unmappedExercises,
+      db.autoAppliedMatches,
+      db.autoMatchDecisions,
+      db.learnedMatchRules,
+    ],
+    async () => {
+      const autoApplied =
+        change.changedBy === 'auto-match' && change.newValue
+          ? await db.autoAppliedMatches
+              .where('profileId')
+              .equals(change.profileId)
+              .filter((m) => m.mappingId === change.newValue?.id)
+              .first()
+          : undefined;
+      if (
+        autoApplied &&
+        isAutoAppliedMappingIntact(
+          autoApplied,
+          await db.exerciseMappings.get(autoApplied.mappingId)
+        )
+      ) {
+        await revertAutoAppliedMatch(autoApplied);
+        return;
+      }
+
+      const current = await getCurrentValue(change.profileId, change.entityType, change.entityKey);
+      await restoreValue(change.entityType, current, change.oldValue);
+      await recordMappingChange({
+        profileId: change.profileId,
+        entityType: change.entityType,
+        entityKey: change.entityKey,
+        oldValue: current ?? null,
+        newValue: change.oldValue,
+        changedBy: 'undo',
+        revertOf: change.id,
+      });
+
+      if (autoApplied) {
+        await db.autoAppliedMatches.delete(autoApplied.id);
+        if (!change.oldValue) {
+          await db.unmappedExercises.put(autoApplied.unmappedExercise);
+        }
+      }
+    }
+  );
+}
+
+/**
+ * Refresh everything a revert may have changed
+ */
+function invalidateReverted(queryClient: QueryClient): void {
+  for (const queryKey of [
+    MAPPING_CHANGES_KEY,
+    EXERCISE_MAPPINGS_KEY,
+    DEFAULT_EXERCISE_OVERRIDES_KEY,
+    DEFAULT_NAME_MAPPING_OVERRIDES_KEY,
+    UNMAPPED_EXERCISES_KEY,
+    AUTO_APPLIED_MATCHES_KEY,
+    AUTO_MATCH_DECISIONS_KEY,
+    LEARNED_MATCH_RULES_KEY,
+  ]) {
+    void queryClient.invalidateQueries({ queryKey });
+  }
+}
+
+/**
+ * Get a profile's mapping change log, newest first
+ */
+export function useMappingHistory(profileId: string | null): {
+  changes: MappingChange[];
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...MAPPING_CHANGES_KEY, profileId],
+    queryFn: async () => {
+      if (!profileId) return [];
+
+      const changes = await db.mappingChanges
+        .where('profileId')
+        .equals(profileId)
+        .sortBy('changedAt');
+      return changes.reverse();
+    },
+    enabled: !!profileId,
+  });
+
+  return {
+    changes: data ?? [],
+    isLoading,
+    error: error as Error | null,
+  };
+}
+
+/**
+ * Revert a single logged change
+ */
+export function useRevertMappingChange(): {
+  revertChange: (change: MappingChange) => Promise<void>;
+  isReverting: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: revertMappingChange,
+    onSuccess: () => invalidateReverted(queryClient),
+  });
+
+  return {
+    revertChange: mutation.mutateAsync,
+    isReverting: mutation.isPending,
+  };
+}
+
+/**
+ * Revert the profile's latest change that has not been undone yet
+ * @returns The undone change, or null when there is nothing to undo
+ */
+export function useUndoLastMappingChange(): {
+  undoLastChange: (profileId: string) => Promise<MappingChange | null>;
+  isUndoing: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (profileId: string): Promise<MappingChange | null> => {
+      const changes = await db.mappingChanges.where('profileId').equals(profileId).toArray();
+      const change = findUndoableChange(changes);
+      if (change) {
+        await revertMappingChange(change);
+      }
+      return change;
+    },
+    onSuccess: () => invalidateReverted(queryClient),
+  });
+
+  return {
+    undoLastChange: mutation.mutateAsync,
+    isUndoing: mutation.isPending,
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Hooks for exporting a profile's mappings as a mapping pack and importing one
+ * with per-item conflict resolution
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { db, generateId, type DefaultExerciseOverride, type ExerciseMapping } from '../schema';
+import {
+  createMappingPack,
+  diffMappingPack,
+  MappingPackError,
+  type MappingPack,
+  type MappingPackContents,
+  type MappingPackSource,
+  type PackItem,
+} from '@core/mapping-pack';
+import { recordMappingChange } from './useMappingHistory';
+
+const PROFILES_KEY = ['profiles'];
+const EXERCISE_MAPPINGS_KEY = ['exerciseMappings'];
+const UNMAPPED_EXERCISES_KEY = ['unmappedExercises'];
+const DEFAULT_EXERCISE_OVERRIDES_KEY = ['defaultExerciseOverrides'];
+const DEFAULT_NAME_MAPPING_OVERRIDES_KEY = ['defaultNameMappingOverrides'];
+const MAPPING_CHANGES_KEY = ['mappingChanges'];
+
+/**
+ * Number of records written by an import, per kind
+ */
+export interface MappingPackImportResult {
+  exerciseMappings: number;
+  defaultExerciseOverrides: number;
+  defaultNameMappingOverrides: number;
+  muscleGroups: boolean;
+}
+
+/**
+ * Read the records of a profile that a mapping pack covers
+ */
+async function loadMappingPackSource(profileId: string): Promise<MappingPackSource> {
+  const profile = await db.profiles.get(profileId);
+  if (!profile) {
+    throw new MappingPackError('Profile not found');
+  }
+
+  const [exerciseMappings, defaultExerciseOverrides, defaultNameMappingOverrides, customExercises] =
+    await Promise.all([
+      db.exerciseMappings.where('profileId').equals(profileId).sortBy('originalPattern'),
+      db.defaultExerciseOverrides.where('profileId').equals(profileId).sortBy('exerciseName'),
+      db.defaultNameMappingOverrides.where('profileId').equals(profileId).sortBy('gymName'),
+      db.customExercises.where('profileId').equals(profileId).toArray(),
+    ]);
+
+  return {
+    exerciseMappings,
+    defaultExerciseOverrides,
+    defaultNameMappingOverrides,
+    customExercises,
+    profile,
+  };
+}
+
+/**
+ * Build a mapping pack from a profile
+ */
+export async function exportMappingPack(profileId: string, name: string): Promise<MappingPack> {
+  return createMappingPack(name, await loadMappingPackSource(profileId));
+}
+
+/**
+ * Compare a mapping pack against a profile's current records
+ */
+export async function compareMappingPack(
+  profileId: string,
+  pack: MappingPackContents
+): Promise<PackItem[]> {
+  return diffMappingPack(pack, await loadMappingPackSource(profileId));
+}
+
+/**
+ * Hook for exporting a mapping pack
+ */
+export function useExportMappingPack(): {
+  exportPack: (input: { profileId: string; name: string }) => Promise<MappingPack>;
+  isExporting: boolean;
+} {
+  const mutation = useMutation({
+    mutationFn: ({ profileId, name }: { profileId: string; name: string }) =>
+      exportMappingPack(profileId, name),
+  });
+
+  return {
+    exportPack: mutation.mutateAsync,
+    isExporting: mutation.isPending,
+  };
+}
+
+/**
+ * Hook for comparing a loaded pack against a profile before importing it
+ */
+export function useCompareMappingPack(): {
+  comparePack: (input: { profileId: string; pack: MappingPackContents }) => Promise<PackItem[]>;
+  isComparing: boolean;
+} {
+  const mutation = useMutation({
+    mutationFn: ({ profileId, pack }: { profileId: string; pack: MappingPackContents }) =>
+      compareMappingPack(profileId, pack),
+  });
+
+  return {
+    comparePack: mutation.mutateAsync,
+    isComparing: mutation.isPending,
+  };
+}
+
+/**
+ * Hook for importing the selected records of a mapping pack into a profile.
+ * Records replace the profile's record with the same natural key, and every
+ * write is logged to the mapping change log so it can be reverted.
+ */
+export function useImportMappingPack(): {
+  importPack: (input: {
+    profileId: string;
+    contents: MappingPackContents;
+  }) => Promise<MappingPackImportResult>;
+  isImporting: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      profileId,
+      contents,
+    }: {
+      profileId: string;
+      contents: MappingPackContents;
+    }): Promise<MappingPackImportResult> => {
+      await db.transaction(
+        'rw',
+        [
+          db.profiles,
+          db.exerciseMappings,
+          db.unmappedExercises,
+          db.defaultExerciseOverrides,
+          db.defaultNameMappingOverrides,
+          db.mappingChanges,
+        ],
+        async () => {
+          const now = new Date();
+
+          for (const packMapping of contents.exerciseMappings) {
+            const existing = await db.exerciseMappings
+              .where('[profileId+originalPattern]')
+              .equals([profileId, packMapping.originalPattern])
+              .first();
+            const mapping: ExerciseMapping = {
+              ...packMapping,
+              id: existing?.id ?? generateId(),
+              profileId,
+              createdAt: existing?.createdAt ?? now,
+            };
+
+            await db.exerciseMappings.put(mapping);
+            await db.unmappedExercises
+              .where('[profileId+normalizedName]')
+              .equals([profileId, mapping.originalPattern])
+              .delete();
+            await recordMappingChange({
+              profileId,
+              entityType: 'exerciseMapping',
+              entityKey: mapping.originalPattern,
+              oldValue: existing ?? null,
+              newValue: mapping,
+              changedBy: 'import',
+            });
+          }
+
+          for (const packOverride of contents.defaultExerciseOverrides) {
+            const existing = await db.defaultExerciseOverrides
+              .where('[profileId+exerciseName]')
+              .equals([profileId, packOverride.exerciseName])
+              .first();
+            const override: DefaultExerciseOverride = {
+              ...packOverride,
+              id: existing?.id ?? generateId(),
+              profileId,
+              createdAt: existing?.createdAt ?? now,
+              updatedAt: now,
+            };
+
+            await db.defaultExerciseOverrides.put(override);
+            await recordMappingChange({
+              profileId,
+              entityType: 'defaultExerciseOverride',
+              entityKey: override.exerciseName,
+              oldValue: existing ?? null,
+              newValue: override,
+              changedBy: 'import',
+            });
+          }
+
+          for (const packOverride of contents.defaultNameMappingOverrides) {
+            const existing = await db.defaultNameMappingOverrides
+              .where('[profileId+gymName]')
+              .equals([profileId, packOverride.gymName])
+              .first();
+            const override = {
+              ...packOverride,
+              id: existing?.id ?? generateId(),
+              profileId,
+              createdAt: existing?.createdAt ?? now,
+              updatedAt: now,
+            };
+
+            await db.defaultNameMappingOverrides.put(override);
+            await recordMappingChange({
+              profileId,
+              entityType: 'defaultNameMappingOverride',
+              entityKey: override.gymName,
+              oldValue: existing ?? null,
+              newValue: override,
+              changedBy: 'import',
+            });
+          }
+
+          if (contents.muscleGroups) {
+            await db.profiles.update(profileId, {
+              customMuscleGroups: contents.muscleGroups.customMuscleGroups ?? undefined,
+              muscleGroupCustomization: contents.muscleGroups.muscleGroupCustomization,
+            });
+          }
+        }
+      );
+
+      return {
+        exerciseMappings: contents.exerciseMappings.length,
+        defaultExerciseOverrides: contents.defaultExerciseOverrides.length,
+        defaultNameMappingOverrides: contents.defaultNameMappingOverrides.length,
+        muscleGroups: contents.muscleGroups !== null,
+      };
+    },
+    onSuccess: () => {
+      for (const queryKey of [
+        PROFILES_KEY,
+        EXERCISE_MAPPINGS_KEY,
+        UNMAPPED_EXERCISES_KEY,
+        DEFAULT_EXERCISE_OVERRIDES_KEY,
+        DEFAULT_NAME_MAPPING_OVERRIDES_KEY,
+        MAPPING_CHANGES_KEY,
+      ]) {
+        void queryClient.invalidateQueries({ queryKey });
+      }
+    },
+  });
+
+  return {
+    importPack: mutation.mutateAsync,
+    isImporting: mutation.isPending,
+  };
+}
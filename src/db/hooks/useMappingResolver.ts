@@ -0,0 +1,79 @@
+/**
+ * Hook for the profile's effective exercise mappings
+ */
+
+import { useMemo } from 'react';
+import { useExerciseMappings } from './useExerciseMappings';
+import { useDefaultExerciseOverrides } from './useDefaultExerciseOverrides';
+import { useDefaultNameMappingOverrides } from './useDefaultNameMappingOverrides';
+import { useExerciseTemplateAliases } from './useExerciseTemplateAliases';
+import { useCustomExercises } from './useCustomExercises';
+import { useMappingRules } from './useMappingRules';
+import {
+  createMappingResolver,
+  type MappingLayers,
+  type MappingResolver,
+} from '../utils/mapping-resolver';
+
+/**
+ * Get every mapping layer of a profile: user mappings, default overrides, Hevy
+ * template aliases, custom exercises and pattern rules
+ * @param profileId - Profile ID
+ */
+export function useMappingLayers(profileId: string | null): {
+  layers: MappingLayers;
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { mappings, isLoading: mappingsLoading, error } = useExerciseMappings(profileId);
+  const { overrides: exerciseOverrides, isLoading: exerciseOverridesLoading } =
+    useDefaultExerciseOverrides(profileId);
+  const { overrides: nameOverrides, isLoading: nameOverridesLoading } =
+    useDefaultNameMappingOverrides(profileId);
+  const { aliases: templateAliases, isLoading: aliasesLoading } =
+    useExerciseTemplateAliases(profileId);
+  const { customExercises, isLoading: customLoading } = useCustomExercises(profileId);
+  const { rules: mappingRules, isLoading: rulesLoading } = useMappingRules(profileId);
+
+  const layers = useMemo(
+    () => ({
+      userMappings: mappings,
+      exerciseOverrides,
+      nameOverrides,
+      templateAliases,
+      customExercises,
+      mappingRules,
+    }),
+    [mappings, exerciseOverrides, nameOverrides, templateAliases, customExercises, mappingRules]
+  );
+
+  return {
+    layers,
+    isLoading:
+      mappingsLoading ||
+      exerciseOverridesLoading ||
+      nameOverridesLoading ||
+      aliasesLoading ||
+      customLoading ||
+      rulesLoading,
+    error,
+  };
+}
+
+/**
+ * Get the mapping resolver for a profile, layering canonical values, default
+ * overrides, custom exercises, pattern rules and user mappings (applied across
+ * Hevy template aliases). Every stats consumer resolves exercises through it.
+ * @param profileId - Profile ID
+ */
+export function useMappingResolver(profileId: string | null): {
+  resolver: MappingResolver;
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { layers, isLoading, error } = useMappingLayers(profileId);
+
+  const resolver = useMemo(() => createMappingResolver(layers), [layers]);
+
+  return { resolver, isLoading, error };
+}
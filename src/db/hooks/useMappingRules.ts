@@ -0,0 +1,213 @@
+/**
+ * TanStack Query hooks for pattern mapping rules
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { db, generateId, type MappingRule } from '../schema';
+import { createRuleMatcher, sortRulesByPriority, validateRulePattern } from '@core/mapping-rules';
+
+const MAPPING_RULES_KEY = ['mappingRules'];
+const UNMAPPED_EXERCISES_KEY = ['unmappedExercises'];
+
+/**
+ * Editable fields of a mapping rule
+ */
+export type MappingRuleInput = Pick<
+  MappingRule,
+  'matchType' | 'pattern' | 'canonicalExerciseId' | 'isIgnored' | 'isEnabled'
+>;
+
+/**
+ * Check a rule before it is stored
+ * @throws Error if the pattern is invalid or the rule neither ignores nor maps
+ */
+function validateInput(input: MappingRuleInput): void {
+  const patternError = validateRulePattern(input);
+  if (patternError) {
+    throw new Error(patternError);
+  }
+  if (!input.isIgnored && !input.canonicalExerciseId) {
+    throw new Error('Choose an exercise to map to, or ignore matching exercises');
+  }
+}
+
+/**
+ * Delete the unmapped exercises an enabled rule now handles
+ */
+async function deleteMatchedUnmapped(rule: MappingRule): Promise<void> {
+  const matchRule = createRuleMatcher([rule]);
+  await db.unmappedExercises
+    .where('profileId')
+    .equals(rule.profileId)
+    .filter((u) => matchRule(u.normalizedName) !== null)
+    .delete();
+}
+
+/**
+ * Get all mapping rules for a profile in evaluation (priority) order
+ */
+export function useMappingRules(profileId: string | null): {
+  rules: MappingRule[];
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...MAPPING_RULES_KEY, profileId],
+    queryFn: async () => {
+      if (!profileId) return [];
+
+      const rules = await db.mappingRules.where('profileId').equals(profileId).toArray();
+      return sortRulesByPriority(rules);
+    },
+    enabled: !!profileId,
+  });
+
+  return {
+    rules: data ?? [],
+    isLoading,
+    error: error as Error | null,
+  };
+}
+
+/**
+ * Create a mapping rule, evaluated after the profile's existing rules
+ * @throws Error if the rule is invalid
+ */
+export function useCreateMappingRule(): {
+  createRule: (profileId: string, input: MappingRuleInput) => Promise<MappingRule>;
+  isCreating: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      profileId,
+      input,
+    }: {
+      profileId: string;
+      input: MappingRuleInput;
+    }): Promise<MappingRule> => {
+      validateInput(input);
+
+      const existing = await db.mappingRules.where('profileId').equals(profileId).toArray();
+      const rule: MappingRule = {
+        ...input,
+        pattern: input.pattern.trim(),
+        canonicalExerciseId: input.isIgnored ? null : input.canonicalExerciseId,
+        id: generateId(),
+        profileId,
+        priority: Math.max(0, ...existing.map((r) => r.priority)) + 1,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      // Create the rule and delete the unmapped exercises it matches in a transaction
+      await db.transaction('rw', [db.mappingRules, db.unmappedExercises], async () => {
+        await db.mappingRules.add(rule);
+        await deleteMatchedUnmapped(rule);
+      });
+      return rule;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: MAPPING_RULES_KEY });
+      void queryClient.invalidateQueries({ queryKey: UNMAPPED_EXERCISES_KEY });
+    },
+  });
+
+  return {
+    createRule: (profileId, input) => mutation.mutateAsync({ profileId, input }),
+    isCreating: mutation.isPending,
+  };
+}
+
+/**
+ * Update a mapping rule's pattern, target or enabled state
+ * @throws Error if the rule is invalid
+ */
+export function useUpdateMappingRule(): {
+  updateRule: (id: string, input: MappingRuleInput) => Promise<void>;
+  isUpdating: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({ id, input }: { id: string; input: MappingRuleInput }) => {
+      validateInput(input);
+
+      await db.transaction('rw', [db.mappingRules, db.unmappedExercises], async () => {
+        await db.mappingRules.update(id, {
+          ...input,
+          pattern: input.pattern.trim(),
+          canonicalExerciseId: input.isIgnored ? null : input.canonicalExerciseId,
+          updatedAt: new Date(),
+        });
+
+        const rule = await db.mappingRules.get(id);
+        if (rule) {
+          await deleteMatchedUnmapped(rule);
+        }
+      });
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: MAPPING_RULES_KEY });
+      void queryClient.invalidateQueries({ queryKey: UNMAPPED_EXERCISES_KEY });
+    },
+  });
+
+  return {
+    updateRule: (id, input) => mutation.mutateAsync({ id, input }),
+    isUpdating: mutation.isPending,
+  };
+}
+
+/**
+ * Store a new evaluation order: each rule gets its position as priority
+ */
+export function useReorderMappingRules(): {
+  reorderRules: (orderedIds: string[]) => Promise<void>;
+  isReordering: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (orderedIds: string[]) => {
+      await db.transaction('rw', db.mappingRules, async () => {
+        for (const [index, id] of orderedIds.entries()) {
+          await db.mappingRules.update(id, { priority: index + 1 });
+        }
+      });
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: MAPPING_RULES_KEY });
+    },
+  });
+
+  return {
+    reorderRules: mutation.mutateAsync,
+    isReordering: mutation.isPending,
+  };
+}
+
+/**
+ * Delete a mapping rule
+ */
+export function useDeleteMappingRule(): {
+  deleteRule: (id: string) => Promise<void>;
+  isDeleting: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (id: string) => {
+      await db.mappingRules.delete(id);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: MAPPING_RULES_KEY });
+    },
+  });
+
+  return {
+    deleteRule: mutation.mutateAsync,
+    isDeleting: mutation.isPending,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * TanStack Query hooks for PersonalRecord operations
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { db, generateId, type PersonalRecord } from '../schema';
+import { detectPersonalRecords } from '@core/personal-records';
+import { buildExerciseIdResolver } from '../utils/mapping-resolver';
+
+const PERSONAL_RECORDS_KEY = ['personalRecords'];
+
+/**
+ * Re-detect personal records for a profile from the given date onward.
+ * Records on/after `since` are replaced, since importing or deleting a workout can
+ * change what counts as a record in every later workout. Earlier history is used
+ * as the baseline. Call after workouts have been written.
+ *
+ * @param profileId - Profile ID
+ * @param since - Earliest date of any added, updated or deleted workout
+ * @param workoutIds - When given, only records from these workouts are returned
+ * @returns Newly stored records (optionally limited to `workoutIds`), newest first
+ */
+export async function refreshPersonalRecords(
+  profileId: string,
+  since: Date,
+  workoutIds?: Set<string>
+): Promise<PersonalRecord[]> {
+  const [workouts, userMappings, nameOverrides, templateAliases, customExercises, mappingRules] =
+    await Promise.all([
+      db.workouts.where('profileId').equals(profileId).toArray(),
+      db.exerciseMappings.where('profileId').equals(profileId).toArray(),
+      db.defaultNameMappingOverrides.where('profileId').equals(profileId).toArray(),
+      db.exerciseTemplateAliases.where('profileId').equals(profileId).toArray(),
+      db.customExercises.where('profileId').equals(profileId).toArray(),
+      db.mappingRules.where('profileId').equals(profileId).toArray(),
+    ]);
+
+  const detected = detectPersonalRecords(workouts, {
+    since,
+    resolveExerciseId: buildExerciseIdResolver({
+      userMappings,
+      nameOverrides,
+      templateAliases,
+      customExercises,
+      mappingRules,
+    }),
+  });
+
+  const detectedAt = new Date();
+  const records: PersonalRecord[] = detected.map((record) => ({
+    ...record,
+    id: generateId(),
+    profileId,
+    detectedAt,
+  }));
+
+  await db.transaction('rw', db.personalRecords, async () => {
+    await db.personalRecords
+      .where('profileId')
+      .equals(profileId)
+      .and((record) => record.date >= since)
+      .delete();
+    await db.personalRecords.bulkAdd(records);
+  });
+
+  return records
+    .filter((record) => !workoutIds || workoutIds.has(record.workoutId))
+    .reverse();
+}
+
+/**
+ * Get the most recent personal records for a profile, newest first
+ * @param profileId - Profile ID
+ * @param limit - Maximum number of records (default: 10)
+ */
+export function useRecentPersonalRecords(
+  profileId: string | null,
+  limit: number = 10
+): {
+  records: PersonalRecord[];
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...PERSONAL_RECORDS_KEY, profileId, limit],
+    queryFn: async () => {
+      if (!profileId) return [];
+
+      const records = await db.personalRecords.where('profileId').equals(profileId).toArray();
+      return records.sort((a, b) => b.date.getTime() - a.date.getTime()).slice(0, limit);
+    },
+    enabled: !!profileId,
+  });
+
+  return {
+    records: data ?? [],
+    isLoading,
+    error: error as Error | null,
+  };
+}
@@ -124,6 +124,15 @@ export function useDeleteProfile(): {
           db.exerciseMappings,
           db.defaultExerciseOverrides,
           db.defaultNameMappingOverrides,
+          db.personalRecords,
+          db.exerciseTemplateAliases,
+          db.customExercises,
+          db.mappingRules,
+          db.mappingChanges,
+          db.autoMatchDecisions,
+          db.learnedMatchRules,
+          db.autoAppliedMatches,
+          db.trainingPrograms,
         ],
         async () => {
           await db.profiles.delete(profileId);
@@ -132,6 +141,15 @@ export function useDeleteProfile(): {
           await db.exerciseMappings.where('profileId').equals(profileId).delete();
           await db.defaultExerciseOverrides.where('profileId').equals(profileId).delete();
           await db.defaultNameMappingOverrides.where('profileId').equals(profileId).delete();
+          await db.personalRecords.where('profileId').equals(profileId).delete();
+          await db.exerciseTemplateAliases.where('profileId').equals(profileId).delete();
+          await db.customExercises.where('profileId').equals(profileId).delete();
+          await db.mappingRules.where('profileId').equals(profileId).delete();
+          await db.mappingChanges.where('profileId').equals(profileId).delete();
+          await db.autoMatchDecisions.where('profileId').equals(profileId).delete();
+          await db.learnedMatchRules.where('profileId').equals(profileId).delete();
+          await db.autoAppliedMatches.where('profileId').equals(profileId).delete();
+          await db.trainingPrograms.where('profileId').equals(profileId).delete();
         }
       );
     },
@@ -0,0 +1,158 @@
+/**
+ * TanStack Query hooks for a profile's planned training programs
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { db, generateId, type TrainingProgram } from '../schema';
+
+const TRAINING_PROGRAMS_KEY = ['trainingPrograms'];
+
+/**
+ * Editable fields of a training program
+ */
+export type TrainingProgramInput = Pick<TrainingProgram, 'name' | 'days'>;
+
+/**
+ * Trim names, name blank days by position and drop exercises planned for no sets
+ */
+function cleanInput(input: TrainingProgramInput): TrainingProgramInput {
+  return {
+    name: input.name.trim(),
+    days: input.days.map((day, index) => ({
+      ...day,
+      name: day.name.trim() || `Day ${index + 1}`,
+      exercises: day.exercises
+        .map((exercise) => ({ ...exercise, sets: Math.floor(exercise.sets) }))
+        .filter((exercise) => exercise.sets > 0),
+    })),
+  };
+}
+
+/**
+ * Get all training programs for a profile, sorted by name
+ */
+export function useTrainingPrograms(profileId: string | null): {
+  programs: TrainingProgram[];
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...TRAINING_PROGRAMS_KEY, profileId],
+    queryFn: async () => {
+      if (!profileId) return [];
+
+      return db.trainingPrograms.where('profileId').equals(profileId).sortBy('name');
+    },
+    enabled: !!profileId,
+  });
+
+  return {
+    programs: data ?? [],
+    isLoading,
+    error: error as Error | null,
+  };
+}
+
+/**
+ * Create a training program
+ * @throws Error if the name is empty
+ */
+export function useCreateTrainingProgram(): {
+  createProgram: (profileId: string, input: TrainingProgramInput) => Promise<TrainingProgram>;
+  isCreating: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      profileId,
+      input,
+    }: {
+      profileId: string;
+      input: TrainingProgramInput;
+    }): Promise<TrainingProgram> => {
+      const cleaned = cleanInput(input);
+      if (!cleaned.name) {
+        throw new Error('Program name is required');
+      }
+
+      const program: TrainingProgram = {
+        ...cleaned,
+        id: generateId(),
+        profileId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await db.trainingPrograms.add(program);
+      return program;
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: TRAINING_PROGRAMS_KEY });
+    },
+  });
+
+  return {
+    createProgram: (profileId, input) => mutation.mutateAsync({ profileId, input }),
+    isCreating: mutation.isPending,
+  };
+}
+
+/**
+ * Update a training program's name and days
+ * @throws Error if the name is empty
+ */
+export function useUpdateTrainingProgram(): {
+  updateProgram: (program: TrainingProgram, input: TrainingProgramInput) => Promise<void>;
+  isUpdating: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      program,
+      input,
+    }: {
+      program: TrainingProgram;
+      input: TrainingProgramInput;
+    }) => {
+      const cleaned = cleanInput(input);
+      if (!cleaned.name) {
+        throw new Error('Program name is required');
+      }
+
+      await db.trainingPrograms.update(program.id, { ...cleaned, updatedAt: new Date() });
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: TRAINING_PROGRAMS_KEY });
+    },
+  });
+
+  return {
+    updateProgram: (program, input) => mutation.mutateAsync({ program, input }),
+    isUpdating: mutation.isPending,
+  };
+}
+
+/**
+ * Delete a training program
+ */
+export function useDeleteTrainingProgram(): {
+  deleteProgram: (id: string) => Promise<void>;
+  isDeleting: boolean;
+} {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (id: string) => {
+      await db.trainingPrograms.delete(id);
+    },
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: TRAINING_PROGRAMS_KEY });
+    },
+  });
+
+  return {
+    deleteProgram: mutation.mutateAsync,
+    isDeleting: mutation.isPending,
+  };
+}
@@ -115,10 +115,16 @@ export function useIncrementUnmappedCount(): {
 
 /**
  * Track unmapped exercise: create new or increment existing count
- * Used during workout import to automatically track unmapped exercises
+ * Used during workout import to automatically track unmapped exercises.
+ * With a Hevy template ID, a renamed exercise updates its existing entry instead of adding one.
  */
 export function useTrackUnmappedExercise(): {
-  trackUnmapped: (profileId: string, originalName: string, normalizedName: string) => Promise<void>;
+  trackUnmapped: (
+    profileId: string,
+    originalName: string,
+    normalizedName: string,
+    templateId?: string
+  ) => Promise<void>;
   isTracking: boolean;
 } {
   const queryClient = useQueryClient();
@@ -128,21 +134,40 @@ export function useTrackUnmappedExercise(): {
       profileId,
       originalName,
       normalizedName,
+      templateId,
     }: {
       profileId: string;
       originalName: string;
       normalizedName: string;
+      templateId?: string;
     }) => {
       // Check if unmapped exercise already exists
       const existing = await db.unmappedExercises
         .where('[profileId+normalizedName]')
         .equals([profileId, normalizedName])
         .first();
+      // Otherwise look for the same Hevy template under an earlier title
+      const renamed =
+        !existing && templateId
+          ? await db.unmappedExercises
+              .where('profileId')
+              .equals(profileId)
+              .filter((u) => u.templateId === templateId)
+              .first()
+          : undefined;
 
       if (existing) {
         // Increment occurrence count
         await db.unmappedExercises.update(existing.id, {
           occurrenceCount: existing.occurrenceCount + 1,
+          ...(templateId && { templateId }),
+        });
+      } else if (renamed) {
+        // Follow the template's latest title
+        await db.unmappedExercises.update(renamed.id, {
+          originalName,
+          normalizedName,
+          occurrenceCount: renamed.occurrenceCount + 1,
         });
       } else {
         // Create new unmapped exercise
@@ -151,6 +176,7 @@ export function useTrackUnmappedExercise(): {
           profileId,
           originalName,
           normalizedName,
+          templateId,
           firstSeenAt: new Date(),
           occurrenceCount: 1,
         };
@@ -166,8 +192,12 @@ export function useTrackUnmappedExercise(): {
   });
 
   return {
-    trackUnmapped: (profileId: string, originalName: string, normalizedName: string) =>
-      mutation.mutateAsync({ profileId, originalName, normalizedName }),
+    trackUnmapped: (
+      profileId: string,
+      originalName: string,
+      normalizedName: string,
+      templateId?: string
+    ) => mutation.mutateAsync({ profileId, originalName, normalizedName, templateId }),
     isTracking: mutation.isPending,
   };
 }
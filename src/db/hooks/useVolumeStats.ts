@@ -3,28 +3,58 @@
  */
 
 import { useMemo } from 'react';
-import { useWorkouts, type ViewMode } from './useWorkouts';
+import { useAllWorkouts, useWorkouts } from './useWorkouts';
 import { useProfile } from './useProfiles';
-import { useExerciseMappings } from './useExerciseMappings';
-import { calculateMuscleVolume, aggregateToFunctionalGroups } from '@core/volume-calculator';
+import { useMappingLayers, useMappingResolver } from './useMappingResolver';
+import {
+  applyPendingChange,
+  createMappingResolver,
+  type MappingSource,
+  type PendingMappingChange,
+} from '../utils/mapping-resolver';
+import {
+  calculateMuscleVolume,
+  aggregateToFunctionalGroups,
+  calculateTotalVolume,
+  DEFAULT_EFFECTIVE_SET_RULES,
+  type VolumeMode,
+  type VolumeMetric,
+  type VolumeOptions,
+} from '@core/volume-calculator';
 import {
   DEFAULT_SCIENTIFIC_TO_FUNCTIONAL,
   SCIENTIFIC_MUSCLES,
   FUNCTIONAL_GROUPS,
   type ScientificMuscle,
   type FunctionalGroup,
-  type ExerciseMapping as TaxonomyExerciseMapping,
 } from '@core/taxonomy';
+import { buildVolumeTrend, type VolumeTrendPoint } from '@core/volume-trends';
+import { calculateMappingImpact, type MappingImpact } from '@core/mapping-impact';
 import {
-  DEFAULT_MUSCLE_GOAL,
-  DEFAULT_TOTAL_GOAL,
-  type WorkoutSet,
-  type ExerciseMapping as DbExerciseMapping,
-} from '../schema';
-import { normalizeId } from '@core/utils/normalization';
-
-// Load exercise mappings from config
-import exerciseListJson from '../../../config/exercise_list_complete.json';
+  calculateMuscleDeficits,
+  recommendExercises,
+  type RecommendationCandidate,
+  type RecommendationPlan,
+} from '@core/exercise-recommendations';
+import { getAllCanonicalExercises } from '@core/exercise-search';
+import { projectProgramVolume, type PlannedDay } from '@core/program-volume';
+import {
+  summarizeByExercise,
+  traceMuscleVolume,
+  type ExerciseContribution,
+  type VolumeTraceEntry,
+} from '@core/volume-trace';
+import {
+  createDateRange,
+  getCalendarWeekRange,
+  getRangeWeeks,
+  getTrailingWeekRanges,
+  resolveDateWindow,
+  type DateRange,
+  type DateWindow,
+  type ViewMode,
+} from '@core/date-range';
+import { DEFAULT_MUSCLE_GOAL, DEFAULT_TOTAL_GOAL, type WorkoutSet, type Profile } from '../schema';
 
 /**
  * Volume stats for a single muscle/group
@@ -37,102 +67,105 @@ export interface VolumeStatItem {
 }
 
 /**
- * Build exercise mappings from the config JSON (canonical mappings)
+ * Convert DB WorkoutSets to format for volume calculator
  */
-function buildCanonicalMappings(): Map<string, TaxonomyExerciseMapping> {
-  const mappings = new Map<string, TaxonomyExerciseMapping>();
-
-  for (const [exerciseName, muscleData] of Object.entries(exerciseListJson)) {
-    if (exerciseName === '_comment') continue;
-
-    const id = normalizeId(exerciseName);
-    mappings.set(id, muscleData as TaxonomyExerciseMapping);
-  }
-
-  return mappings;
+function convertSets(dbSets: WorkoutSet[]): WorkoutSet[] {
+  return dbSets;
 }
 
-const CANONICAL_MAPPINGS = buildCanonicalMappings();
+/**
+ * Build volume calculator options from the profile for the given volume mode and metric
+ */
+function buildVolumeOptions(
+  profile: Profile | null | undefined,
+  volumeMode: VolumeMode,
+  metric: VolumeMetric
+): VolumeOptions {
+  return {
+    metric,
+    equivalence: profile?.setEquivalence,
+    effectiveSetRules:
+      volumeMode === 'effective'
+        ? (profile?.effectiveSetRules ?? DEFAULT_EFFECTIVE_SET_RULES)
+        : undefined,
+  };
+}
 
 /**
- * Build effective mappings combining user mappings with canonical fallback
+ * Get the profile's ScientificMuscle to FunctionalGroup assignment
  */
-function buildEffectiveMappings(
-  userMappings: DbExerciseMapping[],
-  allSets: WorkoutSet[]
-): Map<string, TaxonomyExerciseMapping> {
-  const effectiveMappings = new Map<string, TaxonomyExerciseMapping>();
-
-  // Create a lookup map for user mappings by normalized pattern
-  const userMappingsByPattern = new Map<string, DbExerciseMapping>();
-  for (const mapping of userMappings) {
-    userMappingsByPattern.set(mapping.originalPattern, mapping);
-  }
+function getMuscleMapping(
+  profile: Profile | null | undefined
+): Record<ScientificMuscle, FunctionalGroup> {
+  return {
+    ...DEFAULT_SCIENTIFIC_TO_FUNCTIONAL,
+    ...(profile?.muscleGroupCustomization ?? {}),
+  } as Record<ScientificMuscle, FunctionalGroup>;
+}
 
-  // Get all unique exercise IDs from the sets
-  const exerciseIds = new Set(allSets.map((s) => s.exerciseId));
-
-  for (const exerciseId of exerciseIds) {
-    // First check if there's a user mapping for this exercise
-    const userMapping = userMappingsByPattern.get(exerciseId);
-
-    if (userMapping) {
-      // User mapping exists
-      if (userMapping.isIgnored) {
-        // Ignored - contributes 0 volume (don't add to map)
-        continue;
-      } else if (userMapping.customMuscleValues) {
-        // Custom muscle values
-        effectiveMappings.set(exerciseId, userMapping.customMuscleValues);
-      } else if (userMapping.canonicalExerciseId) {
-        // Mapped to canonical - lookup canonical values
-        const canonicalValues = CANONICAL_MAPPINGS.get(userMapping.canonicalExerciseId);
-        if (canonicalValues) {
-          effectiveMappings.set(exerciseId, canonicalValues);
-        }
-      }
-    } else {
-      // No user mapping - try canonical directly
-      const canonicalValues = CANONICAL_MAPPINGS.get(exerciseId);
-      if (canonicalValues) {
-        effectiveMappings.set(exerciseId, canonicalValues);
-      }
-    }
+/**
+ * Weekly goals per functional group, summed from the scientific muscle goals
+ */
+function buildGroupGoals(
+  profile: Profile | null | undefined,
+  muscleMapping: Record<ScientificMuscle, FunctionalGroup>
+): Partial<Record<FunctionalGroup, number>> {
+  const groupGoals: Partial<Record<FunctionalGroup, number>> = {};
+  for (const muscle of SCIENTIFIC_MUSCLES) {
+    const group = muscleMapping[muscle];
+    const muscleGoal = profile?.goals[muscle] ?? DEFAULT_MUSCLE_GOAL;
+    groupGoals[group] = (groupGoals[group] ?? 0) + muscleGoal;
   }
+  return groupGoals;
+}
 
-  return effectiveMappings;
+/**
+ * Scale a weekly set goal to a window of the given length in weeks
+ */
+function scaleGoal(weeklyGoal: number, weeks: number): number {
+  return Math.round(weeklyGoal * weeks);
 }
 
 /**
- * Convert DB WorkoutSets to format for volume calculator
+ * Load metrics (tonnage, reps) have no goals, so stats are scaled relative to the
+ * highest volume: the top muscle/group reads 100%.
  */
-function convertSets(dbSets: WorkoutSet[]): WorkoutSet[] {
-  return dbSets;
+function applyRelativeGoals(stats: VolumeStatItem[]): VolumeStatItem[] {
+  const maxVolume = Math.max(0, ...stats.map((s) => s.volume));
+
+  return stats.map((s) => ({
+    ...s,
+    goal: maxVolume,
+    percentage: maxVolume > 0 ? (s.volume / maxVolume) * 100 : 0,
+  }));
 }
 
-export type { ViewMode };
+export type { ViewMode, DateRange, DateWindow, VolumeMode, VolumeMetric };
 
 /**
  * Get volume statistics at the ScientificMuscle level
  * @param profileId - Profile ID
- * @param daysBackOrMode - Number of days back (legacy) or ViewMode ('last7days' | 'calendarWeek')
+ * @param dateWindow - Number of days back (legacy), a ViewMode preset or a custom DateRange
+ * @param volumeMode - Count raw sets or effective (RPE/drop-set weighted) sets
+ * @param metric - Volume metric: fractional sets, tonnage or reps
  */
 export function useScientificMuscleVolume(
   profileId: string | null,
-  daysBackOrMode: number | ViewMode = 7
+  dateWindow: DateWindow = 7,
+  volumeMode: VolumeMode = 'raw',
+  metric: VolumeMetric = 'sets'
 ): {
   stats: VolumeStatItem[];
   totalVolume: number;
   isLoading: boolean;
   error: Error | null;
 } {
-  // Convert to options format for useWorkouts
-  const workoutsArg = typeof daysBackOrMode === 'number'
-    ? daysBackOrMode
-    : { mode: daysBackOrMode };
-  const { workouts, isLoading: workoutsLoading, error } = useWorkouts(profileId, workoutsArg);
+  const range = resolveDateWindow(dateWindow);
+  const { workouts, isLoading: workoutsLoading, error } = useWorkouts(profileId, { range });
+  // Goals are weekly; scale them to the length of the window
+  const goalScale = getRangeWeeks(range);
   const { profile } = useProfile(profileId);
-  const { mappings: userMappings, isLoading: mappingsLoading } = useExerciseMappings(profileId);
+  const { resolver, isLoading: mappingsLoading } = useMappingResolver(profileId);
 
   const isLoading = workoutsLoading || mappingsLoading;
 
@@ -140,19 +173,23 @@ export function useScientificMuscleVolume(
     // Flatten all sets from all workouts
     const allSets = workouts.flatMap((w) => convertSets(w.sets));
 
-    // Calculate total volume as the actual count of sets performed
-    const actualSetCount = allSets.length;
+    const volumeOptions = buildVolumeOptions(profile, volumeMode, metric);
+
+    // Calculate total volume as the actual count of sets performed, counted like the
+    // muscle volumes (warmups skipped, set equivalence applied, weighted by effort when
+    // counting effective sets), or summed in the load metric
+    const actualSetCount = calculateTotalVolume(allSets, volumeOptions);
 
-    // Build effective mappings (user mappings take priority over canonical)
-    const effectiveMappings = buildEffectiveMappings(userMappings, allSets);
+    // Resolve every exercise through the profile's layered mappings
+    const effectiveMappings = resolver.getEffectiveMappings(allSets.map((s) => s.exerciseId));
 
     // Calculate volume per scientific muscle
-    const volumeMap = calculateMuscleVolume(allSets, effectiveMappings);
+    const volumeMap = calculateMuscleVolume(allSets, effectiveMappings, volumeOptions);
 
     // Build stats array
     const statsArray = SCIENTIFIC_MUSCLES.map((muscle) => {
       const volume = volumeMap[muscle] ?? 0;
-      const goal = profile?.goals[muscle] ?? DEFAULT_MUSCLE_GOAL;
+      const goal = scaleGoal(profile?.goals[muscle] ?? DEFAULT_MUSCLE_GOAL, goalScale);
       return {
         name: muscle,
         volume,
@@ -161,8 +198,11 @@ export function useScientificMuscleVolume(
       };
     });
 
-    return { stats: statsArray, totalVolume: actualSetCount };
-  }, [workouts, profile, userMappings]);
+    return {
+      stats: metric === 'sets' ? statsArray : applyRelativeGoals(statsArray),
+      totalVolume: actualSetCount,
+    };
+  }, [workouts, profile, resolver, volumeMode, metric, goalScale]);
 
   return { stats, totalVolume, isLoading, error };
 }
@@ -170,11 +210,15 @@ export function useScientificMuscleVolume(
 /**
  * Get volume statistics at the FunctionalGroup level
  * @param profileId - Profile ID
- * @param daysBackOrMode - Number of days back (legacy) or ViewMode ('last7days' | 'calendarWeek')
+ * @param dateWindow - Number of days back (legacy), a ViewMode preset or a custom DateRange
+ * @param volumeMode - Count raw sets or effective (RPE/drop-set weighted) sets
+ * @param metric - Volume metric: fractional sets, tonnage or reps
  */
 export function useFunctionalGroupVolume(
   profileId: string | null,
-  daysBackOrMode: number | ViewMode = 7
+  dateWindow: DateWindow = 7,
+  volumeMode: VolumeMode = 'raw',
+  metric: VolumeMetric = 'sets'
 ): {
   stats: VolumeStatItem[];
   totalVolume: number;
@@ -182,13 +226,12 @@ export function useFunctionalGroupVolume(
   isLoading: boolean;
   error: Error | null;
 } {
-  // Convert to options format for useWorkouts
-  const workoutsArg = typeof daysBackOrMode === 'number'
-    ? daysBackOrMode
-    : { mode: daysBackOrMode };
-  const { workouts, isLoading: workoutsLoading, error } = useWorkouts(profileId, workoutsArg);
+  const range = resolveDateWindow(dateWindow);
+  const { workouts, isLoading: workoutsLoading, error } = useWorkouts(profileId, { range });
+  // Goals are weekly; scale them to the length of the window
+  const goalScale = getRangeWeeks(range);
   const { profile } = useProfile(profileId);
-  const { mappings: userMappings, isLoading: mappingsLoading } = useExerciseMappings(profileId);
+  const { resolver, isLoading: mappingsLoading } = useMappingResolver(profileId);
 
   const isLoading = workoutsLoading || mappingsLoading;
 
@@ -198,35 +241,28 @@ export function useFunctionalGroupVolume(
 
     // Calculate total volume as the actual count of sets performed
     // Each set is counted exactly once, regardless of how many muscles it stimulates
-    const actualSetCount = allSets.length;
+    const volumeOptions = buildVolumeOptions(profile, volumeMode, metric);
+    const actualSetCount = calculateTotalVolume(allSets, volumeOptions);
 
-    // Build effective mappings (user mappings take priority over canonical)
-    const effectiveMappings = buildEffectiveMappings(userMappings, allSets);
+    // Resolve every exercise through the profile's layered mappings
+    const effectiveMappings = resolver.getEffectiveMappings(allSets.map((s) => s.exerciseId));
 
     // Calculate volume per scientific muscle (for per-muscle stats display)
-    const scientificVolume = calculateMuscleVolume(allSets, effectiveMappings);
+    const scientificVolume = calculateMuscleVolume(allSets, effectiveMappings, volumeOptions);
 
     // Get muscle group customization or use defaults
-    const muscleMapping = {
-      ...DEFAULT_SCIENTIFIC_TO_FUNCTIONAL,
-      ...(profile?.muscleGroupCustomization ?? {}),
-    } as Record<ScientificMuscle, FunctionalGroup>;
+    const muscleMapping = getMuscleMapping(profile);
 
     // Aggregate to functional groups
     const groupVolume = aggregateToFunctionalGroups(scientificVolume, muscleMapping);
 
     // Calculate goals per functional group by summing scientific muscle goals
-    const groupGoals: Partial<Record<FunctionalGroup, number>> = {};
-    for (const muscle of SCIENTIFIC_MUSCLES) {
-      const group = muscleMapping[muscle];
-      const muscleGoal = profile?.goals[muscle] ?? DEFAULT_MUSCLE_GOAL;
-      groupGoals[group] = (groupGoals[group] ?? 0) + muscleGoal;
-    }
+    const groupGoals = buildGroupGoals(profile, muscleMapping);
 
     // Build stats array
     const statsArray = FUNCTIONAL_GROUPS.map((group) => {
       const volume = groupVolume[group] ?? 0;
-      const goal = groupGoals[group] ?? DEFAULT_MUSCLE_GOAL;
+      const goal = scaleGoal(groupGoals[group] ?? DEFAULT_MUSCLE_GOAL, goalScale);
       return {
         name: group,
         volume,
@@ -236,10 +272,15 @@ export function useFunctionalGroupVolume(
     });
 
     // Return actual set count as totalVolume (not sum of fractional muscle volumes)
-    return { stats: statsArray, totalVolume: actualSetCount };
-  }, [workouts, profile, userMappings]);
+    return {
+      stats: metric === 'sets' ? statsArray : applyRelativeGoals(statsArray),
+      totalVolume: actualSetCount,
+    };
+  }, [workouts, profile, resolver, volumeMode, metric, goalScale]);
 
-  const totalGoal = profile?.totalGoal ?? DEFAULT_TOTAL_GOAL;
+  // Goals are set counts; load metrics have no total target
+  const totalGoal =
+    metric === 'sets' ? scaleGoal(profile?.totalGoal ?? DEFAULT_TOTAL_GOAL, goalScale) : 0;
 
   return { stats, totalVolume, totalGoal, isLoading, error };
 }
@@ -248,25 +289,31 @@ export function useFunctionalGroupVolume(
  * Get the breakdown of scientific muscles within a functional group
  * @param profileId - Profile ID
  * @param functionalGroup - Functional group to get breakdown for
- * @param daysBackOrMode - Number of days back (legacy) or ViewMode ('last7days' | 'calendarWeek')
+ * @param dateWindow - Number of days back (legacy), a ViewMode preset or a custom DateRange
+ * @param volumeMode - Count raw sets or effective (RPE/drop-set weighted) sets
+ * @param metric - Volume metric: fractional sets, tonnage or reps
  */
 export function useFunctionalGroupBreakdown(
   profileId: string | null,
   functionalGroup: FunctionalGroup,
-  daysBackOrMode: number | ViewMode = 7
+  dateWindow: DateWindow = 7,
+  volumeMode: VolumeMode = 'raw',
+  metric: VolumeMetric = 'sets'
 ): {
   breakdown: VolumeStatItem[];
   isLoading: boolean;
   error: Error | null;
 } {
-  const { stats, isLoading, error } = useScientificMuscleVolume(profileId, daysBackOrMode);
+  const { stats, isLoading, error } = useScientificMuscleVolume(
+    profileId,
+    dateWindow,
+    volumeMode,
+    metric
+  );
   const { profile } = useProfile(profileId);
 
   const breakdown = useMemo(() => {
-    const muscleMapping = {
-      ...DEFAULT_SCIENTIFIC_TO_FUNCTIONAL,
-      ...(profile?.muscleGroupCustomization ?? {}),
-    } as Record<ScientificMuscle, FunctionalGroup>;
+    const muscleMapping = getMuscleMapping(profile);
 
     return stats.filter((stat) => {
       const muscle = stat.name as ScientificMuscle;
@@ -276,3 +323,292 @@ export function useFunctionalGroupBreakdown(
 
   return { breakdown, isLoading, error };
 }
+
+/**
+ * A traced set contribution with the mapping layer that supplied the exercise's values
+ */
+export interface TracedContribution extends VolumeTraceEntry {
+  source: MappingSource;
+  canonicalExerciseId: string;
+  isOverridden: boolean;
+  isVariationFallback: boolean;
+}
+
+/**
+ * Explain a muscle's volume: every set that contributed to it and how much, and
+ * the exercises those sets add up to, ranked by volume
+ * @param profileId - Profile ID
+ * @param muscle - Muscle to trace (null traces nothing)
+ * @param dateWindow - Number of days back (legacy), a ViewMode preset or a custom DateRange
+ * @param volumeMode - Count raw sets or effective (RPE/drop-set weighted) sets
+ * @param metric - Volume metric: fractional sets, tonnage or reps
+ */
+export function useVolumeTrace(
+  profileId: string | null,
+  muscle: ScientificMuscle | null,
+  dateWindow: DateWindow = 7,
+  volumeMode: VolumeMode = 'raw',
+  metric: VolumeMetric = 'sets'
+): {
+  entries: TracedContribution[];
+  contributions: ExerciseContribution[];
+  total: number;
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const range = resolveDateWindow(dateWindow);
+  const { workouts, isLoading: workoutsLoading, error } = useWorkouts(profileId, { range });
+  const { profile } = useProfile(profileId);
+  const { resolver, isLoading: mappingsLoading } = useMappingResolver(profileId);
+
+  const isLoading = workoutsLoading || mappingsLoading;
+
+  const trace = useMemo(() => {
+    if (!muscle) return { entries: [], contributions: [], total: 0 };
+
+    const allSets = workouts.flatMap((w) => w.sets);
+    const effectiveMappings = resolver.getEffectiveMappings(allSets.map((s) => s.exerciseId));
+    const traced = traceMuscleVolume(
+      workouts,
+      effectiveMappings,
+      buildVolumeOptions(profile, volumeMode, metric),
+      muscle
+    );
+
+    const entries = traced.map((entry) => {
+      const { source, canonicalExerciseId, isOverridden, isVariationFallback } = resolver.resolve(
+        entry.exerciseId
+      );
+      return { ...entry, source, canonicalExerciseId, isOverridden, isVariationFallback };
+    });
+
+    return {
+      entries,
+      contributions: summarizeByExercise(traced)[muscle] ?? [],
+      total: entries.reduce((sum, e) => sum + e.volume, 0),
+    };
+  }, [workouts, profile, resolver, muscle, volumeMode, metric]);
+
+  return { ...trace, isLoading, error };
+}
+
+/**
+ * Weekly volume trend over the last N calendar weeks (current week last, still in progress)
+ */
+export interface VolumeTrend {
+  points: VolumeTrendPoint[];
+  muscleGoals: Record<ScientificMuscle, number>;
+  groupGoals: Partial<Record<FunctionalGroup, number>>;
+  muscleMapping: Record<ScientificMuscle, FunctionalGroup>;
+}
+
+/**
+ * Get weekly fractional volume per ScientificMuscle and FunctionalGroup over several weeks
+ * @param profileId - Profile ID
+ * @param weekCount - Number of calendar weeks, including the current one
+ * @param volumeMode - Count raw sets or effective (RPE/drop-set weighted) sets
+ */
+export function useVolumeTrends(
+  profileId: string | null,
+  weekCount = 12,
+  volumeMode: VolumeMode = 'raw'
+): VolumeTrend & {
+  isLoading: boolean;
+  error: Error | null;
+} {
+  // Week buckets only change when a new week starts
+  const currentWeekStart = getCalendarWeekRange().start.getTime();
+  const weeks = useMemo(
+    () => getTrailingWeekRanges(weekCount, new Date(currentWeekStart)),
+    [weekCount, currentWeekStart]
+  );
+  const range = useMemo(
+    () =>
+      createDateRange((weeks[0] as DateRange).start, (weeks[weeks.length - 1] as DateRange).end),
+    [weeks]
+  );
+
+  const { workouts, isLoading: workoutsLoading, error } = useWorkouts(profileId, { range });
+  const { profile } = useProfile(profileId);
+  const { resolver, isLoading: mappingsLoading } = useMappingResolver(profileId);
+
+  const isLoading = workoutsLoading || mappingsLoading;
+
+  const trend = useMemo(() => {
+    const allSets = workouts.flatMap((w) => convertSets(w.sets));
+    const effectiveMappings = resolver.getEffectiveMappings(allSets.map((s) => s.exerciseId));
+    const muscleMapping = getMuscleMapping(profile);
+
+    const muscleGoals = {} as Record<ScientificMuscle, number>;
+    for (const muscle of SCIENTIFIC_MUSCLES) {
+      muscleGoals[muscle] = profile?.goals[muscle] ?? DEFAULT_MUSCLE_GOAL;
+    }
+
+    return {
+      points: buildVolumeTrend(
+        workouts,
+        weeks,
+        effectiveMappings,
+        muscleMapping,
+        buildVolumeOptions(profile, volumeMode, 'sets')
+      ),
+      muscleGoals,
+      groupGoals: buildGroupGoals(profile, muscleMapping),
+      muscleMapping,
+    };
+  }, [workouts, weeks, profile, resolver, volumeMode]);
+
+  return { ...trend, isLoading, error };
+}
+
+/**
+ * Preview how a pending mapping change rewrites history: the workouts and sets it
+ * touches and before/after volume per muscle in the affected calendar weeks
+ * @param profileId - Profile ID
+ * @param change - Unsaved change to preview (null previews nothing)
+ * @param volumeMode - Count raw sets or effective (RPE/drop-set weighted) sets
+ */
+export function useMappingImpact(
+  profileId: string | null,
+  change: PendingMappingChange | null,
+  volumeMode: VolumeMode = 'raw'
+): {
+  impact: MappingImpact | null;
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { workouts, isLoading: workoutsLoading, error } = useAllWorkouts(profileId);
+  const { profile } = useProfile(profileId);
+  const { layers, isLoading: layersLoading } = useMappingLayers(profileId);
+
+  const isLoading = workoutsLoading || layersLoading;
+
+  const exerciseIds = useMemo(
+    () => new Set(workouts.flatMap((w) => w.sets.map((s) => s.exerciseId))),
+    [workouts]
+  );
+  const currentMappings = useMemo(
+    () => createMappingResolver(layers).getEffectiveMappings(exerciseIds),
+    [layers, exerciseIds]
+  );
+
+  const impact = useMemo(() => {
+    if (!change || isLoading) return null;
+
+    const pendingMappings = createMappingResolver(
+      applyPendingChange(layers, change)
+    ).getEffectiveMappings(exerciseIds);
+    return calculateMappingImpact(
+      workouts,
+      currentMappings,
+      pendingMappings,
+      buildVolumeOptions(profile, volumeMode, 'sets')
+    );
+  }, [change, isLoading, layers, exerciseIds, workouts, currentMappings, profile, volumeMode]);
+
+  return { impact, isLoading, error };
+}
+
+/**
+ * Recommend exercises and set counts that close the window's under-goal muscles,
+ * favouring exercises the profile has done before
+ * @param profileId - Profile ID
+ * @param dateWindow - Window whose volume and (scaled) goals set the deficits
+ * @param volumeMode - Count raw sets or effective (RPE/drop-set weighted) sets
+ */
+export function useExerciseRecommendations(
+  profileId: string | null,
+  dateWindow: DateWindow = 'calendarWeek',
+  volumeMode: VolumeMode = 'raw'
+): {
+  plan: RecommendationPlan | null;
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const {
+    stats,
+    isLoading: statsLoading,
+    error,
+  } = useScientificMuscleVolume(profileId, dateWindow, volumeMode);
+  const { workouts, isLoading: workoutsLoading } = useAllWorkouts(profileId);
+  const { layers, isLoading: layersLoading } = useMappingLayers(profileId);
+
+  const isLoading = statsLoading || workoutsLoading || layersLoading;
+
+  const plan = useMemo(() => {
+    if (isLoading) return null;
+
+    const resolver = createMappingResolver(layers);
+
+    // Working sets logged per exercise, counted against the exercise they resolve to
+    const setsLogged = new Map<string, number>();
+    for (const set of workouts.flatMap((w) => w.sets)) {
+      if (set.setType === 'warmup') continue;
+      const { canonicalExerciseId } = resolver.resolve(set.exerciseId);
+      setsLogged.set(canonicalExerciseId, (setsLogged.get(canonicalExerciseId) ?? 0) + 1);
+    }
+
+    const candidates = getAllCanonicalExercises(layers.customExercises).flatMap(
+      (exercise): RecommendationCandidate[] => {
+        const { muscles } = resolver.resolve(exercise.id);
+        if (!muscles) return [];
+        return [
+          {
+            id: exercise.id,
+            name: exercise.name,
+            muscles,
+            setsLogged: setsLogged.get(exercise.id) ?? 0,
+          },
+        ];
+      }
+    );
+
+    return recommendExercises(calculateMuscleDeficits(stats), candidates);
+  }, [isLoading, layers, workouts, stats]);
+
+  return { plan, isLoading, error };
+}
+
+/**
+ * Project a planned program's weekly volume per ScientificMuscle against the profile's
+ * weekly goals, resolving planned exercises through the same mapping layers as logged sets
+ * @param profileId - Profile ID
+ * @param days - The program's days, each done once a week
+ */
+export function useProjectedMuscleVolume(
+  profileId: string | null,
+  days: PlannedDay[]
+): {
+  stats: VolumeStatItem[];
+  totalSets: number;
+  unmappedExerciseIds: string[];
+  isLoading: boolean;
+} {
+  const { profile, isLoading: profileLoading } = useProfile(profileId);
+  const { resolver, isLoading: mappingsLoading } = useMappingResolver(profileId);
+
+  const isLoading = profileLoading || mappingsLoading;
+
+  const projection = useMemo(() => {
+    const exerciseIds = days.flatMap((day) => day.exercises.map((e) => e.exerciseId));
+    const { muscles, totalSets, unmappedExerciseIds } = projectProgramVolume(
+      days,
+      resolver.getEffectiveMappings(exerciseIds)
+    );
+
+    const stats = SCIENTIFIC_MUSCLES.map((muscle) => {
+      const volume = muscles[muscle] ?? 0;
+      const goal = profile?.goals[muscle] ?? DEFAULT_MUSCLE_GOAL;
+      return {
+        name: muscle,
+        volume,
+        goal,
+        percentage: goal > 0 ? (volume / goal) * 100 : 0,
+      };
+    });
+
+    return { stats, totalSets, unmappedExerciseIds };
+  }, [days, resolver, profile]);
+
+  return { ...projection, isLoading };
+}
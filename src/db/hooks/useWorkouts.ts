@@ -4,47 +4,26 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { db, generateId, type Workout, type WorkoutSet } from '../schema';
+import {
+  getDateRangeKey,
+  resolveDateWindow,
+  type DateRange,
+  type ViewMode,
+} from '@core/date-range';
 
 const WORKOUTS_KEY = ['workouts'];
 
-export type ViewMode = 'last7days' | 'calendarWeek';
-
-/**
- * Get the start of today in the user's local timezone
- */
-function getStartOfToday(): Date {
-  const now = new Date();
-  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
-}
-
-/**
- * Get the end of today in the user's local timezone (23:59:59.999)
- */
-function getEndOfToday(): Date {
-  const now = new Date();
-  return new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
-}
-
-/**
- * Get the start of the current calendar week (Monday)
- */
-function getStartOfWeek(): Date {
-  const now = new Date();
-  const day = now.getDay();
-  const diff = day === 0 ? -6 : 1 - day; // Adjust when Sunday (0)
-  const monday = new Date(now);
-  monday.setDate(now.getDate() + diff);
-  return new Date(monday.getFullYear(), monday.getMonth(), monday.getDate());
-}
+export type { ViewMode, DateRange };
 
 export interface UseWorkoutsOptions {
   mode?: ViewMode;
+  range?: DateRange; // Takes precedence over mode
 }
 
 /**
  * Get workouts for a profile within a date range
  * @param profileId - Profile ID
- * @param daysBackOrOptions - Number of days back (legacy) or options object with mode
+ * @param daysBackOrOptions - Number of days back (legacy) or options object with mode or range
  */
 export function useWorkouts(
   profileId: string | null,
@@ -54,39 +33,20 @@ export function useWorkouts(
   isLoading: boolean;
   error: Error | null;
 } {
-  // Support both legacy daysBack number and new options object
-  const options: UseWorkoutsOptions = typeof daysBackOrOptions === 'number'
-    ? { mode: 'last7days' }
-    : daysBackOrOptions;
-  const mode = options.mode ?? 'last7days';
-
-  // For legacy daysBack support, extract the number
-  const daysBack = typeof daysBackOrOptions === 'number' ? daysBackOrOptions : 7;
+  // Support both legacy daysBack number and options object
+  const range =
+    typeof daysBackOrOptions === 'number'
+      ? resolveDateWindow(daysBackOrOptions)
+      : (daysBackOrOptions.range ?? resolveDateWindow(daysBackOrOptions.mode ?? 'last7days'));
+  const [startTime, endTime] = getDateRangeKey(range);
 
   const { data, isLoading, error } = useQuery({
-    queryKey: [...WORKOUTS_KEY, profileId, mode, daysBack],
+    queryKey: [...WORKOUTS_KEY, profileId, startTime, endTime],
     queryFn: async () => {
       if (!profileId) return [];
 
-      let startDate: Date;
-      let endDate: Date;
-
-      if (typeof daysBackOrOptions === 'number') {
-        // Legacy behavior: rolling daysBack window
-        endDate = new Date();
-        startDate = new Date(getStartOfToday());
-        startDate.setDate(startDate.getDate() - daysBackOrOptions + 1);
-      } else if (mode === 'last7days') {
-        endDate = getEndOfToday();
-        startDate = new Date(getStartOfToday());
-        startDate.setDate(startDate.getDate() - 6); // 6 days back + today = 7 days
-      } else {
-        // calendarWeek mode
-        startDate = getStartOfWeek();
-        endDate = new Date(startDate);
-        endDate.setDate(endDate.getDate() + 6); // Monday + 6 days = Sunday
-        endDate.setHours(23, 59, 59, 999);
-      }
+      const startDate = new Date(startTime);
+      const endDate = new Date(endTime);
 
       return db.workouts
         .where('profileId')
@@ -104,6 +64,32 @@ export function useWorkouts(
   };
 }
 
+/**
+ * Get every workout for a profile, oldest first
+ * @param profileId - Profile ID
+ */
+export function useAllWorkouts(profileId: string | null): {
+  workouts: Workout[];
+  isLoading: boolean;
+  error: Error | null;
+} {
+  const { data, isLoading, error } = useQuery({
+    queryKey: [...WORKOUTS_KEY, profileId, 'all'],
+    queryFn: async () => {
+      if (!profileId) return [];
+
+      return db.workouts.where('profileId').equals(profileId).sortBy('date');
+    },
+    enabled: !!profileId,
+  });
+
+  return {
+    workouts: data ?? [],
+    isLoading,
+    error: error as Error | null,
+  };
+}
+
 /**
  * Add a single workout
  */
@@ -7,6 +7,7 @@ export {
   db,
   generateId,
   createDefaultProfile,
+  CUSTOM_EXERCISE_ID_PREFIX,
   DEFAULT_MUSCLE_GOAL,
   DEFAULT_TOTAL_GOAL,
   type Gender,
@@ -17,6 +18,20 @@ export {
   type ExerciseMapping,
   type DefaultExerciseOverride,
   type DefaultNameMappingOverride,
+  type PersonalRecord,
+  type ExerciseTemplateAlias,
+  type CustomExercise,
+  type MappingRule,
+  type MappingChange,
+  type MappingChangeEntity,
+  type AutoMatchDecision,
+  type AutoMatchOutcome,
+  type LearnedMatchRule,
+  type LearnedMatchRuleKind,
+  type AutoAppliedMatch,
+  type ProgramExercise,
+  type ProgramDay,
+  type TrainingProgram,
 } from './schema';
 
 // Hooks
@@ -30,6 +45,7 @@ export {
 
 export {
   useWorkouts,
+  useAllWorkouts,
   useAddWorkout,
   useImportWorkouts,
   useDeleteWorkout,
@@ -40,9 +56,71 @@ export {
   useScientificMuscleVolume,
   useFunctionalGroupVolume,
   useFunctionalGroupBreakdown,
+  useVolumeTrace,
+  useMappingImpact,
+  useExerciseRecommendations,
+  useProjectedMuscleVolume,
   type VolumeStatItem,
+  type TracedContribution,
 } from './hooks/useVolumeStats';
 
+export { useMappingLayers, useMappingResolver } from './hooks/useMappingResolver';
+
+export {
+  useExerciseTemplateAliases,
+  recordTemplateAliases,
+} from './hooks/useExerciseTemplateAliases';
+
+export { useExerciseHistory, type ExerciseHistorySession } from './hooks/useExerciseHistory';
+
+export { useRecentPersonalRecords, refreshPersonalRecords } from './hooks/usePersonalRecords';
+
+export {
+  useExportBackup,
+  useRestoreBackup,
+  exportProfileBackup,
+  type RestoreTarget,
+  type RestoreResult,
+} from './hooks/useBackup';
+
+export {
+  useExportMappingPack,
+  useCompareMappingPack,
+  useImportMappingPack,
+  exportMappingPack,
+  compareMappingPack,
+  type MappingPackImportResult,
+} from './hooks/useMappingPack';
+
+export {
+  useAutoMatchLearning,
+  useLearnedMatchRules,
+  useRecordAutoMatchDecision,
+  useCreateLearnedMatchRule,
+  useUpdateLearnedMatchRule,
+  useDeleteLearnedMatchRule,
+  type AutoMatchReviewAction,
+  type LearnedMatchRuleInput,
+  recordAutoMatchDecision,
+  loadAutoMatchLearning,
+} from './hooks/useAutoMatchLearning';
+
+export {
+  useAutoAppliedMatches,
+  useConfirmAutoAppliedMatches,
+  useRevertAutoAppliedMatch,
+  applyConfidentMatches,
+  isAutoAppliedMappingIntact,
+} from './hooks/useAutoAppliedMatches';
+
+export {
+  useTrainingPrograms,
+  useCreateTrainingProgram,
+  useUpdateTrainingProgram,
+  useDeleteTrainingProgram,
+  type TrainingProgramInput,
+} from './hooks/useTrainingPrograms';
+
 export {
   useDailyStats,
   type DailyActivity,
@@ -66,6 +144,31 @@ export {
   useGetMappingByPattern,
 } from './hooks/useExerciseMappings';
 
+export {
+  useCustomExercises,
+  useCreateCustomExercise,
+  useUpdateCustomExercise,
+  useDeleteCustomExercise,
+  type CustomExerciseInput,
+} from './hooks/useCustomExercises';
+
+export {
+  useMappingRules,
+  useCreateMappingRule,
+  useUpdateMappingRule,
+  useReorderMappingRules,
+  useDeleteMappingRule,
+  type MappingRuleInput,
+} from './hooks/useMappingRules';
+
+export {
+  useMappingHistory,
+  useRevertMappingChange,
+  useUndoLastMappingChange,
+  recordMappingChange,
+  revertMappingChange,
+} from './hooks/useMappingHistory';
+
 export {
   useDefaultExerciseOverrides,
   useDefaultExerciseOverride,
@@ -97,5 +200,13 @@ export {
   hasDefaultGymNameMapping,
   batchResolveExerciseMuscleValues,
   batchResolveGymNameMappings,
+  buildExerciseIdResolver,
+  createMappingResolver,
+  applyPendingChange,
   type ExerciseMuscleMapping,
+  type MappingSource,
+  type ResolvedExercise,
+  type MappingLayers,
+  type MappingResolver,
+  type PendingMappingChange,
 } from './utils/mapping-resolver';
@@ -0,0 +1,238 @@
+/**
+ * Dexie Schema Migrations
+ *
+ * Every schema version of ScientificMuscleDB is declared here, in order. A migration
+ * lists only the stores it adds or changes (Dexie carries the rest forward) and may
+ * transform existing records so data written by older versions stays valid.
+ *
+ * To change the schema, append a migration with the next version number. Never edit
+ * or remove a released migration: browsers that already ran it will not run it again.
+ */
+
+import type Dexie from 'dexie';
+import type { Transaction } from 'dexie';
+import { normalizeId } from '@core/utils/normalization';
+import type { Workout, WorkoutSet, WorkoutExercise, UnmappedExercise } from './schema';
+
+/**
+ * Per-record transform for one table, run inside the upgrade transaction.
+ * Returns the upgraded record (the input may be modified in place), or null to delete it.
+ */
+export interface TableTransform {
+  table: string;
+  apply: (record: unknown) => unknown;
+}
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  stores: Record<string, string | null>; // Added or changed stores; null deletes a table
+  transforms?: TableTransform[];
+  upgrade?: (tx: Transaction) => Promise<void>; // For changes beyond per-record transforms
+}
+
+/**
+ * Typed helper for declaring a table transform
+ */
+export function transformTable<T>(
+  table: string,
+  transform: (record: T) => T | null
+): TableTransform {
+  return { table, apply: (record) => transform(record as T) };
+}
+
+/**
+ * Derive exercise order for sets that predate exercise-level data.
+ * Exercises are ordered by first appearance; each set gets its exercise's index.
+ * Mutates the sets in place and returns the derived exercise list.
+ */
+export function deriveWorkoutExercises(sets: WorkoutSet[]): WorkoutExercise[] {
+  const exercises: WorkoutExercise[] = [];
+  const indexById = new Map<string, number>();
+
+  for (const set of sets) {
+    let index = indexById.get(set.exerciseId);
+    if (index === undefined) {
+      index = exercises.length;
+      indexById.set(set.exerciseId, index);
+      exercises.push({ index, exerciseId: set.exerciseId, originalName: set.originalName });
+    }
+    set.exerciseIndex ??= index;
+  }
+
+  return exercises;
+}
+
+/**
+ * Recompute variation-aware exercise IDs from the original names kept on each set and
+ * exercise, so "Bench Press (Dumbbell)" no longer shares "bench-press" with the barbell.
+ * Records without an original name keep their ID. Mutates and returns the workout.
+ */
+export function deriveVariationExerciseIds(workout: Workout): Workout {
+  for (const item of [...workout.sets, ...(workout.exercises ?? [])]) {
+    item.exerciseId = normalizeId(item.originalName) || item.exerciseId;
+  }
+  return workout;
+}
+
+export const SCHEMA_MIGRATIONS: readonly SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Profiles, workouts and unmapped exercises',
+    stores: {
+      profiles: 'id, name',
+      workouts: 'id, profileId, date, [profileId+date]',
+      unmappedExercises: 'id, profileId, normalizedName, [profileId+normalizedName]',
+    },
+  },
+  {
+    version: 2,
+    description: 'User exercise mappings',
+    stores: {
+      exerciseMappings: 'id, profileId, originalPattern, [profileId+originalPattern]',
+    },
+  },
+  {
+    version: 3,
+    description: 'Overrides of default exercise values and gym name mappings',
+    stores: {
+      defaultExerciseOverrides: 'id, profileId, [profileId+exerciseName]',
+      defaultNameMappingOverrides: 'id, profileId, [profileId+gymName]',
+    },
+  },
+  {
+    version: 4,
+    description: 'Exercise order and details on workouts',
+    stores: {},
+    transforms: [
+      transformTable<Workout>('workouts', (workout) => {
+        workout.exercises ??= deriveWorkoutExercises(workout.sets);
+        return workout;
+      }),
+    ],
+  },
+  {
+    version: 5,
+    description: 'Personal records detected on import/sync',
+    stores: {
+      personalRecords: 'id, profileId, workoutId, [profileId+date]',
+    },
+  },
+  {
+    version: 6,
+    description: 'Variation-aware exercise IDs ("bench-press:dumbbell")',
+    stores: {},
+    transforms: [
+      transformTable<Workout>('workouts', deriveVariationExerciseIds),
+      transformTable<UnmappedExercise>('unmappedExercises', (unmapped) => {
+        unmapped.normalizedName = normalizeId(unmapped.originalName) || unmapped.normalizedName;
+        return unmapped;
+      }),
+    ],
+  },
+  {
+    version: 7,
+    description: 'Titles seen per Hevy exercise template',
+    stores: {
+      exerciseTemplateAliases: 'id, profileId, [profileId+templateId], [profileId+exerciseId]',
+    },
+  },
+  {
+    version: 8,
+    description: 'Custom exercise library per profile',
+    stores: {
+      customExercises: 'id, profileId, [profileId+name]',
+    },
+  },
+  {
+    version: 9,
+    description: 'Pattern rules for exercise mappings',
+    stores: {
+      mappingRules: 'id, profileId',
+    },
+  },
+  {
+    version: 10,
+    description: 'Append-only change log for mappings and default overrides',
+    stores: {
+      mappingChanges: 'id, profileId, changedAt',
+    },
+  },
+  {
+    version: 11,
+    description: 'Auto-match review decisions and the match rules learned from them',
+    stores: {
+      autoMatchDecisions: 'id, profileId, [profileId+normalizedName]',
+      learnedMatchRules: 'id, profileId, [profileId+kind+token]',
+    },
+  },
+  {
+    version: 12,
+    description: 'Review queue of mappings auto-applied on import',
+    stores: {
+      autoAppliedMatches: 'id, profileId',
+    },
+  },
+  {
+    version: 13,
+    description: 'Training programs for projected weekly volume',
+    stores: {
+      trainingPrograms: 'id, profileId',
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1]?.version ?? 0;
+
+/**
+ * Check that versions are positive integers in strictly increasing order
+ * @throws Error describing the first invalid migration
+ */
+export function validateMigrations(migrations: readonly SchemaMigration[]): void {
+  let previous = 0;
+  for (const migration of migrations) {
+    if (!Number.isInteger(migration.version) || migration.version <= previous) {
+      throw new Error(
+        `Invalid schema migration "${migration.description}": version ${migration.version} must be an integer greater than ${previous}`
+      );
+    }
+    previous = migration.version;
+  }
+}
+
+/**
+ * Register migrations on a Dexie instance (call from the constructor, before open)
+ */
+export function applyMigrations(
+  db: Dexie,
+  migrations: readonly SchemaMigration[] = SCHEMA_MIGRATIONS
+): void {
+  validateMigrations(migrations);
+
+  for (const migration of migrations) {
+    const version = db.version(migration.version).stores(migration.stores);
+    const { transforms = [], upgrade } = migration;
+
+    if (transforms.length === 0 && !upgrade) continue;
+
+    version.upgrade(async (tx) => {
+      for (const { table, apply } of transforms) {
+        await tx
+          .table(table)
+          .toCollection()
+          .modify((record: unknown, ctx: { value: unknown }) => {
+            const result = apply(record);
+            if (result === null) {
+              delete (ctx as { value?: unknown }).value;
+            } else {
+              ctx.value = result;
+            }
+          });
+      }
+
+      if (upgrade) {
+        await upgrade(tx);
+      }
+    });
+  }
+}
@@ -3,8 +3,12 @@
  * Local-first IndexedDB storage for workout data
  */
 
-import Dexie, { type Table } from 'dexie';
+import Dexie, { type Table, type DexieOptions } from 'dexie';
 import type { ScientificMuscle, FunctionalGroup } from '@core/taxonomy';
+import type { SetEquivalence, EffectiveSetRules } from '@core/volume-calculator';
+import type { PersonalRecordType } from '@core/personal-records';
+import type { RuleMatchType } from '@core/mapping-rules';
+import { applyMigrations } from './migrations';
 
 /**
  * User-defined muscle group for organizing the muscle list
@@ -49,6 +53,22 @@ export interface WorkoutSet {
   weight: number;
   reps: number;
   rpe?: number;
+  durationSeconds?: number;         // Timed sets (planks, carries, intervals)
+  distanceMeters?: number;          // Distance sets (rowing, running, sled)
+  exerciseIndex?: number;           // Position of the exercise within the workout
+  templateId?: string;              // Hevy exercise_template_id, stable across renames
+}
+
+/**
+ * Exercise-level details of a workout (order, notes, supersets)
+ */
+export interface WorkoutExercise {
+  index: number;
+  exerciseId: string;
+  originalName: string;
+  notes?: string;
+  supersetId?: number;
+  templateId?: string;              // Hevy exercise_template_id
 }
 
 /**
@@ -60,6 +80,7 @@ export interface Workout {
   date: Date;
   title: string;
   sets: WorkoutSet[];
+  exercises?: WorkoutExercise[];    // Absent for workouts imported before v4
 }
 
 /**
@@ -75,6 +96,9 @@ export interface Profile {
   totalGoal: number;
   muscleGroupCustomization: Partial<Record<ScientificMuscle, FunctionalGroup>>;
   customMuscleGroups?: MuscleGroupConfig;  // Optional, defaults to preset
+  setEquivalence?: SetEquivalence;          // How timed/distance sets count toward volume
+  effectiveSetRules?: EffectiveSetRules;    // RPE/drop-set rules for effective set counting
+  autoMatchThreshold?: number;              // Auto-apply suggestions this confident (0-1) on import; unset = off
   createdAt: Date;
 }
 
@@ -86,6 +110,7 @@ export interface UnmappedExercise {
   profileId: string;
   originalName: string;
   normalizedName: string;
+  templateId?: string;              // Hevy template, so a renamed exercise keeps one entry
   firstSeenAt: Date;
   occurrenceCount: number;
 }
@@ -97,12 +122,64 @@ export interface ExerciseMapping {
   id: string;
   profileId: string;
   originalPattern: string;
+  templateId?: string;              // Also applies to every title used for this Hevy template
   canonicalExerciseId: string | null;
   customMuscleValues: Partial<Record<ScientificMuscle, number>> | null;
   isIgnored: boolean;
   createdAt: Date;
 }
 
+/**
+ * Pattern rule mapping every matching exercise (glob, contains or regex).
+ * Exact ExerciseMappings win over rules; among rules the lowest priority matches first.
+ */
+export interface MappingRule {
+  id: string;
+  profileId: string;
+  matchType: RuleMatchType;
+  pattern: string;
+  priority: number;
+  canonicalExerciseId: string | null; // Target exercise; null when ignored
+  isIgnored: boolean;
+  isEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A title (exercise ID) a Hevy exercise template was seen under.
+ * All aliases of one template resolve to the same user mapping.
+ */
+export interface ExerciseTemplateAlias {
+  id: string;
+  profileId: string;
+  templateId: string;
+  exerciseId: string;
+  originalName: string;
+  lastSeenAt: Date;                 // Date of the latest workout using this title
+}
+
+/**
+ * A profile's own exercise, used like a canonical one: mappings can point at its ID
+ * and any of its aliases resolve to it. IDs start with CUSTOM_EXERCISE_ID_PREFIX.
+ */
+export interface CustomExercise {
+  id: string;
+  profileId: string;
+  name: string;
+  aliases: string[];                // Gym names that resolve straight to this exercise
+  equipment: string | null;
+  muscleValues: Partial<Record<ScientificMuscle, number>>;
+  notes: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Prefix of custom exercise IDs, keeping them apart from normalized exercise names
+ */
+export const CUSTOM_EXERCISE_ID_PREFIX = 'custom-';
+
 /**
  * User customization of default exercise muscle values.
  * Overrides exercises from exercise_list_complete.json.
@@ -132,40 +209,179 @@ export interface DefaultNameMappingOverride {
 }
 
 /**
- * Dexie database class for ScientificMuscle
+ * Record types tracked by the mapping change log
+ */
+export type MappingChangeEntity =
+  | 'exerciseMapping'
+  | 'defaultExerciseOverride'
+  | 'defaultNameMappingOverride';
+
+/**
+ * A tracked record as it was before or after a change
+ */
+export type MappingChangeValue =
+  | ExerciseMapping
+  | DefaultExerciseOverride
+  | DefaultNameMappingOverride;
+
+/**
+ * Who made a mapping change: the user in an editor, the history panel reverting one,
+ * a mapping pack import, or auto-match applying a confident suggestion on import
+ */
+export type MappingChangeActor = 'user' | 'undo' | 'import' | 'auto-match';
+
+/**
+ * Append-only log entry for one change to an ExerciseMapping or default override.
+ * Entries are never edited; reverting a change appends a new entry.
+ */
+export interface MappingChange {
+  id: string;
+  profileId: string;
+  entityType: MappingChangeEntity;
+  entityKey: string;                // originalPattern, exerciseName or gymName
+  oldValue: MappingChangeValue | null; // Null when the record was created
+  newValue: MappingChangeValue | null; // Null when the record was deleted
+  changedBy: MappingChangeActor;
+  revertOf: string | null;          // ID of the change this entry reverts
+  changedAt: Date;
+}
+
+/**
+ * How a reviewed auto-match suggestion was resolved: taken as suggested, turned
+ * down, or mapped to a different exercise instead
+ */
+export type AutoMatchOutcome = 'accepted' | 'rejected' | 'corrected';
+
+/**
+ * A review decision on an auto-match suggestion, the signal auto-match learns from
+ */
+export interface AutoMatchDecision {
+  id: string;
+  profileId: string;
+  originalName: string;             // Unmapped exercise name as logged
+  normalizedName: string;
+  suggestedId: string;
+  suggestedName: string;
+  outcome: AutoMatchOutcome;
+  chosenName: string | null;        // Exercise mapped to instead, when corrected
+  decidedAt: Date;
+}
+
+/**
+ * Kinds of vocabulary auto-match learns: abbreviations ("rdl" → "romanian deadlift"),
+ * gym markers stripped from names, and single-word aliases ("crossover" → "fly")
+ */
+export type LearnedMatchRuleKind = 'abbreviation' | 'gymMarker' | 'tokenAlias';
+
+/**
+ * A match rule used by auto-match on top of its built-in vocabulary.
+ * Learned rules are re-derived from review decisions; edited rules are left alone.
+ */
+export interface LearnedMatchRule {
+  id: string;
+  profileId: string;
+  kind: LearnedMatchRuleKind;
+  token: string;                    // Lowercase word found in gym exercise names
+  expansion: string;                // What the token means; empty for gym markers
+  support: number;                  // Net decisions backing the rule (0 when added by hand)
+  isEnabled: boolean;
+  isEdited: boolean;                // Added or changed by hand
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A mapping auto-match created on import, waiting to be confirmed or reverted
+ */
+export interface AutoAppliedMatch {
+  id: string;
+  profileId: string;
+  mappingId: string;                // ExerciseMapping created for the suggestion
+  unmappedExercise: UnmappedExercise; // Restored when the match is reverted
+  suggestedId: string;
+  suggestedName: string;
+  confidence: number;
+  matchReason: string;
+  appliedAt: Date;
+}
+
+/**
+ * An exercise planned for a program day
+ */
+export interface ProgramExercise {
+  exerciseId: string;               // Canonical or custom exercise ID, resolved like a logged one
+  sets: number;                     // Planned working sets
+}
+
+/**
+ * One training day of a program
+ */
+export interface ProgramDay {
+  id: string;
+  name: string;
+  exercises: ProgramExercise[];
+}
+
+/**
+ * A planned training week. Each day is done once a week, so its sets project
+ * straight onto the profile's weekly goals.
+ */
+export interface TrainingProgram {
+  id: string;
+  profileId: string;
+  name: string;
+  days: ProgramDay[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A personal record detected when workouts were imported or synced
+ */
+export interface PersonalRecord {
+  id: string;
+  profileId: string;
+  workoutId: string;
+  exerciseId: string;               // Canonical (alias-resolved) exercise ID
+  originalName: string;
+  type: PersonalRecordType;
+  value: number;                    // Weight, reps, e1RM or session volume depending on type
+  previousValue: number;
+  weight: number;                   // Record set weight (0 for session volume)
+  reps: number;                     // Record set reps (0 for session volume)
+  date: Date;                       // Workout date
+  detectedAt: Date;
+}
+
+/**
+ * IndexedDB database name
+ */
+export const DB_NAME = 'ScientificMuscleDB';
+
+/**
+ * Dexie database class for ScientificMuscle.
+ * Schema versions and data upgrades are declared in ./migrations.
  */
-class ScientificMuscleDatabase extends Dexie {
+export class ScientificMuscleDatabase extends Dexie {
   profiles!: Table<Profile, string>;
   workouts!: Table<Workout, string>;
   unmappedExercises!: Table<UnmappedExercise, string>;
   exerciseMappings!: Table<ExerciseMapping, string>;
   defaultExerciseOverrides!: Table<DefaultExerciseOverride, string>;
   defaultNameMappingOverrides!: Table<DefaultNameMappingOverride, string>;
+  personalRecords!: Table<PersonalRecord, string>;
+  exerciseTemplateAliases!: Table<ExerciseTemplateAlias, string>;
+  customExercises!: Table<CustomExercise, string>;
+  mappingRules!: Table<MappingRule, string>;
+  mappingChanges!: Table<MappingChange, string>;
+  autoMatchDecisions!: Table<AutoMatchDecision, string>;
+  learnedMatchRules!: Table<LearnedMatchRule, string>;
+  autoAppliedMatches!: Table<AutoAppliedMatch, string>;
+  trainingPrograms!: Table<TrainingProgram, string>;
 
-  constructor() {
-    super('ScientificMuscleDB');
-
-    this.version(1).stores({
-      profiles: 'id, name',
-      workouts: 'id, profileId, date, [profileId+date]',
-      unmappedExercises: 'id, profileId, normalizedName, [profileId+normalizedName]',
-    });
-
-    this.version(2).stores({
-      profiles: 'id, name',
-      workouts: 'id, profileId, date, [profileId+date]',
-      unmappedExercises: 'id, profileId, normalizedName, [profileId+normalizedName]',
-      exerciseMappings: 'id, profileId, originalPattern, [profileId+originalPattern]',
-    });
-
-    this.version(3).stores({
-      profiles: 'id, name',
-      workouts: 'id, profileId, date, [profileId+date]',
-      unmappedExercises: 'id, profileId, normalizedName, [profileId+normalizedName]',
-      exerciseMappings: 'id, profileId, originalPattern, [profileId+originalPattern]',
-      defaultExerciseOverrides: 'id, profileId, [profileId+exerciseName]',
-      defaultNameMappingOverrides: 'id, profileId, [profileId+gymName]',
-    });
+  constructor(name: string = DB_NAME, options?: DexieOptions) {
+    super(name, options);
+    applyMigrations(this);
   }
 }
 
@@ -6,7 +6,17 @@ import type { ScientificMuscle, FunctionalGroup } from '@core/taxonomy';
 import { DEFAULT_SCIENTIFIC_TO_FUNCTIONAL } from '@core/taxonomy';
 import exerciseListJson from '../../../config/exercise_list_complete.json';
 import exerciseNameMappingsJson from '../../../config/exercise_name_mappings.json';
-import type { DefaultExerciseOverride, DefaultNameMappingOverride, Profile } from '../schema';
+import { formatExerciseId, normalizeId, parseExerciseId } from '@core/utils/normalization';
+import { createRuleMatcher } from '@core/mapping-rules';
+import type {
+  CustomExercise,
+  DefaultExerciseOverride,
+  DefaultNameMappingOverride,
+  ExerciseMapping,
+  ExerciseTemplateAlias,
+  MappingRule,
+  Profile,
+} from '../schema';
 
 /**
  * Type for exercise muscle mappings (0.0 to 1.0 contribution per muscle)
@@ -159,3 +169,364 @@ export function batchResolveGymNameMappings(
 
   return result;
 }
+
+/**
+ * Where an exercise's effective muscle values come from, in priority order
+ */
+export type MappingSource =
+  | 'user-custom' // User mapping with custom muscle values
+  | 'user-canonical' // User mapping to a canonical exercise
+  | 'ignored' // User mapping or rule marking the exercise as ignored
+  | 'rule' // Pattern rule mapping to a canonical exercise
+  | 'name-mapping' // Gym name mapping (default, override or custom exercise alias)
+  | 'canonical' // The exercise itself is in the canonical list
+  | 'unmapped';
+
+/**
+ * Effective mapping of one exercise ID after every layer is applied
+ */
+export interface ResolvedExercise {
+  exerciseId: string;
+  canonicalExerciseId: string; // Exercise the values come from (the ID itself when not aliased)
+  muscles: ExerciseMuscleMapping | null; // Null when ignored or unmapped
+  source: MappingSource;
+  isOverridden: boolean; // Canonical values replaced by a DefaultExerciseOverride
+  variation: string | null; // Variation modifier of the canonical exercise ("dumbbell")
+  isVariationFallback: boolean; // Variation without its own values, using its base exercise's
+}
+
+/**
+ * Profile customizations layered over the canonical config
+ */
+export interface MappingLayers {
+  userMappings: ExerciseMapping[];
+  exerciseOverrides: DefaultExerciseOverride[];
+  nameOverrides: DefaultNameMappingOverride[];
+  templateAliases?: ExerciseTemplateAlias[]; // Titles seen per Hevy exercise template
+  customExercises?: CustomExercise[]; // The profile's own exercise library
+  mappingRules?: MappingRule[]; // Glob/contains/regex rules, evaluated by priority
+}
+
+export interface MappingResolver {
+  resolve: (exerciseId: string) => ResolvedExercise;
+  /** Muscle values per exercise ID, for the volume calculator (ignored/unmapped omitted) */
+  getEffectiveMappings: (exerciseIds: Iterable<string>) => Map<string, ExerciseMuscleMapping>;
+  /** IDs of all exercises with (possibly overridden) canonical values */
+  canonicalExerciseIds: string[];
+}
+
+/**
+ * Build the single mapping resolver every stats consumer uses. Layers, lowest first:
+ * 1. Canonical values from exercise_list_complete.json
+ * 2. DefaultExerciseOverrides replacing those values, and custom exercises added
+ *    under their own IDs
+ * 3. Gym name mappings (defaults with DefaultNameMappingOverrides applied) aliasing
+ *    an exercise ID to a canonical exercise; a custom exercise's name and aliases
+ *    alias to the custom exercise
+ * 4. User ExerciseMappings (ignore, custom values or canonical target), which win.
+ *    A mapping applies to its own pattern, to every title of its Hevy template, and
+ *    to the other titles of the template its pattern was seen under
+ * 5. Pattern MappingRules (ignore or canonical target), between user mappings and
+ *    layers 1-3: the first enabled rule by priority matching the exercise ID applies
+ *
+ * Variation IDs ("bench-press:dumbbell") use their own values when a config entry or
+ * override exists for "Bench Press (Dumbbell)", then an exact gym name mapping, and
+ * otherwise resolve like their base exercise while keeping the modifier in
+ * canonicalExerciseId, so history and records stay per variation.
+ */
+export function createMappingResolver(layers: MappingLayers): MappingResolver {
+  const defaultNames = getAllDefaultExerciseNames();
+  const canonicalValues = new Map<string, ExerciseMuscleMapping>();
+  for (const name of defaultNames) {
+    const values = getDefaultExerciseMuscleValues(name);
+    if (values) {
+      canonicalValues.set(normalizeId(name), values);
+    }
+  }
+
+  const overriddenIds = new Set<string>();
+  for (const override of layers.exerciseOverrides) {
+    const id = normalizeId(override.exerciseName);
+    canonicalValues.set(id, override.customMuscleValues);
+    overriddenIds.add(id);
+  }
+
+  // A config variation whose base has no entry ("Chest Press (Machine)") also stands in
+  // for the bare base ID, which is what imports stored before IDs kept variations
+  for (const name of defaultNames) {
+    const id = normalizeId(name);
+    const { baseId, variation } = parseExerciseId(id);
+    const values = canonicalValues.get(id);
+    if (variation !== null && values && !canonicalValues.has(baseId)) {
+      canonicalValues.set(baseId, values);
+      if (overriddenIds.has(id)) {
+        overriddenIds.add(baseId);
+      }
+    }
+  }
+
+  const customExercises = layers.customExercises ?? [];
+  for (const custom of customExercises) {
+    canonicalValues.set(custom.id, custom.muscleValues);
+  }
+
+  const aliases = new Map<string, string>();
+  for (const [gymName, canonicalName] of getAllDefaultGymNameMappings()) {
+    aliases.set(normalizeId(gymName), normalizeId(canonicalName));
+  }
+  for (const override of layers.nameOverrides) {
+    aliases.set(normalizeId(override.gymName), normalizeId(override.canonicalName));
+  }
+  for (const custom of customExercises) {
+    for (const name of [custom.name, ...custom.aliases]) {
+      aliases.set(normalizeId(name), custom.id);
+    }
+  }
+
+  const userMappings = new Map(layers.userMappings.map((m) => [m.originalPattern, m]));
+  const matchRule = createRuleMatcher(layers.mappingRules ?? []);
+  const cache = new Map<string, ResolvedExercise>();
+
+  // Template alias index: titles per template (most recent first) and template per title
+  const titlesByTemplate = new Map<string, string[]>();
+  const templateByTitle = new Map<string, string>();
+  const sortedAliases = [...(layers.templateAliases ?? [])].sort(
+    (a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime()
+  );
+  for (const { templateId, exerciseId } of sortedAliases) {
+    titlesByTemplate.set(templateId, [...(titlesByTemplate.get(templateId) ?? []), exerciseId]);
+    templateByTitle.set(exerciseId, templateId);
+  }
+  const mappingByTemplate = new Map<string, ExerciseMapping>();
+  for (const mapping of layers.userMappings) {
+    if (mapping.templateId) {
+      mappingByTemplate.set(mapping.templateId, mapping);
+    }
+  }
+
+  function findUserMapping(exerciseId: string): ExerciseMapping | undefined {
+    const exact = userMappings.get(exerciseId);
+    const templateId = templateByTitle.get(exerciseId);
+    if (exact || templateId === undefined) return exact;
+
+    return (
+      mappingByTemplate.get(templateId) ??
+      titlesByTemplate
+        .get(templateId)
+        ?.map((title) => userMappings.get(title))
+        .find((mapping) => mapping !== undefined)
+    );
+  }
+
+  function fromCanonical(
+    exerciseId: string,
+    canonicalExerciseId: string,
+    source: MappingSource
+  ): ResolvedExercise {
+    const { baseId, variation } = parseExerciseId(canonicalExerciseId);
+    let valuesId = canonicalExerciseId;
+    let muscles = canonicalValues.get(valuesId) ?? null;
+
+    // A variation target without values of its own falls back to its base exercise
+    if (!muscles && variation !== null) {
+      valuesId = baseId;
+      muscles = canonicalValues.get(valuesId) ?? null;
+    }
+
+    return {
+      exerciseId,
+      canonicalExerciseId,
+      muscles,
+      source: muscles ? source : 'unmapped',
+      isOverridden: overriddenIds.has(valuesId),
+      variation,
+      isVariationFallback: valuesId !== canonicalExerciseId,
+    };
+  }
+
+  function fromBaseExercise(
+    exerciseId: string,
+    baseId: string,
+    variation: string
+  ): ResolvedExercise {
+    const base = resolve(baseId);
+    // Keep a variation the base is mapped onto rather than stacking modifiers
+    const baseTarget = parseExerciseId(base.canonicalExerciseId);
+
+    return {
+      ...base,
+      exerciseId,
+      canonicalExerciseId:
+        baseTarget.variation === null
+          ? formatExerciseId(base.canonicalExerciseId, variation)
+          : base.canonicalExerciseId,
+      variation: baseTarget.variation ?? variation,
+      isVariationFallback: true,
+    };
+  }
+
+  function resolveUncached(exerciseId: string): ResolvedExercise {
+    const userMapping = findUserMapping(exerciseId);
+
+    if (userMapping?.isIgnored) {
+      return {
+        exerciseId,
+        canonicalExerciseId: userMapping.originalPattern,
+        muscles: null,
+        source: 'ignored',
+        isOverridden: false,
+        variation: parseExerciseId(userMapping.originalPattern).variation,
+        isVariationFallback: false,
+      };
+    }
+
+    if (userMapping?.customMuscleValues) {
+      const canonicalExerciseId = userMapping.canonicalExerciseId ?? userMapping.originalPattern;
+      return {
+        exerciseId,
+        canonicalExerciseId,
+        muscles: userMapping.customMuscleValues,
+        source: 'user-custom',
+        isOverridden: false,
+        variation: parseExerciseId(canonicalExerciseId).variation,
+        isVariationFallback: false,
+      };
+    }
+
+    if (userMapping?.canonicalExerciseId) {
+      return fromCanonical(exerciseId, userMapping.canonicalExerciseId, 'user-canonical');
+    }
+
+    const rule = matchRule(exerciseId);
+    if (rule?.isIgnored) {
+      return {
+        exerciseId,
+        canonicalExerciseId: exerciseId,
+        muscles: null,
+        source: 'ignored',
+        isOverridden: false,
+        variation: parseExerciseId(exerciseId).variation,
+        isVariationFallback: false,
+      };
+    }
+    if (rule?.canonicalExerciseId) {
+      return fromCanonical(exerciseId, rule.canonicalExerciseId, 'rule');
+    }
+
+    const { baseId, variation } = parseExerciseId(exerciseId);
+    if (variation !== null && canonicalValues.has(exerciseId)) {
+      return fromCanonical(exerciseId, exerciseId, 'canonical');
+    }
+
+    const alias = aliases.get(exerciseId);
+    if (alias !== undefined && alias !== exerciseId) {
+      return fromCanonical(exerciseId, alias, 'name-mapping');
+    }
+
+    if (variation !== null) {
+      return fromBaseExercise(exerciseId, baseId, variation);
+    }
+
+    return fromCanonical(exerciseId, exerciseId, 'canonical');
+  }
+
+  function resolve(exerciseId: string): ResolvedExercise {
+    let resolved = cache.get(exerciseId);
+    if (!resolved) {
+      resolved = resolveUncached(exerciseId);
+
+      // Unmapped titles of one template share history under its latest title
+      const templateId = templateByTitle.get(exerciseId);
+      const latestTitle = templateId ? titlesByTemplate.get(templateId)?.[0] : undefined;
+      if (resolved.source === 'unmapped' && latestTitle !== undefined) {
+        resolved = { ...resolved, canonicalExerciseId: latestTitle };
+      }
+
+      cache.set(exerciseId, resolved);
+    }
+    return resolved;
+  }
+
+  function getEffectiveMappings(
+    exerciseIds: Iterable<string>
+  ): Map<string, ExerciseMuscleMapping> {
+    const mappings = new Map<string, ExerciseMuscleMapping>();
+    for (const exerciseId of exerciseIds) {
+      const { muscles } = resolve(exerciseId);
+      if (muscles) {
+        mappings.set(exerciseId, muscles);
+      }
+    }
+    return mappings;
+  }
+
+  return {
+    resolve,
+    getEffectiveMappings,
+    canonicalExerciseIds: Array.from(canonicalValues.keys()).sort(),
+  };
+}
+
+/**
+ * Build a resolver that folds exercise ID aliases onto one canonical exercise ID.
+ * User mappings to a canonical exercise take priority, then gym name mappings
+ * (with overrides applied), pattern rules and custom exercise aliases. Titles of
+ * one Hevy template fold together. Anything else resolves to itself.
+ */
+export function buildExerciseIdResolver(
+  layers: Omit<MappingLayers, 'exerciseOverrides'>
+): (exerciseId: string) => string {
+  const { resolve } = createMappingResolver({ ...layers, exerciseOverrides: [] });
+  return (exerciseId: string): string => resolve(exerciseId).canonicalExerciseId;
+}
+
+/**
+ * An unsaved mapping change: new values for a default exercise, or a user mapping
+ * replacing the one for the same pattern
+ */
+export type PendingMappingChange =
+  | { type: 'exercise-override'; exerciseName: string; muscleValues: ExerciseMuscleMapping }
+  | { type: 'user-mapping'; mapping: Omit<ExerciseMapping, 'id' | 'createdAt'> };
+
+/**
+ * Layers as they would be after saving a pending change, for previewing its effect
+ */
+export function applyPendingChange(
+  layers: MappingLayers,
+  change: PendingMappingChange
+): MappingLayers {
+  const now = new Date();
+
+  switch (change.type) {
+    case 'exercise-override': {
+      const existing = layers.exerciseOverrides.find((o) => o.exerciseName === change.exerciseName);
+      return {
+        ...layers,
+        exerciseOverrides: [
+          ...layers.exerciseOverrides.filter((o) => o.exerciseName !== change.exerciseName),
+          {
+            id: existing?.id ?? 'pending',
+            profileId: existing?.profileId ?? '',
+            exerciseName: change.exerciseName,
+            customMuscleValues: change.muscleValues,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+          },
+        ],
+      };
+    }
+    case 'user-mapping': {
+      const { mapping } = change;
+      const existing = layers.userMappings.find(
+        (m) => m.originalPattern === mapping.originalPattern
+      );
+      return {
+        ...layers,
+        userMappings: [
+          ...layers.userMappings.filter((m) => m.originalPattern !== mapping.originalPattern),
+          { ...mapping, id: existing?.id ?? 'pending', createdAt: existing?.createdAt ?? now },
+        ],
+      };
+    }
+  }
+}
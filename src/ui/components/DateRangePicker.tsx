@@ -0,0 +1,146 @@
+/**
+ * DateRangePicker Component
+ * Preset toggle, previous/next week navigation and custom range inputs for the Dashboard
+ */
+
+import {
+  createDateRange,
+  formatDateRange,
+  getRangeLengthInDays,
+  parseLocalDateKey,
+  rangeContains,
+  resolveDateWindow,
+  shiftDateRange,
+  toLocalDateKey,
+  type DateRange,
+  type ViewMode,
+} from '@core/date-range';
+
+export type RangePreset = ViewMode | 'custom';
+
+interface DateRangePickerProps {
+  range: DateRange;
+  preset: RangePreset;
+  onChange: (range: DateRange, preset: RangePreset) => void;
+}
+
+const PRESET_OPTIONS: { value: RangePreset; label: string }[] = [
+  { value: 'last7days', label: 'Last 7' },
+  { value: 'calendarWeek', label: 'Week' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const NAV_BUTTON_CLASS =
+  'rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-xs font-bold text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-white disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:bg-zinc-900 disabled:hover:text-zinc-400';
+
+const DATE_INPUT_CLASS =
+  'rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-xs text-white [color-scheme:dark] focus:border-cyan-500 focus:outline-none';
+
+/**
+ * Label for the selected range: preset name when it covers today, otherwise the dates
+ */
+export function getRangeLabel(range: DateRange, preset: RangePreset): string {
+  if (preset !== 'custom' && rangeContains(range, new Date())) {
+    return preset === 'calendarWeek' ? 'This Week' : 'Last 7 Days';
+  }
+  return formatDateRange(range);
+}
+
+export function DateRangePicker({
+  range,
+  preset,
+  onChange,
+}: DateRangePickerProps): React.ReactElement {
+  const today = new Date();
+  // Presets step a week at a time; custom ranges step by their own length
+  const step = preset === 'custom' ? getRangeLengthInDays(range) : 7;
+  const isCurrent = range.end >= today;
+
+  const handlePresetChange = (next: RangePreset): void => {
+    // Custom keeps the dates currently shown so they can be adjusted from there
+    onChange(next === 'custom' ? range : resolveDateWindow(next), next);
+  };
+
+  const handleDateChange = (bound: 'start' | 'end', value: string): void => {
+    const date = parseLocalDateKey(value);
+    if (!date) return;
+    onChange(
+      bound === 'start' ? createDateRange(date, range.end) : createDateRange(range.start, date),
+      'custom'
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div
+        className="flex gap-0 overflow-hidden rounded border border-zinc-700"
+        role="radiogroup"
+        aria-label="Date range"
+      >
+        {PRESET_OPTIONS.map((option, index) => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={preset === option.value}
+            onClick={() => handlePresetChange(option.value)}
+            className={`px-3 py-1 text-xs font-bold uppercase tracking-wider transition-all ${
+              index > 0 ? 'border-l border-zinc-700' : ''
+            } ${
+              preset === option.value
+                ? 'bg-cyan-500 text-zinc-950'
+                : 'bg-zinc-900 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => onChange(shiftDateRange(range, -step), preset)}
+          className={NAV_BUTTON_CLASS}
+          aria-label="Previous period"
+        >
+          ‹
+        </button>
+        {preset === 'custom' ? (
+          <>
+            <input
+              type="date"
+              value={toLocalDateKey(range.start)}
+              max={toLocalDateKey(range.end)}
+              onChange={(e) => handleDateChange('start', e.target.value)}
+              className={DATE_INPUT_CLASS}
+              aria-label="Start date"
+            />
+            <span className="text-xs text-zinc-500">–</span>
+            <input
+              type="date"
+              value={toLocalDateKey(range.end)}
+              min={toLocalDateKey(range.start)}
+              onChange={(e) => handleDateChange('end', e.target.value)}
+              className={DATE_INPUT_CLASS}
+              aria-label="End date"
+            />
+          </>
+        ) : (
+          <span className="min-w-[8rem] text-center text-xs font-semibold text-zinc-300">
+            {formatDateRange(range)}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => onChange(shiftDateRange(range, step), preset)}
+          disabled={isCurrent}
+          className={NAV_BUTTON_CLASS}
+          aria-label="Next period"
+        >
+          ›
+        </button>
+      </div>
+    </div>
+  );
+}
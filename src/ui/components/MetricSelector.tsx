@@ -0,0 +1,46 @@
+/**
+ * MetricSelector Component
+ * Segmented toggle between set-based and load-based volume metrics
+ */
+
+import type { VolumeMetric } from '@core/volume-calculator';
+
+interface MetricSelectorProps {
+  metric: VolumeMetric;
+  onChange: (metric: VolumeMetric) => void;
+}
+
+const METRIC_OPTIONS: { value: VolumeMetric; label: string }[] = [
+  { value: 'sets', label: 'Sets' },
+  { value: 'tonnage', label: 'Tonnage' },
+  { value: 'reps', label: 'Reps' },
+];
+
+export function MetricSelector({ metric, onChange }: MetricSelectorProps): React.ReactElement {
+  return (
+    <div
+      className="flex gap-0 overflow-hidden rounded border border-zinc-700"
+      role="radiogroup"
+      aria-label="Volume metric"
+    >
+      {METRIC_OPTIONS.map((option, index) => (
+        <button
+          key={option.value}
+          type="button"
+          role="radio"
+          aria-checked={metric === option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-2 py-1 text-[10px] font-bold uppercase tracking-wider transition-all ${
+            index > 0 ? 'border-l border-zinc-700' : ''
+          } ${
+            metric === option.value
+              ? 'bg-cyan-500 text-zinc-950'
+              : 'bg-zinc-900 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
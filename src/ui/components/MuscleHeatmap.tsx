@@ -4,17 +4,24 @@
  * Color is the primary signal - no floating cards or leader lines
  */
 
-import React, { useMemo, useId } from 'react';
-import { useScientificMuscleVolume, type ViewMode } from '@db/hooks/useVolumeStats';
+import React, { useMemo, useId, useState } from 'react';
+import {
+  useScientificMuscleVolume,
+  type DateRange,
+  type VolumeMode,
+} from '@db/hooks/useVolumeStats';
 import type { ScientificMuscle } from '@core/taxonomy';
+import type { VolumeMetric } from '@core/volume-calculator';
 import { getVolumeColor, getNoTargetColor } from '@core/color-scale';
 import Model from 'react-body-highlighter';
 import type { IExerciseData, Muscle } from 'react-body-highlighter';
+import { MetricSelector } from './MetricSelector';
 
 interface MuscleHeatmapProps {
   profileId: string | null;
   daysBack?: number;
-  viewMode?: ViewMode;
+  dateRange?: DateRange;
+  volumeMode?: VolumeMode;
 }
 
 /**
@@ -137,12 +144,24 @@ function getFrequencyLevel(percentage: number): number {
  *
  * @param profileId - Profile identifier to fetch muscle stats for; pass `null` to skip data retrieval
  * @param daysBack - Number of days to aggregate stats over (default: 7)
+ * @param dateRange - Custom date range; takes precedence over daysBack
  * @returns A React element containing the split anterior/posterior muscle heatmap
  */
-export function MuscleHeatmap({ profileId, daysBack = 7, viewMode }: MuscleHeatmapProps): React.ReactElement {
-  // Use viewMode if provided, otherwise fall back to daysBack
-  const volumeArg = viewMode ?? daysBack;
-  const { stats, isLoading, error } = useScientificMuscleVolume(profileId, volumeArg);
+export function MuscleHeatmap({
+  profileId,
+  daysBack = 7,
+  dateRange,
+  volumeMode = 'raw',
+}: MuscleHeatmapProps): React.ReactElement {
+  // Use dateRange if provided, otherwise fall back to daysBack
+  const volumeArg = dateRange ?? daysBack;
+  const [metric, setMetric] = useState<VolumeMetric>('sets');
+  const { stats, isLoading, error } = useScientificMuscleVolume(
+    profileId,
+    volumeArg,
+    volumeMode,
+    metric
+  );
 
   // Map stats to muscle-level data
   const muscleStats = useMemo((): MuscleStats[] => {
@@ -196,6 +215,11 @@ export function MuscleHeatmap({ profileId, daysBack = 7, viewMode }: MuscleHeatm
 
   return (
     <div className="relative">
+      {/* Metric Selector - load metrics are colored relative to the most-trained muscle */}
+      <div className="absolute right-0 top-0 z-10">
+        <MetricSelector metric={metric} onChange={setMetric} />
+      </div>
+
       {/* Split Body View - Color Only */}
       <SplitView regionStats={regionStatsForBody} />
     </div>
@@ -3,30 +3,60 @@
  * Displays volume stats for a single scientific muscle
  */
 
+import { Info } from 'lucide-react';
 import type { VolumeStatItem } from '@db/hooks/useVolumeStats';
+import {
+  formatMetricValue,
+  VOLUME_METRIC_UNITS,
+  type VolumeMetric,
+} from '@core/volume-calculator';
 
 interface MuscleVolumeCardProps {
   stat: VolumeStatItem;
+  metric?: VolumeMetric;
+  onExplain?: () => void; // Opens the volume breakdown for this muscle
 }
 
-export function MuscleVolumeCard({ stat }: MuscleVolumeCardProps): React.ReactElement {
-  const isBelowGoal = stat.volume < stat.goal;
-  const volumeDisplay = stat.volume % 1 === 0 ? stat.volume.toString() : stat.volume.toFixed(1);
+export function MuscleVolumeCard({
+  stat,
+  metric = 'sets',
+  onExplain,
+}: MuscleVolumeCardProps): React.ReactElement {
+  // Goals only apply to set counts
+  const isBelowGoal = metric === 'sets' && stat.volume < stat.goal;
+  const volumeDisplay = formatMetricValue(stat.volume, metric);
 
   return (
     <div className="rounded-lg bg-primary-700 p-4 shadow-sm">
       {/* Muscle Name */}
-      <h4 className="mb-1 text-sm font-medium text-primary-200">{stat.name}</h4>
+      <div className="mb-1 flex items-start justify-between gap-2">
+        <h4 className="text-sm font-medium text-primary-200">{stat.name}</h4>
+        {onExplain && stat.volume > 0 && (
+          <button
+            type="button"
+            onClick={onExplain}
+            className="shrink-0 text-primary-400 transition-colors hover:text-white"
+            aria-label={`Explain ${stat.name} volume`}
+            title="Where does this number come from?"
+          >
+            <Info className="h-4 w-4" />
+          </button>
+        )}
+      </div>
 
       {/* Volume Value */}
       <p
         className={`text-xl font-bold ${isBelowGoal ? 'text-accent-orange' : 'text-accent-cyan'}`}
       >
-        {volumeDisplay} sets
+        {volumeDisplay} {VOLUME_METRIC_UNITS[metric]}
       </p>
 
       {/* Goal */}
-      <p className="text-xs text-primary-300">Goal: {stat.goal}</p>
+      {metric === 'sets' ? (
+        <p className="text-xs text-primary-300">Goal: {stat.goal}</p>
+      ) : (
+        <p className="text-xs text-primary-300">{Math.round(stat.percentage)}% of top muscle</p>
+      )}
     </div>
   );
 }
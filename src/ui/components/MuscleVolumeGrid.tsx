@@ -3,13 +3,25 @@
  * Grid layout of MuscleVolumeCards showing scientific muscles
  */
 
+import { useState } from 'react';
 import { MuscleVolumeCard } from './MuscleVolumeCard';
+import { MetricSelector } from './MetricSelector';
+import { VolumeTraceModal } from './VolumeTraceModal';
 import { useScientificMuscleVolume } from '@db/hooks/useVolumeStats';
+import type { VolumeMetric } from '@core/volume-calculator';
+import type { ScientificMuscle } from '@core/taxonomy';
 import { useCurrentProfile } from '../context/ProfileContext';
 
 export function MuscleVolumeGrid(): React.ReactElement {
   const { currentProfile } = useCurrentProfile();
-  const { stats, isLoading, error } = useScientificMuscleVolume(currentProfile?.id ?? null);
+  const [metric, setMetric] = useState<VolumeMetric>('sets');
+  const [explainedMuscle, setExplainedMuscle] = useState<ScientificMuscle | null>(null);
+  const { stats, isLoading, error } = useScientificMuscleVolume(
+    currentProfile?.id ?? null,
+    7,
+    'raw',
+    metric
+  );
 
   if (isLoading) {
     return (
@@ -30,10 +42,28 @@ export function MuscleVolumeGrid(): React.ReactElement {
   }
 
   return (
-    <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
-      {stats.map((stat) => (
-        <MuscleVolumeCard key={stat.name} stat={stat} />
-      ))}
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <MetricSelector metric={metric} onChange={setMetric} />
+      </div>
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+        {stats.map((stat) => (
+          <MuscleVolumeCard
+            key={stat.name}
+            stat={stat}
+            metric={metric}
+            onExplain={() => setExplainedMuscle(stat.name as ScientificMuscle)}
+          />
+        ))}
+      </div>
+
+      <VolumeTraceModal
+        profileId={currentProfile?.id ?? null}
+        muscle={explainedMuscle}
+        onClose={() => setExplainedMuscle(null)}
+        dateWindow={7}
+        metric={metric}
+      />
     </div>
   );
 }
@@ -0,0 +1,88 @@
+/**
+ * PersonalRecordList Component
+ * Compact list of personal records, each linking to the exercise history
+ */
+
+import { Link } from 'react-router-dom';
+import type { PersonalRecord } from '@db/schema';
+import type { PersonalRecordType } from '@core/personal-records';
+
+interface PersonalRecordListProps {
+  records: PersonalRecord[];
+  showDate?: boolean;
+}
+
+const RECORD_TYPE_LABELS: Record<PersonalRecordType, string> = {
+  weight: 'Weight',
+  reps: 'Reps',
+  e1rm: 'e1RM',
+  sessionVolume: 'Volume',
+};
+
+/**
+ * Round to one decimal place, dropping a trailing zero
+ */
+function round(value: number): string {
+  return (Math.round(value * 10) / 10).toString();
+}
+
+/**
+ * Describe the record value and its improvement over the previous best
+ */
+function describeRecord(record: PersonalRecord): { value: string; improvement: string } {
+  const delta = round(record.value - record.previousValue);
+
+  switch (record.type) {
+    case 'weight':
+      return { value: `${round(record.value)} kg × ${record.reps}`, improvement: `+${delta} kg` };
+    case 'reps':
+      return {
+        value: `${round(record.weight)} kg × ${record.value}`,
+        improvement: `+${delta} rep${delta === '1' ? '' : 's'}`,
+      };
+    case 'e1rm':
+      return { value: `${round(record.value)} kg`, improvement: `+${delta} kg` };
+    case 'sessionVolume':
+      return {
+        value: `${Math.round(record.value)} kg`,
+        improvement: `+${Math.round(record.value - record.previousValue)} kg`,
+      };
+  }
+}
+
+export function PersonalRecordList({
+  records,
+  showDate = true,
+}: PersonalRecordListProps): React.ReactElement {
+  return (
+    <ul className="divide-y divide-zinc-800">
+      {records.map((record) => {
+        const { value, improvement } = describeRecord(record);
+
+        return (
+          <li key={record.id} className="flex items-center justify-between gap-3 py-2">
+            <div className="min-w-0">
+              <Link
+                to={`/exercises/${record.exerciseId}`}
+                className="block truncate text-sm font-semibold text-white transition-colors hover:text-cyan-400"
+              >
+                {record.originalName}
+              </Link>
+              <p className="text-xs text-zinc-500">
+                <span className="font-bold uppercase tracking-wider text-amber-500">
+                  {RECORD_TYPE_LABELS[record.type]}
+                </span>
+                {showDate &&
+                  ` · ${record.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+              </p>
+            </div>
+            <div className="shrink-0 text-right">
+              <p className="font-mono text-sm font-bold text-white">{value}</p>
+              <p className="text-xs text-green-400">{improvement}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
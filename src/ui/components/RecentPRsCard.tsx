@@ -0,0 +1,35 @@
+/**
+ * RecentPRsCard Component
+ * Shows the latest personal records detected on import/sync
+ */
+
+import { useRecentPersonalRecords } from '@db/hooks/usePersonalRecords';
+import { useCurrentProfile } from '../context/ProfileContext';
+import { PersonalRecordList } from './PersonalRecordList';
+
+interface RecentPRsCardProps {
+  limit?: number;
+}
+
+export function RecentPRsCard({ limit = 5 }: RecentPRsCardProps): React.ReactElement | null {
+  const { currentProfile } = useCurrentProfile();
+  const { records, isLoading } = useRecentPersonalRecords(currentProfile?.id ?? null, limit);
+
+  if (isLoading) {
+    return <div className="min-h-[72px] animate-pulse rounded-lg bg-zinc-900" />;
+  }
+
+  // Nothing to celebrate yet - keep the dashboard uncluttered
+  if (records.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border-2 border-zinc-800 bg-zinc-950 px-4 py-3">
+      <p className="text-xs font-bold uppercase tracking-wider text-zinc-400">Recent PRs</p>
+      <div className="mt-1">
+        <PersonalRecordList records={records} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * RecommendationsCard Component
+ * Suggests exercises and set counts that close the range's under-goal muscles
+ */
+
+import {
+  useExerciseRecommendations,
+  type DateRange,
+  type VolumeMode,
+} from '@db/hooks/useVolumeStats';
+import { useCurrentProfile } from '../context/ProfileContext';
+
+interface RecommendationsCardProps {
+  dateRange: DateRange;
+  volumeMode: VolumeMode;
+}
+
+export function RecommendationsCard({
+  dateRange,
+  volumeMode,
+}: RecommendationsCardProps): React.ReactElement | null {
+  const { currentProfile } = useCurrentProfile();
+  const { plan, isLoading } = useExerciseRecommendations(
+    currentProfile?.id ?? null,
+    dateRange,
+    volumeMode
+  );
+
+  if (isLoading) {
+    return <div className="min-h-[72px] animate-pulse rounded-lg bg-zinc-900" />;
+  }
+
+  // Every muscle is at goal (or no goals are set) - nothing to recommend
+  if (!plan || plan.recommendations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border-2 border-zinc-800 bg-zinc-950 px-4 py-3">
+      <p className="text-xs font-bold uppercase tracking-wider text-zinc-400">Close the Gaps</p>
+      <ul className="mt-2 divide-y divide-zinc-800">
+        {plan.recommendations.map((rec) => (
+          <li key={rec.exerciseId} className="flex items-baseline gap-3 py-1.5">
+            <span className="w-14 shrink-0 font-mono text-sm font-bold text-cyan-400">
+              {rec.sets} {rec.sets === 1 ? 'set' : 'sets'}
+            </span>
+            <div className="min-w-0 flex-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-white">{rec.exerciseName}</span>
+                {rec.isFamiliar && (
+                  <span className="rounded bg-zinc-800 px-1.5 py-0.5 text-[10px] uppercase tracking-wider text-zinc-400">
+                    Done before
+                  </span>
+                )}
+              </div>
+              <p className="truncate text-xs text-zinc-500">{rec.targets.join(', ')}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
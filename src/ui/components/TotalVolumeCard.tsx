@@ -1,28 +1,49 @@
 /**
  * TotalVolumeCard Component
- * Shows total weekly volume with progress bar
+ * Shows total volume for the selected range with progress bar
  */
 
-import { useFunctionalGroupVolume, type ViewMode } from '@db/hooks/useVolumeStats';
+import { useState } from 'react';
+import {
+  useFunctionalGroupVolume,
+  type DateRange,
+  type VolumeMode,
+} from '@db/hooks/useVolumeStats';
+import {
+  formatMetricValue,
+  VOLUME_METRIC_UNITS,
+  type VolumeMetric,
+} from '@core/volume-calculator';
+import { getRangeLengthInDays } from '@core/date-range';
 import { useCurrentProfile } from '../context/ProfileContext';
+import { MetricSelector } from './MetricSelector';
 
 interface TotalVolumeCardProps {
-  viewMode?: ViewMode;
+  dateRange?: DateRange;
+  volumeMode?: VolumeMode;
 }
 
-export function TotalVolumeCard({ viewMode = 'last7days' }: TotalVolumeCardProps): React.ReactElement {
+export function TotalVolumeCard({
+  dateRange,
+  volumeMode = 'raw',
+}: TotalVolumeCardProps): React.ReactElement {
   const { currentProfile } = useCurrentProfile();
+  const [metric, setMetric] = useState<VolumeMetric>('sets');
   const { totalVolume, totalGoal, isLoading } = useFunctionalGroupVolume(
     currentProfile?.id ?? null,
-    viewMode
+    dateRange ?? 'last7days',
+    volumeMode,
+    metric
   );
+  // The target is scaled to the range, so only call it weekly for one-week ranges
+  const isWeekly = !dateRange || getRangeLengthInDays(dateRange) === 7;
 
   if (isLoading) {
     return <div className="min-h-[72px] animate-pulse rounded-lg bg-zinc-900" />;
   }
 
   const percentage = totalGoal > 0 ? Math.min((totalVolume / totalGoal) * 100, 100) : 0;
-  const volumeDisplay = totalVolume % 1 === 0 ? totalVolume : totalVolume.toFixed(1);
+  const volumeDisplay = formatMetricValue(totalVolume, metric);
 
   // Progress bar color reflects status (VIS-02: consistent accent, VIS-01: green at goal)
   const getProgressBarClass = (): string => {
@@ -36,28 +57,35 @@ export function TotalVolumeCard({ viewMode = 'last7days' }: TotalVolumeCardProps
       <div className="flex items-center justify-between gap-3">
         <div>
           <p className="text-xs font-bold uppercase tracking-wider text-zinc-400">
-            Total Weekly Volume
+            {volumeMode === 'effective' ? 'Effective' : 'Total'}
+            {isWeekly ? ' Weekly Volume' : ' Volume'}
           </p>
           <div className="mt-1 flex items-baseline gap-2">
             <span className="text-2xl font-black text-white">{volumeDisplay}</span>
             <span className="text-xs font-semibold uppercase tracking-wider text-zinc-400">
-              sets
+              {VOLUME_METRIC_UNITS[metric]}
             </span>
           </div>
         </div>
-        <div className="text-right">
-          <p className="text-xs font-semibold text-zinc-400">Target {totalGoal}</p>
-          <p className="text-[10px] uppercase tracking-wider text-zinc-600">sets/week</p>
+        <div className="flex flex-col items-end gap-1 text-right">
+          <MetricSelector metric={metric} onChange={setMetric} />
+          {metric === 'sets' && (
+            <p className="text-xs font-semibold text-zinc-400">
+              Target {totalGoal} sets{isWeekly ? '/week' : ''}
+            </p>
+          )}
         </div>
       </div>
 
-      {/* Progress Bar */}
-      <div className="mt-2 h-2 overflow-hidden rounded-full bg-zinc-800">
-        <div
-          className={`h-full rounded-full transition-all duration-500 ${getProgressBarClass()}`}
-          style={{ width: `${percentage}%` }}
-        />
-      </div>
+      {/* Progress Bar (goals are set counts, so only shown for sets) */}
+      {metric === 'sets' && (
+        <div className="mt-2 h-2 overflow-hidden rounded-full bg-zinc-800">
+          <div
+            className={`h-full rounded-full transition-all duration-500 ${getProgressBarClass()}`}
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,85 @@
+/**
+ * VolumeTraceModal Component
+ * Modal wrapper around VolumeTracePanel for drilling into a muscle's volume
+ */
+
+import { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { VolumeTracePanel } from './VolumeTracePanel';
+import type { DateWindow, VolumeMode } from '@db/hooks/useVolumeStats';
+import type { VolumeMetric } from '@core/volume-calculator';
+import type { ScientificMuscle } from '@core/taxonomy';
+
+interface VolumeTraceModalProps {
+  profileId: string | null;
+  muscle: ScientificMuscle | null;
+  onClose: () => void;
+  dateWindow?: DateWindow;
+  volumeMode?: VolumeMode;
+  metric?: VolumeMetric;
+}
+
+export function VolumeTraceModal({
+  profileId,
+  muscle,
+  onClose,
+  dateWindow,
+  volumeMode,
+  metric,
+}: VolumeTraceModalProps): React.ReactElement | null {
+  // Escape key dismiss
+  useEffect(() => {
+    if (!muscle) return;
+
+    const handleEscape = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return (): void => window.removeEventListener('keydown', handleEscape);
+  }, [muscle, onClose]);
+
+  if (!muscle) {
+    return null;
+  }
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="w-full max-w-2xl overflow-hidden rounded-lg bg-primary-800">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-primary-600 p-4">
+          <div>
+            <p className="text-xs uppercase tracking-wider text-primary-400">Volume breakdown</p>
+            <h3 className="text-lg font-semibold text-white">{muscle}</h3>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-primary-400 transition-colors hover:text-white"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Scrollable trace */}
+        <div className="max-h-[70vh] overflow-y-auto p-4">
+          <VolumeTracePanel
+            profileId={profileId}
+            muscle={muscle}
+            dateWindow={dateWindow}
+            volumeMode={volumeMode}
+            metric={metric}
+          />
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * VolumeTracePanel Component
+ * Explains a muscle's volume: every set that contributed, grouped by workout,
+ * with the mapping layer that supplied each exercise's muscle values
+ */
+
+import { Link } from 'react-router-dom';
+import {
+  useVolumeTrace,
+  type DateWindow,
+  type TracedContribution,
+  type VolumeMode,
+} from '@db/hooks/useVolumeStats';
+import { formatMetricValue, VOLUME_METRIC_UNITS, type VolumeMetric } from '@core/volume-calculator';
+import type { ScientificMuscle } from '@core/taxonomy';
+
+interface VolumeTracePanelProps {
+  profileId: string | null;
+  muscle: ScientificMuscle;
+  dateWindow?: DateWindow;
+  volumeMode?: VolumeMode;
+  metric?: VolumeMetric;
+}
+
+interface WorkoutTrace {
+  workoutId: string;
+  title: string;
+  date: Date;
+  volume: number;
+  entries: TracedContribution[];
+}
+
+/**
+ * Label and badge color for the mapping layer of a contribution
+ */
+function describeSource(entry: TracedContribution): { label: string; className: string } {
+  switch (entry.source) {
+    case 'user-custom':
+      return { label: 'Custom', className: 'bg-purple-900 text-purple-200' };
+    case 'user-canonical':
+      return {
+        label: `Mapped → ${entry.canonicalExerciseId}`,
+        className: 'bg-cyan-900 text-cyan-200',
+      };
+    case 'name-mapping':
+      return {
+        label: `Name → ${entry.canonicalExerciseId}`,
+        className: 'bg-cyan-900 text-cyan-200',
+      };
+    case 'rule':
+      return {
+        label: `Rule → ${entry.canonicalExerciseId}`,
+        className: 'bg-cyan-900 text-cyan-200',
+      };
+    default:
+      if (entry.isOverridden) {
+        return { label: 'Override', className: 'bg-amber-900 text-amber-200' };
+      }
+      return entry.isVariationFallback
+        ? { label: 'Base exercise', className: 'bg-primary-600 text-primary-200' }
+        : { label: 'Canonical', className: 'bg-primary-600 text-primary-200' };
+  }
+}
+
+/**
+ * Format a single contribution; set fractions keep two decimals
+ */
+function formatContribution(value: number, metric: VolumeMetric): string {
+  return metric === 'sets'
+    ? (Math.round(value * 100) / 100).toString()
+    : formatMetricValue(value, metric);
+}
+
+/**
+ * Group trace entries by workout, keeping their (oldest first) order
+ */
+function groupByWorkout(entries: TracedContribution[]): WorkoutTrace[] {
+  const workouts = new Map<string, WorkoutTrace>();
+
+  for (const entry of entries) {
+    let workout = workouts.get(entry.workoutId);
+    if (!workout) {
+      workout = {
+        workoutId: entry.workoutId,
+        title: entry.workoutTitle,
+        date: entry.date,
+        volume: 0,
+        entries: [],
+      };
+      workouts.set(entry.workoutId, workout);
+    }
+    workout.volume += entry.volume;
+    workout.entries.push(entry);
+  }
+
+  return Array.from(workouts.values());
+}
+
+export function VolumeTracePanel({
+  profileId,
+  muscle,
+  dateWindow = 7,
+  volumeMode = 'raw',
+  metric = 'sets',
+}: VolumeTracePanelProps): React.ReactElement {
+  const { entries, total, isLoading, error } = useVolumeTrace(
+    profileId,
+    muscle,
+    dateWindow,
+    volumeMode,
+    metric
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary-300 border-t-white" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="rounded bg-red-800 p-3 text-red-100">{error.message}</div>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-primary-300">
+        No sets contributed to {muscle} in this period.
+      </p>
+    );
+  }
+
+  const workouts = groupByWorkout(entries);
+  const unit = VOLUME_METRIC_UNITS[metric];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-primary-200">
+        <span className="font-semibold text-white">
+          {formatMetricValue(total, metric)} {unit}
+        </span>{' '}
+        from {entries.length} set{entries.length === 1 ? '' : 's'} in {workouts.length} workout
+        {workouts.length === 1 ? '' : 's'}
+        {volumeMode === 'effective' && ' (effective sets)'}
+      </p>
+
+      {workouts.map((workout) => (
+        <div key={workout.workoutId}>
+          <div className="mb-1 flex items-baseline justify-between gap-2 border-b border-primary-600 pb-1">
+            <span className="truncate text-sm font-medium text-white">
+              {workout.date.toLocaleDateString('en-US', {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric',
+              })}{' '}
+              · {workout.title}
+            </span>
+            <span className="shrink-0 font-mono text-sm text-white">
+              {formatContribution(workout.volume, metric)}
+            </span>
+          </div>
+
+          <table className="w-full text-xs">
+            <tbody className="text-primary-200">
+              {workout.entries.map((entry) => {
+                const source = describeSource(entry);
+
+                return (
+                  <tr key={entry.setIndex}>
+                    <td className="w-8 py-1 text-primary-400">#{entry.setIndex + 1}</td>
+                    <td className="py-1">
+                      <Link
+                        to={`/exercises/${entry.exerciseId}`}
+                        className="transition-colors hover:text-white"
+                      >
+                        {entry.originalName}
+                      </Link>
+                      {entry.setType !== 'normal' && (
+                        <span className="ml-1 text-primary-400">({entry.setType})</span>
+                      )}
+                    </td>
+                    <td className="py-1">
+                      <span className={`rounded px-1.5 py-0.5 ${source.className}`}>
+                        {source.label}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap py-1 text-right font-mono text-primary-400">
+                      {formatContribution(entry.setValue, metric)} × {Math.round(entry.share * 100)}
+                      %
+                    </td>
+                    <td className="w-14 py-1 text-right font-mono text-white">
+                      {formatContribution(entry.volume, metric)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * VolumeTrendCard Component
+ * Small line chart of weekly volume for one muscle or group, with its goal line
+ */
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  ResponsiveContainer,
+  Tooltip,
+  ReferenceLine,
+} from 'recharts';
+import { averageVolume } from '@core/volume-trends';
+
+export interface VolumeTrendDatum {
+  label: string;
+  volume: number;
+}
+
+interface VolumeTrendCardProps {
+  name: string;
+  data: VolumeTrendDatum[];
+  goal: number;
+}
+
+/**
+ * Round to one decimal place for display
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function VolumeTrendCard({ name, data, goal }: VolumeTrendCardProps): React.ReactElement {
+  // The current week is still in progress, so the average covers completed weeks only
+  const completed = data.slice(0, -1).map((d) => d.volume);
+  const average = round(averageVolume(completed));
+  const current = round(data[data.length - 1]?.volume ?? 0);
+  const maxVolume = Math.max(goal, ...data.map((d) => d.volume));
+
+  const averageClass =
+    goal > 0 && average >= goal
+      ? 'text-status-success'
+      : goal > 0 && average >= goal * 0.75
+        ? 'text-amber-400'
+        : 'text-white';
+
+  return (
+    <div className="rounded-lg border-2 border-zinc-800 bg-zinc-950 px-4 py-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <h4 className="truncate text-xs font-bold uppercase tracking-wider text-zinc-300">
+          {name}
+        </h4>
+        <p className="shrink-0 text-xs text-zinc-500">
+          <span className={`font-mono font-bold ${averageClass}`}>{average}</span> avg · goal{' '}
+          <span className="font-mono">{goal}</span>
+        </p>
+      </div>
+      <p className="text-[10px] uppercase tracking-wider text-zinc-600">
+        This week so far: <span className="font-mono text-zinc-400">{current}</span>
+      </p>
+
+      <ResponsiveContainer width="100%" height={120}>
+        <LineChart data={data} margin={{ top: 8, right: 4, left: -28, bottom: 0 }}>
+          <XAxis
+            dataKey="label"
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: '#52525b', fontSize: 9, fontWeight: 600 }}
+            minTickGap={12}
+          />
+          <YAxis
+            axisLine={false}
+            tickLine={false}
+            tick={{ fill: '#52525b', fontSize: 9, fontWeight: 600 }}
+            domain={[0, Math.ceil(maxVolume)]}
+            allowDecimals={false}
+          />
+          <Tooltip
+            contentStyle={{ background: '#09090b', border: '1px solid #27272a', fontSize: 11 }}
+            labelStyle={{ color: '#22d3ee', fontWeight: 700 }}
+            formatter={(value) => [round(Number(value)), 'Sets']}
+          />
+          {goal > 0 && (
+            <ReferenceLine y={goal} stroke="#22c55e" strokeDasharray="4 4" strokeOpacity={0.7} />
+          )}
+          <Line
+            type="monotone"
+            dataKey="volume"
+            stroke="#06b6d4"
+            strokeWidth={2}
+            dot={{ r: 2 }}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -4,16 +4,15 @@
  */
 
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Cell, Tooltip } from 'recharts';
 import { useDailyStats, type DailyActivity } from '../../db/hooks/useDailyStats';
+import { getDateRangeKey, type DateRange } from '@core/date-range';
 import { useCurrentProfile } from '../context/ProfileContext';
 
-type ViewMode = 'last7days' | 'calendarWeek';
-
 interface WeeklyActivityChartProps {
   profileId?: string;
-  viewMode?: ViewMode;
-  onViewModeChange?: (mode: ViewMode) => void;
+  dateRange?: DateRange; // Defaults to the last 7 days
 }
 
 interface CustomTooltipProps {
@@ -133,7 +132,12 @@ function DayDetailPanel({ day, onClose }: DayDetailPanelProps): React.ReactEleme
                   {workout.exercises.map(
                     (exercise: DailyActivity['workouts'][0]['exercises'][0], idx: number) => (
                       <div key={idx} className="flex items-center justify-between text-xs">
-                        <span className="text-zinc-400">{exercise.name}</span>
+                        <Link
+                          to={`/exercises/${exercise.exerciseId}`}
+                          className="text-zinc-400 transition-colors hover:text-cyan-400"
+                        >
+                          {exercise.name}
+                        </Link>
                         <span className="font-bold text-cyan-400">
                           {exercise.sets} set{exercise.sets > 1 ? 's' : ''}
                         </span>
@@ -155,34 +159,34 @@ function DayDetailPanel({ day, onClose }: DayDetailPanelProps): React.ReactEleme
  */
 export function WeeklyActivityChart({
   profileId: propProfileId,
-  viewMode: controlledViewMode,
-  onViewModeChange,
+  dateRange,
 }: WeeklyActivityChartProps): React.ReactElement {
   const { currentProfile } = useCurrentProfile();
   const profileId = propProfileId ?? currentProfile?.id ?? null;
 
-  // Support both controlled and uncontrolled modes
-  const [internalViewMode, setInternalViewMode] = useState<ViewMode>('last7days');
-  const viewMode = controlledViewMode ?? internalViewMode;
-  const setViewMode = (mode: ViewMode): void => {
-    if (onViewModeChange) {
-      onViewModeChange(mode);
-    } else {
-      setInternalViewMode(mode);
-    }
-  };
-
   const [selectedDayIndex, setSelectedDayIndex] = useState<number | null>(null);
 
-  const { days, isLoading, error } = useDailyStats(profileId, { mode: viewMode });
+  // Clear the selected day when navigating to another range
+  const rangeKey = dateRange ? getDateRangeKey(dateRange).join('-') : 'last7days';
+  const [selectionRangeKey, setSelectionRangeKey] = useState(rangeKey);
+  if (selectionRangeKey !== rangeKey) {
+    setSelectionRangeKey(rangeKey);
+    setSelectedDayIndex(null);
+  }
+
+  const { days, isLoading, error } = useDailyStats(
+    profileId,
+    dateRange ? { range: dateRange } : { mode: 'last7days' }
+  );
+  // Weekday labels are ambiguous beyond one week, so longer ranges show dates
+  const isWeekly = days.length <= 7;
+  const title = isWeekly ? 'Weekly Activity' : 'Activity';
 
   if (isLoading) {
     return (
       <div className="rounded-lg border-2 border-zinc-800 bg-zinc-950 p-4">
         <div className="mb-4 flex items-center justify-between">
-          <h3 className="text-sm font-black uppercase tracking-wider text-white">
-            Weekly Activity
-          </h3>
+          <h3 className="text-sm font-black uppercase tracking-wider text-white">{title}</h3>
         </div>
         <ChartSkeleton />
       </div>
@@ -210,39 +214,9 @@ export function WeeklyActivityChart({
 
   return (
     <div className="rounded-lg border-2 border-zinc-800 bg-zinc-950">
-      {/* Header with View Toggle */}
+      {/* Header */}
       <div className="flex items-center justify-between border-b border-zinc-800 px-4 py-3">
-        <h3 className="text-sm font-black uppercase tracking-wider text-white">Weekly Activity</h3>
-
-        {/* View Mode Toggle */}
-        <div className="flex gap-0 overflow-hidden rounded border border-zinc-700">
-          <button
-            onClick={() => {
-              setViewMode('last7days');
-              setSelectedDayIndex(null);
-            }}
-            className={`px-3 py-1 text-xs font-bold uppercase tracking-wider transition-all ${
-              viewMode === 'last7days'
-                ? 'bg-cyan-500 text-zinc-950'
-                : 'bg-zinc-900 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
-            }`}
-          >
-            Last 7
-          </button>
-          <button
-            onClick={() => {
-              setViewMode('calendarWeek');
-              setSelectedDayIndex(null);
-            }}
-            className={`border-l border-zinc-700 px-3 py-1 text-xs font-bold uppercase tracking-wider transition-all ${
-              viewMode === 'calendarWeek'
-                ? 'bg-cyan-500 text-zinc-950'
-                : 'bg-zinc-900 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
-            }`}
-          >
-            This Week
-          </button>
-        </div>
+        <h3 className="text-sm font-black uppercase tracking-wider text-white">{title}</h3>
       </div>
 
       {/* Chart */}
@@ -253,7 +227,13 @@ export function WeeklyActivityChart({
           <ResponsiveContainer width="100%" height={240}>
             <BarChart data={chartData} margin={{ top: 10, right: 0, left: -20, bottom: 0 }}>
               <XAxis
-                dataKey="dayLabel"
+                dataKey={isWeekly ? 'dayLabel' : 'date'}
+                tickFormatter={
+                  isWeekly
+                    ? undefined
+                    : (date: Date): string =>
+                        date.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })
+                }
                 axisLine={false}
                 tickLine={false}
                 tick={{
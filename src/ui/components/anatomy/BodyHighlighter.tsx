@@ -218,3 +218,5 @@ export function BodyHighlighter({
     </>
   );
 }
+
+export type { BodyRegion, RegionStats };
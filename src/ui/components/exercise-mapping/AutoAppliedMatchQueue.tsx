@@ -0,0 +1,115 @@
+/**
+ * Auto-Applied Match Queue Component
+ * Lists mappings auto-match created on import so each can be confirmed or reverted
+ */
+
+import { useMemo } from 'react';
+import {
+  useAutoAppliedMatches,
+  useConfirmAutoAppliedMatches,
+  useRevertAutoAppliedMatch,
+  isAutoAppliedMappingIntact,
+} from '@db/hooks/useAutoAppliedMatches';
+import { useExerciseMappings } from '@db/hooks/useExerciseMappings';
+import type { AutoAppliedMatch } from '@db/schema';
+
+interface AutoAppliedMatchQueueProps {
+  profileId: string;
+}
+
+export function AutoAppliedMatchQueue({
+  profileId,
+}: AutoAppliedMatchQueueProps): React.ReactElement | null {
+  const { matches } = useAutoAppliedMatches(profileId);
+  const { mappings } = useExerciseMappings(profileId);
+  const { confirmMatches, isConfirming } = useConfirmAutoAppliedMatches();
+  const { revertMatch, isReverting } = useRevertAutoAppliedMatch();
+
+  const mappingsById = useMemo(() => new Map(mappings.map((m) => [m.id, m])), [mappings]);
+  const isBusy = isConfirming || isReverting;
+
+  const handleConfirm = async (toConfirm: AutoAppliedMatch[]): Promise<void> => {
+    try {
+      await confirmMatches(toConfirm);
+    } catch (error) {
+      console.error('Failed to confirm auto-applied match:', error);
+    }
+  };
+
+  const handleRevert = async (match: AutoAppliedMatch): Promise<void> => {
+    try {
+      await revertMatch(match);
+    } catch (error) {
+      console.error('Failed to revert auto-applied match:', error);
+    }
+  };
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="border-2 border-cyan-500 bg-zinc-900">
+      <div className="flex items-center justify-between border-b-2 border-zinc-700 p-4">
+        <div>
+          <div className="font-mono text-xs uppercase tracking-widest text-cyan-500">
+            Auto-Applied on Import
+          </div>
+          <p className="mt-1 font-mono text-sm text-zinc-500">
+            {matches.length} {matches.length === 1 ? 'mapping' : 'mappings'} to confirm or revert
+          </p>
+        </div>
+        <button
+          onClick={() => void handleConfirm(matches)}
+          disabled={isBusy}
+          className="border-2 border-cyan-500 bg-cyan-500 px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-zinc-900 transition-all hover:bg-cyan-400 disabled:opacity-50"
+        >
+          Confirm All
+        </button>
+      </div>
+
+      <div className="divide-y divide-zinc-800">
+        {matches.map((match) => {
+          const isIntact = isAutoAppliedMappingIntact(match, mappingsById.get(match.mappingId));
+
+          return (
+            <div key={match.id} className="flex items-center gap-4 p-4 font-mono">
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-bold text-white">
+                    {match.unmappedExercise.originalName}
+                  </span>
+                  <span className="text-cyan-400">→ {match.suggestedName}</span>
+                  <span className="text-xs text-zinc-500">
+                    {Math.round(match.confidence * 100)}%
+                  </span>
+                </div>
+                <div className="mt-1 text-xs text-zinc-500">
+                  {isIntact
+                    ? match.matchReason
+                    : 'Mapping changed since it was applied; nothing to revert'}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <button
+                  onClick={() => void handleConfirm([match])}
+                  disabled={isBusy}
+                  className="px-3 py-1 text-xs uppercase text-cyan-500 transition-colors hover:text-cyan-300 disabled:opacity-50"
+                >
+                  {isIntact ? 'Confirm' : 'Dismiss'}
+                </button>
+                {isIntact && (
+                  <button
+                    onClick={() => void handleRevert(match)}
+                    disabled={isBusy}
+                    className="px-3 py-1 text-xs uppercase text-red-500 transition-colors hover:text-red-400 disabled:opacity-50"
+                  >
+                    Revert
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
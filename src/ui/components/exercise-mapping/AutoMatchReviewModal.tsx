@@ -5,6 +5,7 @@
 
 import { useState } from 'react';
 import { useCreateExerciseMapping } from '@db/hooks/useExerciseMappings';
+import { useRecordAutoMatchDecision } from '@db/hooks/useAutoMatchLearning';
 import { ExerciseSearchModal } from './ExerciseSearchModal';
 import type { AutoMatchSuggestion } from '@core/exercise-auto-match';
 import type { UnmappedExercise } from '@db/schema';
@@ -26,6 +27,12 @@ export function AutoMatchReviewModal({
   const [processingId, setProcessingId] = useState<string | null>(null);
   const [editingSuggestion, setEditingSuggestion] = useState<AutoMatchSuggestion | null>(null);
   const { createMapping, isCreating } = useCreateExerciseMapping();
+  const { recordDecision } = useRecordAutoMatchDecision();
+
+  // Hevy template of the suggestion's exercise, so the mapping survives renames
+  const getTemplateId = (suggestion: AutoMatchSuggestion): string | undefined =>
+    unmappedExercises.find((ex) => ex.normalizedName === suggestion.unmappedNormalizedName)
+      ?.templateId;
 
   // Handle accepting a single suggestion
   const handleAcceptSuggestion = async (suggestion: AutoMatchSuggestion): Promise<void> => {
@@ -34,10 +41,12 @@ export function AutoMatchReviewModal({
       await createMapping({
         profileId,
         originalPattern: suggestion.unmappedNormalizedName,
+        templateId: getTemplateId(suggestion),
         canonicalExerciseId: suggestion.suggestedCanonicalId,
         customMuscleValues: null,
         isIgnored: false,
       });
+      await recordDecision({ profileId, suggestion, action: 'accept' });
 
       // Remove from remaining suggestions
       setRemainingSuggestions((prev) =>
@@ -50,7 +59,22 @@ export function AutoMatchReviewModal({
     }
   };
 
-  // Handle skipping a suggestion
+  // Handle rejecting a suggestion, so it isn't suggested again for this exercise
+  const handleRejectSuggestion = async (suggestion: AutoMatchSuggestion): Promise<void> => {
+    setProcessingId(suggestion.unmappedNormalizedName);
+    try {
+      await recordDecision({ profileId, suggestion, action: 'reject' });
+      setRemainingSuggestions((prev) =>
+        prev.filter((s) => s.unmappedNormalizedName !== suggestion.unmappedNormalizedName)
+      );
+    } catch (error) {
+      console.error('Failed to reject suggestion:', error);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  // Handle skipping a suggestion (no decision is recorded)
   const handleSkipSuggestion = (suggestion: AutoMatchSuggestion): void => {
     setRemainingSuggestions((prev) =>
       prev.filter((s) => s.unmappedNormalizedName !== suggestion.unmappedNormalizedName)
@@ -70,10 +94,12 @@ export function AutoMatchReviewModal({
         await createMapping({
           profileId,
           originalPattern: suggestion.unmappedNormalizedName,
+          templateId: getTemplateId(suggestion),
           canonicalExerciseId: suggestion.suggestedCanonicalId,
           customMuscleValues: null,
           isIgnored: false,
         });
+        await recordDecision({ profileId, suggestion, action: 'accept' });
       } catch (error) {
         console.error('Failed to accept suggestion:', error);
       }
@@ -110,6 +136,10 @@ export function AutoMatchReviewModal({
           unmappedExercise={unmappedExercise}
           prefillFromExercise={editingSuggestion.suggestedCanonicalName}
           onClose={() => {
+            // Learn from whatever was saved for this exercise
+            void recordDecision({ profileId, suggestion: editingSuggestion, action: 'edit' }).catch(
+              (error: unknown) => console.error('Failed to record edit:', error)
+            );
             // Remove this suggestion from the list (it's been handled - either mapped or skipped)
             setRemainingSuggestions((prev) =>
               prev.filter((s) => s.unmappedNormalizedName !== editingSuggestion.unmappedNormalizedName)
@@ -284,7 +314,7 @@ export function AutoMatchReviewModal({
                         <div className="mt-1.5 h-1.5 w-1.5 shrink-0 rounded-full bg-cyan-500" />
                         <div className="flex-1">
                           <div className="mb-1 font-mono text-xs uppercase tracking-wider text-cyan-600">
-                            Suggested Match
+                            Suggested Match{suggestion.isCustom && ' · Custom Exercise'}
                           </div>
                           <div className="font-mono text-base font-bold text-cyan-400">
                             {suggestion.suggestedCanonicalName}
@@ -318,7 +348,7 @@ export function AutoMatchReviewModal({
                     </div>
 
                     {/* Action Buttons */}
-                    <div className="grid grid-cols-3 gap-2">
+                    <div className="grid grid-cols-4 gap-2">
                       <button
                         onClick={() => void handleAcceptSuggestion(suggestion)}
                         disabled={isCreating}
@@ -327,10 +357,10 @@ export function AutoMatchReviewModal({
                         Accept
                       </button>
                       <button
-                        onClick={() => handleSkipSuggestion(suggestion)}
-                        className="border-2 border-zinc-700 bg-zinc-800 px-4 py-3 font-mono text-xs font-bold uppercase tracking-wider text-zinc-500 transition-all hover:border-zinc-600 hover:bg-zinc-700 hover:text-white"
+                        onClick={() => void handleRejectSuggestion(suggestion)}
+                        className="border-2 border-zinc-700 bg-zinc-800 px-4 py-3 font-mono text-xs font-bold uppercase tracking-wider text-red-500 transition-all hover:border-red-500 hover:bg-zinc-700 hover:text-red-400"
                       >
-                        Skip
+                        Reject
                       </button>
                       <button
                         onClick={() => handleEditSuggestion(suggestion)}
@@ -338,6 +368,12 @@ export function AutoMatchReviewModal({
                       >
                         Edit
                       </button>
+                      <button
+                        onClick={() => handleSkipSuggestion(suggestion)}
+                        className="border-2 border-zinc-700 bg-zinc-800 px-4 py-3 font-mono text-xs font-bold uppercase tracking-wider text-zinc-500 transition-all hover:border-zinc-600 hover:bg-zinc-700 hover:text-white"
+                      >
+                        Skip
+                      </button>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,246 @@
+/**
+ * Custom Exercise Library Component
+ * Lists the profile's own exercises with create, edit and delete.
+ * Gym names map to a custom exercise like a canonical one, or resolve to it via its aliases.
+ */
+
+import { useState } from 'react';
+import {
+  useCustomExercises,
+  useCreateCustomExercise,
+  useUpdateCustomExercise,
+  useDeleteCustomExercise,
+  type CustomExerciseInput,
+} from '@db/hooks/useCustomExercises';
+import { useExerciseMappings } from '@db/hooks/useExerciseMappings';
+import type { CustomExercise } from '@db/schema';
+import type { ScientificMuscle } from '@core/taxonomy';
+import { MuscleValueEditor } from './MuscleValueEditor';
+
+interface CustomExerciseLibraryProps {
+  profileId: string;
+}
+
+const EMPTY_INPUT: CustomExerciseInput = {
+  name: '',
+  aliases: [],
+  equipment: null,
+  muscleValues: {},
+  notes: '',
+};
+
+/**
+ * Split a comma-separated alias field
+ */
+function parseAliases(text: string): string[] {
+  return text.split(',').map((alias) => alias.trim());
+}
+
+export function CustomExerciseLibrary({
+  profileId,
+}: CustomExerciseLibraryProps): React.ReactElement {
+  const { customExercises, isLoading } = useCustomExercises(profileId);
+  const { mappings } = useExerciseMappings(profileId);
+  const { createCustomExercise, isCreating } = useCreateCustomExercise();
+  const { updateCustomExercise, isUpdating } = useUpdateCustomExercise();
+  const { deleteCustomExercise, isDeleting } = useDeleteCustomExercise();
+
+  // null = closed, 'new' = creating, otherwise the exercise being edited
+  const [editing, setEditing] = useState<CustomExercise | 'new' | null>(null);
+  const [input, setInput] = useState<CustomExerciseInput>(EMPTY_INPUT);
+  const [aliasText, setAliasText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const isSaving = isCreating || isUpdating;
+
+  const mappingCount = (exerciseId: string): number =>
+    mappings.filter((m) => m.canonicalExerciseId === exerciseId).length;
+
+  const openEditor = (exercise: CustomExercise | 'new'): void => {
+    const initial = exercise === 'new' ? EMPTY_INPUT : exercise;
+    setInput({
+      name: initial.name,
+      aliases: initial.aliases,
+      equipment: initial.equipment,
+      muscleValues: initial.muscleValues,
+      notes: initial.notes,
+    });
+    setAliasText(initial.aliases.join(', '));
+    setError(null);
+    setEditing(exercise);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    if (!editing) return;
+    setError(null);
+
+    const values = { ...input, aliases: parseAliases(aliasText) };
+    try {
+      if (editing === 'new') {
+        await createCustomExercise(profileId, values);
+      } else {
+        await updateCustomExercise(editing, values);
+      }
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save exercise');
+    }
+  };
+
+  const handleDelete = async (exercise: CustomExercise): Promise<void> => {
+    const count = mappingCount(exercise.id);
+    const message =
+      count > 0
+        ? `Delete "${exercise.name}"? ${count} mapping(s) point at it and will need remapping.`
+        : `Delete "${exercise.name}"?`;
+    if (window.confirm(message)) {
+      try {
+        await deleteCustomExercise(exercise.id);
+      } catch (err) {
+        console.error('Failed to delete custom exercise:', err);
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-cyan-500 border-t-transparent" />
+      </div>
+    );
+  }
+
+  const hasMuscles = Object.keys(input.muscleValues).length > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="font-mono text-sm text-zinc-500">
+          {customExercises.length} custom exercise(s). Map several gym names to one, or list them as
+          aliases.
+        </p>
+        {editing === null && (
+          <button
+            onClick={() => openEditor('new')}
+            className="border-2 border-cyan-500 bg-cyan-500 px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-zinc-900 transition-all hover:bg-cyan-400"
+          >
+            New Exercise
+          </button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <div className="space-y-4 border-2 border-cyan-500 bg-zinc-900 p-4">
+          <div className="font-mono text-xs uppercase tracking-widest text-cyan-500">
+            {editing === 'new' ? 'New Custom Exercise' : `Edit ${editing.name}`}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={input.name}
+              onChange={(e) => setInput({ ...input, name: e.target.value })}
+              placeholder="Name"
+              className="border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none"
+            />
+            <input
+              type="text"
+              value={input.equipment ?? ''}
+              onChange={(e) => setInput({ ...input, equipment: e.target.value })}
+              placeholder="Equipment (optional)"
+              className="border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none"
+            />
+          </div>
+          <input
+            type="text"
+            value={aliasText}
+            onChange={(e) => setAliasText(e.target.value)}
+            placeholder="Aliases: gym names, comma-separated"
+            className="w-full border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none"
+          />
+          <textarea
+            value={input.notes}
+            onChange={(e) => setInput({ ...input, notes: e.target.value })}
+            placeholder="Notes"
+            rows={2}
+            className="w-full border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none"
+          />
+          <MuscleValueEditor
+            values={input.muscleValues}
+            onChange={(muscleValues: Partial<Record<ScientificMuscle, number>>) =>
+              setInput({ ...input, muscleValues })
+            }
+          />
+          {error && <p className="font-mono text-xs text-red-400">{error}</p>}
+          <div className="flex gap-3">
+            <button
+              onClick={() => void handleSave()}
+              disabled={!input.name.trim() || !hasMuscles || isSaving}
+              className="bg-cyan-500 px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-zinc-900 transition-all hover:bg-cyan-400 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              disabled={isSaving}
+              className="px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-zinc-500 transition-all hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {customExercises.length === 0 && editing === null ? (
+        <div className="border-2 border-zinc-700 bg-zinc-900 p-8 text-center">
+          <p className="font-mono text-sm text-zinc-500">
+            No custom exercises yet. Create one here, or tick "Save as a custom exercise" when
+            mapping an exercise from scratch.
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y divide-zinc-800 border-2 border-zinc-700 bg-zinc-900">
+          {customExercises.map((exercise) => {
+            const count = mappingCount(exercise.id);
+            return (
+              <div key={exercise.id} className="flex items-start justify-between gap-4 p-4">
+                <div className="min-w-0 flex-1 font-mono">
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-white">{exercise.name}</span>
+                    {exercise.equipment && (
+                      <span className="rounded border border-zinc-600 px-1.5 py-0.5 text-[10px] uppercase tracking-wider text-zinc-400">
+                        {exercise.equipment}
+                      </span>
+                    )}
+                  </div>
+                  <div className="mt-1 text-xs text-zinc-500">
+                    {Object.keys(exercise.muscleValues).length} muscle(s) · {count} mapping(s)
+                    {exercise.aliases.length > 0 && ` · aliases: ${exercise.aliases.join(', ')}`}
+                  </div>
+                  {exercise.notes && (
+                    <p className="mt-1 text-xs italic text-zinc-500">{exercise.notes}</p>
+                  )}
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    onClick={() => openEditor(exercise)}
+                    disabled={editing !== null}
+                    className="px-3 py-1 font-mono text-xs uppercase text-cyan-500 transition-colors hover:text-cyan-300 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => void handleDelete(exercise)}
+                    disabled={isDeleting}
+                    className="px-3 py-1 font-mono text-xs uppercase text-red-500 transition-colors hover:text-red-400 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
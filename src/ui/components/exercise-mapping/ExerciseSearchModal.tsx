@@ -3,18 +3,29 @@
  * Modal for searching canonical exercises or creating custom muscle mappings
  *
  * 3 Tabs:
- * 1. Search Canonical - existing search functionality
+ * 1. Search Canonical - canonical and custom library exercises
  * 2. Copy & Edit - search + pre-fill MuscleValueEditor with selected exercise's values
- * 3. From Scratch - empty MuscleValueEditor for custom entry
+ * 3. From Scratch - empty MuscleValueEditor for custom entry, optionally saved to
+ *    the custom exercise library so other gym names can map to it too
  */
 
-import { useState, useEffect, useRef } from 'react';
-import { searchExercises, getAllCanonicalExercises } from '@core/exercise-search';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  searchExercises,
+  getAllCanonicalExercises,
+  hasActiveFilters,
+  EXERCISE_EQUIPMENT,
+  type ExerciseSearchFilters,
+  type MuscleThreshold,
+} from '@core/exercise-search';
 import { useCreateExerciseMapping, useUpdateExerciseMapping } from '@db/hooks/useExerciseMappings';
+import { useCustomExercises, useCreateCustomExercise } from '@db/hooks/useCustomExercises';
 import type { UnmappedExercise, ExerciseMapping } from '@db/schema';
+import type { PendingMappingChange } from '@db/utils/mapping-resolver';
 import type { ExerciseSearchResult } from '@core/exercise-search';
-import type { ScientificMuscle } from '@core/taxonomy';
+import { SCIENTIFIC_MUSCLES, type ScientificMuscle } from '@core/taxonomy';
 import { MuscleValueEditor } from './MuscleValueEditor';
+import { MappingImpactPreview } from './MappingImpactPreview';
 import exerciseListJson from '../../../../config/exercise_list_complete.json';
 
 type TabType = 'search' | 'copyEdit' | 'scratch';
@@ -46,18 +57,32 @@ export function ExerciseSearchModal({
   editingMapping = null,
   prefillFromExercise = null,
 }: ExerciseSearchModalProps): React.ReactElement {
+  const { customExercises } = useCustomExercises(profileId);
+
   // Get canonical exercise name from ID (for display when editing)
   const getCanonicalNameFromId = (id: string): string | null => {
-    const exercises = getAllCanonicalExercises();
+    const exercises = getAllCanonicalExercises(customExercises);
     const found = exercises.find((ex) => ex.id === id);
     return found?.name ?? null;
   };
 
+  // Get muscle values of a search result (custom exercises carry their own)
+  const getResultMuscleValues = (
+    result: Pick<ExerciseSearchResult, 'id' | 'name' | 'isCustom'>
+  ): Partial<Record<ScientificMuscle, number>> | null => {
+    if (result.isCustom) {
+      return customExercises.find((ex) => ex.id === result.id)?.muscleValues ?? null;
+    }
+    return getCanonicalMuscleValues(result.name);
+  };
+
   // Get initial muscle values if prefilling or editing
   const getInitialMuscleValues = (): Partial<Record<ScientificMuscle, number>> => {
     if (editingMapping?.customMuscleValues) return editingMapping.customMuscleValues;
     if (editingMapping?.canonicalExerciseId) {
       // Load values from the canonical exercise when editing a canonical mapping
+      const custom = customExercises.find((ex) => ex.id === editingMapping.canonicalExerciseId);
+      if (custom) return custom.muscleValues;
       const canonicalName = getCanonicalNameFromId(editingMapping.canonicalExerciseId);
       if (canonicalName) {
         const values = getCanonicalMuscleValues(canonicalName);
@@ -65,7 +90,8 @@ export function ExerciseSearchModal({
       }
     }
     if (prefillFromExercise) {
-      const values = getCanonicalMuscleValues(prefillFromExercise);
+      const custom = customExercises.find((ex) => ex.name === prefillFromExercise);
+      const values = custom?.muscleValues ?? getCanonicalMuscleValues(prefillFromExercise);
       if (values) return values;
     }
     return {};
@@ -90,6 +116,7 @@ export function ExerciseSearchModal({
 
   const [activeTab, setActiveTab] = useState<TabType>(getInitialTab);
   const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<ExerciseSearchFilters>({});
   const [results, setResults] = useState<ExerciseSearchResult[]>([]);
   const [selectedExerciseId, setSelectedExerciseId] = useState<string | null>(
     editingMapping?.canonicalExerciseId ?? null
@@ -100,12 +127,17 @@ export function ExerciseSearchModal({
   const [copiedFromExercise, setCopiedFromExercise] = useState<string | null>(
     getInitialCopiedFrom
   );
+  const [saveToLibrary, setSaveToLibrary] = useState(false);
+  const [libraryName, setLibraryName] = useState(unmappedExercise.originalName);
+  const [libraryEquipment, setLibraryEquipment] = useState('');
+  const [libraryError, setLibraryError] = useState<string | null>(null);
 
   const { createMapping, isCreating } = useCreateExerciseMapping();
   const { updateMapping, isUpdating } = useUpdateExerciseMapping();
+  const { createCustomExercise, isCreating: isCreatingCustom } = useCreateCustomExercise();
   const searchInputRef = useRef<HTMLInputElement>(null);
 
-  const isSaving = isCreating || isUpdating;
+  const isSaving = isCreating || isUpdating || isCreatingCustom;
 
   // Auto-focus search input on mount or tab change
   useEffect(() => {
@@ -114,19 +146,54 @@ export function ExerciseSearchModal({
     }
   }, [activeTab]);
 
-  // Search for exercises when query changes
-  useEffect(() => {
-    if (searchQuery.trim() === '') {
-      setResults(getAllCanonicalExercises().slice(0, 20));
-    } else {
-      setResults(searchExercises(searchQuery, 20));
+  // Equipment filter options: the known list plus equipment from the custom library
+  const equipmentOptions = useMemo(() => {
+    const options: string[] = [...EXERCISE_EQUIPMENT];
+    for (const exercise of customExercises) {
+      const equipment = exercise.equipment;
+      if (equipment && !options.some((o) => o.toLowerCase() === equipment.toLowerCase())) {
+        options.push(equipment);
+      }
     }
-  }, [searchQuery]);
+    return options;
+  }, [customExercises]);
 
-  // Initial load - show top exercises
+  // Search for exercises when query or filters change
   useEffect(() => {
-    setResults(getAllCanonicalExercises().slice(0, 20));
-  }, []);
+    if (searchQuery.trim() === '' && !hasActiveFilters(filters)) {
+      setResults(getAllCanonicalExercises(customExercises).slice(0, 20));
+    } else {
+      setResults(searchExercises(searchQuery, 20, customExercises, filters));
+    }
+  }, [searchQuery, filters, customExercises]);
+
+  // Unsaved edit of an existing mapping, previewed before it rewrites history
+  const pendingChange = useMemo((): PendingMappingChange | null => {
+    if (!editingMapping) return null;
+    if (activeTab === 'search' && selectedExerciseId) {
+      return {
+        type: 'user-mapping',
+        mapping: {
+          ...editingMapping,
+          canonicalExerciseId: selectedExerciseId,
+          customMuscleValues: null,
+          isIgnored: false,
+        },
+      };
+    }
+    if (activeTab === 'scratch') {
+      return {
+        type: 'user-mapping',
+        mapping: {
+          ...editingMapping,
+          canonicalExerciseId: null,
+          customMuscleValues: muscleValues,
+          isIgnored: false,
+        },
+      };
+    }
+    return null;
+  }, [editingMapping, activeTab, selectedExerciseId, muscleValues]);
 
   // Handle saving a mapping (canonical or custom)
   const handleSaveMapping = async (
@@ -138,6 +205,8 @@ export function ExerciseSearchModal({
       const mappingData = {
         profileId,
         originalPattern: unmappedExercise.normalizedName,
+        // Keep following the exercise if it is renamed in Hevy
+        ...(unmappedExercise.templateId && { templateId: unmappedExercise.templateId }),
         canonicalExerciseId,
         customMuscleValues: customValues,
         isIgnored: ignored,
@@ -162,11 +231,11 @@ export function ExerciseSearchModal({
   };
 
   // Tab 2: Copy & Edit - copy values from selected exercise
-  const handleCopyFromExercise = (exerciseName: string): void => {
-    const values = getCanonicalMuscleValues(exerciseName);
+  const handleCopyFromExercise = (result: ExerciseSearchResult): void => {
+    const values = getResultMuscleValues(result);
     if (values) {
       setMuscleValues(values);
-      setCopiedFromExercise(exerciseName);
+      setCopiedFromExercise(result.name);
       setActiveTab('scratch'); // Switch to scratch tab to edit
     }
   };
@@ -182,6 +251,24 @@ export function ExerciseSearchModal({
       return; // Button should be disabled anyway
     }
 
+    if (saveToLibrary) {
+      // Map this gym name to a new custom exercise that other gym names can reuse
+      try {
+        setLibraryError(null);
+        const custom = await createCustomExercise(profileId, {
+          name: libraryName,
+          aliases: [],
+          equipment: libraryEquipment,
+          muscleValues: nonZeroValues,
+          notes: '',
+        });
+        await handleSaveMapping(custom.id, null, false);
+      } catch (error) {
+        setLibraryError(error instanceof Error ? error.message : 'Failed to save exercise');
+      }
+      return;
+    }
+
     await handleSaveMapping(null, nonZeroValues, false);
   };
 
@@ -291,6 +378,11 @@ export function ExerciseSearchModal({
                     className="w-full border-2 border-zinc-700 bg-zinc-900 py-3 pl-12 pr-4 font-mono text-sm text-white placeholder-zinc-600 transition-all focus:border-cyan-500 focus:outline-none"
                   />
                 </div>
+                <SearchFiltersBar
+                  filters={filters}
+                  onChange={setFilters}
+                  equipmentOptions={equipmentOptions}
+                />
               </div>
 
               {/* Results List */}
@@ -312,7 +404,7 @@ export function ExerciseSearchModal({
                         }`}
                       >
                         <div className="flex items-center justify-between">
-                          <span className="font-medium">{result.name}</span>
+                          <SearchResultLabel result={result} />
                           {selectedExerciseId === result.id && <span className="text-lg">✓</span>}
                         </div>
                       </button>
@@ -353,6 +445,11 @@ export function ExerciseSearchModal({
                     className="w-full border-2 border-zinc-700 bg-zinc-900 py-3 pl-12 pr-4 font-mono text-sm text-white placeholder-zinc-600 transition-all focus:border-cyan-500 focus:outline-none"
                   />
                 </div>
+                <SearchFiltersBar
+                  filters={filters}
+                  onChange={setFilters}
+                  equipmentOptions={equipmentOptions}
+                />
               </div>
 
               {/* Results List with Copy Buttons */}
@@ -366,11 +463,11 @@ export function ExerciseSearchModal({
                     {results.map((result) => (
                       <button
                         key={result.id}
-                        onClick={() => handleCopyFromExercise(result.name)}
+                        onClick={() => handleCopyFromExercise(result)}
                         className="group w-full p-4 text-left font-mono text-sm transition-all bg-zinc-900 text-white hover:bg-zinc-850"
                       >
                         <div className="flex items-center justify-between">
-                          <span className="font-medium">{result.name}</span>
+                          <SearchResultLabel result={result} />
                           <span className="text-xs text-cyan-500 opacity-0 transition-opacity group-hover:opacity-100">
                             Copy & Edit →
                           </span>
@@ -394,6 +491,44 @@ export function ExerciseSearchModal({
                 </div>
               )}
               <MuscleValueEditor values={muscleValues} onChange={setMuscleValues} />
+              {!editingMapping && (
+                <div className="mt-4 space-y-3 border-t-2 border-zinc-800 pt-4">
+                  <label className="flex items-center gap-2 font-mono text-xs text-zinc-400">
+                    <input
+                      type="checkbox"
+                      checked={saveToLibrary}
+                      onChange={(e) => setSaveToLibrary(e.target.checked)}
+                      className="accent-cyan-500"
+                    />
+                    Save as a custom exercise other gym names can map to
+                  </label>
+                  {saveToLibrary && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <input
+                        type="text"
+                        value={libraryName}
+                        onChange={(e) => setLibraryName(e.target.value)}
+                        placeholder="Exercise name"
+                        className="border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none"
+                      />
+                      <input
+                        type="text"
+                        value={libraryEquipment}
+                        onChange={(e) => setLibraryEquipment(e.target.value)}
+                        placeholder="Equipment (optional)"
+                        className="border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none"
+                      />
+                    </div>
+                  )}
+                  {libraryError && <p className="font-mono text-xs text-red-400">{libraryError}</p>}
+                </div>
+              )}
+            </div>
+          )}
+
+          {pendingChange && (
+            <div className="border-t-2 border-zinc-800 p-4">
+              <MappingImpactPreview profileId={profileId} change={pendingChange} />
             </div>
           )}
         </div>
@@ -435,7 +570,13 @@ export function ExerciseSearchModal({
               disabled={Object.keys(muscleValues).length === 0 || isSaving}
               className="bg-cyan-500 px-4 py-4 font-mono text-sm font-bold uppercase tracking-wider text-zinc-900 transition-all hover:bg-cyan-400 disabled:opacity-50"
             >
-              {isSaving ? 'Saving...' : editingMapping ? 'Update' : 'Save Custom'}
+              {isSaving
+                ? 'Saving...'
+                : editingMapping
+                  ? 'Update'
+                  : saveToLibrary
+                    ? 'Save to Library'
+                    : 'Save Custom'}
             </button>
           )}
         </div>
@@ -443,3 +584,123 @@ export function ExerciseSearchModal({
     </div>
   );
 }
+
+/**
+ * Result name with a badge for custom library exercises and the alias that matched
+ */
+function SearchResultLabel({ result }: { result: ExerciseSearchResult }): React.ReactElement {
+  return (
+    <span className="flex items-center gap-2">
+      <span className="font-medium">{result.name}</span>
+      {result.isCustom && (
+        <span className="rounded border border-current px-1.5 py-0.5 text-[10px] uppercase tracking-wider opacity-70">
+          Custom
+        </span>
+      )}
+      {result.matchedAlias && (
+        <span className="text-xs opacity-60">alias: {result.matchedAlias}</span>
+      )}
+    </span>
+  );
+}
+
+const THRESHOLD_OPTIONS = [0.25, 0.5, 0.8, 1.0];
+
+/**
+ * Muscle contribution and equipment filters under the search input
+ */
+function SearchFiltersBar({
+  filters,
+  onChange,
+  equipmentOptions,
+}: {
+  filters: ExerciseSearchFilters;
+  onChange: (filters: ExerciseSearchFilters) => void;
+  equipmentOptions: string[];
+}): React.ReactElement {
+  const [muscle, setMuscle] = useState<ScientificMuscle | ''>('');
+  const [min, setMin] = useState(0.8);
+  const thresholds = filters.muscles ?? [];
+
+  const addThreshold = (): void => {
+    if (!muscle) return;
+    const threshold: MuscleThreshold = { muscle, min };
+    onChange({
+      ...filters,
+      muscles: [...thresholds.filter((t) => t.muscle !== muscle), threshold],
+    });
+    setMuscle('');
+  };
+
+  const selectClassName =
+    'border-2 border-zinc-700 bg-zinc-900 px-2 py-1.5 font-mono text-xs text-white focus:border-cyan-500 focus:outline-none';
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={muscle}
+          onChange={(e) => setMuscle(e.target.value as ScientificMuscle | '')}
+          className={selectClassName}
+        >
+          <option value="">Muscle filter...</option>
+          {SCIENTIFIC_MUSCLES.map((m) => (
+            <option key={m} value={m}>
+              {m}
+            </option>
+          ))}
+        </select>
+        <select
+          value={min}
+          onChange={(e) => setMin(Number(e.target.value))}
+          className={selectClassName}
+        >
+          {THRESHOLD_OPTIONS.map((value) => (
+            <option key={value} value={value}>
+              ≥ {value}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addThreshold}
+          disabled={!muscle}
+          className="border-2 border-zinc-700 px-3 py-1.5 font-mono text-xs uppercase text-zinc-400 transition-all hover:border-cyan-500 hover:text-cyan-500 disabled:opacity-40"
+        >
+          Add
+        </button>
+        <select
+          value={filters.equipment ?? ''}
+          onChange={(e) => onChange({ ...filters, equipment: e.target.value || null })}
+          className={`${selectClassName} ml-auto`}
+        >
+          <option value="">Any equipment</option>
+          {equipmentOptions.map((equipment) => (
+            <option key={equipment} value={equipment}>
+              {equipment}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {thresholds.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {thresholds.map((threshold) => (
+            <button
+              key={threshold.muscle}
+              onClick={() =>
+                onChange({
+                  ...filters,
+                  muscles: thresholds.filter((t) => t.muscle !== threshold.muscle),
+                })
+              }
+              title="Remove filter"
+              className="border border-cyan-500/50 bg-cyan-500/10 px-2 py-0.5 font-mono text-xs text-cyan-400 transition-all hover:border-red-500 hover:text-red-400"
+            >
+              {threshold.muscle} ≥ {threshold.min} ×
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,21 +5,28 @@
 
 import { useState } from 'react';
 import { useExerciseMappings, useDeleteExerciseMapping } from '@db/hooks/useExerciseMappings';
+import { useCustomExercises } from '@db/hooks/useCustomExercises';
 import { getAllCanonicalExercises } from '@core/exercise-search';
-import type { ExerciseMapping, UnmappedExercise } from '@db/schema';
+import type { ExerciseMapping, MappingChangeEntity, UnmappedExercise } from '@db/schema';
 import { ExerciseSearchModal } from './ExerciseSearchModal';
+import { MappingHistoryPanel } from './MappingHistoryPanel';
 
 interface ExistingMappingsListProps {
   profileId: string;
 }
 
+const HISTORY_ENTITY_TYPES: MappingChangeEntity[] = ['exerciseMapping'];
+
 export function ExistingMappingsList({ profileId }: ExistingMappingsListProps): React.ReactElement {
   const { mappings, isLoading } = useExerciseMappings(profileId);
   const { deleteMapping, isDeleting } = useDeleteExerciseMapping();
+  const { customExercises } = useCustomExercises(profileId);
   const [editingMapping, setEditingMapping] = useState<ExerciseMapping | null>(null);
 
-  // Create a lookup map for canonical exercise names
-  const exerciseMap = new Map(getAllCanonicalExercises().map((ex) => [ex.id, ex.name]));
+  // Create a lookup map for canonical and custom exercise names
+  const exerciseMap = new Map(
+    getAllCanonicalExercises(customExercises).map((ex) => [ex.id, ex.name])
+  );
 
   // Create a fake UnmappedExercise for editing existing mappings
   const createUnmappedForEdit = (mapping: ExerciseMapping): UnmappedExercise => ({
@@ -27,6 +34,7 @@ export function ExistingMappingsList({ profileId }: ExistingMappingsListProps):
     profileId: mapping.profileId,
     originalName: mapping.originalPattern,
     normalizedName: mapping.originalPattern,
+    templateId: mapping.templateId,
     firstSeenAt: mapping.createdAt,
     occurrenceCount: 0,
   });
@@ -57,40 +65,43 @@ export function ExistingMappingsList({ profileId }: ExistingMappingsListProps):
 
   if (mappings.length === 0) {
     return (
-      <div
-        className="relative overflow-hidden rounded border-2 border-zinc-700 bg-gradient-to-br from-zinc-900 to-zinc-950 p-12 text-center"
-        style={{ animation: 'fadeIn 0.4s ease-out' }}
-      >
-        <style>{`
+      <div className="space-y-3">
+        <div
+          className="relative overflow-hidden rounded border-2 border-zinc-700 bg-gradient-to-br from-zinc-900 to-zinc-950 p-12 text-center"
+          style={{ animation: 'fadeIn 0.4s ease-out' }}
+        >
+          <style>{`
           @keyframes fadeIn {
             from { opacity: 0; transform: translateY(10px); }
             to { opacity: 1; transform: translateY(0); }
           }
         `}</style>
-        <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(113,113,122,0.05),transparent_50%)]" />
-        <div className="relative">
-          <div className="mx-auto mb-6 h-20 w-20 rounded-full border-2 border-zinc-700 bg-zinc-800 p-5">
-            <svg
-              className="h-full w-full text-zinc-600"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-              strokeWidth={2}
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"
-              />
-            </svg>
+          <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(113,113,122,0.05),transparent_50%)]" />
+          <div className="relative">
+            <div className="mx-auto mb-6 h-20 w-20 rounded-full border-2 border-zinc-700 bg-zinc-800 p-5">
+              <svg
+                className="h-full w-full text-zinc-600"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"
+                />
+              </svg>
+            </div>
+            <h3 className="mb-3 font-mono text-2xl font-black uppercase tracking-tight text-white">
+              No Mappings Yet
+            </h3>
+            <p className="font-mono text-sm text-zinc-500">
+              Map unmapped exercises to start building your mappings library
+            </p>
           </div>
-          <h3 className="mb-3 font-mono text-2xl font-black uppercase tracking-tight text-white">
-            No Mappings Yet
-          </h3>
-          <p className="font-mono text-sm text-zinc-500">
-            Map unmapped exercises to start building your mappings library
-          </p>
         </div>
+        <MappingHistoryPanel profileId={profileId} entityTypes={HISTORY_ENTITY_TYPES} />
       </div>
     );
   }
@@ -299,6 +310,8 @@ export function ExistingMappingsList({ profileId }: ExistingMappingsListProps):
         );
       })}
 
+      <MappingHistoryPanel profileId={profileId} entityTypes={HISTORY_ENTITY_TYPES} />
+
       {/* Edit Modal */}
       {editingMapping && (
         <ExerciseSearchModal
@@ -0,0 +1,256 @@
+/**
+ * Learned Match Rules Editor Component
+ * Review, correct and toggle the abbreviations, gym markers and aliases auto-match
+ * learned from review decisions, and add rules by hand
+ */
+
+import { useState } from 'react';
+import {
+  useAutoMatchLearning,
+  useLearnedMatchRules,
+  useCreateLearnedMatchRule,
+  useUpdateLearnedMatchRule,
+  useDeleteLearnedMatchRule,
+  type LearnedMatchRuleInput,
+} from '@db/hooks/useAutoMatchLearning';
+import type { LearnedMatchRule, LearnedMatchRuleKind } from '@db/schema';
+
+interface LearnedMatchRulesEditorProps {
+  profileId: string;
+}
+
+const RULE_KINDS: { kind: LearnedMatchRuleKind; label: string; hint: string }[] = [
+  { kind: 'abbreviation', label: 'Abbreviations', hint: 'sldl → stiff leg deadlift' },
+  { kind: 'tokenAlias', label: 'Aliases', hint: 'skullcrusher → lying extension' },
+  { kind: 'gymMarker', label: 'Gym Markers', hint: 'hammerstrength (ignored)' },
+];
+
+const EMPTY_INPUT: LearnedMatchRuleInput = {
+  kind: 'abbreviation',
+  token: '',
+  expansion: '',
+  isEnabled: true,
+};
+
+export function LearnedMatchRulesEditor({
+  profileId,
+}: LearnedMatchRulesEditorProps): React.ReactElement {
+  const { rules, isLoading } = useLearnedMatchRules(profileId);
+  const { decisionCount } = useAutoMatchLearning(profileId);
+  const { createRule, isCreating } = useCreateLearnedMatchRule();
+  const { updateRule, isUpdating } = useUpdateLearnedMatchRule();
+  const { deleteRule, isDeleting } = useDeleteLearnedMatchRule();
+
+  // null = closed, 'new' = creating, otherwise the rule being edited
+  const [editing, setEditing] = useState<LearnedMatchRule | 'new' | null>(null);
+  const [input, setInput] = useState<LearnedMatchRuleInput>(EMPTY_INPUT);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSaving = isCreating || isUpdating;
+
+  const openEditor = (rule: LearnedMatchRule | 'new'): void => {
+    const initial = rule === 'new' ? EMPTY_INPUT : rule;
+    setInput({
+      kind: initial.kind,
+      token: initial.token,
+      expansion: initial.expansion,
+      isEnabled: initial.isEnabled,
+    });
+    setError(null);
+    setEditing(rule);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    if (!editing) return;
+    setError(null);
+
+    try {
+      if (editing === 'new') {
+        await createRule(profileId, input);
+      } else {
+        await updateRule(editing, input);
+      }
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    }
+  };
+
+  const handleToggle = async (rule: LearnedMatchRule): Promise<void> => {
+    try {
+      await updateRule(rule, { ...rule, isEnabled: !rule.isEnabled });
+    } catch (err) {
+      console.error('Failed to toggle rule:', err);
+    }
+  };
+
+  const handleDelete = async (rule: LearnedMatchRule): Promise<void> => {
+    const message =
+      rule.support > 0
+        ? `Delete "${rule.token}"? It is relearned if later reviews support it; disable it to keep it off.`
+        : `Delete "${rule.token}"?`;
+    if (window.confirm(message)) {
+      try {
+        await deleteRule(rule.id);
+      } catch (err) {
+        console.error('Failed to delete rule:', err);
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-cyan-500 border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="font-mono text-sm text-zinc-500">
+          Learned from {decisionCount} auto-match review decision(s). Rules you edit stop following
+          later reviews.
+        </p>
+        {editing === null && (
+          <button
+            onClick={() => openEditor('new')}
+            className="border-2 border-cyan-500 bg-cyan-500 px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-zinc-900 transition-all hover:bg-cyan-400"
+          >
+            New Rule
+          </button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <div className="space-y-4 border-2 border-cyan-500 bg-zinc-900 p-4">
+          <div className="font-mono text-xs uppercase tracking-widest text-cyan-500">
+            {editing === 'new' ? 'New Rule' : 'Edit Rule'}
+          </div>
+
+          <div className="flex gap-3">
+            <select
+              value={input.kind}
+              onChange={(e) => setInput({ ...input, kind: e.target.value as LearnedMatchRuleKind })}
+              disabled={editing !== 'new'}
+              className="border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white focus:border-cyan-500 focus:outline-none disabled:opacity-50"
+            >
+              {RULE_KINDS.map(({ kind, label }) => (
+                <option key={kind} value={kind}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={input.token}
+              onChange={(e) => setInput({ ...input, token: e.target.value })}
+              disabled={editing !== 'new'}
+              placeholder="Word"
+              className="w-40 border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none disabled:opacity-50"
+            />
+            {input.kind !== 'gymMarker' && (
+              <input
+                type="text"
+                value={input.expansion}
+                onChange={(e) => setInput({ ...input, expansion: e.target.value })}
+                placeholder="Stands for..."
+                className="flex-1 border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none"
+              />
+            )}
+          </div>
+          <p className="font-mono text-xs text-zinc-600">
+            e.g. {RULE_KINDS.find((k) => k.kind === input.kind)?.hint}
+          </p>
+
+          {error && <p className="font-mono text-xs text-red-400">{error}</p>}
+          <div className="flex gap-3">
+            <button
+              onClick={() => void handleSave()}
+              disabled={isSaving}
+              className="bg-cyan-500 px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-zinc-900 transition-all hover:bg-cyan-400 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              disabled={isSaving}
+              className="px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-zinc-500 transition-all hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 && editing === null ? (
+        <div className="border-2 border-zinc-700 bg-zinc-900 p-8 text-center">
+          <p className="font-mono text-sm text-zinc-500">
+            Nothing learned yet. Accept, reject or correct auto-match suggestions and the
+            abbreviations and gym names behind them show up here.
+          </p>
+        </div>
+      ) : (
+        RULE_KINDS.map(({ kind, label }) => {
+          const group = rules.filter((r) => r.kind === kind);
+          if (group.length === 0) return null;
+
+          return (
+            <div key={kind}>
+              <div className="mb-2 font-mono text-xs uppercase tracking-widest text-zinc-500">
+                {label}
+              </div>
+              <div className="divide-y divide-zinc-800 border-2 border-zinc-700 bg-zinc-900">
+                {group.map((rule) => (
+                  <div
+                    key={rule.id}
+                    className={`flex items-center gap-4 p-4 font-mono ${rule.isEnabled ? '' : 'opacity-50'}`}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-bold text-white">{rule.token}</span>
+                        <span className={kind === 'gymMarker' ? 'text-amber-500' : 'text-cyan-400'}>
+                          {kind === 'gymMarker' ? 'ignored' : `→ ${rule.expansion}`}
+                        </span>
+                      </div>
+                      <div className="mt-1 text-xs text-zinc-500">
+                        {rule.support > 0
+                          ? `Supported by ${rule.support} decision(s)`
+                          : 'Added by hand'}
+                        {rule.isEdited && rule.support > 0 && ' · edited'}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      <button
+                        onClick={() => void handleToggle(rule)}
+                        disabled={isUpdating}
+                        className="px-3 py-1 text-xs uppercase text-zinc-400 transition-colors hover:text-white disabled:opacity-50"
+                      >
+                        {rule.isEnabled ? 'Disable' : 'Enable'}
+                      </button>
+                      <button
+                        onClick={() => openEditor(rule)}
+                        disabled={editing !== null || kind === 'gymMarker'}
+                        className="px-3 py-1 text-xs uppercase text-cyan-500 transition-colors hover:text-cyan-300 disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => void handleDelete(rule)}
+                        disabled={isDeleting}
+                        className="px-3 py-1 text-xs uppercase text-red-500 transition-colors hover:text-red-400 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Mapping History Panel Component
+ * Change log of mappings and default overrides, newest first, with per-entry
+ * revert and a global "undo last change"
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  useMappingHistory,
+  useRevertMappingChange,
+  useUndoLastMappingChange,
+} from '@db/hooks/useMappingHistory';
+import {
+  getChangeAction,
+  summarizeChangeValue,
+  MAPPING_CHANGE_ENTITY_LABELS,
+} from '@core/mapping-history';
+import type { MappingChange, MappingChangeEntity } from '@db/schema';
+
+interface MappingHistoryPanelProps {
+  profileId: string;
+  /** Record types listed in this panel; undo always reverts the latest change of any type */
+  entityTypes: MappingChangeEntity[];
+}
+
+const VISIBLE_CHANGES = 50;
+
+const ACTION_STYLES = {
+  created: 'text-green-400',
+  updated: 'text-cyan-400',
+  deleted: 'text-red-400',
+  reverted: 'text-amber-400',
+} as const;
+
+/**
+ * "Updated Mapping my-row" style description of a change
+ */
+function describeChange(change: MappingChange): string {
+  const action = getChangeAction(change);
+  const label = MAPPING_CHANGE_ENTITY_LABELS[change.entityType];
+  return `${action.charAt(0).toUpperCase()}${action.slice(1)} ${label.toLowerCase()} "${change.entityKey}"`;
+}
+
+export function MappingHistoryPanel({
+  profileId,
+  entityTypes,
+}: MappingHistoryPanelProps): React.ReactElement {
+  const { changes } = useMappingHistory(profileId);
+  const { revertChange, isReverting } = useRevertMappingChange();
+  const { undoLastChange, isUndoing } = useUndoLastMappingChange();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const visibleChanges = useMemo(
+    () => changes.filter((change) => entityTypes.includes(change.entityType)),
+    [changes, entityTypes]
+  );
+  const revertedIds = useMemo(
+    () => new Set(changes.map((change) => change.revertOf).filter((id) => id !== null)),
+    [changes]
+  );
+
+  const isBusy = isReverting || isUndoing;
+
+  const handleUndo = async (): Promise<void> => {
+    try {
+      const undone = await undoLastChange(profileId);
+      setMessage(undone ? `Undid: ${describeChange(undone)}` : 'Nothing to undo');
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to undo');
+    }
+  };
+
+  const handleRevert = async (change: MappingChange): Promise<void> => {
+    try {
+      await revertChange(change);
+      setMessage(`Reverted: ${describeChange(change)}`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to revert');
+    }
+  };
+
+  return (
+    <div className="border-2 border-zinc-700 bg-zinc-900 font-mono">
+      <div className="flex items-center justify-between gap-4 p-4">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-2 text-sm font-bold uppercase tracking-wider text-zinc-400 transition-colors hover:text-white"
+        >
+          <span className={`transition-transform ${isExpanded ? 'rotate-90' : ''}`}>▸</span>
+          History ({visibleChanges.length})
+        </button>
+        <button
+          onClick={() => void handleUndo()}
+          disabled={isBusy || changes.length === 0}
+          className="border-2 border-amber-500 px-3 py-1.5 text-xs font-bold uppercase tracking-wider text-amber-500 transition-all hover:bg-amber-500 hover:text-zinc-900 disabled:opacity-50"
+        >
+          {isUndoing ? 'Undoing...' : 'Undo Last Change'}
+        </button>
+      </div>
+
+      {message && <p className="px-4 pb-3 text-xs text-zinc-400">{message}</p>}
+
+      {isExpanded && (
+        <div className="max-h-96 divide-y divide-zinc-800 overflow-y-auto border-t-2 border-zinc-800">
+          {visibleChanges.length === 0 ? (
+            <p className="p-4 text-center text-xs text-zinc-500">No changes recorded yet</p>
+          ) : (
+            visibleChanges.slice(0, VISIBLE_CHANGES).map((change) => {
+              const action = getChangeAction(change);
+              return (
+                <div key={change.id} className="flex items-start justify-between gap-4 p-3">
+                  <div className="min-w-0 flex-1 text-xs">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`font-bold uppercase ${ACTION_STYLES[action]}`}>
+                        {action}
+                      </span>
+                      <span className="text-zinc-500">
+                        {MAPPING_CHANGE_ENTITY_LABELS[change.entityType]}
+                      </span>
+                      <span className="truncate font-bold text-white">{change.entityKey}</span>
+                      {revertedIds.has(change.id) && (
+                        <span className="rounded border border-zinc-600 px-1.5 text-[10px] uppercase text-zinc-500">
+                          Reverted
+                        </span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-zinc-500">
+                      {summarizeChangeValue(change.entityType, change.oldValue)}
+                      <span className="text-zinc-600"> ⇒ </span>
+                      <span className="text-zinc-300">
+                        {summarizeChangeValue(change.entityType, change.newValue)}
+                      </span>
+                    </p>
+                    <p className="mt-1 text-[10px] text-zinc-600">
+                      {change.changedAt.toLocaleString()} · by {change.changedBy}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => void handleRevert(change)}
+                    disabled={isBusy}
+                    className="shrink-0 px-2 py-1 text-xs uppercase text-cyan-500 transition-colors hover:text-cyan-300 disabled:opacity-50"
+                  >
+                    Revert
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
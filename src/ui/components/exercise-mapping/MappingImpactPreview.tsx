@@ -0,0 +1,88 @@
+/**
+ * Mapping Impact Preview Component
+ * Shows the workouts, sets and weekly muscle volume a pending mapping change rewrites,
+ * before the change is saved
+ */
+
+import { useDeferredValue } from 'react';
+import { useMappingImpact } from '@db/hooks/useVolumeStats';
+import type { PendingMappingChange } from '@db/utils/mapping-resolver';
+import { formatMetricValue } from '@core/volume-calculator';
+import { createDateRange, formatDateRange, type DateRange } from '@core/date-range';
+
+interface MappingImpactPreviewProps {
+  profileId: string;
+  change: PendingMappingChange | null;
+}
+
+const MAX_MUSCLES = 8;
+
+export function MappingImpactPreview({
+  profileId,
+  change,
+}: MappingImpactPreviewProps): React.ReactElement {
+  // Recompute after typing settles rather than on every keystroke
+  const deferredChange = useDeferredValue(change);
+  const { impact, isLoading } = useMappingImpact(profileId, deferredChange);
+
+  if (isLoading || !impact) {
+    return (
+      <div className="border-2 border-zinc-800 bg-zinc-950 p-3 font-mono text-xs text-zinc-500">
+        Calculating impact...
+      </div>
+    );
+  }
+
+  if (impact.setCount === 0) {
+    return (
+      <div className="border-2 border-zinc-800 bg-zinc-950 p-3 font-mono text-xs text-zinc-500">
+        Impact: no logged sets change
+      </div>
+    );
+  }
+
+  const firstWeek = impact.weeks[0] as DateRange;
+  const lastWeek = impact.weeks[impact.weeks.length - 1] as DateRange;
+  const span = formatDateRange(createDateRange(firstWeek.start, lastWeek.end));
+  const hiddenMuscles = impact.muscles.length - MAX_MUSCLES;
+
+  return (
+    <div className="space-y-2 border-2 border-amber-500/50 bg-zinc-950 p-3 font-mono text-xs">
+      <p className="text-amber-400">
+        Rewrites {impact.workoutCount} workout(s) · {impact.setCount} set(s) across{' '}
+        {impact.weeks.length} week(s) ({span})
+      </p>
+      {impact.muscles.length > 0 ? (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left uppercase tracking-wider text-zinc-500">
+              <th className="py-1 font-normal">Muscle</th>
+              <th className="py-1 text-right font-normal">Before</th>
+              <th className="py-1 text-right font-normal">After</th>
+              <th className="py-1 text-right font-normal">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {impact.muscles.slice(0, MAX_MUSCLES).map(({ muscle, before, after, delta }) => (
+              <tr key={muscle} className="text-zinc-300">
+                <td className="py-0.5">{muscle}</td>
+                <td className="py-0.5 text-right">{formatMetricValue(before, 'sets')}</td>
+                <td className="py-0.5 text-right">{formatMetricValue(after, 'sets')}</td>
+                <td
+                  className={`py-0.5 text-right ${delta > 0 ? 'text-green-400' : 'text-red-400'}`}
+                >
+                  {delta > 0 ? '+' : '−'}
+                  {formatMetricValue(Math.abs(delta), 'sets')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-zinc-500">Muscle volume is unchanged</p>
+      )}
+      {hiddenMuscles > 0 && <p className="text-zinc-600">+{hiddenMuscles} more muscle(s)</p>}
+      <p className="text-zinc-600">Sets per muscle, summed over the affected weeks</p>
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+/**
+ * Mapping Rules Editor Component
+ * Create, reorder and toggle glob/contains/regex rules that map or ignore every
+ * matching exercise, with a live preview of the matched exercise names
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  useMappingRules,
+  useCreateMappingRule,
+  useUpdateMappingRule,
+  useReorderMappingRules,
+  useDeleteMappingRule,
+  type MappingRuleInput,
+} from '@db/hooks/useMappingRules';
+import { useExerciseMappings } from '@db/hooks/useExerciseMappings';
+import { useCustomExercises } from '@db/hooks/useCustomExercises';
+import { useAllWorkouts } from '@db/hooks/useWorkouts';
+import {
+  createRuleMatcher,
+  previewRule,
+  RULE_MATCH_TYPES,
+  type RuleMatchType,
+} from '@core/mapping-rules';
+import { getAllCanonicalExercises, searchExercises } from '@core/exercise-search';
+import type { MappingRule } from '@db/schema';
+
+interface MappingRulesEditorProps {
+  profileId: string;
+}
+
+const MATCH_TYPE_HINTS: Record<RuleMatchType, string> = {
+  glob: '* lateral raise *',
+  contains: 'stretch',
+  regex: '^cable .* fly$',
+};
+
+const EMPTY_INPUT: MappingRuleInput = {
+  matchType: 'glob',
+  pattern: '',
+  canonicalExerciseId: null,
+  isIgnored: false,
+  isEnabled: true,
+};
+
+export function MappingRulesEditor({ profileId }: MappingRulesEditorProps): React.ReactElement {
+  const { rules, isLoading } = useMappingRules(profileId);
+  const { mappings } = useExerciseMappings(profileId);
+  const { customExercises } = useCustomExercises(profileId);
+  const { workouts } = useAllWorkouts(profileId);
+  const { createRule, isCreating } = useCreateMappingRule();
+  const { updateRule, isUpdating } = useUpdateMappingRule();
+  const { reorderRules, isReordering } = useReorderMappingRules();
+  const { deleteRule, isDeleting } = useDeleteMappingRule();
+
+  // null = closed, 'new' = creating, otherwise the rule being edited
+  const [editing, setEditing] = useState<MappingRule | 'new' | null>(null);
+  const [input, setInput] = useState<MappingRuleInput>(EMPTY_INPUT);
+  const [targetQuery, setTargetQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const isSaving = isCreating || isUpdating;
+
+  const exerciseNames = useMemo(
+    () => new Map(getAllCanonicalExercises(customExercises).map((ex) => [ex.id, ex.name])),
+    [customExercises]
+  );
+
+  // Every exercise the profile has logged, by ID, with its latest original name
+  const loggedExercises = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const workout of workouts) {
+      for (const set of workout.sets) {
+        names.set(set.exerciseId, set.originalName);
+      }
+    }
+    return names;
+  }, [workouts]);
+
+  const mappedPatterns = useMemo(() => new Set(mappings.map((m) => m.originalPattern)), [mappings]);
+
+  // Live preview of the rule being edited, noting exercises something else already handles
+  const preview = useMemo(() => {
+    if (editing === null) return null;
+
+    const ids = Array.from(loggedExercises.keys());
+    const { matches, error: patternError } = previewRule(input, ids);
+    const priority = editing === 'new' ? Infinity : editing.priority;
+    const matchEarlierRule = createRuleMatcher(
+      rules.filter((r) => r.priority < priority && (editing === 'new' || r.id !== editing.id))
+    );
+
+    return {
+      error: patternError,
+      entries: matches
+        .map((id) => {
+          const earlierRule = matchEarlierRule(id);
+          return {
+            id,
+            name: loggedExercises.get(id) ?? id,
+            shadowedBy: mappedPatterns.has(id)
+              ? 'exact mapping'
+              : earlierRule
+                ? `rule "${earlierRule.pattern}"`
+                : null,
+          };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }, [editing, input, loggedExercises, mappedPatterns, rules]);
+
+  const targetResults = useMemo(
+    () => (targetQuery.trim() ? searchExercises(targetQuery, 8, customExercises) : []),
+    [targetQuery, customExercises]
+  );
+
+  const countMatches = (rule: MappingRule): number =>
+    previewRule(rule, Array.from(loggedExercises.keys())).matches.length;
+
+  const describeTarget = (rule: Pick<MappingRule, 'isIgnored' | 'canonicalExerciseId'>): string =>
+    rule.isIgnored
+      ? 'Ignore'
+      : `→ ${exerciseNames.get(rule.canonicalExerciseId ?? '') ?? rule.canonicalExerciseId}`;
+
+  const openEditor = (rule: MappingRule | 'new'): void => {
+    const initial = rule === 'new' ? EMPTY_INPUT : rule;
+    setInput({
+      matchType: initial.matchType,
+      pattern: initial.pattern,
+      canonicalExerciseId: initial.canonicalExerciseId,
+      isIgnored: initial.isIgnored,
+      isEnabled: initial.isEnabled,
+    });
+    setTargetQuery('');
+    setError(null);
+    setEditing(rule);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    if (!editing) return;
+    setError(null);
+
+    try {
+      if (editing === 'new') {
+        await createRule(profileId, input);
+      } else {
+        await updateRule(editing.id, input);
+      }
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1): Promise<void> => {
+    const ids = rules.map((r) => r.id);
+    const [moved] = ids.splice(index, 1);
+    if (moved === undefined) return;
+    ids.splice(index + offset, 0, moved);
+    await reorderRules(ids);
+  };
+
+  const handleToggle = async (rule: MappingRule): Promise<void> => {
+    try {
+      await updateRule(rule.id, { ...rule, isEnabled: !rule.isEnabled });
+    } catch (err) {
+      console.error('Failed to toggle rule:', err);
+    }
+  };
+
+  const handleDelete = async (rule: MappingRule): Promise<void> => {
+    if (window.confirm(`Delete the rule "${rule.pattern}"?`)) {
+      try {
+        await deleteRule(rule.id);
+      } catch (err) {
+        console.error('Failed to delete rule:', err);
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-cyan-500 border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="font-mono text-sm text-zinc-500">
+          Rules run top to bottom; the first match wins. Exact mappings always take priority.
+        </p>
+        {editing === null && (
+          <button
+            onClick={() => openEditor('new')}
+            className="border-2 border-cyan-500 bg-cyan-500 px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-zinc-900 transition-all hover:bg-cyan-400"
+          >
+            New Rule
+          </button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <div className="space-y-4 border-2 border-cyan-500 bg-zinc-900 p-4">
+          <div className="font-mono text-xs uppercase tracking-widest text-cyan-500">
+            {editing === 'new' ? 'New Rule' : 'Edit Rule'}
+          </div>
+
+          <div className="flex gap-3">
+            <select
+              value={input.matchType}
+              onChange={(e) => setInput({ ...input, matchType: e.target.value as RuleMatchType })}
+              className="border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white focus:border-cyan-500 focus:outline-none"
+            >
+              {RULE_MATCH_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={input.pattern}
+              onChange={(e) => setInput({ ...input, pattern: e.target.value })}
+              placeholder={MATCH_TYPE_HINTS[input.matchType]}
+              className="flex-1 border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none"
+            />
+          </div>
+
+          <div className="space-y-2 font-mono text-sm text-zinc-300">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={!input.isIgnored}
+                onChange={() => setInput({ ...input, isIgnored: false })}
+                className="accent-cyan-500"
+              />
+              Map to {input.canonicalExerciseId && !input.isIgnored && describeTarget(input)}
+            </label>
+            {!input.isIgnored && (
+              <div className="ml-6">
+                <input
+                  type="text"
+                  value={targetQuery}
+                  onChange={(e) => setTargetQuery(e.target.value)}
+                  placeholder="Search exercises..."
+                  className="w-full border-2 border-zinc-700 bg-zinc-950 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none"
+                />
+                {targetResults.length > 0 && (
+                  <div className="divide-y divide-zinc-800 border-2 border-t-0 border-zinc-700">
+                    {targetResults.map((result) => (
+                      <button
+                        key={result.id}
+                        onClick={() => {
+                          setInput({ ...input, canonicalExerciseId: result.id });
+                          setTargetQuery('');
+                        }}
+                        className="w-full bg-zinc-950 px-3 py-2 text-left text-xs text-white hover:bg-zinc-800"
+                      >
+                        {result.name}
+                        {result.isCustom && <span className="ml-2 text-zinc-500">custom</span>}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={input.isIgnored}
+                onChange={() => setInput({ ...input, isIgnored: true })}
+                className="accent-cyan-500"
+              />
+              Ignore matching exercises
+            </label>
+          </div>
+
+          {/* Live preview */}
+          {preview && input.pattern.trim() !== '' && (
+            <div className="border-2 border-zinc-800 bg-zinc-950 p-3 font-mono text-xs">
+              {preview.error ? (
+                <p className="text-red-400">{preview.error}</p>
+              ) : (
+                <>
+                  <p className="mb-2 uppercase tracking-wider text-zinc-500">
+                    Matches {preview.entries.length} logged exercise(s)
+                  </p>
+                  <ul className="max-h-48 space-y-1 overflow-y-auto">
+                    {preview.entries.map((entry) => (
+                      <li
+                        key={entry.id}
+                        className={entry.shadowedBy ? 'text-zinc-600' : 'text-zinc-200'}
+                      >
+                        {entry.name}
+                        {entry.shadowedBy && ` (handled by ${entry.shadowedBy})`}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+
+          {error && <p className="font-mono text-xs text-red-400">{error}</p>}
+          <div className="flex gap-3">
+            <button
+              onClick={() => void handleSave()}
+              disabled={isSaving || !!preview?.error}
+              className="bg-cyan-500 px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-zinc-900 transition-all hover:bg-cyan-400 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              disabled={isSaving}
+              className="px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-zinc-500 transition-all hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 && editing === null ? (
+        <div className="border-2 border-zinc-700 bg-zinc-900 p-8 text-center">
+          <p className="font-mono text-sm text-zinc-500">
+            No rules yet. Map "* lateral raise *" to Lateral Raise, or ignore anything containing
+            "stretch".
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y divide-zinc-800 border-2 border-zinc-700 bg-zinc-900">
+          {rules.map((rule, index) => (
+            <div
+              key={rule.id}
+              className={`flex items-center gap-4 p-4 font-mono ${rule.isEnabled ? '' : 'opacity-50'}`}
+            >
+              <div className="flex flex-col">
+                <button
+                  onClick={() => void handleMove(index, -1)}
+                  disabled={index === 0 || isReordering}
+                  className="text-xs text-zinc-500 hover:text-cyan-400 disabled:opacity-30"
+                  aria-label="Move up"
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => void handleMove(index, 1)}
+                  disabled={index === rules.length - 1 || isReordering}
+                  className="text-xs text-zinc-500 hover:text-cyan-400 disabled:opacity-30"
+                  aria-label="Move down"
+                >
+                  ▼
+                </button>
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="rounded border border-zinc-600 px-1.5 py-0.5 text-[10px] uppercase tracking-wider text-zinc-400">
+                    {rule.matchType}
+                  </span>
+                  <span className="font-bold text-white">{rule.pattern}</span>
+                  <span className={rule.isIgnored ? 'text-amber-500' : 'text-cyan-400'}>
+                    {describeTarget(rule)}
+                  </span>
+                </div>
+                <div className="mt-1 text-xs text-zinc-500">
+                  Matches {countMatches(rule)} logged exercise(s)
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <button
+                  onClick={() => void handleToggle(rule)}
+                  disabled={isUpdating}
+                  className="px-3 py-1 text-xs uppercase text-zinc-400 transition-colors hover:text-white disabled:opacity-50"
+                >
+                  {rule.isEnabled ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  onClick={() => openEditor(rule)}
+                  disabled={editing !== null}
+                  className="px-3 py-1 text-xs uppercase text-cyan-500 transition-colors hover:text-cyan-300 disabled:opacity-50"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => void handleDelete(rule)}
+                  disabled={isDeleting}
+                  className="px-3 py-1 text-xs uppercase text-red-500 transition-colors hover:text-red-400 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
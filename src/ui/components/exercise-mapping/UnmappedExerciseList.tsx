@@ -5,6 +5,8 @@
 
 import { useState } from 'react';
 import { useUnmappedExercises } from '@db/hooks/useUnmappedExercises';
+import { useCustomExercises } from '@db/hooks/useCustomExercises';
+import { useAutoMatchLearning } from '@db/hooks/useAutoMatchLearning';
 import { ExerciseSearchModal } from './ExerciseSearchModal';
 import { AutoMatchReviewModal } from './AutoMatchReviewModal';
 import { generateAutoMatchSuggestions, type AutoMatchSuggestion } from '@core/exercise-auto-match';
@@ -16,12 +18,14 @@ interface UnmappedExerciseListProps {
 
 export function UnmappedExerciseList({ profileId }: UnmappedExerciseListProps): React.ReactElement {
   const { unmappedExercises, count, isLoading } = useUnmappedExercises(profileId);
+  const { customExercises } = useCustomExercises(profileId);
+  const { learning } = useAutoMatchLearning(profileId);
   const [selectedExercise, setSelectedExercise] = useState<UnmappedExercise | null>(null);
   const [autoMatchSuggestions, setAutoMatchSuggestions] = useState<AutoMatchSuggestion[] | null>(null);
 
   // Handle auto-match button click
   const handleAutoMatch = (): void => {
-    const suggestions = generateAutoMatchSuggestions(unmappedExercises);
+    const suggestions = generateAutoMatchSuggestions(unmappedExercises, customExercises, learning);
     setAutoMatchSuggestions(suggestions);
   };
 
@@ -7,3 +7,9 @@ export { UnmappedExerciseList } from './UnmappedExerciseList';
 export { ExerciseSearchModal } from './ExerciseSearchModal';
 export { ExistingMappingsList } from './ExistingMappingsList';
 export { MuscleValueEditor } from './MuscleValueEditor';
+export { CustomExerciseLibrary } from './CustomExerciseLibrary';
+export { MappingRulesEditor } from './MappingRulesEditor';
+export { MappingImpactPreview } from './MappingImpactPreview';
+export { MappingHistoryPanel } from './MappingHistoryPanel';
+export { LearnedMatchRulesEditor } from './LearnedMatchRulesEditor';
+export { AutoAppliedMatchQueue } from './AutoAppliedMatchQueue';
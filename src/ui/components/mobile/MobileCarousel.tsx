@@ -12,12 +12,13 @@ import { useState, useEffect, useCallback } from 'react';
 import useEmblaCarousel from 'embla-carousel-react';
 import { MobileHeatmap } from '@ui/components/mobile/MobileHeatmap';
 import { MobileMuscleList } from '@ui/components/mobile/MobileMuscleList';
-import type { ViewMode } from '@db/hooks/useWorkouts';
+import type { DateRange, VolumeMode } from '@db/hooks/useVolumeStats';
 
 interface MobileCarouselProps {
   profileId: string | null;
   daysBack?: number;
-  viewMode?: ViewMode;
+  dateRange?: DateRange;
+  volumeMode?: VolumeMode;
 }
 
 /**
@@ -29,7 +30,8 @@ interface MobileCarouselProps {
 export function MobileCarousel({
   profileId,
   daysBack = 7,
-  viewMode,
+  dateRange,
+  volumeMode = 'raw',
 }: MobileCarouselProps): React.ReactElement {
   // Initialize Embla with critical options
   const [emblaRef, emblaApi] = useEmblaCarousel({
@@ -74,14 +76,20 @@ export function MobileCarousel({
             <MobileHeatmap
               profileId={profileId}
               daysBack={daysBack}
-              viewMode={viewMode}
+              dateRange={dateRange}
+              volumeMode={volumeMode}
               isActive={selectedIndex === 0}
             />
           </div>
 
           {/* Slide 2: Muscle List */}
           <div className="flex-[0_0_100%] min-w-0 px-4">
-            <MobileMuscleList profileId={profileId} daysBack={daysBack} viewMode={viewMode} />
+            <MobileMuscleList
+              profileId={profileId}
+              daysBack={daysBack}
+              dateRange={dateRange}
+              volumeMode={volumeMode}
+            />
           </div>
         </div>
       </div>
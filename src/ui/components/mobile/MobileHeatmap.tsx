@@ -11,7 +11,7 @@
 import { useMemo, useId, useState, useCallback, useEffect } from 'react';
 import Model from 'react-body-highlighter';
 import type { IExerciseData, Muscle } from 'react-body-highlighter';
-import { useScientificMuscleVolume, type ViewMode } from '@db/hooks';
+import { useScientificMuscleVolume, type DateRange, type VolumeMode } from '@db/hooks';
 import { useEffectiveMuscleGroupConfig } from '@db/hooks/useMuscleGroups';
 import type { ScientificMuscle } from '@core/taxonomy';
 import { getVolumeColor, getNoTargetColor } from '@core/color-scale';
@@ -21,7 +21,8 @@ import { MuscleDetailModal } from './MuscleDetailModal';
 interface MobileHeatmapProps {
   profileId: string | null;
   daysBack?: number;
-  viewMode?: ViewMode;
+  dateRange?: DateRange;
+  volumeMode?: VolumeMode;
   isActive?: boolean;
 }
 
@@ -135,12 +136,13 @@ interface MuscleStats {
 export function MobileHeatmap({
   profileId,
   daysBack = 7,
-  viewMode,
+  dateRange,
+  volumeMode = 'raw',
   isActive = true,
 }: MobileHeatmapProps): React.ReactElement {
-  // Use viewMode if provided, otherwise fall back to daysBack
-  const volumeArg = viewMode ?? daysBack;
-  const { stats, isLoading, error } = useScientificMuscleVolume(profileId, volumeArg);
+  // Use dateRange if provided, otherwise fall back to daysBack
+  const volumeArg = dateRange ?? daysBack;
+  const { stats, isLoading, error } = useScientificMuscleVolume(profileId, volumeArg, volumeMode);
   const { config } = useEffectiveMuscleGroupConfig(profileId);
   const [view, setView] = useSessionState<'front' | 'back'>(
     'scientificmuscle_heatmap_view',
@@ -345,7 +347,8 @@ export function MobileHeatmap({
         relatedMuscles={selectedRegion ? REGION_TO_MUSCLES[selectedRegion].related : undefined}
         profileId={profileId}
         daysBack={daysBack}
-        viewMode={viewMode}
+        dateRange={dateRange}
+        volumeMode={volumeMode}
       />
     </div>
   );
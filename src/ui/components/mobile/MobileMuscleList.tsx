@@ -15,7 +15,12 @@
  */
 
 import { useState, useMemo, useEffect } from 'react';
-import { useScientificMuscleVolume, type VolumeStatItem, type ViewMode } from '@db/hooks/useVolumeStats';
+import {
+  useScientificMuscleVolume,
+  type VolumeStatItem,
+  type DateRange,
+  type VolumeMode,
+} from '@db/hooks/useVolumeStats';
 import { useEffectiveMuscleGroupConfig } from '@db/hooks/useMuscleGroups';
 import { getVolumeColor } from '@core/color-scale';
 import type { ScientificMuscle } from '@core/taxonomy';
@@ -23,7 +28,8 @@ import type { ScientificMuscle } from '@core/taxonomy';
 interface MobileMuscleListProps {
   profileId: string | null;
   daysBack?: number;
-  viewMode?: ViewMode;
+  dateRange?: DateRange;
+  volumeMode?: VolumeMode;
 }
 
 /**
@@ -41,12 +47,17 @@ function formatVolume(volume: number): string {
 export function MobileMuscleList({
   profileId,
   daysBack = 7,
-  viewMode,
+  dateRange,
+  volumeMode = 'raw',
 }: MobileMuscleListProps): React.ReactElement {
   // Fetch volume data for all muscles
-  // Use viewMode if provided, otherwise fall back to daysBack
-  const volumeArg = viewMode ?? daysBack;
-  const { stats, isLoading: volumeLoading, error } = useScientificMuscleVolume(profileId, volumeArg);
+  // Use dateRange if provided, otherwise fall back to daysBack
+  const volumeArg = dateRange ?? daysBack;
+  const { stats, isLoading: volumeLoading, error } = useScientificMuscleVolume(
+    profileId,
+    volumeArg,
+    volumeMode
+  );
 
   // Fetch custom group configuration
   const { config, isLoading: configLoading } = useEffectiveMuscleGroupConfig(profileId);
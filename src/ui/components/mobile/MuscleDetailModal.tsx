@@ -11,13 +11,23 @@
  * - Positioned at bottom of viewport (above navigation)
  * - Swipe down to dismiss
  * - Separator between primary and related muscles
+ * - Ranked per-exercise contributions (tap a muscle in region mode to expand)
  */
 
 import { useEffect, useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { useScientificMuscleVolume, type VolumeStatItem, type ViewMode } from '@db/hooks/useVolumeStats';
+import {
+  useScientificMuscleVolume,
+  useVolumeTrace,
+  type VolumeStatItem,
+  type DateRange,
+  type VolumeMode,
+} from '@db/hooks/useVolumeStats';
+import { Info } from 'lucide-react';
 import { getVolumeColor } from '@core/color-scale';
 import type { ScientificMuscle } from '@core/taxonomy';
+import type { ExerciseContribution } from '@core/volume-trace';
+import { VolumeTraceModal } from '../VolumeTraceModal';
 import type { BodyRegion } from './MobileHeatmap';
 
 interface MuscleDetailModalProps {
@@ -32,7 +42,8 @@ interface MuscleDetailModalProps {
   // Common
   profileId: string | null;
   daysBack?: number;
-  viewMode?: ViewMode;
+  dateRange?: DateRange;
+  volumeMode?: VolumeMode;
 }
 
 interface MuscleData {
@@ -71,15 +82,76 @@ function getMuscleData(
 }
 
 /**
- * Render a single muscle row
+ * Ranked list of the exercises that produced a muscle's volume
  */
-function MuscleRow({ muscle }: { muscle: MuscleData }): React.ReactElement {
+function ContributionList({
+  contributions,
+}: {
+  contributions: ExerciseContribution[];
+}): React.ReactElement {
+  return (
+    <ol className="space-y-1 pt-1">
+      {contributions.map((contribution) => (
+        <li key={contribution.exerciseId} className="text-[11px] leading-tight">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-primary-300 truncate">{contribution.originalName}</span>
+            <span className="text-primary-200 font-mono flex-shrink-0">
+              {Math.round(contribution.percentage)}%
+            </span>
+          </div>
+          <div className="text-primary-500 font-mono">
+            {contribution.sets} {contribution.sets === 1 ? 'set' : 'sets'} ·{' '}
+            {formatVolume(contribution.volume)}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * Render a single muscle row, with its exercise breakdown when expanded
+ */
+function MuscleRow({
+  muscle,
+  contributions,
+  onToggle,
+  onExplain,
+}: {
+  muscle: MuscleData;
+  contributions: ExerciseContribution[] | null; // Set while expanded
+  onToggle?: () => void;
+  onExplain: () => void;
+}): React.ReactElement {
+  const hasVolume = muscle.volume > 0;
+
   return (
     <div className="space-y-1">
       <div className="flex items-center justify-between gap-2">
-        <span className="text-xs text-primary-200 truncate">{muscle.name}</span>
-        <span className="text-xs text-primary-400 font-mono flex-shrink-0">
+        {onToggle && hasVolume ? (
+          <button
+            type="button"
+            onClick={onToggle}
+            className="text-xs text-primary-200 truncate text-left hover:text-white"
+            aria-expanded={contributions !== null}
+          >
+            {muscle.name}
+          </button>
+        ) : (
+          <span className="text-xs text-primary-200 truncate">{muscle.name}</span>
+        )}
+        <span className="flex flex-shrink-0 items-center gap-1 text-xs text-primary-400 font-mono">
           {formatVolume(muscle.volume)}/{formatVolume(muscle.goal)}
+          {muscle.volume > 0 && (
+            <button
+              type="button"
+              onClick={onExplain}
+              className="text-primary-400 transition-colors hover:text-primary-200"
+              aria-label={`Explain ${muscle.name} volume`}
+            >
+              <Info className="h-3 w-3" />
+            </button>
+          )}
         </span>
       </div>
       <div className="w-full h-0.5 overflow-hidden rounded-full bg-primary-900">
@@ -91,6 +163,9 @@ function MuscleRow({ muscle }: { muscle: MuscleData }): React.ReactElement {
           }}
         />
       </div>
+      {contributions && contributions.length > 0 && (
+        <ContributionList contributions={contributions} />
+      )}
     </div>
   );
 }
@@ -108,14 +183,15 @@ export function MuscleDetailModal({
   muscle,
   profileId,
   daysBack = 7,
-  viewMode,
+  dateRange,
+  volumeMode = 'raw',
 }: MuscleDetailModalProps): React.ReactElement | null {
   // Determine mode: single muscle vs region
   const isSingleMuscleMode = muscle !== undefined && muscle !== null;
   // Fetch volume data for all muscles
-  // Use viewMode if provided, otherwise fall back to daysBack
-  const volumeArg = viewMode ?? daysBack;
-  const { stats } = useScientificMuscleVolume(profileId, volumeArg);
+  // Use dateRange if provided, otherwise fall back to daysBack
+  const volumeArg = dateRange ?? daysBack;
+  const { stats } = useScientificMuscleVolume(profileId, volumeArg, volumeMode);
 
   // Create stats map for O(1) muscle lookup
   const statsMap = useMemo(() => {
@@ -135,9 +211,33 @@ export function MuscleDetailModal({
     [relatedMuscles, isSingleMuscleMode, statsMap]
   );
 
-  // Escape key dismiss
+  // Muscle whose volume breakdown is open, and the muscle whose exercise list is
+  // expanded in region mode (both reset whenever the panel opens or closes)
+  const [explainedMuscle, setExplainedMuscle] = useState<ScientificMuscle | null>(null);
+  const [expandedMuscle, setExpandedMuscle] = useState<string | null>(null);
+  const [wasOpen, setWasOpen] = useState(isOpen);
+  if (wasOpen !== isOpen) {
+    setWasOpen(isOpen);
+    setExplainedMuscle(null);
+    setExpandedMuscle(null);
+  }
+
+  // Exercise breakdown of the expanded muscle, traced only while it is shown
+  const shownMuscle = isSingleMuscleMode ? muscle : (expandedMuscle as ScientificMuscle | null);
+  const { contributions } = useVolumeTrace(
+    profileId,
+    isOpen ? shownMuscle : null,
+    volumeArg,
+    volumeMode
+  );
+
+  const toggleExpanded = (name: string): void => {
+    setExpandedMuscle((current) => (current === name ? null : name));
+  };
+
+  // Escape key dismiss (the breakdown closes first)
   useEffect(() => {
-    if (!isOpen) return;
+    if (!isOpen || explainedMuscle) return;
 
     const handleEscape = (e: KeyboardEvent): void => {
       if (e.key === 'Escape') {
@@ -147,7 +247,7 @@ export function MuscleDetailModal({
 
     window.addEventListener('keydown', handleEscape);
     return () => window.removeEventListener('keydown', handleEscape);
-  }, [isOpen, onClose]);
+  }, [isOpen, explainedMuscle, onClose]);
 
   // Swipe-down dismiss state
   const [touchStart, setTouchStart] = useState(0);
@@ -196,7 +296,7 @@ export function MuscleDetailModal({
       ? formatRegionName(region)
       : '';
 
-  return createPortal(
+  const panel = createPortal(
     <div
       className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 w-56 bg-primary-800 rounded-lg shadow-xl border border-primary-700 overflow-hidden"
       onTouchStart={handleTouchStart}
@@ -223,10 +323,18 @@ export function MuscleDetailModal({
       </div>
 
       {/* Muscle List - compact spacing */}
-      <div className="p-3 space-y-2 max-h-48 overflow-y-auto">
+      <div className="p-3 space-y-2 max-h-64 overflow-y-auto">
         {/* Primary muscles */}
         {primaryData.map((muscle) => (
-          <MuscleRow key={muscle.name} muscle={muscle} />
+          <MuscleRow
+            key={muscle.name}
+            muscle={muscle}
+            contributions={
+              isSingleMuscleMode || expandedMuscle === muscle.name ? contributions : null
+            }
+            onToggle={isSingleMuscleMode ? undefined : (): void => toggleExpanded(muscle.name)}
+            onExplain={() => setExplainedMuscle(muscle.name as ScientificMuscle)}
+          />
         ))}
 
         {/* Separator and related muscles */}
@@ -234,7 +342,13 @@ export function MuscleDetailModal({
           <>
             <div className="border-t border-primary-700 my-2" />
             {relatedData.map((muscle) => (
-              <MuscleRow key={muscle.name} muscle={muscle} />
+              <MuscleRow
+                key={muscle.name}
+                muscle={muscle}
+                contributions={expandedMuscle === muscle.name ? contributions : null}
+                onToggle={() => toggleExpanded(muscle.name)}
+                onExplain={() => setExplainedMuscle(muscle.name as ScientificMuscle)}
+              />
             ))}
           </>
         )}
@@ -242,4 +356,17 @@ export function MuscleDetailModal({
     </div>,
     document.body
   );
+
+  return (
+    <>
+      {panel}
+      <VolumeTraceModal
+        profileId={profileId}
+        muscle={explainedMuscle}
+        onClose={() => setExplainedMuscle(null)}
+        dateWindow={volumeArg}
+        volumeMode={volumeMode}
+      />
+    </>
+  );
 }
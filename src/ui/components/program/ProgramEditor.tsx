@@ -0,0 +1,261 @@
+/**
+ * Program Editor Component
+ * Edits a program's days, exercises and planned sets, with its projected weekly
+ * volume per muscle shown live against the profile's goals
+ */
+
+import { useMemo, useState } from 'react';
+import { useCustomExercises } from '@db/hooks/useCustomExercises';
+import {
+  useCreateTrainingProgram,
+  useUpdateTrainingProgram,
+  useDeleteTrainingProgram,
+} from '@db/hooks/useTrainingPrograms';
+import { useProjectedMuscleVolume } from '@db/hooks/useVolumeStats';
+import { generateId, type ProgramDay, type TrainingProgram } from '@db/schema';
+import { getAllCanonicalExercises, searchExercises } from '@core/exercise-search';
+import { ProjectedVolumeHeatmap } from './ProjectedVolumeHeatmap';
+
+/** Sets given to a newly added exercise */
+const DEFAULT_PLANNED_SETS = 3;
+
+interface ProgramEditorProps {
+  profileId: string;
+  /** Program to edit; null starts a new one */
+  program: TrainingProgram | null;
+  onSaved: (program: TrainingProgram) => void;
+  onDeleted: () => void;
+}
+
+function createDay(index: number): ProgramDay {
+  return { id: generateId(), name: `Day ${index + 1}`, exercises: [] };
+}
+
+export function ProgramEditor({
+  profileId,
+  program,
+  onSaved,
+  onDeleted,
+}: ProgramEditorProps): React.ReactElement {
+  const [name, setName] = useState(program?.name ?? '');
+  const [days, setDays] = useState<ProgramDay[]>(program?.days ?? [createDay(0)]);
+  const [searchDayId, setSearchDayId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { customExercises } = useCustomExercises(profileId);
+  const { createProgram, isCreating } = useCreateTrainingProgram();
+  const { updateProgram, isUpdating } = useUpdateTrainingProgram();
+  const { deleteProgram, isDeleting } = useDeleteTrainingProgram();
+  const { stats, totalSets, unmappedExerciseIds, isLoading } = useProjectedMuscleVolume(
+    profileId,
+    days
+  );
+
+  const exerciseNames = useMemo(
+    () => new Map(getAllCanonicalExercises(customExercises).map((e) => [e.id, e.name])),
+    [customExercises]
+  );
+  const results = useMemo(
+    () => (query.trim() ? searchExercises(query, 8, customExercises) : []),
+    [query, customExercises]
+  );
+
+  const isBusy = isCreating || isUpdating || isDeleting;
+
+  const updateDay = (dayId: string, update: (day: ProgramDay) => ProgramDay): void => {
+    setDays((current) => current.map((day) => (day.id === dayId ? update(day) : day)));
+  };
+
+  const addExercise = (dayId: string, exerciseId: string): void => {
+    updateDay(dayId, (day) => ({
+      ...day,
+      exercises: [...day.exercises, { exerciseId, sets: DEFAULT_PLANNED_SETS }],
+    }));
+    setSearchDayId(null);
+    setQuery('');
+  };
+
+  const handleSave = async (): Promise<void> => {
+    setError(null);
+    try {
+      if (program) {
+        await updateProgram(program, { name, days });
+        onSaved({ ...program, name, days });
+      } else {
+        onSaved(await createProgram(profileId, { name, days }));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save program');
+    }
+  };
+
+  const handleDelete = async (): Promise<void> => {
+    if (!program || !window.confirm(`Delete program "${program.name}"?`)) return;
+    try {
+      await deleteProgram(program.id);
+      onDeleted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete program');
+    }
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      {/* Days and planned sets */}
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Program name"
+            aria-label="Program name"
+            className="min-w-0 flex-1 rounded border border-zinc-700 bg-zinc-900 px-3 py-2 text-white placeholder-zinc-500 focus:border-cyan-500 focus:outline-none"
+          />
+          <button
+            onClick={() => void handleSave()}
+            disabled={isBusy}
+            className="rounded bg-cyan-500 px-4 py-2 text-sm font-bold uppercase tracking-wider text-zinc-950 transition-colors hover:bg-cyan-400 disabled:opacity-50"
+          >
+            {isCreating || isUpdating ? 'Saving...' : 'Save'}
+          </button>
+          {program && (
+            <button
+              onClick={() => void handleDelete()}
+              disabled={isBusy}
+              className="rounded px-3 py-2 text-sm uppercase text-red-500 transition-colors hover:text-red-400 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {days.map((day, dayIndex) => (
+          <div key={day.id} className="rounded-lg border-2 border-zinc-800 bg-zinc-950 p-4">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={day.name}
+                onChange={(e) => updateDay(day.id, (d) => ({ ...d, name: e.target.value }))}
+                aria-label={`Day ${dayIndex + 1} name`}
+                className="min-w-0 flex-1 bg-transparent text-sm font-bold uppercase tracking-wider text-zinc-300 focus:text-white focus:outline-none"
+              />
+              <button
+                onClick={() => setDays((current) => current.filter((d) => d.id !== day.id))}
+                className="text-xs uppercase text-zinc-500 transition-colors hover:text-red-400"
+              >
+                Remove day
+              </button>
+            </div>
+
+            <ul className="mt-3 space-y-2">
+              {day.exercises.map((exercise, exerciseIndex) => (
+                <li key={exerciseIndex} className="flex items-center gap-2 text-sm">
+                  <span className="min-w-0 flex-1 truncate text-white">
+                    {exerciseNames.get(exercise.exerciseId) ?? exercise.exerciseId}
+                    {unmappedExerciseIds.includes(exercise.exerciseId) && (
+                      <span className="ml-2 text-xs text-amber-400">no muscle values</span>
+                    )}
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={exercise.sets}
+                    onChange={(e) =>
+                      updateDay(day.id, (d) => ({
+                        ...d,
+                        exercises: d.exercises.map((ex, i) =>
+                          i === exerciseIndex ? { ...ex, sets: Number(e.target.value) } : ex
+                        ),
+                      }))
+                    }
+                    aria-label="Planned sets"
+                    className="w-16 rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-right font-mono text-white focus:border-cyan-500 focus:outline-none"
+                  />
+                  <span className="text-xs text-zinc-500">sets</span>
+                  <button
+                    onClick={() =>
+                      updateDay(day.id, (d) => ({
+                        ...d,
+                        exercises: d.exercises.filter((_, i) => i !== exerciseIndex),
+                      }))
+                    }
+                    className="px-1 text-zinc-500 transition-colors hover:text-red-400"
+                    aria-label="Remove exercise"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {searchDayId === day.id ? (
+              <div className="mt-3">
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search exercises..."
+                  autoFocus
+                  className="w-full rounded border border-zinc-700 bg-zinc-900 px-3 py-2 text-sm text-white placeholder-zinc-500 focus:border-cyan-500 focus:outline-none"
+                />
+                {results.length > 0 && (
+                  <ul className="mt-1 divide-y divide-zinc-800 rounded border border-zinc-800">
+                    {results.map((result) => (
+                      <li key={result.id}>
+                        <button
+                          onClick={() => addExercise(day.id, result.id)}
+                          className="w-full px-3 py-1.5 text-left text-sm text-zinc-300 transition-colors hover:bg-zinc-800 hover:text-white"
+                        >
+                          {result.name}
+                          {result.isCustom && (
+                            <span className="ml-2 text-xs text-cyan-500">custom</span>
+                          )}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ) : (
+              <button
+                onClick={() => {
+                  setSearchDayId(day.id);
+                  setQuery('');
+                }}
+                className="mt-3 text-xs font-bold uppercase tracking-wider text-cyan-500 transition-colors hover:text-cyan-300"
+              >
+                + Add exercise
+              </button>
+            )}
+          </div>
+        ))}
+
+        <button
+          onClick={() => setDays((current) => [...current, createDay(current.length)])}
+          className="w-full rounded-lg border-2 border-dashed border-zinc-800 py-3 text-xs font-bold uppercase tracking-wider text-zinc-500 transition-colors hover:border-zinc-600 hover:text-zinc-300"
+        >
+          + Add day
+        </button>
+      </div>
+
+      {/* Projected weekly volume */}
+      <div className="space-y-3">
+        <div className="flex items-baseline justify-between">
+          <p className="text-xs font-bold uppercase tracking-wider text-zinc-400">
+            Projected Weekly Volume
+          </p>
+          <span className="font-mono text-sm text-zinc-300">{totalSets} sets / week</span>
+        </div>
+        {isLoading ? (
+          <div className="h-64 animate-pulse rounded-lg bg-zinc-900" />
+        ) : (
+          <ProjectedVolumeHeatmap stats={stats} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * Projected Volume Heatmap Component
+ * Front and back body views colored by a program's projected weekly volume against goal
+ */
+
+import { useMemo, useState } from 'react';
+import type { VolumeStatItem } from '@db/hooks/useVolumeStats';
+import type { ScientificMuscle } from '@core/taxonomy';
+import { getVolumeColor } from '@core/color-scale';
+import { BodyHighlighter, type BodyRegion, type RegionStats } from '../anatomy/BodyHighlighter';
+import { REGION_TO_MUSCLES } from '../MuscleHeatmap';
+
+const REGION_NAMES: Record<BodyRegion, string> = {
+  chest: 'Chest',
+  shoulders: 'Shoulders',
+  upperBack: 'Upper Back',
+  lowerBack: 'Lower Back',
+  biceps: 'Biceps',
+  triceps: 'Triceps',
+  forearms: 'Forearms',
+  abs: 'Abs',
+  obliques: 'Obliques',
+  quads: 'Quads',
+  hamstrings: 'Hamstrings',
+  glutes: 'Glutes',
+  calves: 'Calves',
+  adductors: 'Adductors',
+};
+
+interface ProjectedVolumeHeatmapProps {
+  stats: VolumeStatItem[];
+}
+
+export function ProjectedVolumeHeatmap({ stats }: ProjectedVolumeHeatmapProps): React.ReactElement {
+  const [selectedRegion, setSelectedRegion] = useState<BodyRegion | null>(null);
+
+  const regionStats = useMemo(() => {
+    const statsMap = new Map(stats.map((s) => [s.name as ScientificMuscle, s]));
+    const regions = new Map<BodyRegion, RegionStats>();
+
+    for (const [region, muscles] of Object.entries(REGION_TO_MUSCLES) as [
+      BodyRegion,
+      ScientificMuscle[],
+    ][]) {
+      const muscleData = muscles
+        .map((m) => statsMap.get(m))
+        .filter((s): s is VolumeStatItem => s !== undefined);
+
+      const totalVolume = muscleData.reduce((sum, s) => sum + s.volume, 0);
+      const totalGoal = muscleData.reduce((sum, s) => sum + s.goal, 0);
+
+      regions.set(region, {
+        region,
+        name: REGION_NAMES[region],
+        totalVolume,
+        totalGoal,
+        percentage: totalGoal > 0 ? (totalVolume / totalGoal) * 100 : 0,
+        muscles: muscleData,
+      });
+    }
+
+    return regions;
+  }, [stats]);
+
+  const selected = selectedRegion ? regionStats.get(selectedRegion) : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <BodyHighlighter
+          view="front"
+          regionStats={regionStats}
+          onRegionClick={(region) => setSelectedRegion(region.region)}
+          getHeatColor={getVolumeColor}
+        />
+        <BodyHighlighter
+          view="back"
+          regionStats={regionStats}
+          onRegionClick={(region) => setSelectedRegion(region.region)}
+          getHeatColor={getVolumeColor}
+        />
+      </div>
+
+      {selected ? (
+        <div className="rounded-lg border-2 border-zinc-800 bg-zinc-950 px-4 py-3">
+          <div className="flex items-baseline justify-between">
+            <p className="text-xs font-bold uppercase tracking-wider text-zinc-400">
+              {selected.name}
+            </p>
+            <span className="font-mono text-sm text-zinc-300">
+              {selected.totalVolume.toFixed(1)} / {selected.totalGoal} sets
+            </span>
+          </div>
+          <ul className="mt-2 space-y-1">
+            {selected.muscles.map((muscle) => (
+              <li key={muscle.name} className="flex items-center justify-between text-sm">
+                <span className="text-zinc-300">{muscle.name}</span>
+                <span className="font-mono" style={{ color: getVolumeColor(muscle.percentage) }}>
+                  {muscle.volume.toFixed(1)} / {muscle.goal} ({Math.round(muscle.percentage)}%)
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-center text-xs text-zinc-500">
+          Tap a muscle to see its projected sets against goal
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * Program Components
+ * Barrel export for the training program builder
+ */
+
+export { ProgramEditor } from './ProgramEditor';
+export { ProjectedVolumeHeatmap } from './ProjectedVolumeHeatmap';
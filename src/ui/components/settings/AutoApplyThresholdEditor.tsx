@@ -0,0 +1,75 @@
+/**
+ * AutoApplyThresholdEditor
+ *
+ * Chooses the auto-match confidence at which import and sync map new exercises
+ * without review. Auto-applied mappings wait in a review queue on the mapping page.
+ */
+
+import { useState, useEffect } from 'react';
+import { AUTO_APPLY_THRESHOLDS } from '@core/exercise-auto-match';
+
+interface AutoApplyThresholdEditorProps {
+  threshold: number | undefined;
+  onSave: (threshold: number | undefined) => Promise<void>;
+  isSaving: boolean;
+}
+
+export function AutoApplyThresholdEditor({
+  threshold,
+  onSave,
+  isSaving,
+}: AutoApplyThresholdEditorProps): React.ReactElement {
+  const [value, setValue] = useState(threshold?.toString() ?? '');
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  // Sync local state when the profile changes
+  useEffect(() => {
+    setValue(threshold?.toString() ?? '');
+  }, [threshold]);
+
+  const handleSave = async (): Promise<void> => {
+    setSaveSuccess(false);
+    await onSave(value === '' ? undefined : Number(value));
+    setSaveSuccess(true);
+    setTimeout(() => setSaveSuccess(false), 3000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <label htmlFor="auto-apply-threshold" className="flex-1 text-sm text-primary-200">
+          Map new exercises automatically at confidence
+        </label>
+        <select
+          id="auto-apply-threshold"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="rounded border border-primary-600 bg-primary-800 px-2 py-1.5 font-mono text-sm text-white transition-colors focus:border-cyan-500 focus:outline-none"
+        >
+          <option value="">Off</option>
+          {AUTO_APPLY_THRESHOLDS.map((t) => (
+            <option key={t} value={t.toString()}>
+              ≥ {Math.round(t * 100)}%
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-primary-300">
+        Applies to CSV imports and Hevy syncs. Auto-applied mappings can be confirmed or reverted on
+        the Exercise Mappings page.
+      </p>
+
+      <div className="flex items-center gap-4 pt-2">
+        <button
+          onClick={() => void handleSave()}
+          disabled={isSaving}
+          className="rounded bg-cyan-500 px-6 py-2 font-medium text-black transition-colors hover:bg-cyan-400 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        {saveSuccess && <span className="text-sm text-green-400">Saved!</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * BackupRestore
+ *
+ * Exports the current profile with all workouts and customizations to a versioned
+ * JSON file, and restores such a file into a new profile or the current one.
+ */
+
+import { useState, type ChangeEvent } from 'react';
+import { useCurrentProfile } from '../../context/ProfileContext';
+import { useExportBackup, useRestoreBackup, type RestoreResult } from '@db/hooks/useBackup';
+import { parseBackup, serializeBackup, type ProfileBackup } from '@core/backup';
+import { toLocalDateKey } from '@core/date-range';
+import type { Profile } from '@db/schema';
+import { ConfirmationDialog } from './ConfirmationDialog';
+
+interface BackupRestoreProps {
+  profile: Profile | null;
+}
+
+type TargetKind = 'new' | 'existing';
+
+/**
+ * Offer a JSON string as a file download
+ */
+export function downloadJson(json: string, filename: string): void {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'profile'
+  );
+}
+
+export function BackupRestore({ profile }: BackupRestoreProps): React.ReactElement {
+  const { setCurrentProfileId } = useCurrentProfile();
+  const { exportBackup, isExporting } = useExportBackup();
+  const { restoreBackup, isRestoring } = useRestoreBackup();
+
+  const [backup, setBackup] = useState<ProfileBackup | null>(null);
+  const [targetKind, setTargetKind] = useState<TargetKind>('new');
+  const [newProfileName, setNewProfileName] = useState('');
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (): Promise<void> => {
+    if (!profile) return;
+    setError(null);
+
+    try {
+      const data = await exportBackup(profile.id);
+      downloadJson(
+        serializeBackup(data),
+        `gym-analytics-${slugify(profile.name)}-${toLocalDateKey(new Date())}.json`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export backup');
+    }
+  };
+
+  const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setResult(null);
+    setBackup(null);
+
+    try {
+      const parsed = parseBackup(await file.text());
+      setBackup(parsed);
+      setNewProfileName(`${parsed.profile.name} (restored)`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read backup');
+    }
+
+    // Allow selecting the same file again
+    e.target.value = '';
+  };
+
+  const handleRestore = async (): Promise<void> => {
+    if (!backup) return;
+    setShowConfirm(false);
+    setError(null);
+
+    try {
+      const target =
+        targetKind === 'existing' && profile
+          ? { kind: 'existing' as const, profileId: profile.id }
+          : { kind: 'new' as const, name: newProfileName };
+      const restored = await restoreBackup({ backup, target });
+
+      setResult(restored);
+      setBackup(null);
+      if (target.kind === 'new') {
+        setCurrentProfileId(restored.profileId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+    }
+  };
+
+  const customizationCount = backup
+    ? backup.exerciseMappings.length +
+      backup.unmappedExercises.length +
+      backup.defaultExerciseOverrides.length +
+      backup.defaultNameMappingOverrides.length +
+      backup.customExercises.length +
+      backup.mappingRules.length
+    : 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Export */}
+      {profile && (
+        <div>
+          <button
+            type="button"
+            onClick={() => void handleExport()}
+            disabled={isExporting}
+            className="rounded bg-cyan-500 px-4 py-2 font-medium text-black transition-colors hover:bg-cyan-400 disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting...' : 'Download Backup'}
+          </button>
+          <p className="mt-1 text-xs text-primary-300">
+            Includes workouts, goals, mappings and rules, default overrides and custom exercises.
+            The Hevy API key is not included.
+          </p>
+        </div>
+      )}
+
+      {/* Import */}
+      <div>
+        <label className="mb-2 block text-sm text-primary-200">Restore from backup file</label>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => void handleFileSelect(e)}
+          disabled={isRestoring}
+          className="block w-full text-sm text-primary-200 file:mr-4 file:rounded file:border-0 file:bg-primary-500 file:px-4 file:py-2 file:text-sm file:text-white hover:file:bg-primary-400 disabled:opacity-50"
+        />
+      </div>
+
+      {backup && (
+        <div className="space-y-3 rounded border border-primary-500 bg-primary-800 p-4">
+          <div className="text-sm text-primary-200">
+            <p className="font-medium text-white">{backup.profile.name}</p>
+            <p>
+              {backup.workouts.length} workout(s), {customizationCount} customization(s) · exported{' '}
+              {backup.exportedAt.toLocaleDateString()}
+            </p>
+          </div>
+
+          <div className="space-y-2 text-sm text-primary-200">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="restore-target"
+                checked={targetKind === 'new'}
+                onChange={() => setTargetKind('new')}
+              />
+              Restore as a new profile
+            </label>
+            {targetKind === 'new' && (
+              <input
+                type="text"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+                placeholder="Profile name"
+                className="ml-6 w-64 rounded border border-primary-500 bg-primary-900 px-3 py-1.5 text-sm text-white focus:border-primary-300 focus:outline-none"
+              />
+            )}
+            {profile && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="restore-target"
+                  checked={targetKind === 'existing'}
+                  onChange={() => setTargetKind('existing')}
+                />
+                Merge into current profile ({profile.name})
+              </label>
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() =>
+                targetKind === 'existing' ? setShowConfirm(true) : void handleRestore()
+              }
+              disabled={isRestoring}
+              className="rounded bg-cyan-500 px-4 py-2 font-medium text-black transition-colors hover:bg-cyan-400 disabled:opacity-50"
+            >
+              {isRestoring ? 'Restoring...' : 'Restore'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setBackup(null)}
+              disabled={isRestoring}
+              className="px-4 py-2 text-primary-300 transition-colors hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="rounded bg-green-800 p-3 text-green-100">
+          Restored {result.workouts} workout(s) and {result.customizations} customization(s).
+          {result.replaced > 0 && ` ${result.replaced} existing record(s) were overwritten.`}
+          {result.reassigned > 0 &&
+            ` ${result.reassigned} record(s) got new IDs to avoid clashing with another profile.`}
+        </div>
+      )}
+
+      {error && <div className="rounded bg-red-800 p-3 text-red-100">{error}</div>}
+
+      <ConfirmationDialog
+        isOpen={showConfirm}
+        title="Merge Backup?"
+        message={`Workouts and mappings from the backup will be added to ${profile?.name ?? 'this profile'}, overwriting matching ones. Goals and volume settings will be replaced.`}
+        confirmText="Merge"
+        onConfirm={() => void handleRestore()}
+        onCancel={() => setShowConfirm(false)}
+      />
+    </div>
+  );
+}
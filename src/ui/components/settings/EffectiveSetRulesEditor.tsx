@@ -0,0 +1,136 @@
+/**
+ * EffectiveSetRulesEditor
+ *
+ * Configures how sets are weighted when the Dashboard shows effective volume:
+ * an RPE threshold below which sets are discounted, and how drop sets count.
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  DEFAULT_EFFECTIVE_SET_RULES,
+  type DropSetRule,
+  type EffectiveSetRules,
+} from '@core/volume-calculator';
+
+interface EffectiveSetRulesEditorProps {
+  rules: EffectiveSetRules | undefined;
+  onSave: (rules: EffectiveSetRules) => Promise<void>;
+  isSaving: boolean;
+}
+
+const DROP_SET_RULE_LABELS: Record<DropSetRule, string> = {
+  full: 'Count as a full set',
+  half: 'Count as half a set',
+  ignore: 'Ignore',
+};
+
+/**
+ * Parse a number input within bounds, falling back when blank/invalid
+ */
+function parseBounded(value: string, min: number, max: number, fallback: number): number {
+  const parsed = parseFloat(value);
+  if (Number.isNaN(parsed)) return fallback;
+  return Math.min(Math.max(parsed, min), max);
+}
+
+export function EffectiveSetRulesEditor({
+  rules,
+  onSave,
+  isSaving,
+}: EffectiveSetRulesEditorProps): React.ReactElement {
+  const effective = rules ?? DEFAULT_EFFECTIVE_SET_RULES;
+  const [threshold, setThreshold] = useState(effective.rpeThreshold.toString());
+  const [penalty, setPenalty] = useState(effective.penaltyPerRpe.toString());
+  const [dropSetRule, setDropSetRule] = useState<DropSetRule>(effective.dropSetRule);
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  // Sync local state when the profile changes
+  useEffect(() => {
+    const next = rules ?? DEFAULT_EFFECTIVE_SET_RULES;
+    setThreshold(next.rpeThreshold.toString());
+    setPenalty(next.penaltyPerRpe.toString());
+    setDropSetRule(next.dropSetRule);
+  }, [rules]);
+
+  const handleSave = async (): Promise<void> => {
+    setSaveSuccess(false);
+    await onSave({
+      rpeThreshold: parseBounded(threshold, 1, 10, DEFAULT_EFFECTIVE_SET_RULES.rpeThreshold),
+      penaltyPerRpe: parseBounded(penalty, 0, 1, DEFAULT_EFFECTIVE_SET_RULES.penaltyPerRpe),
+      dropSetRule,
+    });
+    setSaveSuccess(true);
+    setTimeout(() => setSaveSuccess(false), 3000);
+  };
+
+  const inputClassName =
+    'w-24 rounded border border-primary-600 bg-primary-800 px-2 py-1.5 text-right font-mono text-sm text-white placeholder-primary-400 transition-colors focus:border-cyan-500 focus:outline-none';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <label htmlFor="rpe-threshold" className="flex-1 text-sm text-primary-200">
+          Full credit at RPE
+        </label>
+        <input
+          id="rpe-threshold"
+          type="number"
+          min={1}
+          max={10}
+          step={0.5}
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <label htmlFor="rpe-penalty" className="flex-1 text-sm text-primary-200">
+          Credit lost per RPE point below
+        </label>
+        <input
+          id="rpe-penalty"
+          type="number"
+          min={0}
+          max={1}
+          step={0.05}
+          value={penalty}
+          onChange={(e) => setPenalty(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <label htmlFor="drop-set-rule" className="flex-1 text-sm text-primary-200">
+          Drop sets
+        </label>
+        <select
+          id="drop-set-rule"
+          value={dropSetRule}
+          onChange={(e) => setDropSetRule(e.target.value as DropSetRule)}
+          className="rounded border border-primary-600 bg-primary-800 px-2 py-1.5 text-sm text-white transition-colors focus:border-cyan-500 focus:outline-none"
+        >
+          {(Object.keys(DROP_SET_RULE_LABELS) as DropSetRule[]).map((rule) => (
+            <option key={rule} value={rule}>
+              {DROP_SET_RULE_LABELS[rule]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-primary-300">
+        Used when the Dashboard is switched to Effective. Warmups never count; failure sets and
+        sets without RPE always count fully.
+      </p>
+
+      <div className="flex items-center gap-4 pt-2">
+        <button
+          onClick={() => void handleSave()}
+          disabled={isSaving}
+          className="rounded bg-cyan-500 px-6 py-2 font-medium text-black transition-colors hover:bg-cyan-400 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        {saveSuccess && <span className="text-sm text-green-400">Saved!</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+/**
+ * MappingPackTransfer
+ *
+ * Exports the current profile's mappings, default overrides and muscle groups as
+ * a shareable mapping pack, and imports a pack with a per-item diff where each
+ * conflict keeps the profile's version or takes the pack's.
+ */
+
+import { useMemo, useState, type ChangeEvent } from 'react';
+import {
+  useCompareMappingPack,
+  useExportMappingPack,
+  useImportMappingPack,
+  type MappingPackImportResult,
+} from '@db/hooks/useMappingPack';
+import {
+  getDefaultResolution,
+  parseMappingPack,
+  selectPackImport,
+  serializeMappingPack,
+  summarizePackValue,
+  PACK_ITEM_KIND_LABELS,
+  type MappingPack,
+  type PackItem,
+  type PackResolution,
+} from '@core/mapping-pack';
+import { toLocalDateKey } from '@core/date-range';
+import type { Profile } from '@db/schema';
+import { downloadJson, slugify } from './BackupRestore';
+
+interface MappingPackTransferProps {
+  profile: Profile;
+}
+
+const STATUS_LABELS = {
+  new: 'New',
+  same: 'Unchanged',
+  conflict: 'Conflict',
+} as const;
+
+export function MappingPackTransfer({ profile }: MappingPackTransferProps): React.ReactElement {
+  const { exportPack, isExporting } = useExportMappingPack();
+  const { comparePack, isComparing } = useCompareMappingPack();
+  const { importPack, isImporting } = useImportMappingPack();
+
+  const [packName, setPackName] = useState('');
+  const [pack, setPack] = useState<MappingPack | null>(null);
+  const [items, setItems] = useState<PackItem[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, PackResolution>>({});
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [result, setResult] = useState<MappingPackImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const counts = useMemo(
+    () => ({
+      new: items.filter((item) => item.status === 'new').length,
+      same: items.filter((item) => item.status === 'same').length,
+      conflict: items.filter((item) => item.status === 'conflict').length,
+    }),
+    [items]
+  );
+  const visibleItems = showUnchanged ? items : items.filter((item) => item.status !== 'same');
+  const selected = useMemo(() => selectPackImport(items, resolutions), [items, resolutions]);
+  const selectedCount =
+    selected.exerciseMappings.length +
+    selected.defaultExerciseOverrides.length +
+    selected.defaultNameMappingOverrides.length +
+    (selected.muscleGroups ? 1 : 0);
+
+  const getResolution = (item: PackItem): PackResolution =>
+    resolutions[item.id] ?? getDefaultResolution(item);
+
+  const resolveAll = (resolution: PackResolution): void => {
+    setResolutions(
+      Object.fromEntries(
+        items.filter((item) => item.status === 'conflict').map((item) => [item.id, resolution])
+      )
+    );
+  };
+
+  const handleExport = async (): Promise<void> => {
+    setError(null);
+
+    try {
+      const name = packName.trim() || `${profile.name} mappings`;
+      const data = await exportPack({ profileId: profile.id, name });
+      downloadJson(
+        serializeMappingPack(data),
+        `gym-analytics-mappings-${slugify(name)}-${toLocalDateKey(new Date())}.json`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export mapping pack');
+    }
+  };
+
+  const handleFileSelect = async (e: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setResult(null);
+    setPack(null);
+    setItems([]);
+    setResolutions({});
+
+    try {
+      const parsed = parseMappingPack(await file.text());
+      setItems(await comparePack({ profileId: profile.id, pack: parsed }));
+      setPack(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read mapping pack');
+    }
+
+    // Allow selecting the same file again
+    e.target.value = '';
+  };
+
+  const handleImport = async (): Promise<void> => {
+    setError(null);
+
+    try {
+      setResult(await importPack({ profileId: profile.id, contents: selected }));
+      setPack(null);
+      setItems([]);
+      setResolutions({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import mapping pack');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Export */}
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          value={packName}
+          onChange={(e) => setPackName(e.target.value)}
+          placeholder={`${profile.name} mappings`}
+          className="w-64 rounded border border-primary-500 bg-primary-900 px-3 py-2 text-sm text-white focus:border-primary-300 focus:outline-none"
+        />
+        <button
+          type="button"
+          onClick={() => void handleExport()}
+          disabled={isExporting}
+          className="rounded bg-cyan-500 px-4 py-2 font-medium text-black transition-colors hover:bg-cyan-400 disabled:opacity-50"
+        >
+          {isExporting ? 'Exporting...' : 'Download Mapping Pack'}
+        </button>
+      </div>
+
+      {/* Import */}
+      <div>
+        <label className="mb-2 block text-sm text-primary-200">Import a mapping pack</label>
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => void handleFileSelect(e)}
+          disabled={isComparing || isImporting}
+          className="block w-full text-sm text-primary-200 file:mr-4 file:rounded file:border-0 file:bg-primary-500 file:px-4 file:py-2 file:text-sm file:text-white hover:file:bg-primary-400 disabled:opacity-50"
+        />
+      </div>
+
+      {pack && (
+        <div className="space-y-3 rounded border border-primary-500 bg-primary-800 p-4">
+          <div className="text-sm text-primary-200">
+            <p className="font-medium text-white">{pack.name}</p>
+            <p>
+              {counts.new} new, {counts.conflict} conflicting, {counts.same} unchanged · exported{' '}
+              {pack.exportedAt.toLocaleDateString()}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            {counts.conflict > 0 && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => resolveAll('mine')}
+                  className="rounded border border-primary-400 px-3 py-1 text-primary-200 transition-colors hover:text-white"
+                >
+                  Keep All Mine
+                </button>
+                <button
+                  type="button"
+                  onClick={() => resolveAll('theirs')}
+                  className="rounded border border-primary-400 px-3 py-1 text-primary-200 transition-colors hover:text-white"
+                >
+                  Take All Theirs
+                </button>
+              </>
+            )}
+            {counts.same > 0 && (
+              <label className="flex items-center gap-2 text-primary-300">
+                <input
+                  type="checkbox"
+                  checked={showUnchanged}
+                  onChange={(e) => setShowUnchanged(e.target.checked)}
+                />
+                Show unchanged
+              </label>
+            )}
+          </div>
+
+          {visibleItems.length === 0 ? (
+            <p className="text-sm text-primary-300">Everything in this pack is already set up.</p>
+          ) : (
+            <div className="max-h-96 divide-y divide-primary-600 overflow-y-auto rounded border border-primary-600">
+              {visibleItems.map((item) => {
+                const resolution = getResolution(item);
+                return (
+                  <div key={item.id} className="space-y-1 p-3 text-sm">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <span className="mr-2 text-xs uppercase text-primary-400">
+                          {PACK_ITEM_KIND_LABELS[item.kind]}
+                        </span>
+                        <span className="font-medium text-white">{item.key}</span>
+                      </div>
+                      {item.status === 'same' ? (
+                        <span className="text-xs text-primary-400">{STATUS_LABELS.same}</span>
+                      ) : (
+                        <select
+                          value={resolution}
+                          onChange={(e) =>
+                            setResolutions((prev) => ({
+                              ...prev,
+                              [item.id]: e.target.value as PackResolution,
+                            }))
+                          }
+                          className="rounded border border-primary-500 bg-primary-900 px-2 py-1 text-xs text-white"
+                        >
+                          <option value="mine">
+                            {item.status === 'new' ? 'Skip' : 'Keep mine'}
+                          </option>
+                          <option value="theirs">
+                            {item.status === 'new' ? 'Import' : 'Take theirs'}
+                          </option>
+                        </select>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3 text-xs">
+                      <p className={resolution === 'mine' ? 'text-white' : 'text-primary-400'}>
+                        <span className="text-primary-400">Mine: </span>
+                        {summarizePackValue(item.kind, item.mine)}
+                      </p>
+                      <p className={resolution === 'theirs' ? 'text-white' : 'text-primary-400'}>
+                        <span className="text-primary-400">Theirs: </span>
+                        {summarizePackValue(item.kind, item.theirs)}
+                      </p>
+                    </div>
+                    {item.status === 'conflict' && (
+                      <p className="text-xs text-yellow-300">{STATUS_LABELS.conflict}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => void handleImport()}
+              disabled={isImporting || selectedCount === 0}
+              className="rounded bg-cyan-500 px-4 py-2 font-medium text-black transition-colors hover:bg-cyan-400 disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : `Import ${selectedCount} Item(s)`}
+            </button>
+            <button
+              type="button"
+              onClick={() => setPack(null)}
+              disabled={isImporting}
+              className="px-4 py-2 text-primary-300 transition-colors hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="rounded bg-green-800 p-3 text-green-100">
+          Imported {result.exerciseMappings} mapping(s), {result.defaultExerciseOverrides} muscle
+          value override(s) and {result.defaultNameMappingOverrides} name mapping(s)
+          {result.muscleGroups && ', and replaced the muscle groups'}. Imports can be undone from
+          the mapping history.
+        </div>
+      )}
+
+      {error && <div className="rounded bg-red-800 p-3 text-red-100">{error}</div>}
+    </div>
+  );
+}
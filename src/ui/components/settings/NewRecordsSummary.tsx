@@ -0,0 +1,31 @@
+/**
+ * NewRecordsSummary
+ *
+ * Lists personal records detected by an import or sync, shown in the result banner.
+ * Long lists (e.g. a first full sync) are truncated.
+ */
+
+import { PersonalRecordList } from '../PersonalRecordList';
+import type { PersonalRecord } from '@db/schema';
+
+interface NewRecordsSummaryProps {
+  records: PersonalRecord[];
+  limit?: number;
+}
+
+export function NewRecordsSummary({
+  records,
+  limit = 5,
+}: NewRecordsSummaryProps): React.ReactElement {
+  const hidden = records.length - limit;
+
+  return (
+    <div className="mt-3 rounded bg-zinc-950/60 px-3 py-2">
+      <p className="text-sm font-medium">
+        {records.length} new personal record{records.length > 1 ? 's' : ''}!
+      </p>
+      <PersonalRecordList records={records.slice(0, limit)} />
+      {hidden > 0 && <p className="mt-1 text-xs text-green-200">…and {hidden} more</p>}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * SetEquivalenceEditor
+ *
+ * Configures how timed holds and distance work (sets without reps) count toward volume.
+ * Blank fields mean such sets count as one set each.
+ */
+
+import { useState, useEffect } from 'react';
+import type { SetEquivalence } from '@core/volume-calculator';
+
+interface SetEquivalenceEditorProps {
+  equivalence: SetEquivalence | undefined;
+  onSave: (equivalence: SetEquivalence) => Promise<void>;
+  isSaving: boolean;
+}
+
+/**
+ * Parse a positive number input, returning undefined for blank/invalid values
+ */
+function parsePositive(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+export function SetEquivalenceEditor({
+  equivalence,
+  onSave,
+  isSaving,
+}: SetEquivalenceEditorProps): React.ReactElement {
+  const [seconds, setSeconds] = useState(equivalence?.secondsPerSet?.toString() ?? '');
+  const [meters, setMeters] = useState(equivalence?.metersPerSet?.toString() ?? '');
+  const [saveSuccess, setSaveSuccess] = useState(false);
+
+  // Sync local state when the profile changes
+  useEffect(() => {
+    setSeconds(equivalence?.secondsPerSet?.toString() ?? '');
+    setMeters(equivalence?.metersPerSet?.toString() ?? '');
+  }, [equivalence]);
+
+  const handleSave = async (): Promise<void> => {
+    setSaveSuccess(false);
+    await onSave({
+      secondsPerSet: parsePositive(seconds),
+      metersPerSet: parsePositive(meters),
+    });
+    setSaveSuccess(true);
+    setTimeout(() => setSaveSuccess(false), 3000);
+  };
+
+  const inputClassName =
+    'w-24 rounded border border-primary-600 bg-primary-800 px-2 py-1.5 text-right font-mono text-sm text-white placeholder-primary-400 transition-colors focus:border-cyan-500 focus:outline-none';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <label htmlFor="seconds-per-set" className="flex-1 text-sm text-primary-200">
+          Seconds per set (planks, carries, holds)
+        </label>
+        <input
+          id="seconds-per-set"
+          type="number"
+          min={0}
+          placeholder="—"
+          value={seconds}
+          onChange={(e) => setSeconds(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <label htmlFor="meters-per-set" className="flex-1 text-sm text-primary-200">
+          Meters per set (rowing, running, sled)
+        </label>
+        <input
+          id="meters-per-set"
+          type="number"
+          min={0}
+          placeholder="—"
+          value={meters}
+          onChange={(e) => setMeters(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+
+      <p className="text-xs text-primary-300">
+        Applies to sets logged without reps. Leave blank to count each such set as one set.
+      </p>
+
+      <div className="flex items-center gap-4 pt-2">
+        <button
+          onClick={() => void handleSave()}
+          disabled={isSaving}
+          className="rounded bg-cyan-500 px-6 py-2 font-medium text-black transition-colors hover:bg-cyan-400 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+        {saveSuccess && <span className="text-sm text-green-400">Saved!</span>}
+      </div>
+    </div>
+  );
+}
@@ -34,6 +34,22 @@ export function MainLayout(): React.ReactElement {
               >
                 Dashboard
               </Link>
+              <Link
+                to="/trends"
+                className={`text-sm font-medium transition-colors ${
+                  isActive('/trends') ? 'text-white' : 'text-primary-200 hover:text-white'
+                }`}
+              >
+                Trends
+              </Link>
+              <Link
+                to="/programs"
+                className={`text-sm font-medium transition-colors ${
+                  isActive('/programs') ? 'text-white' : 'text-primary-200 hover:text-white'
+                }`}
+              >
+                Programs
+              </Link>
               <Link
                 to="/settings"
                 className={`text-sm font-medium transition-colors ${
@@ -11,16 +11,21 @@ import { useIsMobileDevice } from '@ui/hooks/useIsMobileDevice';
 import { MuscleHeatmap } from '../components/MuscleHeatmap';
 import { MobileCarousel } from '@ui/components/mobile/MobileCarousel';
 import { TotalVolumeCard } from '../components/TotalVolumeCard';
+import { RecentPRsCard } from '../components/RecentPRsCard';
+import { RecommendationsCard } from '../components/RecommendationsCard';
 import { WeeklyActivityChart } from '../components/WeeklyActivityChart';
-
-type ViewMode = 'last7days' | 'calendarWeek';
+import { DateRangePicker, getRangeLabel, type RangePreset } from '../components/DateRangePicker';
+import type { DateRange, VolumeMode } from '@db/hooks/useVolumeStats';
+import { resolveDateWindow } from '@core/date-range';
 
 export function Dashboard(): React.ReactElement {
   const { currentProfile, isLoading } = useCurrentProfile();
   const { count: unmappedCount } = useUnmappedExercises(currentProfile?.id ?? null);
   const isMobile = useIsMobileDevice();
   const [dismissedAlert, setDismissedAlert] = useState(false);
-  const [viewMode, setViewMode] = useState<ViewMode>('last7days');
+  const [rangePreset, setRangePreset] = useState<RangePreset>('last7days');
+  const [dateRange, setDateRange] = useState<DateRange>(() => resolveDateWindow('last7days'));
+  const [volumeMode, setVolumeMode] = useState<VolumeMode>('raw');
 
   if (isLoading) {
     return (
@@ -76,29 +81,80 @@ export function Dashboard(): React.ReactElement {
       )}
 
       {/* Page Header */}
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-3">
         <h2 className="text-2xl font-bold text-white">Workout Overview</h2>
+
+        {/* Volume Mode Toggle */}
+        <div
+          className="flex gap-0 overflow-hidden rounded border border-zinc-700"
+          title="Effective sets discount low-RPE and drop sets (configure in Settings)"
+        >
+          <button
+            onClick={() => setVolumeMode('raw')}
+            className={`px-3 py-1 text-xs font-bold uppercase tracking-wider transition-all ${
+              volumeMode === 'raw'
+                ? 'bg-cyan-500 text-zinc-950'
+                : 'bg-zinc-900 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+            }`}
+          >
+            Raw
+          </button>
+          <button
+            onClick={() => setVolumeMode('effective')}
+            className={`border-l border-zinc-700 px-3 py-1 text-xs font-bold uppercase tracking-wider transition-all ${
+              volumeMode === 'effective'
+                ? 'bg-cyan-500 text-zinc-950'
+                : 'bg-zinc-900 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+            }`}
+          >
+            Effective
+          </button>
+        </div>
       </div>
 
+      {/* Date Range Navigation */}
+      <DateRangePicker
+        range={dateRange}
+        preset={rangePreset}
+        onChange={(range, preset) => {
+          setDateRange(range);
+          setRangePreset(preset);
+        }}
+      />
+
       {/* Total Weekly Volume */}
-      <TotalVolumeCard viewMode={viewMode} />
+      <TotalVolumeCard dateRange={dateRange} volumeMode={volumeMode} />
+
+      {/* Exercises to close under-goal muscles */}
+      <RecommendationsCard dateRange={dateRange} volumeMode={volumeMode} />
+
+      {/* Recent Personal Records */}
+      <RecentPRsCard />
 
       {/* Weekly Activity Chart */}
-      <WeeklyActivityChart viewMode={viewMode} onViewModeChange={setViewMode} />
+      <WeeklyActivityChart dateRange={dateRange} />
 
       {/* Volume Display Section */}
       <div className="rounded-lg bg-primary-700 p-6">
         {isMobile ? (
-          <MobileCarousel profileId={currentProfile.id} viewMode={viewMode} />
+          <MobileCarousel
+            profileId={currentProfile.id}
+            dateRange={dateRange}
+            volumeMode={volumeMode}
+          />
         ) : (
           <>
             <div className="mb-6">
               <h3 className="text-lg font-semibold text-white">
-                {viewMode === 'calendarWeek' ? 'This Week' : 'Last 7 Days'}
+                {getRangeLabel(dateRange, rangePreset)}
               </h3>
             </div>
 
-            <MuscleHeatmap profileId={currentProfile.id} viewMode={viewMode} />
+            <MuscleHeatmap
+              profileId={currentProfile.id}
+              dateRange={dateRange}
+              volumeMode={volumeMode}
+            />
           </>
         )}
       </div>
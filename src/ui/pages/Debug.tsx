@@ -7,35 +7,19 @@ import { useState } from 'react';
 import { useCurrentProfile } from '../context/ProfileContext';
 import { useWorkouts } from '@db/hooks/useWorkouts';
 import { calculateMuscleVolume } from '@core/volume-calculator';
-import type { ExerciseMapping } from '@core/taxonomy';
-
-// Load exercise mappings from config
-import exerciseListJson from '../../../config/exercise_list_complete.json';
-
-/**
- * Build exercise mappings from the config JSON
- */
-function buildExerciseMappings(): Map<string, ExerciseMapping> {
-  const mappings = new Map<string, ExerciseMapping>();
-
-  for (const [exerciseName, muscleData] of Object.entries(exerciseListJson)) {
-    if (exerciseName === '_comment') continue;
-
-    const normalizedId = exerciseName.toLowerCase().replace(/\s+/g, '-');
-    mappings.set(normalizedId, muscleData as ExerciseMapping);
-  }
-
-  return mappings;
-}
-
-const EXERCISE_MAPPINGS = buildExerciseMappings();
+import { useMappingResolver } from '@db/hooks/useMappingResolver';
+import type { MappingSource } from '@db/utils/mapping-resolver';
+import { SCIENTIFIC_MUSCLES, type ScientificMuscle } from '@core/taxonomy';
+import { VolumeTracePanel } from '../components/VolumeTracePanel';
 
 export function Debug(): React.ReactElement {
   const { currentProfile, isLoading: profileLoading } = useCurrentProfile();
   const [daysBack, setDaysBack] = useState(7);
+  const [tracedMuscle, setTracedMuscle] = useState<ScientificMuscle | ''>('');
   const { workouts, isLoading: workoutsLoading } = useWorkouts(currentProfile?.id ?? null, daysBack);
+  const { resolver, isLoading: mappingsLoading } = useMappingResolver(currentProfile?.id ?? null);
 
-  if (profileLoading || workoutsLoading) {
+  if (profileLoading || workoutsLoading || mappingsLoading) {
     return (
       <div className="flex items-center justify-center py-12">
         <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary-300 border-t-white" />
@@ -55,26 +39,37 @@ export function Debug(): React.ReactElement {
   const allSets = workouts.flatMap((w) => w.sets);
 
   // Group by exercise
-  const exerciseStats: Record<string, { count: number; mapped: boolean; originalNames: Set<string> }> = {};
+  const exerciseStats: Record<
+    string,
+    { count: number; mapped: boolean; source: MappingSource; originalNames: Set<string> }
+  > = {};
   for (const set of allSets) {
     if (set.setType === 'warmup') continue;
 
     if (!exerciseStats[set.exerciseId]) {
-      exerciseStats[set.exerciseId] = { count: 0, mapped: false, originalNames: new Set() };
+      const { muscles, source } = resolver.resolve(set.exerciseId);
+      exerciseStats[set.exerciseId] = {
+        count: 0,
+        mapped: muscles !== null,
+        source,
+        originalNames: new Set(),
+      };
     }
     const stat = exerciseStats[set.exerciseId];
     if (stat) {
       stat.count++;
-      stat.mapped = EXERCISE_MAPPINGS.has(set.exerciseId);
       stat.originalNames.add(set.originalName);
     }
   }
 
-  // Calculate volumes
-  const volumeMap = calculateMuscleVolume(allSets, EXERCISE_MAPPINGS);
+  // Calculate volumes with the same effective mappings as the Dashboard
+  const volumeMap = calculateMuscleVolume(
+    allSets,
+    resolver.getEffectiveMappings(allSets.map((s) => s.exerciseId))
+  );
 
   // Available mappings
-  const availableMappings = Array.from(EXERCISE_MAPPINGS.keys()).sort();
+  const availableMappings = resolver.canonicalExerciseIds;
 
   return (
     <div className="space-y-6">
@@ -118,6 +113,7 @@ export function Debug(): React.ReactElement {
                 <th className="pb-2">Original Name(s)</th>
                 <th className="pb-2">Sets</th>
                 <th className="pb-2">Mapped?</th>
+                <th className="pb-2">Source</th>
               </tr>
             </thead>
             <tbody className="text-primary-200">
@@ -129,6 +125,7 @@ export function Debug(): React.ReactElement {
                     <td className="py-1 text-xs">{Array.from(stats.originalNames).join(', ')}</td>
                     <td className="py-1">{stats.count}</td>
                     <td className="py-1">{stats.mapped ? '✓' : '✗'}</td>
+                    <td className="py-1 text-xs">{stats.source}</td>
                   </tr>
                 ))}
             </tbody>
@@ -154,6 +151,30 @@ export function Debug(): React.ReactElement {
         )}
       </section>
 
+      {/* Volume Trace */}
+      <section className="rounded-lg bg-primary-700 p-6">
+        <h3 className="mb-4 text-lg font-semibold text-white">Volume Trace</h3>
+        <select
+          value={tracedMuscle}
+          onChange={(e) => setTracedMuscle(e.target.value as ScientificMuscle | '')}
+          className="mb-4 rounded bg-primary-800 px-2 py-1 text-white"
+        >
+          <option value="">Select a muscle...</option>
+          {SCIENTIFIC_MUSCLES.map((muscle) => (
+            <option key={muscle} value={muscle}>
+              {muscle}
+            </option>
+          ))}
+        </select>
+        {tracedMuscle && (
+          <VolumeTracePanel
+            profileId={currentProfile.id}
+            muscle={tracedMuscle}
+            dateWindow={daysBack}
+          />
+        )}
+      </section>
+
       {/* Available Mappings */}
       <section className="rounded-lg bg-primary-700 p-6">
         <h3 className="mb-4 text-lg font-semibold text-white">Available Exercise Mappings</h3>
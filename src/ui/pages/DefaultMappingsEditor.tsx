@@ -22,7 +22,9 @@ import {
   getDefaultCanonicalName,
   getEffectiveExerciseMuscleValues,
   getEffectiveCanonicalName,
+  isDefaultExercise,
 } from '@db/utils/mapping-resolver';
+import { cleanExerciseName, getExerciseVariation } from '@core/utils/normalization';
 import {
   SCIENTIFIC_MUSCLES,
   DEFAULT_SCIENTIFIC_TO_FUNCTIONAL,
@@ -30,11 +32,23 @@ import {
   type ScientificMuscle,
   type FunctionalGroup,
 } from '@core/taxonomy';
-import type { DefaultExerciseOverride, DefaultNameMappingOverride } from '@db/schema';
+import type { PendingMappingChange } from '@db/utils/mapping-resolver';
+import type {
+  DefaultExerciseOverride,
+  DefaultNameMappingOverride,
+  MappingChangeEntity,
+} from '@db/schema';
 import { MuscleValueEditor } from '../components/exercise-mapping/MuscleValueEditor';
+import { MappingImpactPreview } from '../components/exercise-mapping/MappingImpactPreview';
+import { MappingHistoryPanel } from '../components/exercise-mapping/MappingHistoryPanel';
 
 type TabView = 'exercises' | 'names' | 'groups';
 
+const HISTORY_ENTITY_TYPES: MappingChangeEntity[] = [
+  'defaultExerciseOverride',
+  'defaultNameMappingOverride',
+];
+
 export function DefaultMappingsEditor(): React.ReactElement {
   const { currentProfile, isLoading: profileLoading } = useCurrentProfile();
   const [activeTab, setActiveTab] = useState<TabView>('exercises');
@@ -62,8 +76,14 @@ export function DefaultMappingsEditor(): React.ReactElement {
   // Hook for muscle group customization
   const { updateProfile, isUpdating: isUpdatingProfile } = useUpdateProfile();
 
-  // Get all default data
-  const allExercises = useMemo(() => getAllDefaultExerciseNames(), []);
+  // Get all default data, plus variations that only exist as overrides
+  const allExercises = useMemo(
+    () =>
+      Array.from(
+        new Set([...getAllDefaultExerciseNames(), ...exerciseOverrides.map((o) => o.exerciseName)])
+      ),
+    [exerciseOverrides]
+  );
   const allGymNameMappings = useMemo(() => getAllDefaultGymNameMappings(), []);
   const allGymNames = useMemo(() => Array.from(allGymNameMappings.keys()), [allGymNameMappings]);
 
@@ -365,10 +385,13 @@ export function DefaultMappingsEditor(): React.ReactElement {
         </button>
       </div>
 
+      <MappingHistoryPanel profileId={currentProfile.id} entityTypes={HISTORY_ENTITY_TYPES} />
+
       {/* Tab Content */}
       <div className="min-h-[600px]" style={{ animation: 'fadeIn 0.6s ease-out' }}>
         {activeTab === 'exercises' && (
           <ExerciseMuscleValuesTab
+            profileId={currentProfile.id}
             exercises={filteredExercises}
             customizedExercises={customizedExercises}
             exerciseOverrides={exerciseOverrides}
@@ -417,6 +440,7 @@ export function DefaultMappingsEditor(): React.ReactElement {
 
 // Exercise Muscle Values Tab Component
 interface ExerciseMuscleValuesTabProps {
+  profileId: string;
   exercises: string[];
   customizedExercises: Set<string>;
   exerciseOverrides: DefaultExerciseOverride[];
@@ -430,6 +454,7 @@ interface ExerciseMuscleValuesTabProps {
 }
 
 function ExerciseMuscleValuesTab({
+  profileId,
   exercises,
   customizedExercises,
   exerciseOverrides,
@@ -442,14 +467,44 @@ function ExerciseMuscleValuesTab({
   isDeleting,
 }: ExerciseMuscleValuesTabProps): React.ReactElement {
   const [editedValues, setEditedValues] = useState<Partial<Record<ScientificMuscle, number>>>({});
+  const [newVariation, setNewVariation] = useState('');
+
+  const getValues = (exercise: string): Partial<Record<ScientificMuscle, number>> | null => {
+    const override = exerciseOverrides.find((o) => o.exerciseName === exercise);
+    return getEffectiveExerciseMuscleValues(exercise, override ?? null);
+  };
 
   const handleSelect = (exercise: string): void => {
     onSelectExercise(exercise);
-    const override = exerciseOverrides.find((o) => o.exerciseName === exercise);
-    const values = getEffectiveExerciseMuscleValues(exercise, override ?? null) ?? {};
-    setEditedValues(values);
+    setEditedValues(getValues(exercise) ?? {});
+    setNewVariation('');
+  };
+
+  // Start a variation from the base exercise's values; it exists once saved
+  const handleAddVariation = (): void => {
+    const modifier = newVariation.trim();
+    if (!selectedExercise || !modifier) return;
+
+    const variationName = `${selectedExercise} (${modifier})`;
+    onSelectExercise(variationName);
+    setEditedValues(getValues(variationName) ?? editedValues);
+    setNewVariation('');
   };
 
+  const selectedBase = selectedExercise ? cleanExerciseName(selectedExercise) : '';
+  const isVariation = selectedExercise !== null && selectedBase !== selectedExercise;
+  const isSaved =
+    selectedExercise !== null &&
+    (isDefaultExercise(selectedExercise) || customizedExercises.has(selectedExercise));
+
+  const pendingChange = useMemo(
+    (): PendingMappingChange | null =>
+      selectedExercise
+        ? { type: 'exercise-override', exerciseName: selectedExercise, muscleValues: editedValues }
+        : null,
+    [selectedExercise, editedValues]
+  );
+
   const handleSave = async (): Promise<void> => {
     if (!selectedExercise) return;
     await onSave(selectedExercise, editedValues);
@@ -477,6 +532,7 @@ function ExerciseMuscleValuesTab({
           {exercises.map((exercise, index) => {
             const isCustomized = customizedExercises.has(exercise);
             const isSelected = selectedExercise === exercise;
+            const variation = getExerciseVariation(exercise);
             return (
               <button
                 key={exercise}
@@ -494,7 +550,17 @@ function ExerciseMuscleValuesTab({
                   <div className="absolute left-0 top-0 h-full w-1 bg-gradient-to-b from-amber-400 to-amber-600" />
                 )}
                 <div className="flex items-center justify-between">
-                  <span className="font-mono text-sm text-white">{exercise}</span>
+                  <span className="font-mono text-sm text-white">
+                    {variation ? (
+                      <>
+                        <span className="text-zinc-600">↳ </span>
+                        <span className="text-zinc-500">{cleanExerciseName(exercise)}</span>{' '}
+                        <span className="text-cyan-400">({variation})</span>
+                      </>
+                    ) : (
+                      exercise
+                    )}
+                  </span>
                   {isCustomized && (
                     <span className="inline-flex items-center gap-1 rounded-full bg-amber-500 px-2 py-0.5 font-mono text-[10px] font-bold uppercase tracking-wider text-black">
                       <svg className="h-3 w-3" fill="currentColor" viewBox="0 0 20 20">
@@ -522,6 +588,13 @@ function ExerciseMuscleValuesTab({
                     ? 'Custom muscle values'
                     : 'Default muscle values'}
                 </p>
+                {isVariation && (
+                  <p className="mt-1 font-mono text-xs text-cyan-400">
+                    {isSaved
+                      ? `Variation of ${selectedBase}`
+                      : `New variation of ${selectedBase}: falls back to its values until saved`}
+                  </p>
+                )}
               </div>
               <button
                 onClick={() => onSelectExercise(null)}
@@ -539,6 +612,9 @@ function ExerciseMuscleValuesTab({
             </div>
             <div className="rounded-lg border-2 border-zinc-700 bg-zinc-900 p-6">
               <MuscleValueEditor values={editedValues} onChange={setEditedValues} />
+              <div className="mt-6">
+                <MappingImpactPreview profileId={profileId} change={pendingChange} />
+              </div>
               <div className="mt-6 flex gap-3">
                 <button
                   onClick={() => void handleSave()}
@@ -553,11 +629,41 @@ function ExerciseMuscleValuesTab({
                     disabled={isDeleting}
                     className="rounded-lg border-2 border-red-600 px-4 py-3 font-mono text-sm font-bold uppercase tracking-wider text-red-500 transition-all hover:bg-red-600 hover:text-white disabled:opacity-50"
                   >
-                    Revert
+                    {isDefaultExercise(selectedExercise) ? 'Revert' : 'Delete Variation'}
                   </button>
                 )}
               </div>
             </div>
+            {!isVariation && (
+              <div className="rounded-lg border-2 border-zinc-700 bg-zinc-900 p-4">
+                <label className="mb-2 block font-mono text-xs font-bold uppercase tracking-wider text-zinc-400">
+                  Add Variation
+                </label>
+                <p className="mb-3 font-mono text-xs text-zinc-500">
+                  Give an equipment, grip or angle variant its own muscle values. Variations without
+                  values use {selectedExercise}&apos;s.
+                </p>
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    value={newVariation}
+                    onChange={(e) => setNewVariation(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleAddVariation();
+                    }}
+                    placeholder="Dumbbell, Wide Grip, Incline..."
+                    className="flex-1 rounded-lg border-2 border-zinc-700 bg-zinc-800 px-3 py-2 font-mono text-sm text-white placeholder-zinc-600 focus:border-cyan-500 focus:outline-none"
+                  />
+                  <button
+                    onClick={handleAddVariation}
+                    disabled={!newVariation.trim()}
+                    className="rounded-lg border-2 border-cyan-500 px-4 py-2 font-mono text-xs font-bold uppercase tracking-wider text-cyan-400 transition-all hover:bg-cyan-500 hover:text-black disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </div>
+              </div>
+            )}
           </>
         ) : (
           <div className="flex h-full min-h-[400px] items-center justify-center rounded-lg border-2 border-dashed border-zinc-700 bg-zinc-900/50 p-12 text-center">
@@ -0,0 +1,253 @@
+/**
+ * Exercise History Page
+ * Charts estimated 1RM, best sets and rep PRs over time for a single exercise
+ */
+
+import { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import { useCurrentProfile } from '../context/ProfileContext';
+import { useExerciseHistory } from '@db/hooks/useExerciseHistory';
+import { useCustomExercises } from '@db/hooks/useCustomExercises';
+import { getAllCanonicalExercises } from '@core/exercise-search';
+import {
+  buildStrengthHistory,
+  findRepRecords,
+  getCurrentRepRecords,
+  type E1rmFormula,
+} from '@core/strength';
+
+const FORMULA_OPTIONS: { value: E1rmFormula; label: string }[] = [
+  { value: 'epley', label: 'Epley' },
+  { value: 'brzycki', label: 'Brzycki' },
+  { value: 'rpe', label: 'RPE' },
+];
+
+/**
+ * Format a weight for display (one decimal place, trailing zero dropped)
+ */
+function formatWeight(weight: number): string {
+  return (Math.round(weight * 10) / 10).toString();
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+}
+
+export function ExerciseHistory(): React.ReactElement {
+  const { exerciseId = '' } = useParams<{ exerciseId: string }>();
+  const { currentProfile, isLoading: profileLoading } = useCurrentProfile();
+  const [formula, setFormula] = useState<E1rmFormula>('epley');
+  const { canonicalExerciseId, sessions, originalNames, isLoading, error } = useExerciseHistory(
+    currentProfile?.id ?? null,
+    exerciseId
+  );
+  const { customExercises } = useCustomExercises(currentProfile?.id ?? null);
+
+  const history = useMemo(() => buildStrengthHistory(sessions, formula), [sessions, formula]);
+  const repRecords = useMemo(() => findRepRecords(sessions), [sessions]);
+  const currentRecords = useMemo(() => getCurrentRepRecords(repRecords), [repRecords]);
+
+  const chartData = useMemo(
+    () =>
+      history.map((point) => ({
+        label: formatDate(point.date),
+        e1rm: Math.round(point.estimatedOneRepMax * 10) / 10,
+        topWeight: point.topWeight,
+      })),
+    [history]
+  );
+
+  const displayName =
+    getAllCanonicalExercises(customExercises).find((e) => e.id === canonicalExerciseId)?.name ??
+    originalNames[0] ??
+    canonicalExerciseId;
+
+  if (profileLoading || isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary-300 border-t-white" />
+      </div>
+    );
+  }
+
+  if (!currentProfile) {
+    return (
+      <div className="rounded-lg bg-primary-700 p-8 text-center">
+        <h2 className="mb-2 text-xl font-semibold text-white">No Profile Selected</h2>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg border-2 border-red-500/50 bg-red-500/10 p-4 text-red-400">
+        Error loading exercise history: {error.message}
+      </div>
+    );
+  }
+
+  const best = history.reduce<(typeof history)[number] | null>(
+    (top, point) => (!top || point.estimatedOneRepMax > top.estimatedOneRepMax ? point : top),
+    null
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Link to="/" className="text-sm text-primary-300 transition-colors hover:text-white">
+            ← Dashboard
+          </Link>
+          <h2 className="mt-1 text-2xl font-bold text-white">{displayName}</h2>
+          {originalNames.length > 1 && (
+            <p className="mt-1 text-xs text-primary-300">Includes: {originalNames.join(', ')}</p>
+          )}
+        </div>
+
+        {/* Formula Selector */}
+        <div className="flex gap-0 overflow-hidden rounded border border-zinc-700">
+          {FORMULA_OPTIONS.map((option, index) => (
+            <button
+              key={option.value}
+              onClick={() => setFormula(option.value)}
+              className={`px-3 py-1 text-xs font-bold uppercase tracking-wider transition-all ${
+                index > 0 ? 'border-l border-zinc-700' : ''
+              } ${
+                formula === option.value
+                  ? 'bg-cyan-500 text-zinc-950'
+                  : 'bg-zinc-900 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {history.length === 0 ? (
+        <div className="rounded-lg bg-primary-700 p-8 text-center text-primary-200">
+          No working sets recorded for this exercise yet.
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+            <div className="rounded-lg border-2 border-zinc-800 bg-zinc-950 px-4 py-3">
+              <p className="text-xs font-bold uppercase tracking-wider text-zinc-400">Best e1RM</p>
+              <p className="mt-1 text-2xl font-black text-white">
+                {best ? formatWeight(best.estimatedOneRepMax) : '—'}{' '}
+                <span className="text-xs font-semibold text-zinc-400">kg</span>
+              </p>
+            </div>
+            <div className="rounded-lg border-2 border-zinc-800 bg-zinc-950 px-4 py-3">
+              <p className="text-xs font-bold uppercase tracking-wider text-zinc-400">Best Set</p>
+              <p className="mt-1 text-2xl font-black text-white">
+                {best ? `${formatWeight(best.bestSet.weight)} × ${best.bestSet.reps}` : '—'}
+              </p>
+            </div>
+            <div className="rounded-lg border-2 border-zinc-800 bg-zinc-950 px-4 py-3">
+              <p className="text-xs font-bold uppercase tracking-wider text-zinc-400">Sessions</p>
+              <p className="mt-1 text-2xl font-black text-white">{history.length}</p>
+            </div>
+          </div>
+
+          {/* e1RM Chart */}
+          <section className="rounded-lg border-2 border-zinc-800 bg-zinc-950 p-4">
+            <h3 className="mb-4 text-sm font-black uppercase tracking-wider text-white">
+              Estimated 1RM
+            </h3>
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={chartData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+                <XAxis
+                  dataKey="label"
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: '#71717a', fontSize: 11, fontWeight: 700 }}
+                  dy={8}
+                />
+                <YAxis
+                  axisLine={false}
+                  tickLine={false}
+                  tick={{ fill: '#52525b', fontSize: 10, fontWeight: 600 }}
+                  domain={['auto', 'auto']}
+                />
+                <Tooltip
+                  contentStyle={{ background: '#09090b', border: '1px solid #27272a' }}
+                  labelStyle={{ color: '#22d3ee', fontWeight: 700 }}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line
+                  type="monotone"
+                  dataKey="e1rm"
+                  name="e1RM"
+                  stroke="#06b6d4"
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="topWeight"
+                  name="Top weight"
+                  stroke="#f59e0b"
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </section>
+
+          {/* Rep PRs */}
+          <div className="grid gap-6 md:grid-cols-2">
+            <section className="rounded-lg bg-primary-700 p-6">
+              <h3 className="mb-4 text-lg font-semibold text-white">Rep PRs</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-primary-300">
+                    <th className="pb-2">Reps</th>
+                    <th className="pb-2">Weight</th>
+                    <th className="pb-2">Date</th>
+                  </tr>
+                </thead>
+                <tbody className="text-primary-200">
+                  {currentRecords.map((record) => (
+                    <tr key={record.reps}>
+                      <td className="py-1 font-mono">{record.reps}</td>
+                      <td className="py-1 text-white">{formatWeight(record.weight)} kg</td>
+                      <td className="py-1 text-xs">{formatDate(record.date)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            <section className="rounded-lg bg-primary-700 p-6">
+              <h3 className="mb-4 text-lg font-semibold text-white">PR Timeline</h3>
+              <ul className="max-h-72 space-y-2 overflow-y-auto text-sm">
+                {[...repRecords].reverse().map((record) => (
+                  <li
+                    key={`${record.reps}-${record.date.getTime()}`}
+                    className="flex items-center justify-between text-primary-200"
+                  >
+                    <span>
+                      <span className="font-mono text-white">
+                        {formatWeight(record.weight)} × {record.reps}
+                      </span>
+                      {record.previousWeight !== null && (
+                        <span className="ml-2 text-xs text-green-400">
+                          +{formatWeight(record.weight - record.previousWeight)} kg
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-xs">{formatDate(record.date)}</span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
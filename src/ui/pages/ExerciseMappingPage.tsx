@@ -1,14 +1,19 @@
 /**
  * Exercise Mapping Page
- * Interface for mapping unmapped exercises to canonical exercises
+ * Interface for mapping unmapped exercises to canonical exercises and managing
+ * pattern rules, learned auto-match rules and the profile's custom exercise library
  */
 
 import { useState } from 'react';
 import { useCurrentProfile } from '../context/ProfileContext';
 import { UnmappedExerciseList } from '../components/exercise-mapping/UnmappedExerciseList';
+import { AutoAppliedMatchQueue } from '../components/exercise-mapping/AutoAppliedMatchQueue';
 import { ExistingMappingsList } from '../components/exercise-mapping/ExistingMappingsList';
+import { CustomExerciseLibrary } from '../components/exercise-mapping/CustomExerciseLibrary';
+import { MappingRulesEditor } from '../components/exercise-mapping/MappingRulesEditor';
+import { LearnedMatchRulesEditor } from '../components/exercise-mapping/LearnedMatchRulesEditor';
 
-type TabView = 'unmapped' | 'mappings';
+type TabView = 'unmapped' | 'mappings' | 'rules' | 'learned' | 'library';
 
 export function ExerciseMappingPage(): React.ReactElement {
   const { currentProfile, isLoading } = useCurrentProfile();
@@ -116,7 +121,7 @@ export function ExerciseMappingPage(): React.ReactElement {
         </button>
         <button
           onClick={() => setActiveTab('mappings')}
-          className={`group relative flex-1 overflow-hidden px-8 py-5 font-mono text-sm font-bold uppercase tracking-wider transition-all duration-200 ${
+          className={`group relative flex-1 overflow-hidden border-r-2 border-zinc-700 px-8 py-5 font-mono text-sm font-bold uppercase tracking-wider transition-all duration-200 ${
             activeTab === 'mappings'
               ? 'bg-cyan-500 text-zinc-900 shadow-[0_0_30px_rgba(6,182,212,0.2)]'
               : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700 hover:text-white'
@@ -144,12 +149,110 @@ export function ExerciseMappingPage(): React.ReactElement {
             My Mappings
           </span>
         </button>
+        <button
+          onClick={() => setActiveTab('rules')}
+          className={`group relative flex-1 overflow-hidden border-r-2 border-zinc-700 px-8 py-5 font-mono text-sm font-bold uppercase tracking-wider transition-all duration-200 ${
+            activeTab === 'rules'
+              ? 'bg-cyan-500 text-zinc-900 shadow-[0_0_30px_rgba(6,182,212,0.2)]'
+              : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700 hover:text-white'
+          }`}
+        >
+          {activeTab !== 'rules' && (
+            <div className="absolute inset-0 bg-gradient-to-r from-transparent via-cyan-500/5 to-transparent opacity-0 transition-opacity duration-300 group-hover:opacity-100" />
+          )}
+          <span className="relative flex items-center justify-center gap-2">
+            <svg
+              className={`h-4 w-4 transition-transform duration-200 ${
+                activeTab === 'rules' ? 'scale-110' : 'group-hover:scale-110'
+              }`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z"
+              />
+            </svg>
+            Rules
+          </span>
+        </button>
+        <button
+          onClick={() => setActiveTab('learned')}
+          className={`group relative flex-1 overflow-hidden border-r-2 border-zinc-700 px-8 py-5 font-mono text-sm font-bold uppercase tracking-wider transition-all duration-200 ${
+            activeTab === 'learned'
+              ? 'bg-cyan-500 text-zinc-900 shadow-[0_0_30px_rgba(6,182,212,0.2)]'
+              : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700 hover:text-white'
+          }`}
+        >
+          {activeTab !== 'learned' && (
+            <div className="absolute inset-0 bg-gradient-to-r from-transparent via-cyan-500/5 to-transparent opacity-0 transition-opacity duration-300 group-hover:opacity-100" />
+          )}
+          <span className="relative flex items-center justify-center gap-2">
+            <svg
+              className={`h-4 w-4 transition-transform duration-200 ${
+                activeTab === 'learned' ? 'scale-110' : 'group-hover:scale-110'
+              }`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z"
+              />
+            </svg>
+            Auto-Match
+          </span>
+        </button>
+        <button
+          onClick={() => setActiveTab('library')}
+          className={`group relative flex-1 overflow-hidden px-8 py-5 font-mono text-sm font-bold uppercase tracking-wider transition-all duration-200 ${
+            activeTab === 'library'
+              ? 'bg-cyan-500 text-zinc-900 shadow-[0_0_30px_rgba(6,182,212,0.2)]'
+              : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700 hover:text-white'
+          }`}
+        >
+          {activeTab !== 'library' && (
+            <div className="absolute inset-0 bg-gradient-to-r from-transparent via-cyan-500/5 to-transparent opacity-0 transition-opacity duration-300 group-hover:opacity-100" />
+          )}
+          <span className="relative flex items-center justify-center gap-2">
+            <svg
+              className={`h-4 w-4 transition-transform duration-200 ${
+                activeTab === 'library' ? 'scale-110' : 'group-hover:scale-110'
+              }`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253"
+              />
+            </svg>
+            Custom Exercises
+          </span>
+        </button>
       </div>
 
       {/* Tab Content */}
       <div className="min-h-[400px]" style={{ animation: 'fadeIn 0.6s ease-out' }}>
-        {activeTab === 'unmapped' && <UnmappedExerciseList profileId={currentProfile.id} />}
+        {activeTab === 'unmapped' && (
+          <div className="space-y-6">
+            <AutoAppliedMatchQueue profileId={currentProfile.id} />
+            <UnmappedExerciseList profileId={currentProfile.id} />
+          </div>
+        )}
         {activeTab === 'mappings' && <ExistingMappingsList profileId={currentProfile.id} />}
+        {activeTab === 'rules' && <MappingRulesEditor profileId={currentProfile.id} />}
+        {activeTab === 'learned' && <LearnedMatchRulesEditor profileId={currentProfile.id} />}
+        {activeTab === 'library' && <CustomExerciseLibrary profileId={currentProfile.id} />}
       </div>
     </div>
   );
@@ -0,0 +1,94 @@
+/**
+ * Programs Page
+ * Plans training weeks (days, exercises and sets) and projects their weekly muscle
+ * volume against the profile's goals
+ */
+
+import { useState } from 'react';
+import { useCurrentProfile } from '../context/ProfileContext';
+import { useTrainingPrograms } from '@db/hooks/useTrainingPrograms';
+import { ProgramEditor } from '../components/program';
+
+/** Editor selection: a saved program's ID, or 'new' for an unsaved one */
+type ProgramSelection = string | 'new';
+
+export function Programs(): React.ReactElement {
+  const { currentProfile, isLoading: profileLoading } = useCurrentProfile();
+  const { programs, isLoading } = useTrainingPrograms(currentProfile?.id ?? null);
+  const [selection, setSelection] = useState<ProgramSelection | null>(null);
+
+  if (profileLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary-300 border-t-white" />
+      </div>
+    );
+  }
+
+  if (!currentProfile) {
+    return (
+      <div className="rounded-lg bg-primary-700 p-8 text-center">
+        <h2 className="mb-2 text-xl font-semibold text-white">No Profile Selected</h2>
+        <p className="text-primary-200">
+          Create or select a profile using the dropdown in the header to get started.
+        </p>
+      </div>
+    );
+  }
+
+  // Open the first program until one is picked
+  const activeSelection = selection ?? programs[0]?.id ?? 'new';
+  const activeProgram = programs.find((p) => p.id === activeSelection) ?? null;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-white">Training Programs</h2>
+        <p className="mt-1 text-sm text-primary-300">
+          Plan a week of training and see its projected sets per muscle against your weekly goals,
+          using your exercise mappings.
+        </p>
+      </div>
+
+      {/* Program picker */}
+      <div className="flex flex-wrap gap-2">
+        {programs.map((program) => (
+          <button
+            key={program.id}
+            onClick={() => setSelection(program.id)}
+            className={`rounded border px-3 py-1 text-xs font-bold uppercase tracking-wider transition-all ${
+              activeSelection === program.id
+                ? 'border-cyan-500 bg-cyan-500 text-zinc-950'
+                : 'border-zinc-700 bg-zinc-900 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+            }`}
+          >
+            {program.name}
+          </button>
+        ))}
+        <button
+          onClick={() => setSelection('new')}
+          className={`rounded border px-3 py-1 text-xs font-bold uppercase tracking-wider transition-all ${
+            activeSelection === 'new'
+              ? 'border-cyan-500 bg-cyan-500 text-zinc-950'
+              : 'border-zinc-700 bg-zinc-900 text-cyan-500 hover:bg-zinc-800 hover:text-cyan-300'
+          }`}
+        >
+          + New Program
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="h-64 animate-pulse rounded-lg bg-zinc-900" />
+      ) : (
+        <ProgramEditor
+          key={activeSelection}
+          profileId={currentProfile.id}
+          program={activeProgram}
+          onSaved={(program) => setSelection(program.id)}
+          onDeleted={() => setSelection(null)}
+        />
+      )}
+    </div>
+  );
+}
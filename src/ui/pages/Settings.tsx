@@ -10,11 +10,18 @@ import { useEnhancedImport } from '@db/hooks/useEnhancedImport';
 import { useUpdateProfile } from '@db/hooks/useProfiles';
 import { useHevySync, useValidateHevyApiKey, type HevySyncResult } from '@db/hooks/useHevySync';
 import { useUnmappedExercises } from '@db/hooks/useUnmappedExercises';
-import { parseCsv } from '@core/parsers/csv-parser';
-import type { Workout } from '@db/schema';
+import { parseCsv, type WeightUnit } from '@core/parsers/csv-parser';
+import type { Workout, PersonalRecord } from '@db/schema';
 import type { ScientificMuscle } from '@core/taxonomy';
+import type { SetEquivalence, EffectiveSetRules } from '@core/volume-calculator';
 import { WeeklyGoalEditor } from '../components/WeeklyGoalEditor';
 import { MuscleGroupEditor } from '@ui/components/settings/MuscleGroupEditor';
+import { SetEquivalenceEditor } from '@ui/components/settings/SetEquivalenceEditor';
+import { EffectiveSetRulesEditor } from '@ui/components/settings/EffectiveSetRulesEditor';
+import { AutoApplyThresholdEditor } from '@ui/components/settings/AutoApplyThresholdEditor';
+import { NewRecordsSummary } from '@ui/components/settings/NewRecordsSummary';
+import { BackupRestore } from '@ui/components/settings/BackupRestore';
+import { MappingPackTransfer } from '@ui/components/settings/MappingPackTransfer';
 
 export function Settings(): React.ReactElement {
   const { currentProfile, isLoading } = useCurrentProfile();
@@ -29,8 +36,11 @@ export function Settings(): React.ReactElement {
     imported: number;
     skipped: number;
     unmappedCount?: number;
+    autoAppliedCount?: number;
+    personalRecords: PersonalRecord[];
   } | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  const [csvWeightUnit, setCsvWeightUnit] = useState<WeightUnit>('kg');
 
   // API key state
   const [apiKey, setApiKey] = useState('');
@@ -50,10 +60,10 @@ export function Settings(): React.ReactElement {
 
     try {
       const text = await file.text();
-      const { workouts, format } = parseCsv(text);
+      const { workouts, format } = parseCsv(text, { weightUnit: csvWeightUnit });
 
       if (format === 'unknown') {
-        setImportError('Unknown CSV format. Please use a Hevy export file.');
+        setImportError('Unknown CSV format. Please use a Hevy or Strong export file.');
         return;
       }
 
@@ -69,6 +79,7 @@ export function Settings(): React.ReactElement {
         date: w.date,
         title: w.title,
         sets: w.sets,
+        exercises: w.exercises,
       }));
 
       const result = await importWorkouts(workoutsWithProfile);
@@ -136,6 +147,37 @@ export function Settings(): React.ReactElement {
     });
   };
 
+  const handleSaveSetEquivalence = async (setEquivalence: SetEquivalence): Promise<void> => {
+    if (!currentProfile) return;
+
+    await updateProfile({
+      ...currentProfile,
+      setEquivalence,
+    });
+  };
+
+  const handleSaveEffectiveSetRules = async (
+    effectiveSetRules: EffectiveSetRules
+  ): Promise<void> => {
+    if (!currentProfile) return;
+
+    await updateProfile({
+      ...currentProfile,
+      effectiveSetRules,
+    });
+  };
+
+  const handleSaveAutoMatchThreshold = async (
+    autoMatchThreshold: number | undefined
+  ): Promise<void> => {
+    if (!currentProfile) return;
+
+    await updateProfile({
+      ...currentProfile,
+      autoMatchThreshold,
+    });
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -146,11 +188,19 @@ export function Settings(): React.ReactElement {
 
   if (!currentProfile) {
     return (
-      <div className="rounded-lg bg-primary-700 p-8 text-center">
-        <h2 className="mb-2 text-xl font-semibold text-white">No Profile Selected</h2>
-        <p className="text-primary-200">
-          Create or select a profile using the dropdown in the header to access settings.
-        </p>
+      <div className="space-y-6">
+        <div className="rounded-lg bg-primary-700 p-8 text-center">
+          <h2 className="mb-2 text-xl font-semibold text-white">No Profile Selected</h2>
+          <p className="text-primary-200">
+            Create or select a profile using the dropdown in the header to access settings.
+          </p>
+        </div>
+
+        {/* Restore is available without a profile, e.g. after browser data was cleared */}
+        <section className="rounded-lg bg-primary-700 p-6">
+          <h3 className="mb-4 text-lg font-semibold text-white">Restore Backup</h3>
+          <BackupRestore profile={null} />
+        </section>
       </div>
     );
   }
@@ -266,10 +316,19 @@ export function Settings(): React.ReactElement {
                     {syncResult.updated > 0 && <li>Updated: {syncResult.updated} workouts</li>}
                     {syncResult.deleted > 0 && <li>Deleted: {syncResult.deleted} workouts</li>}
                     {syncResult.skipped > 0 && <li>Skipped: {syncResult.skipped} workouts</li>}
+                    {syncResult.autoApplied > 0 && (
+                      <li>
+                        Auto-mapped: {syncResult.autoApplied} exercises (review in Exercise
+                        Mappings)
+                      </li>
+                    )}
                     {syncResult.imported === 0 &&
                       syncResult.updated === 0 &&
                       syncResult.deleted === 0 && <li>No changes found</li>}
                   </ul>
+                  {syncResult.personalRecords.length > 0 && (
+                    <NewRecordsSummary records={syncResult.personalRecords} />
+                  )}
                 </div>
               )}
 
@@ -284,13 +343,13 @@ export function Settings(): React.ReactElement {
       <section className="rounded-lg bg-primary-700 p-6">
         <h3 className="mb-4 text-lg font-semibold text-white">CSV Import</h3>
         <p className="mb-4 text-sm text-primary-300">
-          Import workouts from a Hevy CSV export file. This is useful if you don&apos;t have an API
-          key or want to import historical data.
+          Import workouts from a Hevy or Strong CSV export file. This is useful if you don&apos;t
+          have an API key or want to import historical data.
         </p>
         <div className="space-y-4">
           <div>
             <label className="mb-2 block text-sm text-primary-200">
-              Import from CSV (Hevy format)
+              Import from CSV (Hevy or Strong format)
             </label>
             <input
               type="file"
@@ -301,6 +360,22 @@ export function Settings(): React.ReactElement {
             />
           </div>
 
+          <div>
+            <label className="mb-1 block text-sm text-primary-200">Strong weight unit</label>
+            <select
+              value={csvWeightUnit}
+              onChange={(e) => setCsvWeightUnit(e.target.value as WeightUnit)}
+              disabled={isImporting}
+              className="rounded border border-primary-500 bg-primary-800 px-3 py-2 text-sm text-white focus:border-primary-300 focus:outline-none"
+            >
+              <option value="kg">kg</option>
+              <option value="lbs">lbs</option>
+            </select>
+            <p className="mt-1 text-xs text-primary-300">
+              Used only when a Strong export doesn&apos;t state its unit. Weights are stored in kg.
+            </p>
+          </div>
+
           {/* Import Status */}
           {isImporting && (
             <div className="flex items-center gap-2 text-primary-200">
@@ -319,6 +394,15 @@ export function Settings(): React.ReactElement {
                   to map them.
                 </span>
               )}
+              {!!importResult.autoAppliedCount && (
+                <span className="block mt-1 text-sm">
+                  Auto-mapped {importResult.autoAppliedCount} exercise(s). Review them in Exercise
+                  Mappings.
+                </span>
+              )}
+              {importResult.personalRecords.length > 0 && (
+                <NewRecordsSummary records={importResult.personalRecords} />
+              )}
             </div>
           )}
 
@@ -326,6 +410,26 @@ export function Settings(): React.ReactElement {
         </div>
       </section>
 
+      {/* Backup & Restore Section */}
+      <section className="rounded-lg bg-primary-700 p-6">
+        <h3 className="mb-4 text-lg font-semibold text-white">Backup &amp; Restore</h3>
+        <p className="mb-4 text-sm text-primary-300">
+          All data is stored only in this browser. Download a backup regularly so clearing
+          browser data doesn&apos;t lose your history and customizations.
+        </p>
+        <BackupRestore profile={currentProfile} />
+      </section>
+
+      {/* Mapping Packs Section */}
+      <section className="rounded-lg bg-primary-700 p-6">
+        <h3 className="mb-4 text-lg font-semibold text-white">Mapping Packs</h3>
+        <p className="mb-4 text-sm text-primary-300">
+          Share exercise mappings, default overrides and muscle groups with another profile or a
+          teammate. Workouts and goals are not included.
+        </p>
+        <MappingPackTransfer profile={currentProfile} />
+      </section>
+
       {/* Goals Section */}
       <section className="rounded-lg bg-primary-700 p-6">
         <h3 className="mb-4 text-lg font-semibold text-white">Weekly Goals</h3>
@@ -338,6 +442,26 @@ export function Settings(): React.ReactElement {
         />
       </section>
 
+      {/* Timed & Distance Sets Section */}
+      <section className="rounded-lg bg-primary-700 p-6">
+        <h3 className="mb-4 text-lg font-semibold text-white">Timed &amp; Distance Sets</h3>
+        <SetEquivalenceEditor
+          equivalence={currentProfile.setEquivalence}
+          onSave={handleSaveSetEquivalence}
+          isSaving={isUpdating}
+        />
+      </section>
+
+      {/* Effective Sets Section */}
+      <section className="rounded-lg bg-primary-700 p-6">
+        <h3 className="mb-4 text-lg font-semibold text-white">Effective Sets</h3>
+        <EffectiveSetRulesEditor
+          rules={currentProfile.effectiveSetRules}
+          onSave={handleSaveEffectiveSetRules}
+          isSaving={isUpdating}
+        />
+      </section>
+
       {/* Muscle Groups Section */}
       <section className="rounded-lg bg-primary-700 p-6">
         <h3 className="mb-4 text-lg font-semibold text-white">Muscle Groups</h3>
@@ -374,6 +498,16 @@ export function Settings(): React.ReactElement {
         </div>
       </section>
 
+      {/* Auto-Apply Matches Section */}
+      <section className="rounded-lg bg-primary-700 p-6">
+        <h3 className="mb-4 text-lg font-semibold text-white">Auto-Apply Matches</h3>
+        <AutoApplyThresholdEditor
+          threshold={currentProfile.autoMatchThreshold}
+          onSave={handleSaveAutoMatchThreshold}
+          isSaving={isUpdating}
+        />
+      </section>
+
       {/* Default Mappings Section */}
       <section className="rounded-lg bg-primary-700 p-6">
         <div className="flex items-center justify-between">
@@ -0,0 +1,173 @@
+/**
+ * Trends Page
+ * Weekly fractional volume per muscle or functional group over the last N weeks
+ */
+
+import { useMemo, useState } from 'react';
+import { useCurrentProfile } from '../context/ProfileContext';
+import { useVolumeTrends, type VolumeMode } from '@db/hooks/useVolumeStats';
+import { VolumeTrendCard, type VolumeTrendDatum } from '../components/VolumeTrendCard';
+import { FUNCTIONAL_GROUPS, SCIENTIFIC_MUSCLES } from '@core/taxonomy';
+
+type TrendLevel = 'muscles' | 'groups';
+
+const LEVEL_OPTIONS: { value: TrendLevel; label: string }[] = [
+  { value: 'groups', label: 'Groups' },
+  { value: 'muscles', label: 'Muscles' },
+];
+
+const WEEK_OPTIONS = [4, 8, 12, 26];
+
+const VOLUME_MODE_OPTIONS: { value: VolumeMode; label: string }[] = [
+  { value: 'raw', label: 'Raw' },
+  { value: 'effective', label: 'Effective' },
+];
+
+interface SegmentedToggleProps<T extends string | number> {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  label: string;
+}
+
+function SegmentedToggle<T extends string | number>({
+  options,
+  value,
+  onChange,
+  label,
+}: SegmentedToggleProps<T>): React.ReactElement {
+  return (
+    <div
+      className="flex gap-0 overflow-hidden rounded border border-zinc-700"
+      role="radiogroup"
+      aria-label={label}
+    >
+      {options.map((option, index) => (
+        <button
+          key={option.value}
+          type="button"
+          role="radio"
+          aria-checked={value === option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-1 text-xs font-bold uppercase tracking-wider transition-all ${
+            index > 0 ? 'border-l border-zinc-700' : ''
+          } ${
+            value === option.value
+              ? 'bg-cyan-500 text-zinc-950'
+              : 'bg-zinc-900 text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function Trends(): React.ReactElement {
+  const { currentProfile, isLoading: profileLoading } = useCurrentProfile();
+  const [level, setLevel] = useState<TrendLevel>('groups');
+  const [weekCount, setWeekCount] = useState(12);
+  const [volumeMode, setVolumeMode] = useState<VolumeMode>('raw');
+
+  const { points, muscleGoals, groupGoals, muscleMapping, isLoading, error } = useVolumeTrends(
+    currentProfile?.id ?? null,
+    weekCount,
+    volumeMode
+  );
+
+  const series = useMemo(() => {
+    const labels = points.map((p) =>
+      p.range.start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+    );
+    const toData = (values: number[]): VolumeTrendDatum[] =>
+      values.map((volume, index) => ({ label: labels[index] ?? '', volume }));
+
+    if (level === 'muscles') {
+      return SCIENTIFIC_MUSCLES.map((muscle) => ({
+        name: muscle,
+        goal: muscleGoals[muscle],
+        data: toData(points.map((p) => p.muscles[muscle] ?? 0)),
+      }));
+    }
+
+    // Skip groups with no muscles assigned under the profile's customization
+    const assignedGroups = new Set(Object.values(muscleMapping));
+    return FUNCTIONAL_GROUPS.filter((group) => assignedGroups.has(group)).map((group) => ({
+      name: group,
+      goal: groupGoals[group] ?? 0,
+      data: toData(points.map((p) => p.groups[group] ?? 0)),
+    }));
+  }, [points, level, muscleGoals, groupGoals, muscleMapping]);
+
+  if (profileLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary-300 border-t-white" />
+      </div>
+    );
+  }
+
+  if (!currentProfile) {
+    return (
+      <div className="rounded-lg bg-primary-700 p-8 text-center">
+        <h2 className="mb-2 text-xl font-semibold text-white">No Profile Selected</h2>
+        <p className="text-primary-200">
+          Create or select a profile using the dropdown in the header to get started.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Volume Trends</h2>
+          <p className="mt-1 text-sm text-primary-300">
+            Weekly sets (Mon–Sun) against your weekly goals. Averages exclude the current week.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <SegmentedToggle
+            label="Trend level"
+            options={LEVEL_OPTIONS}
+            value={level}
+            onChange={setLevel}
+          />
+          <SegmentedToggle
+            label="Number of weeks"
+            options={WEEK_OPTIONS.map((weeks) => ({ value: weeks, label: `${weeks}w` }))}
+            value={weekCount}
+            onChange={setWeekCount}
+          />
+          <SegmentedToggle
+            label="Volume mode"
+            options={VOLUME_MODE_OPTIONS}
+            value={volumeMode}
+            onChange={setVolumeMode}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <div className="rounded-lg border-2 border-red-500/50 bg-red-500/10 p-4 text-red-400">
+          Error loading trends: {error.message}
+        </div>
+      ) : isLoading ? (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {[...Array(6)].map((_, i) => (
+            <div key={i} className="h-40 animate-pulse rounded-lg bg-zinc-900" />
+          ))}
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {series.map((item) => (
+            <VolumeTrendCard key={item.name} name={item.name} data={item.data} goal={item.goal} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}